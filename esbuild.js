@@ -25,17 +25,19 @@ const esbuildProblemMatcherPlugin = {
 
 async function main() {
 	const ctx = await esbuild.context({
-		entryPoints: [
-			'src/extension.ts'
-		],
+		entryPoints: {
+			extension: 'src/extension.ts',
+			cli: 'src/cli/main.ts',
+		},
 		bundle: true,
 		format: 'cjs',
 		minify: production,
 		sourcemap: !production,
 		sourcesContent: false,
 		platform: 'node',
-		outfile: 'dist/extension.js',
-		external: ['vscode'],
+		outdir: 'dist',
+		// Loaded at runtime to measure bundle sizes, with its native binary
+		external: ['vscode', 'esbuild'],
 		logLevel: 'silent',
 		plugins: [
 			/* add to the end of plugins array */
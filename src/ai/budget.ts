@@ -0,0 +1,63 @@
+import { AiUsage } from "./types";
+
+export interface BudgetOptions {
+  // Prompt plus completion tokens allowed per analysis run
+  maxTokens: number;
+  // Spend allowed per analysis run; 0 disables the cost limit
+  maxCost: number;
+  // Prices per million tokens
+  inputPrice: number;
+  outputPrice: number;
+}
+
+export interface TokenBudget {
+  options: BudgetOptions;
+  spent: AiUsage;
+  // Whether a request of this size still fits, assuming the full completion
+  canAfford(promptTokens: number, maxCompletionTokens: number): boolean;
+  record(promptTokens: number, completionTokens: number): void;
+  costOf(promptTokens: number, completionTokens: number): number;
+}
+
+// Rough token estimate (about four characters per token for English/JSON),
+// good enough to stay under a budget before the provider reports real usage
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function createTokenBudget(options: BudgetOptions): TokenBudget {
+  const spent: AiUsage = { promptTokens: 0, completionTokens: 0, cost: 0 };
+
+  const costOf = (promptTokens: number, completionTokens: number) =>
+    (promptTokens * options.inputPrice +
+      completionTokens * options.outputPrice) /
+    1_000_000;
+
+  return {
+    options,
+    spent,
+    costOf,
+
+    canAfford: (promptTokens, maxCompletionTokens) => {
+      const tokens =
+        spent.promptTokens +
+        spent.completionTokens +
+        promptTokens +
+        maxCompletionTokens;
+      if (tokens > options.maxTokens) {
+        return false;
+      }
+      return (
+        options.maxCost <= 0 ||
+        spent.cost + costOf(promptTokens, maxCompletionTokens) <=
+          options.maxCost
+      );
+    },
+
+    record: (promptTokens, completionTokens) => {
+      spent.promptTokens += promptTokens;
+      spent.completionTokens += completionTokens;
+      spent.cost += costOf(promptTokens, completionTokens);
+    },
+  };
+}
@@ -0,0 +1,187 @@
+import axios from "axios";
+import {
+  RequestScheduler,
+  createRequestScheduler,
+} from "../registry/scheduler";
+import { errorHandler } from "../utils";
+import { TokenBudget, estimateTokens } from "./budget";
+import {
+  AiSuggestion,
+  PackageSummary,
+  RecommendationProvider,
+  RecommendationResult,
+} from "./types";
+
+export interface OpenAICompatibleOptions {
+  // e.g. https://api.openai.com/v1 or http://localhost:11434/v1 for Ollama
+  baseUrl: string;
+  model: string;
+  // Optional for local servers
+  apiKey?: string;
+  budget: TokenBudget;
+  // Completion tokens reserved per request
+  maxCompletionTokens?: number;
+  // Packages summarised per request
+  batchSize?: number;
+  scheduler?: RequestScheduler;
+}
+
+// Thrown when the model's reply doesn't match the expected JSON shape
+export class AiResponseError extends Error {
+  constructor(message: string) {
+    super(`Invalid AI response: ${message}`);
+    this.name = "AiResponseError";
+  }
+}
+
+const systemPrompt = [
+  "You review npm dependencies of a JavaScript/TypeScript project.",
+  "For each package you receive a JSON summary of its metadata and how the project uses it.",
+  "Suggest maintained, smaller or more modern npm packages only where switching is clearly worthwhile, considering the imported names.",
+  "Never invent package names. Return an empty alternatives array when the package is a good choice.",
+  'Reply with JSON only, in the form {"recommendations":[{"package":"name","summary":"one sentence","alternatives":[{"name":"npm-package","reason":"one sentence"}]}]}.',
+].join(" ");
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const nonEmpty = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+// Check a reply against the schema above. Entries for packages we didn't
+// ask about, and alternatives that name the package itself, are dropped.
+export function parseRecommendations(
+  content: string,
+  requested: string[]
+): AiSuggestion[] {
+  let document: unknown;
+  try {
+    // Some servers wrap JSON mode output in a Markdown fence anyway
+    document = JSON.parse(
+      content
+        .trim()
+        .replace(/^```(?:json)?\s*/, "")
+        .replace(/\s*```$/, "")
+    );
+  } catch (error) {
+    throw new AiResponseError(`not JSON (${errorHandler(error)})`);
+  }
+  if (!isObject(document) || !Array.isArray(document.recommendations)) {
+    throw new AiResponseError(
+      'expected an object with a "recommendations" array'
+    );
+  }
+
+  return document.recommendations.flatMap((entry: unknown, i: number) => {
+    if (!isObject(entry) || !nonEmpty(entry.package)) {
+      throw new AiResponseError(
+        `recommendations[${i}].package must be a string`
+      );
+    }
+    if (!requested.includes(entry.package)) {
+      return [];
+    }
+    if (!Array.isArray(entry.alternatives)) {
+      throw new AiResponseError(
+        `recommendations[${i}].alternatives must be an array`
+      );
+    }
+    const alternatives = entry.alternatives.map((alt: unknown, j: number) => {
+      if (!isObject(alt) || !nonEmpty(alt.name) || !nonEmpty(alt.reason)) {
+        throw new AiResponseError(
+          `recommendations[${i}].alternatives[${j}] needs a "name" and a "reason"`
+        );
+      }
+      return { name: alt.name.trim(), reason: alt.reason.trim() };
+    });
+    return [
+      {
+        packageName: entry.package,
+        summary: nonEmpty(entry.summary) ? entry.summary.trim() : "",
+        alternatives: alternatives.filter(
+          (alt: { name: string }) => alt.name !== entry.package
+        ),
+      },
+    ];
+  });
+}
+
+// Provider for any OpenAI-compatible /chat/completions endpoint
+export function createOpenAICompatibleProvider(
+  options: OpenAICompatibleOptions
+): RecommendationProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, "");
+  const maxCompletionTokens = options.maxCompletionTokens ?? 1500;
+  const batchSize = options.batchSize ?? 15;
+  const scheduler = options.scheduler ?? createRequestScheduler();
+
+  const complete = async (batch: PackageSummary[]) => {
+    const user = JSON.stringify({ packages: batch });
+    const response = await scheduler.schedule(
+      `${baseUrl}/chat/completions`,
+      (signal) =>
+        axios.post(
+          `${baseUrl}/chat/completions`,
+          {
+            model: options.model,
+            temperature: 0,
+            max_tokens: maxCompletionTokens,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: systemPrompt },
+              { role: "user", content: user },
+            ],
+          },
+          {
+            signal,
+            headers: options.apiKey
+              ? { Authorization: `Bearer ${options.apiKey}` }
+              : {},
+          }
+        )
+    );
+    // Fall back to our estimate for servers that don't report usage
+    const usage = response.data?.usage;
+    options.budget.record(
+      usage?.prompt_tokens ?? estimateTokens(systemPrompt + user),
+      usage?.completion_tokens ??
+        estimateTokens(response.data?.choices?.[0]?.message?.content ?? "")
+    );
+    return parseRecommendations(
+      response.data?.choices?.[0]?.message?.content ?? "",
+      batch.map((summary) => summary.name)
+    );
+  };
+
+  return {
+    id: "openai-compatible",
+    description: `${options.model} via ${new URL(baseUrl).host}`,
+
+    recommend: async (packages) => {
+      const result: RecommendationResult = {
+        suggestions: [],
+        usage: options.budget.spent,
+        skipped: [],
+        errors: [],
+      };
+
+      // Batches run one after another so the budget check sees real usage
+      for (let i = 0; i < packages.length; i += batchSize) {
+        const batch = packages.slice(i, i + batchSize);
+        const promptTokens = estimateTokens(
+          systemPrompt + JSON.stringify({ packages: batch })
+        );
+        if (!options.budget.canAfford(promptTokens, maxCompletionTokens)) {
+          result.skipped.push(...packages.slice(i).map((pkg) => pkg.name));
+          break;
+        }
+        try {
+          result.suggestions.push(...(await complete(batch)));
+        } catch (error) {
+          result.errors.push(errorHandler(error));
+        }
+      }
+      return result;
+    },
+  };
+}
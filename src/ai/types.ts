@@ -0,0 +1,58 @@
+// Compact description of one package and how the project uses it, sent to
+// the model instead of raw packuments to keep prompts small
+export interface PackageSummary {
+  name: string;
+  version?: string;
+  latestVersion?: string;
+  description?: string;
+  license?: string;
+  weeklyDownloads?: number;
+  lastPublished?: string;
+  deprecated?: boolean;
+  advisories?: number;
+  usage: {
+    files: number;
+    // Named bindings imported across the project, e.g. ["format", "default"]
+    importedNames: string[];
+    // Deep import subpaths, e.g. ["fp", "locale/de"]
+    subpaths: string[];
+  };
+  // What the rules engine already suggests, so the model can build on it
+  ruleAlternatives: string[];
+}
+
+export interface AiAlternative {
+  name: string;
+  reason: string;
+}
+
+export interface AiSuggestion {
+  packageName: string;
+  summary: string;
+  alternatives: AiAlternative[];
+}
+
+export interface AiUsage {
+  promptTokens: number;
+  completionTokens: number;
+  // In the currency of the configured prices (USD by default)
+  cost: number;
+}
+
+export interface RecommendationResult {
+  suggestions: AiSuggestion[];
+  usage: AiUsage;
+  // Packages left out because the budget ran out
+  skipped: string[];
+  // Requests that failed or returned invalid JSON
+  errors: string[];
+}
+
+// Anything that can turn package summaries into suggestions: a hosted
+// model, a local server or a test stub
+export interface RecommendationProvider {
+  id: string;
+  // Shown next to AI suggestions, e.g. "gpt-4o-mini via api.openai.com"
+  description: string;
+  recommend(packages: PackageSummary[]): Promise<RecommendationResult>;
+}
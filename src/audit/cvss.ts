@@ -0,0 +1,62 @@
+// CVSS v3.x base score calculation, used when an advisory only carries a vector
+
+const weights: Record<string, Record<string, number>> = {
+  AV: { N: 0.85, A: 0.62, L: 0.55, P: 0.2 },
+  AC: { L: 0.77, H: 0.44 },
+  UI: { N: 0.85, R: 0.62 },
+  C: { H: 0.56, L: 0.22, N: 0 },
+  I: { H: 0.56, L: 0.22, N: 0 },
+  A: { H: 0.56, L: 0.22, N: 0 },
+};
+
+// Privileges Required weighs more when the scope changes
+const privilegeWeights: Record<string, Record<string, number>> = {
+  U: { N: 0.85, L: 0.62, H: 0.27 },
+  C: { N: 0.85, L: 0.68, H: 0.5 },
+};
+
+// CVSS 3.1 "Roundup": smallest one-decimal number >= value
+function roundUp(value: number): number {
+  const scaled = Math.round(value * 100000);
+  return scaled % 10000 === 0
+    ? scaled / 100000
+    : (Math.floor(scaled / 10000) + 1) / 10;
+}
+
+// Compute the base score of a "CVSS:3.1/AV:N/AC:L/..." vector, or undefined
+// if the vector is not a complete v3 vector
+export function cvss3BaseScore(vector: string): number | undefined {
+  const parts = vector.split("/");
+  if (!/^CVSS:3\.[01]$/.test(parts[0])) {
+    return undefined;
+  }
+  const metrics: Record<string, string> = {};
+  parts.slice(1).forEach((part) => {
+    const [key, value] = part.split(":");
+    metrics[key] = value;
+  });
+
+  const scope = metrics.S;
+  const value = (metric: string) => weights[metric]?.[metrics[metric]];
+  const privileges = privilegeWeights[scope]?.[metrics.PR];
+  const [av, ac, ui, c, i, a] = ["AV", "AC", "UI", "C", "I", "A"].map(value);
+  if (
+    [av, ac, ui, c, i, a, privileges].some((weight) => weight === undefined)
+  ) {
+    return undefined;
+  }
+
+  const iss = 1 - (1 - c!) * (1 - i!) * (1 - a!);
+  const impact =
+    scope === "U"
+      ? 6.42 * iss
+      : 7.52 * (iss - 0.029) - 3.25 * Math.pow(iss - 0.02, 15);
+  const exploitability = 8.22 * av! * ac! * privileges! * ui!;
+
+  if (impact <= 0) {
+    return 0;
+  }
+  return scope === "U"
+    ? roundUp(Math.min(impact + exploitability, 10))
+    : roundUp(Math.min(1.08 * (impact + exploitability), 10));
+}
@@ -0,0 +1,90 @@
+import { errorHandler } from "../utils";
+import {
+  Advisory,
+  AdvisorySeverity,
+  matchAdvisory,
+  severityOrder,
+} from "./osv";
+import { AdvisorySource } from "./sources";
+
+export * from "./osv";
+export * from "./sources";
+
+export interface AuditResult {
+  packageName: string;
+  version: string;
+  advisories: Advisory[];
+  // Most severe advisory level, if any advisory applies
+  highestSeverity?: AdvisorySeverity;
+  error?: string;
+}
+
+export interface AuditSummary {
+  auditedPackages: number;
+  vulnerablePackages: number;
+  counts: Record<AdvisorySeverity, number>;
+  errors: number;
+}
+
+const bySeverity = (a: Advisory, b: Advisory) =>
+  severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity);
+
+// Match every package's installed version against the advisory source
+export async function auditPackages(
+  packages: { name: string; version: string }[],
+  source: AdvisorySource
+): Promise<Record<string, AuditResult>> {
+  const results: Record<string, AuditResult> = {};
+
+  await Promise.all(
+    packages.map(async ({ name, version }) => {
+      try {
+        const records = await source.getAdvisories(name, version);
+        const advisories = records
+          .map((record) => matchAdvisory(record, name, version))
+          .filter((advisory): advisory is Advisory => !!advisory)
+          .sort(bySeverity);
+        results[name] = {
+          packageName: name,
+          version,
+          advisories,
+          highestSeverity: advisories[0]?.severity,
+        };
+      } catch (error) {
+        console.warn(
+          `Error auditing ${name}@${version}: ${errorHandler(error)}`
+        );
+        results[name] = {
+          packageName: name,
+          version,
+          advisories: [],
+          error: errorHandler(error),
+        };
+      }
+    })
+  );
+
+  return results;
+}
+
+// Totals for the report banner
+export function summarizeAudit(
+  results: Record<string, AuditResult>
+): AuditSummary {
+  const counts = Object.fromEntries(
+    severityOrder.map((severity) => [severity, 0])
+  ) as Record<AdvisorySeverity, number>;
+
+  Object.values(results).forEach((result) => {
+    result.advisories.forEach((advisory) => counts[advisory.severity]++);
+  });
+
+  return {
+    auditedPackages: Object.keys(results).length,
+    vulnerablePackages: Object.values(results).filter(
+      (result) => result.advisories.length > 0
+    ).length,
+    counts,
+    errors: Object.values(results).filter((result) => result.error).length,
+  };
+}
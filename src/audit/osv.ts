@@ -0,0 +1,215 @@
+import * as semver from "semver";
+import { cvss3BaseScore } from "./cvss";
+
+// The subset of the OSV schema (https://ossf.github.io/osv-schema/) we read
+export interface OsvEvent {
+  introduced?: string;
+  fixed?: string;
+  last_affected?: string;
+  limit?: string;
+}
+
+export interface OsvRange {
+  type: "SEMVER" | "ECOSYSTEM" | "GIT";
+  events: OsvEvent[];
+}
+
+export interface OsvAffected {
+  package?: { ecosystem: string; name: string };
+  ranges?: OsvRange[];
+  versions?: string[];
+}
+
+export interface OsvRecord {
+  id: string;
+  summary?: string;
+  details?: string;
+  aliases?: string[];
+  modified?: string;
+  withdrawn?: string;
+  severity?: { type: string; score: string }[];
+  affected?: OsvAffected[];
+  references?: { type: string; url: string }[];
+  database_specific?: { severity?: string };
+}
+
+export type AdvisorySeverity =
+  "critical" | "high" | "moderate" | "low" | "unknown";
+
+// Most severe first
+export const severityOrder: AdvisorySeverity[] = [
+  "critical",
+  "high",
+  "moderate",
+  "low",
+  "unknown",
+];
+
+// An advisory that applies to a specific installed version
+export interface Advisory {
+  id: string;
+  aliases: string[];
+  summary: string;
+  severity: AdvisorySeverity;
+  score?: number;
+  // Human-readable affected ranges, e.g. ">=1.0.0 <1.2.3"
+  affectedRanges: string[];
+  // Lowest fixed version above the installed one, if any
+  fixedVersion?: string;
+  url?: string;
+}
+
+// Map GHSA's database_specific severity or a CVSS v3 vector to our scale
+export function getSeverity(record: OsvRecord): {
+  severity: AdvisorySeverity;
+  score?: number;
+} {
+  const score = record.severity
+    ?.filter((entry) => entry.type === "CVSS_V3")
+    .map((entry) => cvss3BaseScore(entry.score))
+    .find((value) => value !== undefined);
+
+  const label = record.database_specific?.severity?.toLowerCase();
+  if (label === "critical" || label === "high" || label === "low") {
+    return { severity: label, score };
+  }
+  if (label === "moderate" || label === "medium") {
+    return { severity: "moderate", score };
+  }
+
+  if (score === undefined) {
+    return { severity: "unknown" };
+  }
+  if (score >= 9) {
+    return { severity: "critical", score };
+  }
+  if (score >= 7) {
+    return { severity: "high", score };
+  }
+  if (score >= 4) {
+    return { severity: "moderate", score };
+  }
+  return { severity: "low", score };
+}
+
+// "0" is OSV's marker for "every version"
+const compareEventVersions = (a: string, b: string) =>
+  a === "0" ? (b === "0" ? 0 : -1) : b === "0" ? 1 : semver.compare(a, b);
+
+const eventVersion = (event: OsvEvent) =>
+  event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? "";
+
+// Evaluate one SEMVER/ECOSYSTEM range for a version, following the OSV
+// evaluation algorithm over the sorted event list
+function isInRange(version: string, range: OsvRange): boolean {
+  const events = range.events
+    .filter((event) => {
+      const value = eventVersion(event);
+      return value === "0" || semver.valid(value);
+    })
+    .sort((a, b) => compareEventVersions(eventVersion(a), eventVersion(b)));
+
+  let affected = false;
+  for (const event of events) {
+    if (event.introduced !== undefined) {
+      if (compareEventVersions(version, event.introduced) >= 0) {
+        affected = true;
+      }
+    } else if (event.fixed !== undefined) {
+      if (semver.gte(version, event.fixed)) {
+        affected = false;
+      }
+    } else if (event.last_affected !== undefined) {
+      if (semver.gt(version, event.last_affected)) {
+        affected = false;
+      }
+    } else if (event.limit !== undefined) {
+      if (semver.gte(version, event.limit)) {
+        affected = false;
+      }
+    }
+  }
+  return affected;
+}
+
+// Describe a range as ">=a <b" fragments for display
+function describeRange(range: OsvRange): string[] {
+  const descriptions: string[] = [];
+  let start: string | undefined;
+  range.events.forEach((event) => {
+    if (event.introduced !== undefined) {
+      start = event.introduced === "0" ? ">=0" : `>=${event.introduced}`;
+    } else if (start !== undefined && event.fixed !== undefined) {
+      descriptions.push(`${start} <${event.fixed}`);
+      start = undefined;
+    } else if (start !== undefined && event.last_affected !== undefined) {
+      descriptions.push(`${start} <=${event.last_affected}`);
+      start = undefined;
+    }
+  });
+  if (start !== undefined) {
+    descriptions.push(start);
+  }
+  return descriptions;
+}
+
+// Check an OSV record against an installed npm package version
+export function matchAdvisory(
+  record: OsvRecord,
+  packageName: string,
+  version: string
+): Advisory | undefined {
+  if (record.withdrawn || !semver.valid(version)) {
+    return undefined;
+  }
+
+  const affectedEntries = (record.affected || []).filter(
+    (entry) =>
+      entry.package?.ecosystem === "npm" && entry.package.name === packageName
+  );
+
+  const matching = affectedEntries.filter(
+    (entry) =>
+      entry.versions?.includes(version) ||
+      (entry.ranges || [])
+        .filter((range) => range.type !== "GIT")
+        .some((range) => isInRange(version, range))
+  );
+  if (matching.length === 0) {
+    return undefined;
+  }
+
+  const ranges = matching.flatMap((entry) =>
+    (entry.ranges || []).filter((range) => range.type !== "GIT")
+  );
+  const fixedVersion = ranges
+    .flatMap((range) => range.events.map((event) => event.fixed))
+    .filter(
+      (fixed): fixed is string =>
+        !!fixed && !!semver.valid(fixed) && semver.gt(fixed, version)
+    )
+    .sort(semver.compare)[0];
+
+  const { severity, score } = getSeverity(record);
+  const advisoryUrl =
+    record.references?.find((reference) => reference.type === "ADVISORY")
+      ?.url || record.references?.[0]?.url;
+
+  return {
+    id: record.id,
+    aliases: record.aliases || [],
+    summary: record.summary || record.details?.split("\n")[0] || record.id,
+    severity,
+    score,
+    affectedRanges: ranges.flatMap(describeRange),
+    fixedVersion,
+    url: advisoryUrl,
+  };
+}
+
+// npm package names an advisory applies to
+export function getAffectedPackageNames(record: OsvRecord): string[] {
+  return (record.affected || [])
+    .filter((entry) => entry.package?.ecosystem === "npm")
+    .map((entry) => entry.package!.name);
+}
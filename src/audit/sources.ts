@@ -0,0 +1,126 @@
+import * as fs from "fs";
+import * as path from "path";
+import AdmZip from "adm-zip";
+import axios from "axios";
+import { MetadataCache } from "../cache/metadataCache";
+import { RequestScheduler, createRequestScheduler } from "../registry/scheduler";
+import { errorHandler } from "../utils";
+import { OsvRecord, getAffectedPackageNames } from "./osv";
+
+// Where advisories come from: a remote OSV-compatible API or local files
+export interface AdvisorySource {
+  description: string;
+  getAdvisories(packageName: string, version: string): Promise<OsvRecord[]>;
+}
+
+// Parse one JSON document holding a single OSV record or an array of them
+function parseRecords(content: string, origin: string): OsvRecord[] {
+  try {
+    const data = JSON.parse(content);
+    const records = Array.isArray(data) ? data : [data];
+    return records.filter(
+      (record) => record && typeof record.id === "string"
+    ) as OsvRecord[];
+  } catch (error) {
+    console.warn(`Skipping invalid advisory ${origin}: ${errorHandler(error)}`);
+    return [];
+  }
+}
+
+function readDirectoryRecords(dirPath: string): OsvRecord[] {
+  const records: OsvRecord[] = [];
+  fs.readdirSync(dirPath, { withFileTypes: true }).forEach((entry) => {
+    const fullPath = path.join(dirPath, entry.name);
+    if (entry.isDirectory()) {
+      records.push(...readDirectoryRecords(fullPath));
+    } else if (entry.name.endsWith(".json")) {
+      records.push(
+        ...parseRecords(fs.readFileSync(fullPath, "utf8"), fullPath)
+      );
+    }
+  });
+  return records;
+}
+
+function readZipRecords(zipPath: string): OsvRecord[] {
+  const records: OsvRecord[] = [];
+  new AdmZip(zipPath).getEntries().forEach((entry) => {
+    if (!entry.isDirectory && entry.entryName.endsWith(".json")) {
+      records.push(
+        ...parseRecords(
+          entry.getData().toString("utf8"),
+          `${zipPath}:${entry.entryName}`
+        )
+      );
+    }
+  });
+  return records;
+}
+
+// Advisories from a directory of OSV JSON files or a zip of them (such as
+// the osv.dev npm/all.zip export), for air-gapped use and tests
+export function createLocalAdvisorySource(
+  advisoryPath: string
+): AdvisorySource {
+  let index: Map<string, OsvRecord[]> | undefined;
+
+  const load = () => {
+    if (index) {
+      return index;
+    }
+    const records = advisoryPath.toLowerCase().endsWith(".zip")
+      ? readZipRecords(advisoryPath)
+      : readDirectoryRecords(advisoryPath);
+
+    index = new Map();
+    records.forEach((record) => {
+      new Set(getAffectedPackageNames(record)).forEach((name) => {
+        index!.set(name, [...(index!.get(name) || []), record]);
+      });
+    });
+    return index;
+  };
+
+  return {
+    description: advisoryPath,
+    getAdvisories: async (packageName) => load().get(packageName) || [],
+  };
+}
+
+// Advisories from an OSV-compatible API (https://api.osv.dev/v1 by default),
+// cached per package version when a cache is given
+export function createEndpointAdvisorySource(
+  endpoint: string,
+  cache?: MetadataCache,
+  scheduler: RequestScheduler = createRequestScheduler()
+): AdvisorySource {
+  const baseUrl = endpoint.replace(/\/+$/, "");
+
+  const query = async (packageName: string, version: string) => {
+    const response = await scheduler.schedule(
+      `${baseUrl}/query ${packageName}@${version}`,
+      (signal) =>
+        axios.post(
+          `${baseUrl}/query`,
+          { package: { name: packageName, ecosystem: "npm" }, version },
+          { signal }
+        )
+    );
+    return (response.data?.vulns || []) as OsvRecord[];
+  };
+
+  return {
+    description: baseUrl,
+    getAdvisories: async (packageName, version) => {
+      if (!cache) {
+        return query(packageName, version);
+      }
+      const cached = await cache.fetch(
+        "advisories",
+        `${baseUrl} ${packageName}@${version}`,
+        async () => ({ data: await query(packageName, version) })
+      );
+      return cached.data;
+    },
+  };
+}
@@ -0,0 +1,225 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { errorHandler } from "../utils";
+
+export type CacheKind =
+  "packument" | "downloads" | "advisories" | "repositories";
+
+export const cacheKinds: CacheKind[] = [
+  "packument",
+  "downloads",
+  "advisories",
+  "repositories",
+];
+
+export interface CacheEntry<T> {
+  key: string;
+  kind: CacheKind;
+  fetchedAt: number;
+  etag?: string;
+  data: T;
+}
+
+// What a fetcher hands back: new data, or confirmation the cached copy is current
+export type FetchResult<T> =
+  { data: T; etag?: string; notModified?: false } | { notModified: true };
+
+export interface CachedValue<T> {
+  data: T;
+  fetchedAt: number;
+  // Served from cache past its TTL (offline, or the network failed)
+  stale: boolean;
+  fromCache: boolean;
+}
+
+export interface CacheOptions {
+  directory: string;
+  // Seconds each kind of entry stays fresh
+  ttl: Record<CacheKind, number>;
+  // Never touch the network; serve whatever is cached
+  offline: boolean;
+}
+
+export interface CacheStats {
+  kind: CacheKind;
+  entries: number;
+  bytes: number;
+  oldest?: number;
+  newest?: number;
+}
+
+export interface MetadataCache {
+  options: CacheOptions;
+  get<T>(kind: CacheKind, key: string): CacheEntry<T> | undefined;
+  set<T>(kind: CacheKind, key: string, data: T, etag?: string): void;
+  // A usable entry without fetching: fresh, or any entry when offline
+  lookup<T>(kind: CacheKind, key: string): CachedValue<T> | undefined;
+  fetch<T>(
+    kind: CacheKind,
+    key: string,
+    fetcher: (etag?: string) => Promise<FetchResult<T>>
+  ): Promise<CachedValue<T>>;
+  stats(): CacheStats[];
+  clear(kind?: CacheKind): void;
+}
+
+export class OfflineCacheMissError extends Error {
+  constructor(kind: CacheKind, key: string) {
+    super(`${key} is not cached (${kind}) and offline mode is enabled`);
+    this.name = "OfflineCacheMissError";
+  }
+}
+
+export const defaultCacheTtl: Record<CacheKind, number> = {
+  packument: 24 * 60 * 60,
+  downloads: 24 * 60 * 60,
+  advisories: 6 * 60 * 60,
+  repositories: 7 * 24 * 60 * 60,
+};
+
+// File-backed cache: one JSON file per entry under <directory>/<kind>/
+export function createMetadataCache(options: CacheOptions): MetadataCache {
+  const entryPath = (kind: CacheKind, key: string) =>
+    path.join(
+      options.directory,
+      kind,
+      `${crypto.createHash("sha1").update(key).digest("hex")}.json`
+    );
+
+  const get = <T>(kind: CacheKind, key: string): CacheEntry<T> | undefined => {
+    const file = entryPath(kind, key);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    try {
+      const entry = JSON.parse(fs.readFileSync(file, "utf8"));
+      return entry.key === key ? entry : undefined;
+    } catch (error) {
+      console.warn(
+        `Ignoring corrupt cache entry ${file}: ${errorHandler(error)}`
+      );
+      return undefined;
+    }
+  };
+
+  const write = <T>(entry: CacheEntry<T>) => {
+    const file = entryPath(entry.kind, entry.key);
+    try {
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.writeFileSync(file, JSON.stringify(entry));
+    } catch (error) {
+      console.warn(
+        `Unable to write cache entry ${file}: ${errorHandler(error)}`
+      );
+    }
+  };
+
+  const set = <T>(kind: CacheKind, key: string, data: T, etag?: string) =>
+    write({ key, kind, fetchedAt: Date.now(), etag, data });
+
+  const lookup = <T>(
+    kind: CacheKind,
+    key: string
+  ): CachedValue<T> | undefined => {
+    const entry = get<T>(kind, key);
+    const isFresh =
+      entry && Date.now() - entry.fetchedAt < options.ttl[kind] * 1000;
+
+    if (entry && (isFresh || options.offline)) {
+      return {
+        data: entry.data,
+        fetchedAt: entry.fetchedAt,
+        stale: !isFresh,
+        fromCache: true,
+      };
+    }
+    return undefined;
+  };
+
+  return {
+    options,
+    get,
+    set,
+    lookup,
+
+    fetch: async <T>(
+      kind: CacheKind,
+      key: string,
+      fetcher: (etag?: string) => Promise<FetchResult<T>>
+    ): Promise<CachedValue<T>> => {
+      const cached = lookup<T>(kind, key);
+      if (cached) {
+        return cached;
+      }
+      if (options.offline) {
+        throw new OfflineCacheMissError(kind, key);
+      }
+
+      const entry = get<T>(kind, key);
+
+      try {
+        const result = await fetcher(entry?.etag);
+        if (result.notModified) {
+          if (!entry) {
+            throw new Error(`Got 304 for ${key} without a cached copy`);
+          }
+          // Revalidated: keep the data, restart the TTL
+          const revalidated = { ...entry, fetchedAt: Date.now() };
+          write(revalidated);
+          return {
+            data: entry.data,
+            fetchedAt: revalidated.fetchedAt,
+            stale: false,
+            fromCache: true,
+          };
+        }
+        set(kind, key, result.data, result.etag);
+        return {
+          data: result.data,
+          fetchedAt: Date.now(),
+          stale: false,
+          fromCache: false,
+        };
+      } catch (error) {
+        // Fall back to an expired copy rather than failing outright
+        if (entry) {
+          console.warn(`Using stale cache for ${key}: ${errorHandler(error)}`);
+          return {
+            data: entry.data,
+            fetchedAt: entry.fetchedAt,
+            stale: true,
+            fromCache: true,
+          };
+        }
+        throw error;
+      }
+    },
+
+    stats: () =>
+      cacheKinds.map((kind) => {
+        const dir = path.join(options.directory, kind);
+        const stats: CacheStats = { kind, entries: 0, bytes: 0 };
+        if (!fs.existsSync(dir)) {
+          return stats;
+        }
+        fs.readdirSync(dir).forEach((file) => {
+          const stat = fs.statSync(path.join(dir, file));
+          stats.entries++;
+          stats.bytes += stat.size;
+          stats.oldest = Math.min(stats.oldest ?? Infinity, stat.mtimeMs);
+          stats.newest = Math.max(stats.newest ?? 0, stat.mtimeMs);
+        });
+        return stats;
+      }),
+
+    clear: (kind) => {
+      (kind ? [kind] : cacheKinds).forEach((entryKind) =>
+        fs.rmSync(path.join(options.directory, entryKind), {
+          recursive: true,
+          force: true,
+        })
+      );
+    },
+  };
+}
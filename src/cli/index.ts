@@ -0,0 +1,3 @@
+export * from "./options";
+export * from "./run";
+export * from "./thresholds";
@@ -0,0 +1,25 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as path from "path";
+import { runCli } from "./run";
+
+// Entry point of the package-pilot executable, bundled to dist/cli.js next
+// to the extension
+const { version } = JSON.parse(
+  fs.readFileSync(path.join(__dirname, "..", "package.json"), "utf8")
+);
+
+runCli(process.argv.slice(2), {
+  cwd: process.cwd(),
+  version,
+  stdout: (text) => process.stdout.write(text),
+  stderr: (text) => process.stderr.write(text),
+}).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    console.error(error);
+    process.exitCode = 2;
+  }
+);
@@ -0,0 +1,178 @@
+import { parseArgs } from "util";
+import { AdvisorySeverity, severityOrder } from "../audit/osv";
+import { ExportFormat, exportFormats } from "../export";
+import { scoringStrategies } from "../scoring";
+import { errorHandler } from "../utils";
+import { PackageStatus, packageStatusOrder } from "../views/packageNodes";
+
+// Statuses a run can fail on; "ok" never fails
+export type FailCondition = Exclude<PackageStatus, "ok">;
+
+export const failConditions = packageStatusOrder.filter(
+  (status): status is FailCondition => status !== "ok"
+);
+
+export interface CliOptions {
+  // Folder to analyse, relative to the working directory
+  path: string;
+  include: string[];
+  exclude: string[];
+  format: ExportFormat;
+  // Report file; the report goes to stdout otherwise
+  output?: string;
+  // Overrides the registry from .npmrc
+  registry?: string;
+  // Empty disables download counts
+  downloadsEndpoint?: string;
+  // OSV API URL or local advisory directory/zip; undefined skips the audit
+  advisories?: string;
+  // Scoring strategy id, or undefined to skip scoring
+  scoring?: string;
+  failOn: FailCondition[];
+  // Least severe advisory that counts towards failing on "vulnerable";
+  // undefined counts every advisory
+  minSeverity?: AdvisorySeverity;
+  // Measure install sizes and bundle costs
+  size: boolean;
+  // Look up archived and missing repositories for the health scores
+  repositoryCheck: boolean;
+  // Look for deprecated packages among the ones each package installs
+  transitiveDeprecations: boolean;
+  help: boolean;
+  version: boolean;
+}
+
+// Invalid command line, reported with the usage text
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliUsageError";
+  }
+}
+
+export const defaultAdvisoryEndpoint = "https://api.osv.dev/v1";
+
+export const usage = `Usage: package-pilot [path] [options]
+
+Analyse the npm packages imported by a project and report outdated,
+deprecated and vulnerable ones.
+
+Options:
+  --include <glob>           Only analyse matching files (repeatable)
+  --exclude <glob>           Skip matching files and folders (repeatable)
+  --format <format>          ${Object.keys(exportFormats).join(", ")} (default: markdown)
+  -o, --output <file>        Write the report to a file instead of stdout
+  --registry <url>           npm registry, overriding .npmrc
+  --downloads-endpoint <url> npm downloads API; empty disables download counts
+  --advisories <url|path>    OSV API or local advisory folder/zip (default: ${defaultAdvisoryEndpoint})
+  --no-audit                 Skip the vulnerability audit
+  --scoring <strategy>       ${Object.keys(scoringStrategies).join(", ")} or none (default: hybrid)
+  --no-size                  Skip install sizes and bundle costs
+  --no-repository-check      Don't ask GitHub whether repositories are archived
+                             or missing (set GITHUB_TOKEN for higher rate limits)
+  --no-transitive-deprecations
+                             Don't look for deprecated packages among the ones
+                             each package installs
+  --fail-on <statuses>       Exit with 1 if any package is ${failConditions.join(", ")}
+                             (comma-separated, repeatable)
+  --min-severity <severity>  Least severe advisory counted by --fail-on vulnerable:
+                             ${severityOrder.join(", ")} (default: any)
+  -h, --help                 Show this help
+  -v, --version              Show the version
+
+The dependency policy in the project's .packagepilot.json/.yaml, if any, is
+always enforced.
+
+Exit codes: 0 passed, 1 a --fail-on threshold was reached or the policy
+failed, 2 usage or analysis error.`;
+
+const oneOf = <T extends string>(
+  value: string,
+  allowed: readonly T[],
+  option: string
+): T => {
+  if (!allowed.includes(value as T)) {
+    throw new CliUsageError(
+      `Invalid ${option} "${value}" (expected one of ${allowed.join(", ")})`
+    );
+  }
+  return value as T;
+};
+
+// Parse the command line arguments after the executable name
+export function parseCliArgs(args: string[]): CliOptions {
+  let parsed: ReturnType<typeof parse>;
+  try {
+    parsed = parse(args);
+  } catch (error) {
+    throw new CliUsageError(errorHandler(error));
+  }
+  const { values, positionals } = parsed;
+  if (positionals.length > 1) {
+    throw new CliUsageError(
+      `Expected one path to analyse, got ${positionals.length}`
+    );
+  }
+
+  const failOn = (values["fail-on"] ?? [])
+    .flatMap((list) => list.split(","))
+    .map((status) => status.trim())
+    .filter(Boolean)
+    .map((status) => oneOf(status, failConditions, "--fail-on status"));
+  const scoring = values.scoring ?? "hybrid";
+
+  return {
+    path: positionals[0] ?? ".",
+    include: values.include ?? [],
+    exclude: values.exclude ?? [],
+    format: oneOf(
+      values.format ?? "markdown",
+      Object.keys(exportFormats) as ExportFormat[],
+      "--format"
+    ),
+    output: values.output,
+    registry: values.registry,
+    downloadsEndpoint: values["downloads-endpoint"],
+    advisories: values["no-audit"]
+      ? undefined
+      : (values.advisories ?? defaultAdvisoryEndpoint),
+    scoring:
+      scoring === "none"
+        ? undefined
+        : oneOf(scoring, Object.keys(scoringStrategies), "--scoring"),
+    failOn: Array.from(new Set(failOn)),
+    minSeverity:
+      values["min-severity"] === undefined
+        ? undefined
+        : oneOf(values["min-severity"], severityOrder, "--min-severity"),
+    size: !values["no-size"],
+    repositoryCheck: !values["no-repository-check"],
+    transitiveDeprecations: !values["no-transitive-deprecations"],
+    help: values.help ?? false,
+    version: values.version ?? false,
+  };
+}
+
+const parse = (args: string[]) =>
+  parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      include: { type: "string", multiple: true },
+      exclude: { type: "string", multiple: true },
+      format: { type: "string" },
+      output: { type: "string", short: "o" },
+      registry: { type: "string" },
+      "downloads-endpoint": { type: "string" },
+      advisories: { type: "string" },
+      "no-audit": { type: "boolean" },
+      scoring: { type: "string" },
+      "no-size": { type: "boolean" },
+      "no-repository-check": { type: "boolean" },
+      "no-transitive-deprecations": { type: "boolean" },
+      "fail-on": { type: "string", multiple: true },
+      "min-severity": { type: "string" },
+      help: { type: "boolean", short: "h" },
+      version: { type: "boolean", short: "v" },
+    },
+  });
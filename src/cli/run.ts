@@ -0,0 +1,168 @@
+import * as fs from "fs";
+import * as path from "path";
+import {
+  AdvisorySource,
+  createEndpointAdvisorySource,
+  createLocalAdvisorySource,
+} from "../audit";
+import { analyzeProject, createProjectRegistryClient } from "../core";
+import { buildReportDocument, renderReport } from "../export";
+import { createGitHubRepositoryLookup } from "../health";
+import { formatPolicySummary } from "../policy";
+import {
+  RequestScheduler,
+  createRequestScheduler,
+  defaultDownloadsEndpoint,
+} from "../registry";
+import {
+  RuleSet,
+  builtinRuleSet,
+  createRuleEngine,
+  findRuleFile,
+  formatRuleError,
+  loadRuleFile,
+} from "../rules";
+import { createScoringStrategy } from "../scoring";
+import { errorHandler } from "../utils";
+import { CliUsageError, parseCliArgs, usage } from "./options";
+import { checkThresholds } from "./thresholds";
+
+export const exitCodes = {
+  passed: 0,
+  failed: 1,
+  error: 2,
+};
+
+// Where the CLI reads and writes, so tests can run it in-process
+export interface CliEnvironment {
+  cwd: string;
+  version: string;
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+// Advisories from an OSV-compatible URL or a local folder/zip
+function getAdvisorySource(
+  advisories: string,
+  cwd: string,
+  scheduler: RequestScheduler
+): AdvisorySource {
+  return /^https?:\/\//.test(advisories)
+    ? createEndpointAdvisorySource(advisories, undefined, scheduler)
+    : createLocalAdvisorySource(path.resolve(cwd, advisories));
+}
+
+// Built-in rules plus the project's .packagepilot.json/.yaml; invalid rules
+// are reported and skipped like in the editor
+function getRuleSets(root: string, env: CliEnvironment): RuleSet[] {
+  const ruleSets = [builtinRuleSet];
+  const ruleFile = findRuleFile(root);
+  if (ruleFile) {
+    const loaded = loadRuleFile(ruleFile);
+    ruleSets.push(loaded.ruleSet);
+    loaded.errors.forEach((error) =>
+      env.stderr(`warning: skipped invalid rule: ${formatRuleError(error)}\n`)
+    );
+  }
+  return ruleSets;
+}
+
+// Run the package-pilot command and resolve to its exit code
+export async function runCli(
+  args: string[],
+  env: CliEnvironment
+): Promise<number> {
+  let options;
+  try {
+    options = parseCliArgs(args);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      env.stderr(`package-pilot: ${error.message}\n\n${usage}\n`);
+      return exitCodes.error;
+    }
+    throw error;
+  }
+  if (options.help) {
+    env.stdout(`${usage}\n`);
+    return exitCodes.passed;
+  }
+  if (options.version) {
+    env.stdout(`${env.version}\n`);
+    return exitCodes.passed;
+  }
+
+  const root = path.resolve(env.cwd, options.path);
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    env.stderr(`package-pilot: ${root} is not a folder\n`);
+    return exitCodes.error;
+  }
+
+  try {
+    const scheduler = createRequestScheduler();
+    const downloadsEndpoint =
+      options.downloadsEndpoint ?? defaultDownloadsEndpoint;
+    const { analysis, packageData } = await analyzeProject(root, {
+      include: options.include,
+      exclude: options.exclude,
+      client: createProjectRegistryClient(root, {
+        registryUrl: options.registry,
+        downloadsEndpoint: downloadsEndpoint || undefined,
+        scheduler,
+      }),
+      advisorySource: options.advisories
+        ? getAdvisorySource(options.advisories, env.cwd, scheduler)
+        : undefined,
+      rules: createRuleEngine(getRuleSets(root, env)),
+      strategy: options.scoring
+        ? createScoringStrategy(options.scoring)
+        : undefined,
+      transitiveDeprecations: options.transitiveDeprecations,
+      size: options.size,
+      repositoryLookup: options.repositoryCheck
+        ? createGitHubRepositoryLookup({
+            token: process.env.GITHUB_TOKEN,
+            scheduler,
+          })
+        : undefined,
+    });
+
+    const document = buildReportDocument({
+      root,
+      importRecords: analysis.importRecords,
+      packageData,
+      manifestReports: analysis.manifestReports,
+      toolVersion: env.version,
+    });
+    const report = renderReport(document, options.format);
+    const output = report.endsWith("\n") ? report : `${report}\n`;
+    if (options.output) {
+      fs.writeFileSync(path.resolve(env.cwd, options.output), output);
+    } else {
+      env.stdout(output);
+    }
+
+    const violations = checkThresholds(document, options);
+    env.stderr(
+      `package-pilot: ${document.summary.packages} packages in ${document.summary.files} files\n`
+    );
+    violations.forEach((violation) =>
+      env.stderr(
+        `  ✖ ${violation.packageName} is ${violation.condition}: ${violation.reason}\n`
+      )
+    );
+    // A project policy fails the run by itself, without --fail-on
+    const policy = document.policy;
+    if (policy) {
+      env.stderr(`package-pilot: ${formatPolicySummary(policy)}\n`);
+      policy.violations.forEach((violation) =>
+        env.stderr(`  ✖ ${violation.message}\n`)
+      );
+    }
+    return violations.length > 0 || (policy && !policy.passed)
+      ? exitCodes.failed
+      : exitCodes.passed;
+  } catch (error) {
+    env.stderr(`package-pilot: ${errorHandler(error)}\n`);
+    return exitCodes.error;
+  }
+}
@@ -0,0 +1,65 @@
+import * as semver from "semver";
+import { AdvisorySeverity, severityOrder } from "../audit/osv";
+import { ExportedPackage, ReportDocument } from "../export";
+import { FailCondition } from "./options";
+
+export interface Thresholds {
+  failOn: FailCondition[];
+  minSeverity?: AdvisorySeverity;
+}
+
+// A package that reached a --fail-on threshold
+export interface ThresholdViolation {
+  packageName: string;
+  condition: FailCondition;
+  reason: string;
+}
+
+// Why a package meets a condition, or undefined. Conditions are checked
+// independently, so a vulnerable package still fails --fail-on deprecated.
+const reasons: Record<
+  FailCondition,
+  (pkg: ExportedPackage, thresholds: Thresholds) => string | undefined
+> = {
+  vulnerable: (pkg, { minSeverity }) => {
+    const advisories = pkg.advisories.filter(
+      (advisory) =>
+        !minSeverity ||
+        severityOrder.indexOf(advisory.severity) <=
+          severityOrder.indexOf(minSeverity)
+    );
+    return advisories.length > 0
+      ? advisories
+          .map((advisory) => `${advisory.id} (${advisory.severity})`)
+          .join(", ")
+      : undefined;
+  },
+  deprecated: (pkg) =>
+    pkg.deprecated ??
+    pkg.deprecations?.find((notice) => !notice.requiredBy)?.message,
+  outdated: (pkg) => {
+    const version = semver.valid(pkg.version ?? "");
+    const latest = semver.valid(pkg.latestVersion ?? "");
+    return version && latest && semver.lt(version, latest)
+      ? `${version} → ${latest}`
+      : undefined;
+  },
+  alternatives: (pkg) =>
+    pkg.alternatives.length > 0
+      ? `consider ${pkg.alternatives.join(", ")}`
+      : undefined,
+  unknown: (pkg) => pkg.error,
+};
+
+// Every package and condition that should fail the run
+export function checkThresholds(
+  document: ReportDocument,
+  thresholds: Thresholds
+): ThresholdViolation[] {
+  return document.packages.flatMap((pkg) =>
+    thresholds.failOn.flatMap((condition) => {
+      const reason = reasons[condition](pkg, thresholds);
+      return reason ? [{ packageName: pkg.name, condition, reason }] : [];
+    })
+  );
+}
@@ -0,0 +1,25 @@
+import * as ts from "typescript";
+
+// `x.name` where x is the reference, or undefined
+export const memberName = (reference: ts.Node): string | undefined =>
+  ts.isPropertyAccessExpression(reference.parent) &&
+  reference.parent.expression === reference
+    ? reference.parent.name.text
+    : undefined;
+
+// The call made on the reference itself or on one of its members
+export const callOf = (reference: ts.Node): ts.CallExpression | undefined => {
+  const callee = memberName(reference) ? reference.parent : reference;
+  return ts.isCallExpression(callee.parent) &&
+    callee.parent.expression === callee
+    ? callee.parent
+    : undefined;
+};
+
+// Text of a string literal argument, or undefined for anything else
+export const stringArgument = (
+  node: ts.Expression | undefined
+): string | undefined =>
+  node && (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+    ? node.text
+    : undefined;
@@ -0,0 +1,111 @@
+import * as ts from "typescript";
+import { callOf, memberName } from "./ast";
+import { momentToDateFns } from "./dateFns";
+import { Codemod } from "./types";
+
+// Static moment APIs that dayjs only offers through a plugin
+const dayjsPlugins: Record<string, string> = {
+  duration: "duration",
+  isDuration: "duration",
+  utc: "utc",
+  tz: "timezone",
+  updateLocale: "updateLocale",
+  relativeTimeThreshold: "relativeTime",
+  min: "minMax",
+  max: "minMax",
+};
+
+const momentToDayjs: Codemod = {
+  id: "moment-to-dayjs",
+  from: "moment",
+  to: "dayjs",
+  description: "moment → dayjs (same chaining API, plugins for extras)",
+  mapSpecifier: (specifier) => {
+    if (specifier === "moment") {
+      return "dayjs";
+    }
+    const locale = /^moment\/locale\/([\w-]+)$/.exec(specifier);
+    return locale ? `dayjs/locale/${locale[1]}` : undefined;
+  },
+  supportsRequire: true,
+  renameBindings: { moment: "dayjs" },
+  rewriteUsage: (reference) => {
+    const member = memberName(reference);
+    if (member === "defineLocale") {
+      return "dayjs has no defineLocale; load a dayjs locale file instead";
+    }
+    return member && dayjsPlugins[member]
+      ? `${member}() needs the dayjs ${dayjsPlugins[member]} plugin`
+      : undefined;
+  },
+};
+
+const lodashToLodashEs: Codemod = {
+  id: "lodash-to-lodash-es",
+  from: "lodash",
+  to: "lodash-es",
+  description: "lodash → lodash-es (ES module build of the same functions)",
+  mapSpecifier: (specifier) => {
+    if (specifier === "lodash") {
+      return "lodash-es";
+    }
+    // lodash-es has no functional-programming build
+    if (specifier === "lodash/fp" || specifier.startsWith("lodash/fp/")) {
+      return undefined;
+    }
+    return specifier.replace(/^lodash\//, "lodash-es/").replace(/\.js$/, "");
+  },
+  supportsRequire: false,
+};
+
+const httpMethods = ["get", "post", "put", "patch", "delete", "head"];
+
+// request → a promise-based client with the same method names. Calls with
+// callbacks or request's options objects are left for a human.
+function requestTo(to: string, supportsRequire: boolean): Codemod {
+  return {
+    id: `request-to-${to}`,
+    from: "request",
+    to,
+    description: `request → ${to} (promise-based HTTP methods)`,
+    mapSpecifier: (specifier) => (specifier === "request" ? to : undefined),
+    supportsRequire,
+    renameBindings: { request: to },
+    rewriteUsage: (reference) => {
+      const member = memberName(reference);
+      const call = callOf(reference);
+      if (!member) {
+        return call
+          ? `request(options, callback) has no direct ${to} equivalent`
+          : undefined;
+      }
+      if (!httpMethods.includes(member)) {
+        return `request.${member} has no direct ${to} equivalent`;
+      }
+      if (
+        call?.arguments.some(
+          (arg) => ts.isArrowFunction(arg) || ts.isFunctionExpression(arg)
+        )
+      ) {
+        return `${to}.${member} returns a promise instead of taking a callback`;
+      }
+      if (
+        call?.arguments[0] &&
+        ts.isObjectLiteralExpression(call.arguments[0])
+      ) {
+        return `request options need translating to ${to} options`;
+      }
+      return undefined;
+    },
+  };
+}
+
+// One codemod per pair the built-in rules recommend
+export const builtinCodemods: Codemod[] = [
+  momentToDayjs,
+  momentToDateFns,
+  lodashToLodashEs,
+  requestTo("axios", true),
+  // got is ESM-only from v12
+  requestTo("got", false),
+];
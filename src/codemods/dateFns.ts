@@ -0,0 +1,372 @@
+import * as ts from "typescript";
+import { callOf, memberName, stringArgument } from "./ast";
+import { Codemod, UsageRewrite } from "./types";
+
+// moment unit names → the suffix of the matching date-fns functions
+const units: Record<string, string> = {};
+(
+  [
+    ["Years", ["y", "year", "years"]],
+    ["Quarters", ["Q", "quarter", "quarters"]],
+    ["Months", ["M", "month", "months"]],
+    ["Weeks", ["w", "week", "weeks"]],
+    ["Days", ["d", "day", "days"]],
+    ["Hours", ["h", "hour", "hours"]],
+    ["Minutes", ["m", "minute", "minutes"]],
+    ["Seconds", ["s", "second", "seconds"]],
+    ["Milliseconds", ["ms", "millisecond", "milliseconds"]],
+  ] as [string, string[]][]
+).forEach(([suffix, names]) => names.forEach((name) => (units[name] = suffix)));
+
+const singular = (suffix: string) => suffix.replace(/s$/, "");
+
+// moment format tokens → Unicode tokens used by date-fns, longest first
+const formatTokens: [string, string][] = [
+  ["YYYY", "yyyy"],
+  ["GGGG", "RRRR"],
+  ["gggg", "YYYY"],
+  ["MMMM", "MMMM"],
+  ["DDDD", "DDD"],
+  ["dddd", "EEEE"],
+  ["LLLL", "PPPPp"],
+  ["MMM", "MMM"],
+  ["DDD", "D"],
+  ["ddd", "EEE"],
+  ["SSS", "SSS"],
+  ["LTS", "pp"],
+  ["LLL", "PPPp"],
+  ["YY", "yy"],
+  ["MM", "MM"],
+  ["Mo", "Mo"],
+  ["DD", "dd"],
+  ["Do", "do"],
+  ["dd", "EEEEEE"],
+  ["HH", "HH"],
+  ["hh", "hh"],
+  ["kk", "kk"],
+  ["mm", "mm"],
+  ["ss", "ss"],
+  ["SS", "SS"],
+  ["ZZ", "xx"],
+  ["WW", "II"],
+  ["ww", "ww"],
+  ["LT", "p"],
+  ["LL", "PP"],
+  ["M", "M"],
+  ["D", "d"],
+  ["E", "i"],
+  ["H", "H"],
+  ["h", "h"],
+  ["k", "k"],
+  ["m", "m"],
+  ["s", "s"],
+  ["S", "S"],
+  ["A", "a"],
+  ["a", "aaa"],
+  ["Z", "xxx"],
+  ["X", "t"],
+  ["x", "T"],
+  ["W", "I"],
+  ["w", "w"],
+  ["Q", "Q"],
+  ["L", "P"],
+];
+
+// Translate a moment format string to date-fns. Returns undefined when it
+// uses a token without an exact counterpart (e.g. "d", day of week 0-6).
+export function convertMomentFormat(format: string): string | undefined {
+  let result = "";
+  let literal = "";
+  const flush = () => {
+    if (literal) {
+      // Letters are tokens in date-fns, so literal text must be quoted
+      result += /[a-z]/i.test(literal)
+        ? `'${literal.replace(/'/g, "''")}'`
+        : literal.replace(/'/g, "''");
+      literal = "";
+    }
+  };
+
+  let i = 0;
+  while (i < format.length) {
+    if (format[i] === "[") {
+      const close = format.indexOf("]", i);
+      if (close !== -1) {
+        literal += format.slice(i + 1, close);
+        i = close + 1;
+        continue;
+      }
+    }
+    const token = formatTokens.find(([momentToken]) =>
+      format.startsWith(momentToken, i)
+    );
+    if (token) {
+      flush();
+      result += token[1];
+      i += token[0].length;
+    } else if ("deNgG".includes(format[i])) {
+      return undefined;
+    } else {
+      literal += format[i];
+      i++;
+    }
+  }
+  flush();
+  return result;
+}
+
+// date-fns throws on the week-numbering year (Y) and day of year (D)
+// tokens, easily mistaken for y and d, unless they're opted into. The
+// options argument for a converted format, with its leading comma.
+function formatOptions(format: string): string {
+  const tokens = format.replace(/'(?:[^']|'')*'?/g, "");
+  const options = [
+    /Y/.test(tokens) && "useAdditionalWeekYearTokens: true",
+    /D/.test(tokens) && "useAdditionalDayOfYearTokens: true",
+  ].filter(Boolean);
+  return options.length > 0 ? `, { ${options.join(", ")} }` : "";
+}
+
+const isCallTo = (node: ts.Node, local: string): node is ts.CallExpression =>
+  ts.isCallExpression(node) &&
+  ts.isIdentifier(node.expression) &&
+  node.expression.text === local;
+
+const mentions = (node: ts.Node, local: string): boolean =>
+  (ts.isIdentifier(node) && node.text === local) ||
+  !!ts.forEachChild(node, (child) => mentions(child, local) || undefined);
+
+interface Step {
+  text: string;
+  imports: string[];
+  // The result is no longer a date, so the chain must end here
+  terminal?: boolean;
+}
+
+// `moment(...)` itself as a Date expression
+function baseDate(call: ts.CallExpression, local: string): Step | string {
+  const [input, format] = call.arguments;
+  if (call.arguments.some((arg) => mentions(arg, local))) {
+    return "nested moment calls need converting by hand";
+  }
+  if (!input) {
+    return { text: "new Date()", imports: [] };
+  }
+  if (call.arguments.length === 1) {
+    return { text: `new Date(${input.getText()})`, imports: [] };
+  }
+  const converted = convertMomentFormat(stringArgument(format) ?? "");
+  if (call.arguments.length === 2 && stringArgument(format) && converted) {
+    return {
+      text: `parse(${input.getText()}, ${JSON.stringify(converted)}, new Date()${formatOptions(converted)})`,
+      imports: ["parse"],
+    };
+  }
+  return "moment(input, format) with this format needs converting by hand";
+}
+
+// Another date passed to diff(), isBefore() and friends
+function otherDate(
+  arg: ts.Expression | undefined,
+  local: string
+): Step | string {
+  if (!arg) {
+    return { text: "new Date()", imports: [] };
+  }
+  if (isCallTo(arg, local)) {
+    return baseDate(arg, local);
+  }
+  return mentions(arg, local)
+    ? "nested moment calls need converting by hand"
+    : { text: arg.getText(), imports: [] };
+}
+
+const getters: Record<string, string> = {
+  year: "getYear",
+  month: "getMonth",
+  date: "getDate",
+  day: "getDay",
+  hour: "getHours",
+  hours: "getHours",
+  minute: "getMinutes",
+  minutes: "getMinutes",
+  second: "getSeconds",
+  seconds: "getSeconds",
+  millisecond: "getMilliseconds",
+  milliseconds: "getMilliseconds",
+  week: "getWeek",
+  isoWeek: "getISOWeek",
+  dayOfYear: "getDayOfYear",
+  daysInMonth: "getDaysInMonth",
+  unix: "getUnixTime",
+  valueOf: "getTime",
+  isValid: "isValid",
+};
+
+// One method call on a moment object, applied to `date`
+function chainStep(
+  method: string,
+  args: readonly ts.Expression[],
+  date: string,
+  local: string
+): Step | string {
+  const unsupported = `.${method}() has no date-fns counterpart in this codemod`;
+  // Unit strings come last: add(1, "day"), startOf("day"), diff(b, "days")
+  const unit = stringArgument(args[args.length - 1]);
+
+  switch (method) {
+    case "add":
+    case "subtract": {
+      const suffix = unit && units[unit];
+      if (args.length !== 2 || !suffix) {
+        return `.${method}() needs an amount and a unit string`;
+      }
+      const fn = `${method === "add" ? "add" : "sub"}${suffix}`;
+      return { text: `${fn}(${date}, ${args[0].getText()})`, imports: [fn] };
+    }
+    case "startOf":
+    case "endOf": {
+      const suffix =
+        unit === "isoWeek"
+          ? "ISOWeek"
+          : unit && units[unit] && singular(units[unit]);
+      if (args.length !== 1 || !suffix || suffix === "Millisecond") {
+        return `.${method}() needs a unit string`;
+      }
+      const fn = `${method}${suffix}`;
+      return { text: `${fn}(${date})`, imports: [fn] };
+    }
+    case "clone":
+      // date-fns never mutates, so there is nothing to copy
+      return { text: date, imports: [] };
+    case "format": {
+      if (args.length === 0) {
+        return {
+          text: `formatISO(${date})`,
+          imports: ["formatISO"],
+          terminal: true,
+        };
+      }
+      const converted = convertMomentFormat(stringArgument(args[0]) ?? "");
+      if (!stringArgument(args[0]) || !converted) {
+        return "this format string needs converting by hand";
+      }
+      return {
+        text: `format(${date}, ${JSON.stringify(converted)}${formatOptions(converted)})`,
+        imports: ["format"],
+        terminal: true,
+      };
+    }
+    case "diff": {
+      const suffix = args.length === 2 ? unit && units[unit] : "Milliseconds";
+      const other = otherDate(args[0], local);
+      if (typeof other === "string") {
+        return other;
+      }
+      if (!suffix || args.length > 2) {
+        return ".diff() with these arguments needs converting by hand";
+      }
+      const fn = `differenceIn${suffix}`;
+      return {
+        text: `${fn}(${date}, ${other.text})`,
+        imports: [fn, ...other.imports],
+        terminal: true,
+      };
+    }
+    case "isBefore":
+    case "isAfter":
+    case "isSame": {
+      const other = otherDate(args[0], local);
+      if (typeof other === "string") {
+        return other;
+      }
+      const suffix = args.length === 2 && unit ? units[unit] : undefined;
+      const fn =
+        args.length <= 1
+          ? method === "isSame"
+            ? "isEqual"
+            : method
+          : method === "isSame" && suffix && suffix !== "Milliseconds"
+            ? `isSame${singular(suffix)}`
+            : undefined;
+      if (!fn) {
+        return unsupported;
+      }
+      return {
+        text: `${fn}(${date}, ${other.text})`,
+        imports: [fn, ...other.imports],
+        terminal: true,
+      };
+    }
+    case "fromNow":
+      return args.length === 0
+        ? {
+            text: `formatDistanceToNow(${date}, { addSuffix: true })`,
+            imports: ["formatDistanceToNow"],
+            terminal: true,
+          }
+        : unsupported;
+    case "toDate":
+      return { text: date, imports: [], terminal: true };
+    case "toISOString":
+      return { text: `${date}.toISOString()`, imports: [], terminal: true };
+  }
+
+  // Getters only; moment's setters share their names but take an argument
+  if (getters[method] && args.length === 0) {
+    return {
+      text: `${getters[method]}(${date})`,
+      imports: [getters[method]],
+      terminal: true,
+    };
+  }
+  return unsupported;
+}
+
+export const momentToDateFns: Codemod = {
+  id: "moment-to-date-fns",
+  from: "moment",
+  to: "date-fns",
+  description:
+    "moment → date-fns (rewrites common call chains into date-fns functions)",
+  mapSpecifier: (specifier) =>
+    specifier === "moment" ? "date-fns" : undefined,
+  supportsRequire: true,
+  namedImports: true,
+  rewriteUsage: (reference): UsageRewrite | string => {
+    const local = reference.text;
+    const member = memberName(reference);
+    if (member) {
+      return `${local}.${member} has no date-fns counterpart in this codemod`;
+    }
+    const call = callOf(reference);
+    if (!call) {
+      return `${local} is passed around as a value`;
+    }
+    const base = baseDate(call, local);
+    if (typeof base === "string") {
+      return base;
+    }
+
+    let node: ts.Node = call;
+    let date = base.text;
+    const imports = [...base.imports];
+    while (true) {
+      const method = memberName(node);
+      const methodCall = method ? callOf(node) : undefined;
+      if (!method || !methodCall) {
+        return "the result is used as a moment object, not a Date";
+      }
+      const step = chainStep(method, methodCall.arguments, date, local);
+      if (typeof step === "string") {
+        return step;
+      }
+      node = methodCall;
+      date = step.text;
+      imports.push(...step.imports);
+      if (step.terminal) {
+        return { node, text: date, imports };
+      }
+    }
+  },
+};
@@ -0,0 +1,54 @@
+import { CodemodDefinition } from "../rules/types";
+import { memberName } from "./ast";
+import { builtinCodemods } from "./builtin";
+import { Codemod } from "./types";
+
+// Build a codemod from a declarative definition in the rules config
+export function codemodFromDefinition(definition: CodemodDefinition): Codemod {
+  const specifiers = definition.specifiers ?? {
+    [definition.from]: definition.to,
+  };
+  const unsupported = definition.unsupported ?? {};
+
+  return {
+    id: definition.id,
+    from: definition.from,
+    to: definition.to,
+    description:
+      definition.description ?? `${definition.from} → ${definition.to}`,
+    mapSpecifier: (specifier) => {
+      if (specifier in specifiers) {
+        return specifiers[specifier];
+      }
+      const pattern = Object.keys(specifiers).find(
+        (key) => key.endsWith("/*") && specifier.startsWith(key.slice(0, -1))
+      );
+      return pattern
+        ? specifiers[pattern].slice(0, -1) + specifier.slice(pattern.length - 1)
+        : undefined;
+    },
+    supportsRequire: definition.require ?? true,
+    renameBindings: definition.rename,
+    rewriteUsage: (reference) => {
+      const member = memberName(reference);
+      return member && member in unsupported
+        ? `${reference.text}.${member}: ${unsupported[member]}`
+        : undefined;
+    },
+  };
+}
+
+// Configured codemods first, then the built-ins they don't replace or
+// switch off by id
+export function resolveCodemods(
+  definitions: CodemodDefinition[],
+  builtin: Codemod[] = builtinCodemods
+): Codemod[] {
+  const claimed = new Set(definitions.map((definition) => definition.id));
+  return [
+    ...definitions
+      .filter((definition) => !definition.disabled)
+      .map(codemodFromDefinition),
+    ...builtin.filter((codemod) => !claimed.has(codemod.id)),
+  ];
+}
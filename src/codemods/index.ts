@@ -0,0 +1,6 @@
+export * from "./types";
+export * from "./builtin";
+export * from "./migrate";
+export * from "./manifest";
+export * from "./definition";
+export * from "./project";
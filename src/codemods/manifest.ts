@@ -0,0 +1,122 @@
+import * as ts from "typescript";
+import { DependencySection, dependencySections } from "../manifest/packageJson";
+import { TextReplacement } from "./types";
+
+const propertyName = (property: ts.ObjectLiteralElementLike) =>
+  ts.isPropertyAssignment(property) && ts.isStringLiteral(property.name)
+    ? property.name.text
+    : undefined;
+
+// Edits that swap `from` for `to` in a package.json, keeping its formatting.
+// `from` is renamed in place in every section declaring it (or dropped where
+// `to` is already declared); if nothing declares it, `to` is added to
+// dependencies. Returns no edits when the text isn't a JSON object.
+export function planManifestReplacement(
+  text: string,
+  from: string,
+  to: string,
+  range: string
+): TextReplacement[] {
+  const sourceFile = ts.parseJsonText("package.json", text);
+  const root = sourceFile.statements[0]?.expression;
+  if (!root || !ts.isObjectLiteralExpression(root)) {
+    return [];
+  }
+
+  const position = (offset: number) => {
+    const { line, character } =
+      sourceFile.getLineAndCharacterOfPosition(offset);
+    return { line, character };
+  };
+  const replace = (start: number, end: number, newText: string) => ({
+    range: { start: position(start), end: position(end) },
+    newText,
+  });
+  const indentOf = (node: ts.Node) => {
+    const start = node.getStart(sourceFile);
+    const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+    return text.slice(lineStart, start);
+  };
+  const entry = JSON.stringify(to) + ": " + JSON.stringify(range);
+
+  const sections = new Map<DependencySection, ts.ObjectLiteralExpression>();
+  root.properties.forEach((property) => {
+    const name = propertyName(property) as DependencySection | undefined;
+    if (
+      name &&
+      dependencySections.includes(name) &&
+      ts.isObjectLiteralExpression(
+        (property as ts.PropertyAssignment).initializer
+      )
+    ) {
+      sections.set(
+        name,
+        (property as ts.PropertyAssignment)
+          .initializer as ts.ObjectLiteralExpression
+      );
+    }
+  });
+
+  const replacements: TextReplacement[] = [];
+  sections.forEach((section) => {
+    const elements = section.properties;
+    const index = elements.findIndex(
+      (element) => propertyName(element) === from
+    );
+    if (index === -1) {
+      return;
+    }
+    const element = elements[index];
+    if (!elements.some((other) => propertyName(other) === to)) {
+      replacements.push(
+        replace(element.getStart(sourceFile), element.getEnd(), entry)
+      );
+      return;
+    }
+    // Remove the entry together with the comma that separates it
+    replacements.push(
+      index > 0
+        ? replace(elements[index - 1].getEnd(), element.getEnd(), "")
+        : elements.length > 1
+          ? replace(
+              element.getStart(sourceFile),
+              elements[1].getStart(sourceFile),
+              ""
+            )
+          : replace(section.getStart(sourceFile) + 1, section.getEnd() - 1, "")
+    );
+  });
+  if (replacements.length > 0) {
+    return replacements;
+  }
+
+  const dependencies = sections.get("dependencies");
+  const last = dependencies?.properties[dependencies.properties.length - 1];
+  if (dependencies && last) {
+    return [
+      replace(last.getEnd(), last.getEnd(), `,\n${indentOf(last)}${entry}`),
+    ];
+  }
+  const lastProperty = root.properties[root.properties.length - 1];
+  const indent = lastProperty ? indentOf(lastProperty) : "  ";
+  if (dependencies) {
+    const closing = indentOf(dependencies.parent);
+    return [
+      replace(
+        dependencies.getStart(sourceFile),
+        dependencies.getEnd(),
+        `{\n${closing}${indent}${entry}\n${closing}}`
+      ),
+    ];
+  }
+  const insertAt = lastProperty
+    ? lastProperty.getEnd()
+    : root.getStart(sourceFile) + 1;
+  return [
+    replace(
+      insertAt,
+      insertAt,
+      `${lastProperty ? "," : ""}\n${indent}"dependencies": {\n${indent}${indent}${entry}\n${indent}}${lastProperty ? "" : "\n"}`
+    ),
+  ];
+}
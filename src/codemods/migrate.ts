@@ -0,0 +1,338 @@
+import * as ts from "typescript";
+import { SourceRange, getScriptKind, scanImports } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import { builtinCodemods } from "./builtin";
+import {
+  Codemod,
+  MigrationResult,
+  TextReplacement,
+  UsageRewrite,
+} from "./types";
+
+// The codemod for a package pair, if one is registered
+export function findCodemod(
+  from: string,
+  to: string,
+  codemods: Codemod[] = builtinCodemods
+): Codemod | undefined {
+  return codemods.find((codemod) => codemod.from === from && codemod.to === to);
+}
+
+// Pairs without a codemod only get their root import swapped
+function specifierSwap(from: string, to: string): Codemod {
+  return {
+    id: `${from}-to-${to}`,
+    from,
+    to,
+    description: `${from} → ${to}`,
+    mapSpecifier: (specifier) => (specifier === from ? to : undefined),
+    supportsRequire: true,
+  };
+}
+
+const offsetOf = (sourceFile: ts.SourceFile, position: SourceRange["start"]) =>
+  sourceFile.getPositionOfLineAndCharacter(position.line, position.character);
+
+function toRange(sourceFile: ts.SourceFile, node: ts.Node): SourceRange {
+  const start = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(sourceFile)
+  );
+  const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+  return {
+    start: { line: start.line, character: start.character },
+    end: { line: end.line, character: end.character },
+  };
+}
+
+// Identifiers that name a member or property rather than a variable
+function isMemberName(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  if (
+    (ts.isPropertyAccessExpression(parent) ||
+      ts.isPropertyAssignment(parent) ||
+      ts.isPropertyDeclaration(parent) ||
+      ts.isPropertySignature(parent) ||
+      ts.isMethodDeclaration(parent) ||
+      ts.isMethodSignature(parent) ||
+      ts.isGetAccessorDeclaration(parent) ||
+      ts.isSetAccessorDeclaration(parent) ||
+      ts.isEnumMember(parent) ||
+      ts.isJsxAttribute(parent)) &&
+    parent.name === node
+  ) {
+    return true;
+  }
+  return (
+    ((ts.isLabeledStatement(parent) || ts.isBreakOrContinueStatement(parent)) &&
+      parent.label === node) ||
+    (ts.isQualifiedName(parent) && parent.right === node) ||
+    ((ts.isImportSpecifier(parent) ||
+      ts.isExportSpecifier(parent) ||
+      ts.isBindingElement(parent)) &&
+      parent.propertyName === node)
+  );
+}
+
+// Where the binding itself is introduced
+function isDeclaration(node: ts.Identifier): boolean {
+  const parent = node.parent;
+  return (
+    ts.isImportClause(parent) ||
+    ts.isNamespaceImport(parent) ||
+    ts.isImportSpecifier(parent) ||
+    (ts.isVariableDeclaration(parent) && parent.name === node)
+  );
+}
+
+// Every identifier naming `name` as a variable, ignoring scopes: good enough
+// for module-level imports, which are rarely shadowed
+function findReferences(
+  sourceFile: ts.SourceFile,
+  name: string
+): ts.Identifier[] {
+  const references: ts.Identifier[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node.text === name && !isMemberName(node)) {
+      references.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+  return references;
+}
+
+// Whether a variable called `name` is declared or used anywhere
+const isIdentifierUsed = (sourceFile: ts.SourceFile, name: string) =>
+  findReferences(sourceFile, name).length > 0;
+
+// Rename a reference, keeping object keys and export names unchanged
+function renameReference(reference: ts.Identifier, name: string): string {
+  const parent = reference.parent;
+  if (ts.isShorthandPropertyAssignment(parent)) {
+    return `${reference.text}: ${name}`;
+  }
+  if (ts.isExportSpecifier(parent) && !parent.propertyName) {
+    return `${name} as ${reference.text}`;
+  }
+  return name;
+}
+
+interface BindingUse {
+  local: string;
+  reference: ts.Identifier;
+  outcome: UsageRewrite | string | undefined;
+}
+
+const contains = (outer: ts.Node, inner: ts.Node) =>
+  inner.getStart() >= outer.getStart() && inner.getEnd() <= outer.getEnd();
+
+// The import declaration or `const x = require(...)` statement introducing
+// a binding, when it is simple enough to rewrite as a whole
+function declaringStatement(
+  sourceFile: ts.SourceFile,
+  local: string
+): ts.Statement | undefined {
+  const declaration = findReferences(sourceFile, local).find(isDeclaration);
+  let node: ts.Node | undefined = declaration;
+  while (
+    node &&
+    !ts.isImportDeclaration(node) &&
+    !ts.isVariableStatement(node)
+  ) {
+    node = node.parent;
+  }
+  if (
+    node &&
+    ts.isVariableStatement(node) &&
+    node.declarationList.declarations.length !== 1
+  ) {
+    return undefined;
+  }
+  return node as ts.Statement | undefined;
+}
+
+// Rewrite the imports of `from` in one file to use `to`, including the
+// call sites the codemod for the pair (if any) knows about. Nothing is changed on
+// disk; apply the returned replacements to the same content.
+export function migrateImports(
+  content: string,
+  fileName: string,
+  from: string,
+  to: string,
+  codemods: Codemod[] = builtinCodemods
+): MigrationResult {
+  const codemod = findCodemod(from, to, codemods) ?? specifierSwap(from, to);
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+  const result: MigrationResult = { replacements: [], unconverted: [] };
+  const replace = (range: SourceRange, newText: string) =>
+    result.replacements.push({ range, newText });
+  const unconverted = (range: SourceRange, reason: string) =>
+    result.unconverted.push({ range, reason });
+
+  const records = scanImports(content, fileName)
+    .filter(
+      (record) => classifySpecifier(record.specifier).packageName === from
+    )
+    .flatMap((record) => {
+      const specifier = codemod.mapSpecifier(record.specifier);
+      if (record.kind === "require" && !codemod.supportsRequire) {
+        unconverted(
+          record.range,
+          `${to} can't be loaded with require(); use an import instead`
+        );
+        return [];
+      }
+      if (!specifier) {
+        unconverted(
+          record.range,
+          `${to} has no equivalent of "${record.specifier}"`
+        );
+        return [];
+      }
+      // Re-exports name exports, not bindings in this file
+      const locals =
+        record.kind === "re-export"
+          ? []
+          : record.names.map((name) => name.local);
+      return [{ record, specifier, locals }];
+    });
+
+  // Decide what happens to every use before touching the imports, since
+  // named-import codemods only drop the old import once nothing needs it
+  const uses: BindingUse[] = records.flatMap(({ locals }) =>
+    locals.flatMap((local) =>
+      findReferences(sourceFile, local)
+        .filter((reference) => !isDeclaration(reference))
+        .map((reference) => {
+          let outcome = codemod.rewriteUsage?.(reference);
+          const clash =
+            typeof outcome === "object" &&
+            outcome.imports?.find((name) => isIdentifierUsed(sourceFile, name));
+          if (clash) {
+            outcome = `${clash} is already defined in this file`;
+          }
+          return { local, reference, outcome };
+        })
+    )
+  );
+
+  // A rewrite of a whole chain covers any uses nested inside it
+  const rewritten: UsageRewrite[] = [];
+  uses
+    .map((use) => use.outcome)
+    .filter((outcome): outcome is UsageRewrite => typeof outcome === "object")
+    .sort(
+      (a, b) =>
+        b.node.getEnd() -
+        b.node.getStart() -
+        (a.node.getEnd() - a.node.getStart())
+    )
+    .forEach((rewrite) => {
+      if (!rewritten.some((outer) => contains(outer.node, rewrite.node))) {
+        rewritten.push(rewrite);
+        replace(toRange(sourceFile, rewrite.node), rewrite.text);
+      }
+    });
+  const covered = (node: ts.Node) =>
+    rewritten.some((rewrite) => contains(rewrite.node, node));
+  // Uses that still refer to the old binding afterwards
+  const remaining = uses.filter((use) => !covered(use.reference));
+  remaining.forEach((use) => {
+    if (typeof use.outcome === "string") {
+      unconverted(toRange(sourceFile, use.reference.parent), use.outcome);
+    }
+  });
+
+  records.forEach(({ record, specifier, locals }) => {
+    if (!codemod.namedImports) {
+      replace(record.specifierRange, specifier);
+      locals.forEach((local) => {
+        const rename = codemod.renameBindings?.[local];
+        if (!rename || isIdentifierUsed(sourceFile, rename)) {
+          return;
+        }
+        findReferences(sourceFile, local)
+          .filter((reference) => !covered(reference))
+          .forEach((reference) =>
+            replace(
+              toRange(sourceFile, reference),
+              renameReference(reference, rename)
+            )
+          );
+      });
+      return;
+    }
+
+    const names = Array.from(
+      new Set(
+        rewritten
+          .filter((rewrite) =>
+            uses.some(
+              (use) =>
+                locals.includes(use.local) &&
+                contains(rewrite.node, use.reference)
+            )
+          )
+          .flatMap((rewrite) => rewrite.imports ?? [])
+      )
+    ).sort();
+    const statement = locals.length
+      ? declaringStatement(sourceFile, locals[0])
+      : undefined;
+    if (!statement) {
+      unconverted(
+        record.range,
+        `this import of ${from} needs converting to ${to} by hand`
+      );
+      return;
+    }
+
+    const quote =
+      content[offsetOf(sourceFile, record.specifierRange.start) - 1];
+    const line =
+      record.kind === "require"
+        ? `const { ${names.join(", ")} } = require(${quote}${specifier}${quote});`
+        : `import { ${names.join(", ")} } from ${quote}${specifier}${quote};`;
+    const keep = remaining.some((use) => locals.includes(use.local));
+    if (!keep) {
+      replace(toRange(sourceFile, statement), names.length ? line : "");
+    } else if (names.length) {
+      const end = sourceFile.getLineAndCharacterOfPosition(statement.getEnd());
+      replace({ start: end, end }, `\n${line}`);
+    }
+  });
+
+  return result;
+}
+
+// Apply replacements to text, e.g. to preview a migration
+export function applyReplacements(
+  content: string,
+  replacements: TextReplacement[]
+): string {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+  const offset = (position: SourceRange["start"]) =>
+    lineStarts[position.line] + position.character;
+
+  // Work backwards so earlier offsets stay valid
+  return [...replacements]
+    .sort((a, b) => offset(b.range.start) - offset(a.range.start))
+    .reduce(
+      (text, replacement) =>
+        text.slice(0, offset(replacement.range.start)) +
+        replacement.newText +
+        text.slice(offset(replacement.range.end)),
+      content
+    );
+}
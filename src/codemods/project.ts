@@ -0,0 +1,78 @@
+import * as path from "path";
+import { errorHandler } from "../utils";
+import { migrateImports } from "./migrate";
+import { Codemod, MigrationResult } from "./types";
+
+export interface FileMigration extends MigrationResult {
+  filePath: string;
+}
+
+export interface ProjectMigration {
+  codemod: Codemod;
+  // Files with something to change or report, in the order scanned
+  files: FileMigration[];
+}
+
+// Run a codemod over every file whose imports include its source package.
+// readFile lets callers supply unsaved editor contents.
+export function planProjectMigration(
+  packageImports: Record<string, string[]>,
+  codemod: Codemod,
+  readFile: (filePath: string) => string
+): ProjectMigration {
+  const files: FileMigration[] = [];
+  Object.entries(packageImports)
+    .filter(([, packages]) => packages.includes(codemod.from))
+    .forEach(([filePath]) => {
+      try {
+        const result = migrateImports(
+          readFile(filePath),
+          filePath,
+          codemod.from,
+          codemod.to,
+          [codemod]
+        );
+        if (result.replacements.length > 0 || result.unconverted.length > 0) {
+          files.push({ filePath, ...result });
+        }
+      } catch (error) {
+        const start = { line: 0, character: 0 };
+        files.push({
+          filePath,
+          replacements: [],
+          unconverted: [
+            {
+              range: { start, end: start },
+              reason: `could not be migrated: ${errorHandler(error)}`,
+            },
+          ],
+        });
+      }
+    });
+  return { codemod, files };
+}
+
+// Plain-text list of the sites left for a human, one per line as
+// "src/file.ts:12:5 reason" so editors can link them
+export function formatMigrationReport(
+  migration: ProjectMigration,
+  rootPath: string
+): string {
+  const { codemod, files } = migration;
+  const changed = files.filter((file) => file.replacements.length > 0);
+  const sites = files.flatMap((file) =>
+    file.unconverted.map(
+      (site) =>
+        `${path.relative(rootPath, file.filePath)}:${site.range.start.line + 1}:${
+          site.range.start.character + 1
+        } ${site.reason}`
+    )
+  );
+  return [
+    `${codemod.description} (${codemod.id})`,
+    `${changed.length} ${changed.length === 1 ? "file" : "files"} converted, ${
+      sites.length
+    } ${sites.length === 1 ? "site needs" : "sites need"} manual changes`,
+    ...(sites.length ? ["", ...sites] : []),
+  ].join("\n");
+}
@@ -0,0 +1,52 @@
+import * as ts from "typescript";
+import { SourceRange } from "../imports/scanner";
+
+// One text change, in the scanner's zero-based line/character coordinates
+export interface TextReplacement {
+  range: SourceRange;
+  newText: string;
+}
+
+// A use of the old package that couldn't be rewritten safely
+export interface UnconvertedSite {
+  range: SourceRange;
+  reason: string;
+}
+
+export interface MigrationResult {
+  replacements: TextReplacement[];
+  unconverted: UnconvertedSite[];
+}
+
+// A rewritten use of an imported binding
+export interface UsageRewrite {
+  // Outermost node replaced, e.g. the whole moment().add(1, "day") chain
+  node: ts.Node;
+  text: string;
+  // Named exports of the new package the text relies on
+  imports?: string[];
+}
+
+// Knows how to move code from one package to another beyond swapping the
+// import specifier
+export interface Codemod {
+  id: string;
+  from: string;
+  to: string;
+  description: string;
+  // Map an import specifier of `from`, including deep imports, to its
+  // counterpart in `to`. Undefined means there is no equivalent.
+  mapSpecifier(specifier: string): string | undefined;
+  // False for ESM-only targets that can't be require()d
+  supportsRequire: boolean;
+  // Conventional local names to rename, e.g. { moment: "dayjs" }
+  renameBindings?: Record<string, string>;
+  // Import the named exports that rewritten uses need in place of the
+  // old binding, e.g. `import { format } from "date-fns"`. The old import
+  // stays while any use is left unconverted.
+  namedImports?: boolean;
+  // Rewrite or check one reference to an imported binding. Returns a
+  // reason when the use has no direct equivalent in `to`, and undefined
+  // when it carries over as is (apart from renames).
+  rewriteUsage?(reference: ts.Identifier): UsageRewrite | string | undefined;
+}
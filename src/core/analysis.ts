@@ -0,0 +1,212 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ImportRecord, scanImports } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import { ManifestReport } from "../manifest/reconcile";
+import { errorHandler } from "../utils";
+import { PathFilter } from "./filter";
+
+// Result of scanning a project, folder or set of files
+export interface ProjectAnalysis {
+  structure: {
+    type: "directory" | "file";
+    name: string;
+    path: string;
+    children?: ProjectAnalysis["structure"];
+  }[];
+  packageImports: Record<string, string[]>;
+  importRecords: Record<string, ImportRecord[]>;
+  suggestedAnalysis: string[];
+  manifestReports?: ManifestReport[];
+}
+
+// Function to analyze project structure. The filter can leave out files
+// and directories, e.g. from --include/--exclude globs.
+export function analyzeProjectStructure(
+  targetPath: string,
+  filter: PathFilter = () => true
+): ProjectAnalysis {
+  let analysisResult: ProjectAnalysis = {
+    structure: [],
+    packageImports: {},
+    importRecords: {},
+    suggestedAnalysis: [],
+  };
+
+  if (!fs.existsSync(targetPath)) {
+    return analysisResult;
+  }
+
+  // Sort directories first, then files
+  let allEntries = fs.readdirSync(targetPath);
+  let directories: string[] = [];
+  let files: string[] = [];
+
+  allEntries.forEach((entry) => {
+    let fullPath = path.join(targetPath, entry);
+    try {
+      if (fs.statSync(fullPath).isDirectory()) {
+        // Skip node_modules and other non-relevant directories
+        if (
+          entry !== "node_modules" &&
+          entry !== ".git" &&
+          !entry.startsWith(".") &&
+          filter(fullPath, true)
+        ) {
+          directories.push(entry);
+        }
+      } else {
+        // Focus on JS/TS files for analysis
+        if (
+          (entry.endsWith(".js") ||
+            entry.endsWith(".jsx") ||
+            entry.endsWith(".ts") ||
+            entry.endsWith(".tsx")) &&
+          filter(fullPath, false)
+        ) {
+          files.push(entry);
+        }
+      }
+    } catch (error) {
+      // Skip files that can't be accessed
+      console.warn(`Unable to access ${fullPath}: ${errorHandler(error)}`);
+    }
+  });
+
+  // Process all directories
+  directories.forEach((dir: string) => {
+    let fullPath: string = path.join(targetPath, dir);
+    let subAnalysis: ProjectAnalysis = analyzeProjectStructure(
+      fullPath,
+      filter
+    );
+    analysisResult.structure.push({
+      type: "directory",
+      name: dir,
+      path: fullPath,
+      children: subAnalysis.structure,
+    });
+
+    // Merge package imports from subdirectories
+    Object.assign(analysisResult.packageImports, subAnalysis.packageImports);
+    Object.assign(analysisResult.importRecords, subAnalysis.importRecords);
+
+    // Add suggested files from subdirectories
+    analysisResult.suggestedAnalysis = [
+      ...analysisResult.suggestedAnalysis,
+      ...subAnalysis.suggestedAnalysis,
+    ];
+  });
+
+  // Process all files
+  files.forEach((file) => {
+    let fullPath = path.join(targetPath, file);
+    analysisResult.structure.push({
+      type: "file",
+      name: file,
+      path: fullPath,
+    });
+
+    // Analyze imports for JS/TS files
+    try {
+      const records = analyzeFileImports(fullPath);
+      const imports = getImportedPackages(records);
+      if (records.length > 0) {
+        analysisResult.importRecords[fullPath] = records;
+      }
+      if (imports.length > 0) {
+        analysisResult.packageImports[fullPath] = imports;
+
+        // If file has many imports, suggest it for detailed analysis
+        if (imports.length > 3) {
+          analysisResult.suggestedAnalysis.push(fullPath);
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `Error analyzing imports in ${fullPath}: ${errorHandler(error)}`
+      );
+    }
+  });
+
+  return analysisResult;
+}
+
+// Function to analyze imports in a file
+export function analyzeFileImports(
+  filePath: string,
+  text?: string
+): ImportRecord[] {
+  // Open editors pass their unsaved text; otherwise read from disk
+  const content = text ?? fs.readFileSync(filePath, "utf8");
+
+  try {
+    // Skip local files (relative or absolute paths)
+    return scanImports(content, filePath).filter((record) => {
+      const { kind } = classifySpecifier(record.specifier);
+      return kind !== "relative" && kind !== "absolute";
+    });
+  } catch (error) {
+    console.error(
+      `Error parsing imports in ${filePath}: ${errorHandler(error)}`
+    );
+    return [];
+  }
+}
+
+// Function to get the unique npm package names referenced by import records
+export function getImportedPackages(records: ImportRecord[]): string[] {
+  const packages = new Set<string>();
+  records.forEach((record) => {
+    // Built-ins and unresolvable specifiers never reach the registry
+    const { packageName } = classifySpecifier(record.specifier);
+    if (packageName) {
+      packages.add(packageName);
+    }
+  });
+  return Array.from(packages);
+}
+
+// Function to extract unique packages from an import analysis
+export function extractUniquePackages(
+  packageImports: Record<string, string[]>
+): Set<string> {
+  const uniquePackages = new Set<string>();
+  Object.values(packageImports).forEach((imports) => {
+    imports.forEach((pkg) => uniquePackages.add(pkg));
+  });
+  return uniquePackages;
+}
+
+// Function to recursively collect JS/TS files from a directory
+export function collectFilesFromDir(dirPath: string): string[] {
+  const result: string[] = [];
+  if (!fs.existsSync(dirPath)) {
+    return result;
+  }
+
+  const entries = fs.readdirSync(dirPath);
+  entries.forEach((entry) => {
+    const fullPath = path.join(dirPath, entry);
+    try {
+      const stat = fs.statSync(fullPath);
+      if (stat.isDirectory()) {
+        // Skip node_modules and hidden directories
+        if (
+          entry !== "node_modules" &&
+          entry !== ".git" &&
+          !entry.startsWith(".")
+        ) {
+          result.push(...collectFilesFromDir(fullPath));
+        }
+      } else if (
+        [".js", ".jsx", ".ts", ".tsx"].includes(path.extname(fullPath))
+      ) {
+        result.push(fullPath);
+      }
+    } catch (error) {
+      console.warn(`Unable to access ${fullPath}: ${errorHandler(error)}`);
+    }
+  });
+  return result;
+}
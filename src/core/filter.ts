@@ -0,0 +1,73 @@
+import * as path from "path";
+
+// Whether a file or directory, given by absolute path, takes part in an
+// analysis. Excluded directories are not descended into.
+export type PathFilter = (filePath: string, isDirectory: boolean) => boolean;
+
+export interface PathFilterOptions {
+  // Globs relative to the analysed folder; empty includes every file
+  include?: string[];
+  exclude?: string[];
+}
+
+// Translate a glob to a regular expression over "/"-separated paths.
+// Supports "*", "?" and "**"; a pattern without "/" matches at any depth,
+// like in .gitignore.
+export function globToRegExp(pattern: string): RegExp {
+  let glob = pattern.trim().replace(/\\/g, "/").replace(/^\.\//, "");
+  glob = glob.replace(/\/+$/, "");
+  if (!glob.includes("/")) {
+    glob = `**/${glob}`;
+  }
+
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories, any other "**" anything
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else {
+        source += ".*";
+        i += 1;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Filter for the files under root. A pattern matching a directory applies
+// to everything inside it, so "scripts" excludes scripts/build.js.
+export function createPathFilter(
+  root: string,
+  options: PathFilterOptions
+): PathFilter {
+  const include = (options.include ?? []).map(globToRegExp);
+  const exclude = (options.exclude ?? []).map(globToRegExp);
+
+  const matches = (patterns: RegExp[], segments: string[]) =>
+    segments.some((_, i) => {
+      const prefix = segments.slice(0, i + 1).join("/");
+      return patterns.some((pattern) => pattern.test(prefix));
+    });
+
+  return (filePath, isDirectory) => {
+    const relative = path.relative(root, filePath);
+    if (!relative) {
+      return true;
+    }
+    const segments = relative.split(path.sep);
+    if (matches(exclude, segments)) {
+      return false;
+    }
+    // Any directory may hold included files
+    return isDirectory || include.length === 0 || matches(include, segments);
+  };
+}
@@ -0,0 +1,4 @@
+export * from "./analysis";
+export * from "./filter";
+export * from "./packages";
+export * from "./project";
@@ -0,0 +1,476 @@
+import { AdvisorySource, auditPackages } from "../audit";
+import { deprecationOf, findDeprecatedDependencies } from "../deprecation";
+import {
+  RepositoryLookup,
+  computeHealth,
+  scoreRepository,
+  summarizeHealth,
+} from "../health";
+import { ImportRecord } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import { describeLicense } from "../licenses";
+import { Lockfile, getInstalledPackageInfo } from "../lockfile";
+import {
+  RegistryClient,
+  RepositoryRef,
+  RequestFailedError,
+  fetchStateOf,
+  parseRepository,
+} from "../registry";
+import { checkPackagePolicy } from "../policy";
+import { PackagePolicy, RuleEngine } from "../rules";
+import {
+  PackageSignals,
+  ScoringStrategy,
+  rankAlternatives,
+  signalsFromPackument,
+} from "../scoring";
+import { PackageSize, loadEsbuild, measurePackageSize } from "../size";
+import { findUpgrades, getReleaseLinks } from "../upgrades";
+import { errorHandler } from "../utils";
+
+// A registry field that should be text, or "" when it's anything else
+const textField = (value: unknown): string =>
+  typeof value === "string" ? value : "";
+
+// Function to fetch npm metadata for a list of packages. When a lockfile is
+// given, the installed version is reported instead of the latest one.
+export async function fetchNpmMetadata(
+  packageNames: string[],
+  client: RegistryClient,
+  lockfile?: Lockfile
+): Promise<Record<string, any>> {
+  const packageData: Record<string, any> = {};
+
+  await Promise.all(
+    packageNames.map(async (packageName) => {
+      const installed = lockfile
+        ? getInstalledPackageInfo(lockfile, packageName)
+        : undefined;
+
+      try {
+        // Fetch basic package info from the package's registry (or the cache)
+        const packument = await client.getPackument(packageName);
+        const data = packument.data;
+
+        if (data) {
+          const latestVersion = data["dist-tags"]?.latest;
+          const version = installed?.installedVersion || latestVersion;
+          // The reported version's own licence, which may have changed
+          const manifest = data.versions?.[version];
+          const license = describeLicense(
+            manifest?.license || manifest?.licenses ? manifest : data
+          );
+          const deprecation = deprecationOf(packageName, manifest);
+          const latestDeprecation =
+            latestVersion !== version
+              ? deprecationOf(packageName, data.versions?.[latestVersion])
+              : undefined;
+          const upgrades = version ? findUpgrades(data, version) : undefined;
+          const repository = parseRepository(data.repository);
+
+          packageData[packageName] = {
+            name: packageName,
+            description: textField(data.description),
+            version: version || "",
+            latestVersion: latestVersion || "",
+            installed,
+            license: license.declared,
+            licenseCategory: license.category,
+            homepage: textField(data.homepage),
+            repository: textField(data.repository?.url),
+            sourceRepository: repository,
+            maintainers: data.maintainers?.length || 0,
+            lastPublished: data.time?.[latestVersion] || "",
+            dependencies: data.versions?.[version]?.dependencies || {},
+            deprecated: deprecation?.message || "",
+            // Notices of the installed and the latest version, and later
+            // of deprecated packages installed with it
+            deprecation: {
+              installed: deprecation,
+              latest: latestDeprecation,
+              transitive: [],
+            },
+            // Newer versions by kind, and where to read about them
+            upgrades,
+            releaseLinks:
+              repository &&
+              getReleaseLinks(
+                repository,
+                version,
+                upgrades?.options[upgrades.options.length - 1]?.version
+              ),
+            signals: signalsFromPackument(data, version),
+            // Repository state is added by checkRepositoryHealth
+            health: computeHealth(data),
+            fetchedAt: packument.fetchedAt,
+            stale: packument.stale,
+            weeklyDownloads: undefined, // Populated below from the bulk downloads API
+            alternatives: [], // Will be populated later with recommendations
+            fetchStatus: {
+              metadata: fetchStateOf(packument),
+              downloads: "skipped",
+            },
+          };
+        }
+      } catch (error) {
+        console.warn(
+          `Error fetching metadata for ${packageName}: ${errorHandler(error)}`
+        );
+        // Store minimal info for packages that couldn't be fetched
+        packageData[packageName] = {
+          name: packageName,
+          description: "Could not fetch package data",
+          version: installed?.installedVersion || "",
+          installed,
+          error: errorHandler(error),
+          fetchStatus: {
+            metadata: "failed",
+            downloads: "skipped",
+            attempts:
+              error instanceof RequestFailedError ? error.attempts : undefined,
+            error: errorHandler(error),
+          },
+        };
+      }
+    })
+  );
+
+  // Download counts for everything we found, batched where possible
+  const downloads = await client.getBulkWeeklyDownloads(
+    Object.keys(packageData).filter((name) => !packageData[name].error)
+  );
+  Object.entries(downloads).forEach(([packageName, result]) => {
+    const pkg = packageData[packageName];
+    pkg.fetchStatus.downloads = fetchStateOf(result);
+    if (result instanceof Error) {
+      console.warn(
+        `Could not fetch download stats for ${packageName}: ${errorHandler(result)}`
+      );
+      pkg.weeklyDownloads = undefined;
+      pkg.fetchStatus.error = errorHandler(result);
+    } else {
+      pkg.weeklyDownloads = result.data;
+    }
+  });
+
+  return packageData;
+}
+
+// Function to audit each package's version against known advisories
+export async function auditPackageData(
+  packageData: Record<string, any>,
+  source: AdvisorySource | undefined
+): Promise<void> {
+  if (!source) {
+    return;
+  }
+
+  const packages = Object.values(packageData)
+    .filter((pkg) => pkg.version)
+    .map((pkg) => ({ name: pkg.name, version: pkg.version }));
+  const results = await auditPackages(packages, source);
+
+  Object.entries(results).forEach(([packageName, result]) => {
+    packageData[packageName].audit = result;
+  });
+}
+
+// Function to attach the matching rule's alternatives to each package
+export function applyRecommendationRules(
+  packageData: Record<string, any>,
+  rules: RuleEngine
+): void {
+  Object.values(packageData).forEach((pkg: any) => {
+    const recommendation = rules.recommend(pkg.name, pkg.version || undefined);
+    pkg.alternatives = recommendation?.alternatives ?? [];
+    pkg.recommendation = recommendation;
+  });
+}
+
+// Function to suggest the replacements named in deprecation messages, ahead
+// of the rule-based alternatives
+export function applyDeprecationReplacements(
+  packageData: Record<string, any>
+): void {
+  Object.values(packageData).forEach((pkg: any) => {
+    const replacements: string[] = Array.from(
+      new Set([
+        ...(pkg.deprecation?.installed?.replacements ?? []),
+        ...(pkg.deprecation?.latest?.replacements ?? []),
+      ])
+    );
+    if (replacements.length === 0) {
+      return;
+    }
+    pkg.alternatives = [
+      ...replacements,
+      ...(pkg.alternatives ?? []).filter(
+        (name: string) => !replacements.includes(name)
+      ),
+    ];
+    pkg.alternativeSources = {
+      ...pkg.alternativeSources,
+      ...Object.fromEntries(replacements.map((name) => [name, "deprecation"])),
+    };
+  });
+}
+
+// Function to look for deprecated versions among the packages each analysed
+// package installs, using the lockfile's versions where it has them
+export async function findTransitiveDeprecations(
+  packageData: Record<string, any>,
+  client: RegistryClient,
+  lockfile?: Lockfile
+): Promise<void> {
+  await Promise.all(
+    Object.entries(packageData).map(async ([name, pkg]) => {
+      if (!pkg.error && pkg.version && pkg.deprecation) {
+        pkg.deprecation.transitive = await findDeprecatedDependencies(
+          name,
+          pkg.version,
+          { client, lockfile }
+        );
+      }
+    })
+  );
+}
+
+// Function to look up whether each package's repository is archived or
+// gone and score that into its health. Failed lookups leave it out.
+export async function checkRepositoryHealth(
+  packageData: Record<string, any>,
+  lookup: RepositoryLookup | undefined
+): Promise<void> {
+  if (!lookup) {
+    return;
+  }
+  await Promise.all(
+    Object.values(packageData).map(async (pkg: any) => {
+      const repository: RepositoryRef | undefined = pkg.sourceRepository;
+      if (!pkg.health || !repository) {
+        return;
+      }
+      try {
+        const signal = scoreRepository(
+          repository,
+          await lookup.getState(repository)
+        );
+        if (signal) {
+          pkg.health = summarizeHealth([
+            ...pkg.health.signals.filter(
+              (existing: any) => existing.id !== "repository"
+            ),
+            signal,
+          ]);
+        }
+      } catch (error) {
+        console.warn(
+          `Could not look up the repository of ${pkg.name}: ${errorHandler(error)}`
+        );
+      }
+    })
+  );
+}
+
+// Function to check every package against the dependency policy. Required
+// replacements of denied packages come before other alternatives.
+export function applyPackagePolicy(
+  packageData: Record<string, any>,
+  policy: PackagePolicy | undefined
+): void {
+  if (!policy) {
+    return;
+  }
+  const now = new Date();
+  Object.values(packageData).forEach((pkg: any) => {
+    const violations = checkPackagePolicy(pkg, policy, now);
+    const replacements = violations.flatMap(
+      (violation) => violation.replacements ?? []
+    );
+    pkg.policyViolations = violations;
+    pkg.alternatives = [
+      ...replacements,
+      ...(pkg.alternatives ?? []).filter(
+        (name: string) => !replacements.includes(name)
+      ),
+    ];
+    pkg.alternativeSources = {
+      ...pkg.alternativeSources,
+      ...Object.fromEntries(replacements.map((name) => [name, "policy"])),
+    };
+  });
+}
+
+// Function to score every package and its suggested alternatives with the
+// given strategy, ranking the alternatives best first
+export async function scorePackageData(
+  packageData: Record<string, any>,
+  client: RegistryClient,
+  advisorySource: AdvisorySource | undefined,
+  strategy: ScoringStrategy
+): Promise<void> {
+  // Look up the same signals for every alternative that isn't analysed already
+  const alternativeNames = Array.from(
+    new Set(
+      Object.values(packageData).flatMap((pkg: any) => pkg.alternatives ?? [])
+    )
+  );
+  const alternativeSignals: Record<string, PackageSignals> = {};
+  await Promise.all(
+    alternativeNames.map(async (name) => {
+      try {
+        const { data } = await client.getPackument(name);
+        const signals = signalsFromPackument(data, undefined);
+        if (advisorySource && signals.version) {
+          signals.advisories = (
+            await auditPackages(
+              [{ name, version: signals.version }],
+              advisorySource
+            )
+          )[name]?.advisories;
+        }
+        alternativeSignals[name] = signals;
+      } catch (error) {
+        console.warn(
+          `Could not score alternative ${name}: ${errorHandler(error)}`
+        );
+      }
+    })
+  );
+  const downloads = await client.getBulkWeeklyDownloads(
+    Object.keys(alternativeSignals)
+  );
+  Object.entries(downloads).forEach(([name, result]) => {
+    if (!(result instanceof Error)) {
+      alternativeSignals[name].weeklyDownloads = result.data;
+    }
+  });
+
+  const withDependents = async (signals: PackageSignals) => {
+    try {
+      signals.dependents = await client.getDependents(signals.name);
+    } catch (error) {
+      console.warn(
+        `Could not fetch dependents of ${signals.name}: ${errorHandler(error)}`
+      );
+    }
+    return signals;
+  };
+  await Promise.all([
+    ...Object.values(alternativeSignals).map(withDependents),
+    ...Object.values(packageData)
+      .filter((pkg: any) => pkg.signals)
+      .map((pkg: any) => withDependents(pkg.signals)),
+  ]);
+
+  Object.values(packageData).forEach((pkg: any) => {
+    if (!pkg.signals) {
+      return;
+    }
+    const signals: PackageSignals = {
+      ...pkg.signals,
+      weeklyDownloads: pkg.weeklyDownloads,
+      advisories:
+        pkg.audit && !pkg.audit.error ? pkg.audit.advisories : undefined,
+    };
+    const ranking = rankAlternatives(
+      strategy,
+      signals,
+      (pkg.alternatives ?? [])
+        .map((name: string) => alternativeSignals[name])
+        .filter(Boolean)
+    );
+    pkg.score = { ...ranking.current, label: strategy.label };
+    pkg.alternativeScores = ranking.alternatives;
+    // Scored alternatives first, in rank order, then any we couldn't score
+    pkg.alternatives = [
+      ...ranking.alternatives.map((alt) => alt.name),
+      ...pkg.alternatives.filter((name: string) => !alternativeSignals[name]),
+    ];
+  });
+}
+
+export interface SizeOptions {
+  client: RegistryClient;
+  lockfile?: Lockfile;
+  // Folder whose node_modules bundles are built from
+  root: string;
+  // Import records per file, to measure only what is imported
+  importRecords?: Record<string, ImportRecord[]>;
+  installSize: boolean;
+  bundleSize: boolean;
+}
+
+// Function to measure the install size and bundle cost of every package and
+// its suggested alternatives, at their latest version. Bundle costs need
+// that version installed, so esbuild can resolve it.
+export async function sizePackageData(
+  packageData: Record<string, any>,
+  options: SizeOptions
+): Promise<void> {
+  if (!options.installSize && !options.bundleSize) {
+    return;
+  }
+  const esbuild = options.bundleSize ? loadEsbuild(options.root) : undefined;
+  if (options.bundleSize && !esbuild) {
+    console.warn("esbuild is not available; bundle sizes are skipped");
+  }
+  // The records importing each package, wherever they are
+  const recordsByPackage: Record<string, ImportRecord[]> = {};
+  Object.values(options.importRecords ?? {})
+    .flat()
+    .forEach((record) => {
+      const { kind, packageName } = classifySpecifier(record.specifier);
+      if (kind === "package" && packageName) {
+        (recordsByPackage[packageName] ??= []).push(record);
+      }
+    });
+  // Alternatives aren't imported yet, so they are bundled whole and
+  // compared with the whole of the package they'd replace
+  const measure = (name: string, version: string, pkg?: any) =>
+    measurePackageSize(name, version, {
+      client: options.client,
+      lockfile: pkg ? options.lockfile : undefined,
+      root: options.root,
+      esbuild,
+      records: pkg ? recordsByPackage[name] : undefined,
+      wholeBundle: pkg?.alternatives?.length > 0,
+      skipInstall: !options.installSize,
+    });
+
+  const alternativeSizes: Record<string, PackageSize> = {};
+  const alternativeNames = Array.from(
+    new Set(
+      Object.values(packageData).flatMap((pkg: any) => pkg.alternatives ?? [])
+    )
+  );
+  await Promise.all([
+    ...Object.entries(packageData).map(async ([name, pkg]) => {
+      if (!pkg.error && pkg.version) {
+        pkg.size = await measure(name, pkg.version, pkg);
+      }
+    }),
+    ...alternativeNames.map(async (name) => {
+      try {
+        const { data } = await options.client.getPackument(name);
+        const version = data?.["dist-tags"]?.latest;
+        if (version) {
+          alternativeSizes[name] = await measure(name, version);
+        }
+      } catch (error) {
+        console.warn(
+          `Could not measure alternative ${name}: ${errorHandler(error)}`
+        );
+      }
+    }),
+  ]);
+
+  Object.values(packageData).forEach((pkg: any) => {
+    pkg.alternativeSizes = Object.fromEntries(
+      (pkg.alternatives ?? [])
+        .filter((name: string) => alternativeSizes[name])
+        .map((name: string) => [name, alternativeSizes[name]])
+    );
+  });
+}
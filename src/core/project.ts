@@ -0,0 +1,164 @@
+import * as path from "path";
+import { AdvisorySource } from "../audit";
+import { MetadataCache } from "../cache/metadataCache";
+import { RepositoryLookup } from "../health";
+import { Lockfile, loadLockfile } from "../lockfile";
+import { findNearestManifest } from "../manifest/packageJson";
+import { reconcileImports } from "../manifest/reconcile";
+import {
+  RegistryClient,
+  RequestScheduler,
+  createRegistryClient,
+  loadNpmrc,
+  withTrailingSlash,
+} from "../registry";
+import { RuleEngine } from "../rules";
+import { ScoringStrategy } from "../scoring";
+import {
+  ProjectAnalysis,
+  analyzeProjectStructure,
+  extractUniquePackages,
+} from "./analysis";
+import { PathFilterOptions, createPathFilter } from "./filter";
+import {
+  SizeOptions,
+  applyDeprecationReplacements,
+  applyPackagePolicy,
+  applyRecommendationRules,
+  auditPackageData,
+  checkRepositoryHealth,
+  fetchNpmMetadata,
+  findTransitiveDeprecations,
+  scorePackageData,
+  sizePackageData,
+} from "./packages";
+
+export interface ProjectRegistryOptions {
+  // Overrides the registry from .npmrc
+  registryUrl?: string;
+  // Undefined disables download counts
+  downloadsEndpoint?: string;
+  cache?: MetadataCache;
+  scheduler?: RequestScheduler;
+}
+
+// Registry client built from the project and user .npmrc, found from the
+// nearest package.json above startPath
+export function createProjectRegistryClient(
+  startPath: string,
+  options: ProjectRegistryOptions
+): RegistryClient {
+  const manifestPath = findNearestManifest(startPath);
+  const registryConfig = loadNpmrc(
+    manifestPath ? path.dirname(manifestPath) : startPath
+  );
+  if (options.registryUrl) {
+    registryConfig.registry = withTrailingSlash(options.registryUrl);
+  }
+  return createRegistryClient(registryConfig, {
+    downloadsEndpoint: options.downloadsEndpoint,
+    cache: options.cache,
+    scheduler: options.scheduler,
+  });
+}
+
+export interface CollectPackageDataOptions {
+  client: RegistryClient;
+  // Undefined skips the vulnerability audit
+  advisorySource?: AdvisorySource;
+  rules: RuleEngine;
+  lockfile?: Lockfile;
+  // Look for deprecated packages among the ones each package installs;
+  // on unless false
+  transitiveDeprecations?: boolean;
+  // Undefined leaves repository state out of the health scores
+  repositoryLookup?: RepositoryLookup;
+  // Further recommendations, e.g. AI suggestions, merged in before the
+  // alternatives are scored and sized
+  recommend?: (packageData: Record<string, any>) => Promise<void>;
+  // Undefined skips scoring
+  strategy?: ScoringStrategy;
+  // Undefined skips sizes
+  size?: Omit<SizeOptions, "client" | "lockfile">;
+}
+
+// Collect metadata, advisories, deprecations, health, rule recommendations,
+// policy violations, scores and sizes for packages. Shared by the CLI and
+// the extension, which pass their settings in as options.
+export async function collectPackageData(
+  packageNames: string[],
+  options: CollectPackageDataOptions
+): Promise<Record<string, any>> {
+  const { client, advisorySource, lockfile } = options;
+  const packageData = await fetchNpmMetadata(packageNames, client, lockfile);
+  await auditPackageData(packageData, advisorySource);
+  if (options.transitiveDeprecations !== false) {
+    await findTransitiveDeprecations(packageData, client, lockfile);
+  }
+  applyRecommendationRules(packageData, options.rules);
+  applyDeprecationReplacements(packageData);
+  await checkRepositoryHealth(packageData, options.repositoryLookup);
+  applyPackagePolicy(packageData, options.rules.policy);
+  await options.recommend?.(packageData);
+  if (options.strategy) {
+    await scorePackageData(
+      packageData,
+      client,
+      advisorySource,
+      options.strategy
+    );
+  }
+  if (options.size) {
+    await sizePackageData(packageData, { ...options.size, client, lockfile });
+  }
+  return packageData;
+}
+
+export interface AnalyzeProjectOptions
+  extends
+    PathFilterOptions,
+    Omit<CollectPackageDataOptions, "lockfile" | "size"> {
+  // Measure install sizes and bundle costs
+  size?: boolean;
+}
+
+export interface ProjectResult {
+  analysis: ProjectAnalysis;
+  packageData: Record<string, any>;
+}
+
+// Scan a folder and collect the package data for every package it imports.
+// Has no editor dependency, so the CLI runs the same analysis as the
+// extension.
+export async function analyzeProject(
+  root: string,
+  options: AnalyzeProjectOptions
+): Promise<ProjectResult> {
+  const analysis = analyzeProjectStructure(
+    root,
+    createPathFilter(root, options)
+  );
+  // Dependencies are only reported unused when every file was scanned
+  const filtered = !!options.include?.length || !!options.exclude?.length;
+  analysis.manifestReports = reconcileImports(
+    analysis.importRecords,
+    filtered ? undefined : root
+  );
+
+  const packageData = await collectPackageData(
+    Array.from(extractUniquePackages(analysis.packageImports)),
+    {
+      ...options,
+      lockfile: loadLockfile(root),
+      size: options.size
+        ? {
+            root,
+            importRecords: analysis.importRecords,
+            installSize: true,
+            bundleSize: true,
+          }
+        : undefined,
+    }
+  );
+  return { analysis, packageData };
+}
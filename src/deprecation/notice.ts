@@ -0,0 +1,78 @@
+// A version the maintainers marked deprecated with `npm deprecate`
+export interface DeprecationNotice {
+  version: string;
+  message: string;
+  // Packages the message tells users to move to
+  replacements: string[];
+}
+
+// Phrases that introduce a replacement, e.g. "use x instead", "moved to x"
+const replacementPattern =
+  /\b(?:use|using|try|switch to|migrate to|moved to|move to|replaced by|renamed to|superseded by|in favou?r of|check out)\s+[`'"]?(@[a-z0-9][\w.~-]*\/[\w.~-]+|[a-z0-9][\w.~-]*)/gi;
+
+// Words that follow those phrases without naming a package
+const notPackageNames = new Set([
+  "a",
+  "an",
+  "another",
+  "built-in",
+  "builtin",
+  "it",
+  "its",
+  "latest",
+  "modern",
+  "native",
+  "new",
+  "newer",
+  "node",
+  "npm",
+  "one",
+  "other",
+  "our",
+  "the",
+  "their",
+  "this",
+  "these",
+  "that",
+  "version",
+  "versions",
+  "your",
+]);
+
+// Package names a deprecation message points to, in order of mention.
+// Names must be written in lower case, as npm requires, so prose such as
+// "use Math.random()" or "use v2" is not mistaken for a package.
+export function parseReplacements(message: string, own?: string): string[] {
+  const replacements: string[] = [];
+  for (const match of message.matchAll(replacementPattern)) {
+    // Drop sentence punctuation, as in "use got."
+    const name = match[1].replace(/[.~-]+$/, "");
+    if (
+      name === name.toLowerCase() &&
+      !notPackageNames.has(name) &&
+      !/^v?\d/.test(name) &&
+      name !== own &&
+      !replacements.includes(name)
+    ) {
+      replacements.push(name);
+    }
+  }
+  return replacements;
+}
+
+// The deprecation notice of a version manifest, if it has one
+export function deprecationOf(
+  name: string,
+  manifest: any
+): DeprecationNotice | undefined {
+  const message = manifest?.deprecated;
+  // npm un-deprecates with an empty message
+  if (typeof message !== "string" || !message.trim()) {
+    return undefined;
+  }
+  return {
+    version: manifest.version,
+    message: message.trim(),
+    replacements: parseReplacements(message, name),
+  };
+}
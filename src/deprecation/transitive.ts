@@ -0,0 +1,28 @@
+import { WalkTreeOptions, walkDependencyTree } from "../registry";
+import { DeprecationNotice, deprecationOf } from "./notice";
+
+// A deprecated package installed for one the project imports
+export interface TransitiveDeprecation extends DeprecationNotice {
+  name: string;
+  // The package that depends on it directly
+  requiredBy: string;
+}
+
+// Deprecated versions in a package's dependency tree, not counting the
+// package itself, sorted by name
+export async function findDeprecatedDependencies(
+  name: string,
+  version: string,
+  options: WalkTreeOptions
+): Promise<TransitiveDeprecation[]> {
+  const found: TransitiveDeprecation[] = [];
+  await walkDependencyTree(name, version, options, (node) => {
+    const notice = node.parent && deprecationOf(node.name, node.manifest);
+    if (notice) {
+      found.push({ ...notice, name: node.name, requiredBy: node.parent! });
+    }
+  });
+  return found.sort(
+    (a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version)
+  );
+}
@@ -0,0 +1,249 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  Codemod,
+  UnconvertedSite,
+  migrateImports,
+  planManifestReplacement,
+} from "../codemods";
+import { findNearestManifest } from "../manifest/packageJson";
+import { errorHandler } from "../utils";
+import { ImportDiagnostics, toRange } from "./importDiagnostics";
+
+export const ignorePackageCommand = "packagePilot.ignorePackage";
+export const showPackageDetailsCommand = "packagePilot.showPackageDetails";
+export const replaceInManifestCommand = "packagePilot.replaceInManifest";
+
+export interface ImportCodeActionOptions {
+  diagnostics: ImportDiagnostics;
+  // Latest published version, used for the new package.json entry
+  resolveVersion(
+    packageName: string,
+    filePath: string
+  ): Promise<string | undefined>;
+  showDetails(packageName: string, uri: vscode.Uri): Promise<void>;
+  // Codemods configured for the file's project, built-ins included
+  codemods(filePath: string): Codemod[];
+}
+
+const selector: vscode.DocumentSelector = [
+  "javascript",
+  "javascriptreact",
+  "typescript",
+  "typescriptreact",
+].map((language) => ({ language, scheme: "file" }));
+
+// Quick fixes on flagged imports: migrate to an alternative, ignore the
+// package or open its details. Registers the commands the fixes run.
+export function createImportCodeActions(
+  options: ImportCodeActionOptions
+): vscode.Disposable {
+  const replacements = new WeakMap<
+    vscode.CodeAction,
+    { document: vscode.TextDocument; packageName: string; alternative: string }
+  >();
+
+  const provider: vscode.CodeActionProvider = {
+    provideCodeActions: (document, range, context) => {
+      const findings = options.diagnostics
+        .getFindings(document.uri)
+        .filter((finding) => toRange(finding.range).intersection(range));
+      const packageNames = Array.from(
+        new Set(findings.map((finding) => finding.packageName))
+      );
+
+      return packageNames.flatMap((packageName) => {
+        const diagnostics = context.diagnostics.filter(
+          (diagnostic) =>
+            diagnostic.source === "Package Pilot" &&
+            findings.some(
+              (finding) =>
+                finding.packageName === packageName &&
+                toRange(finding.range).isEqual(diagnostic.range)
+            )
+        );
+        const actions: vscode.CodeAction[] = [];
+
+        const alternatives =
+          options.diagnostics.getFacts(packageName)?.alternatives ?? [];
+        alternatives.forEach((alternative, i) => {
+          const action = new vscode.CodeAction(
+            `Replace ${packageName} with ${alternative}`,
+            vscode.CodeActionKind.QuickFix
+          );
+          action.diagnostics = diagnostics;
+          action.isPreferred = i === 0;
+          replacements.set(action, { document, packageName, alternative });
+          actions.push(action);
+        });
+
+        const ignore = new vscode.CodeAction(
+          `Ignore ${packageName}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        ignore.diagnostics = diagnostics;
+        ignore.command = {
+          command: ignorePackageCommand,
+          title: `Ignore ${packageName}`,
+          arguments: [packageName],
+        };
+        actions.push(ignore);
+
+        const details = new vscode.CodeAction(
+          `Show Package Pilot details for ${packageName}`,
+          vscode.CodeActionKind.QuickFix
+        );
+        details.diagnostics = diagnostics;
+        details.command = {
+          command: showPackageDetailsCommand,
+          title: "Show Package Pilot details",
+          arguments: [packageName, document.uri],
+        };
+        actions.push(details);
+
+        return actions;
+      });
+    },
+
+    // The migration is only worked out for the fix the user picks
+    resolveCodeAction: (action) => {
+      const pending = replacements.get(action);
+      if (!pending) {
+        return action;
+      }
+      const { document, packageName, alternative } = pending;
+      const migration = migrateImports(
+        document.getText(),
+        document.uri.fsPath,
+        packageName,
+        alternative,
+        options.codemods(document.uri.fsPath)
+      );
+      action.edit = new vscode.WorkspaceEdit();
+      migration.replacements.forEach((replacement) =>
+        action.edit!.replace(
+          document.uri,
+          toRange(replacement.range),
+          replacement.newText
+        )
+      );
+      // Runs once the edit is applied
+      action.command = {
+        command: replaceInManifestCommand,
+        title: "Update package.json",
+        arguments: [
+          document.uri,
+          packageName,
+          alternative,
+          migration.unconverted,
+        ],
+      };
+      return action;
+    },
+  };
+
+  const ignorePackage = async (packageName: string) => {
+    const config = vscode.workspace.getConfiguration("packagePilot");
+    const ignored = config.get<string[]>("ignoredPackages", []);
+    if (ignored.includes(packageName)) {
+      return;
+    }
+    await config.update(
+      "ignoredPackages",
+      [...ignored, packageName].sort(),
+      vscode.workspace.workspaceFolders
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global
+    );
+    vscode.window.showInformationMessage(
+      `Package Pilot will ignore ${packageName}. Remove it from packagePilot.ignoredPackages to undo.`
+    );
+  };
+
+  // Offer to swap the dependency in the nearest package.json. "Preview"
+  // opens the refactor preview; either way the edit can be undone.
+  const replaceInManifest = async (
+    uri: vscode.Uri,
+    from: string,
+    to: string,
+    unconverted: UnconvertedSite[] = []
+  ) => {
+    const manifestPath = findNearestManifest(path.dirname(uri.fsPath));
+    const manual =
+      unconverted.length > 0
+        ? ` ${unconverted.length} ${
+            unconverted.length === 1 ? "use needs" : "uses need"
+          } manual changes, e.g. line ${unconverted[0].range.start.line + 1}: ${
+            unconverted[0].reason
+          }.`
+        : "";
+    if (!manifestPath) {
+      vscode.window.showInformationMessage(
+        `Replaced ${from} with ${to}.${manual}`
+      );
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `Replaced ${from} with ${to}.${manual} Update package.json too?`,
+      "Update package.json",
+      "Preview"
+    );
+    if (!choice) {
+      return;
+    }
+    const manifest = await vscode.workspace.openTextDocument(manifestPath);
+    const version = await options.resolveVersion(to, uri.fsPath);
+    const replacements = planManifestReplacement(
+      manifest.getText(),
+      from,
+      to,
+      version ? `^${version}` : "latest"
+    );
+    const edit = new vscode.WorkspaceEdit();
+    replacements.forEach((replacement) =>
+      edit.replace(
+        manifest.uri,
+        toRange(replacement.range),
+        replacement.newText,
+        {
+          label: `Replace ${from} with ${to}`,
+          needsConfirmation: choice === "Preview",
+        }
+      )
+    );
+    await vscode.workspace.applyEdit(edit, { isRefactoring: true });
+  };
+
+  const withErrors =
+    <T extends unknown[]>(action: string, run: (...args: T) => Promise<void>) =>
+    async (...args: T) => {
+      try {
+        await run(...args);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error ${action}: ${errorHandler(error)}`
+        );
+      }
+    };
+
+  const disposables = [
+    vscode.languages.registerCodeActionsProvider(selector, provider, {
+      providedCodeActionKinds: [vscode.CodeActionKind.QuickFix],
+    }),
+    vscode.commands.registerCommand(
+      ignorePackageCommand,
+      withErrors("ignoring package", ignorePackage)
+    ),
+    vscode.commands.registerCommand(
+      showPackageDetailsCommand,
+      withErrors("showing package details", options.showDetails)
+    ),
+    vscode.commands.registerCommand(
+      replaceInManifestCommand,
+      withErrors("updating package.json", replaceInManifest)
+    ),
+  ];
+
+  return vscode.Disposable.from(...disposables);
+}
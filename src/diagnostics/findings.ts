@@ -0,0 +1,200 @@
+import { Advisory, severityOrder } from "../audit/osv";
+import { TransitiveDeprecation } from "../deprecation";
+import { ImportRecord, SourceRange } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import { ManifestReport } from "../manifest/reconcile";
+import { PolicyViolation } from "../policy/check";
+import { Recommendation } from "../rules/types";
+
+export type DiagnosticCategory =
+  "deprecated" | "advisory" | "alternative" | "undeclared" | "policy";
+
+export const diagnosticCategories: DiagnosticCategory[] = [
+  "deprecated",
+  "advisory",
+  "alternative",
+  "undeclared",
+  "policy",
+];
+
+// Mirrors vscode.DiagnosticSeverity names, plus "off" to hide a category
+export type FindingSeverity =
+  "error" | "warning" | "information" | "hint" | "off";
+
+export const defaultDiagnosticSeverity: Record<
+  DiagnosticCategory,
+  FindingSeverity
+> = {
+  deprecated: "warning",
+  advisory: "error",
+  alternative: "information",
+  undeclared: "error",
+  policy: "error",
+};
+
+// What we know about a package from the last metadata lookup
+export interface PackageFacts {
+  // Deprecation message of the version in use
+  deprecated?: string;
+  // Deprecation notice of a newer latest version
+  latestDeprecated?: { version: string; message: string };
+  // Deprecated packages installed along with this one
+  deprecatedDependencies?: TransitiveDeprecation[];
+  advisories?: Advisory[];
+  recommendation?: Recommendation;
+  // Alternatives from any source (rules, policy and AI), best first
+  alternatives?: string[];
+  policyViolations?: PolicyViolation[];
+}
+
+export interface ImportFinding {
+  category: DiagnosticCategory;
+  severity: Exclude<FindingSeverity, "off">;
+  packageName: string;
+  // The import statement or require call the finding is attached to
+  range: SourceRange;
+  message: string;
+}
+
+// Reduce analysed package data to the facts findings are computed from
+export function getPackageFacts(
+  packageData: Record<string, any>
+): Record<string, PackageFacts> {
+  const facts: Record<string, PackageFacts> = {};
+  Object.values(packageData).forEach((pkg: any) => {
+    if (pkg.error) {
+      // Denied packages are flagged even without metadata
+      if (pkg.policyViolations?.length) {
+        facts[pkg.name] = { policyViolations: pkg.policyViolations };
+      }
+      return;
+    }
+    facts[pkg.name] = {
+      deprecated: pkg.deprecated || undefined,
+      latestDeprecated: pkg.deprecation?.latest,
+      deprecatedDependencies: pkg.deprecation?.transitive?.length
+        ? pkg.deprecation.transitive
+        : undefined,
+      advisories: pkg.audit?.advisories,
+      recommendation: pkg.recommendation,
+      alternatives: pkg.alternatives,
+      policyViolations: pkg.policyViolations,
+    };
+  });
+  return facts;
+}
+
+// Turn one file's imports into findings for flagged packages
+export function computeImportFindings(
+  records: ImportRecord[],
+  facts: Record<string, PackageFacts>,
+  manifestReports: ManifestReport[],
+  severity: Record<DiagnosticCategory, FindingSeverity>
+): ImportFinding[] {
+  const undeclared = new Map<string, string>();
+  manifestReports.forEach((report) =>
+    report.findings
+      .filter((finding) => finding.kind === "undeclared")
+      .forEach((finding) =>
+        undeclared.set(finding.packageName, finding.message)
+      )
+  );
+
+  const findings: ImportFinding[] = [];
+  const add = (
+    category: DiagnosticCategory,
+    packageName: string,
+    range: SourceRange,
+    message: string
+  ) => {
+    const level = severity[category];
+    if (level !== "off") {
+      findings.push({ category, severity: level, packageName, range, message });
+    }
+  };
+
+  records.forEach((record) => {
+    const { packageName } = classifySpecifier(record.specifier);
+    if (!packageName) {
+      return;
+    }
+    const known = facts[packageName];
+
+    if (known?.deprecated) {
+      add(
+        "deprecated",
+        packageName,
+        record.range,
+        `${packageName} is deprecated: ${known.deprecated}`
+      );
+    } else if (known?.latestDeprecated) {
+      add(
+        "deprecated",
+        packageName,
+        record.range,
+        `The latest version of ${packageName} (${known.latestDeprecated.version}) is deprecated: ${known.latestDeprecated.message}`
+      );
+    }
+    const dependencies = known?.deprecatedDependencies ?? [];
+    if (dependencies.length > 0) {
+      const listed = dependencies
+        .slice(0, 3)
+        .map((dependency) => `${dependency.name}@${dependency.version}`);
+      add(
+        "deprecated",
+        packageName,
+        record.range,
+        `${packageName} installs deprecated ${
+          dependencies.length === 1 ? "package" : "packages"
+        } ${listed.join(", ")}${
+          dependencies.length > 3 ? ` and ${dependencies.length - 3} more` : ""
+        }`
+      );
+    }
+
+    const advisories = [...(known?.advisories ?? [])].sort(
+      (a, b) =>
+        severityOrder.indexOf(a.severity) - severityOrder.indexOf(b.severity)
+    );
+    if (advisories.length > 0) {
+      const worst = advisories[0];
+      const fixed = advisories.find((advisory) => advisory.fixedVersion);
+      add(
+        "advisory",
+        packageName,
+        record.range,
+        `${packageName} has ${advisories.length} known ${
+          advisories.length === 1 ? "vulnerability" : "vulnerabilities"
+        } (worst: ${worst.severity}, ${worst.id}: ${worst.summary})${
+          fixed ? `. Fixed in ${fixed.fixedVersion}` : ""
+        }`
+      );
+    }
+
+    if (known?.alternatives?.length) {
+      add(
+        "alternative",
+        packageName,
+        record.range,
+        `Consider ${known.alternatives.join(", ")} instead of ${packageName}${
+          known.recommendation ? `: ${known.recommendation.reason}` : ""
+        }`
+      );
+    }
+
+    known?.policyViolations?.forEach((violation) =>
+      add("policy", packageName, record.range, violation.message)
+    );
+
+    if (undeclared.has(packageName)) {
+      add(
+        "undeclared",
+        packageName,
+        record.range,
+        `${packageName}: ${undeclared.get(packageName)}`
+      );
+    }
+  });
+
+  return findings;
+}
@@ -0,0 +1,249 @@
+import * as vscode from "vscode";
+import { ImportRecord, SourceRange } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import { reconcileImports } from "../manifest/reconcile";
+import { errorHandler } from "../utils";
+import {
+  DiagnosticCategory,
+  FindingSeverity,
+  ImportFinding,
+  PackageFacts,
+  computeImportFindings,
+  defaultDiagnosticSeverity,
+} from "./findings";
+
+export interface ImportDiagnosticsOptions {
+  // Scan a document's current text for package imports
+  scan(document: vscode.TextDocument): ImportRecord[];
+  // Look up facts for packages we know nothing about yet
+  lookup(
+    packageNames: string[],
+    filePath: string
+  ): Promise<Record<string, PackageFacts>>;
+}
+
+export interface ImportDiagnostics extends vscode.Disposable {
+  collection: vscode.DiagnosticCollection;
+  // Merge facts from an analysis run and refresh open files
+  updateFacts(facts: Record<string, PackageFacts>): void;
+  // Findings behind the diagnostics currently shown for a file
+  getFindings(uri: vscode.Uri): ImportFinding[];
+  getFacts(packageName: string): PackageFacts | undefined;
+  refresh(document?: vscode.TextDocument): void;
+}
+
+const supportedLanguages = [
+  "javascript",
+  "javascriptreact",
+  "typescript",
+  "typescriptreact",
+];
+
+const severityMap: Record<
+  Exclude<FindingSeverity, "off">,
+  vscode.DiagnosticSeverity
+> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  information: vscode.DiagnosticSeverity.Information,
+  hint: vscode.DiagnosticSeverity.Hint,
+};
+
+// Finding severities from the diagnostics.severity setting
+export function getFindingSeverity(): Record<
+  DiagnosticCategory,
+  FindingSeverity
+> {
+  return {
+    ...defaultDiagnosticSeverity,
+    ...vscode.workspace
+      .getConfiguration("packagePilot")
+      .get<Partial<Record<DiagnosticCategory, FindingSeverity>>>(
+        "diagnostics.severity",
+        {}
+      ),
+  };
+}
+
+function getSettings() {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  return {
+    enabled: config.get<boolean>("diagnostics.enabled", true),
+    ignored: config.get<string[]>("ignoredPackages", []),
+    severity: getFindingSeverity(),
+  };
+}
+
+// Scanner ranges use the same zero-based coordinates as vscode
+export const toRange = (range: SourceRange) =>
+  new vscode.Range(
+    range.start.line,
+    range.start.character,
+    range.end.line,
+    range.end.character
+  );
+
+// Keep diagnostics on the imports of open JS/TS files in sync with what we
+// know about each package. Unknown packages are looked up in the background.
+export function createImportDiagnostics(
+  options: ImportDiagnosticsOptions
+): ImportDiagnostics {
+  const collection =
+    vscode.languages.createDiagnosticCollection("packagePilot");
+  const facts: Record<string, PackageFacts> = {};
+  const pending = new Set<string>();
+  const findingsByUri = new Map<string, ImportFinding[]>();
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  const isSupported = (document: vscode.TextDocument) =>
+    document.uri.scheme === "file" &&
+    supportedLanguages.includes(document.languageId);
+
+  const refreshAll = () =>
+    vscode.workspace.textDocuments.forEach((document) => refresh(document));
+
+  const lookupMissing = (records: ImportRecord[], filePath: string) => {
+    const missing = Array.from(
+      new Set(
+        records
+          .map((record) => classifySpecifier(record.specifier).packageName)
+          .filter(
+            (name): name is string =>
+              !!name && !facts[name] && !pending.has(name)
+          )
+      )
+    );
+    if (missing.length === 0) {
+      return;
+    }
+    missing.forEach((name) => pending.add(name));
+    options
+      .lookup(missing, filePath)
+      .then((found) => {
+        // Remember misses too so we don't ask again on every keystroke
+        missing.forEach((name) => (facts[name] = found[name] ?? {}));
+        refreshAll();
+      })
+      .catch((error) =>
+        console.warn(
+          `Package lookup for diagnostics failed: ${errorHandler(error)}`
+        )
+      )
+      .finally(() => missing.forEach((name) => pending.delete(name)));
+  };
+
+  const render = (document: vscode.TextDocument) => {
+    const settings = getSettings();
+    if (!settings.enabled || !isSupported(document)) {
+      collection.delete(document.uri);
+      findingsByUri.delete(document.uri.toString());
+      return;
+    }
+
+    const records = options
+      .scan(document)
+      .filter(
+        (record) =>
+          !settings.ignored.includes(
+            classifySpecifier(record.specifier).packageName ?? ""
+          )
+      );
+    const findings = computeImportFindings(
+      records,
+      facts,
+      reconcileImports({ [document.uri.fsPath]: records }),
+      settings.severity
+    );
+    findingsByUri.set(document.uri.toString(), findings);
+    collection.set(
+      document.uri,
+      findings.map((finding) => {
+        const diagnostic = new vscode.Diagnostic(
+          toRange(finding.range),
+          finding.message,
+          severityMap[finding.severity]
+        );
+        diagnostic.source = "Package Pilot";
+        diagnostic.code = {
+          value: finding.category,
+          target: vscode.Uri.parse(
+            `https://www.npmjs.com/package/${finding.packageName}`
+          ),
+        };
+        return diagnostic;
+      })
+    );
+    lookupMissing(records, document.uri.fsPath);
+  };
+
+  const refresh = (document?: vscode.TextDocument) => {
+    if (!document) {
+      refreshAll();
+      return;
+    }
+    try {
+      render(document);
+    } catch (error) {
+      console.warn(
+        `Could not update diagnostics for ${document.uri.fsPath}: ${errorHandler(error)}`
+      );
+    }
+  };
+
+  // Typing only re-renders once the file has been quiet for a moment
+  const scheduleRefresh = (document: vscode.TextDocument) => {
+    const key = document.uri.toString();
+    clearTimeout(timers.get(key));
+    timers.set(
+      key,
+      setTimeout(() => {
+        timers.delete(key);
+        refresh(document);
+      }, 500)
+    );
+  };
+
+  const subscriptions = [
+    collection,
+    vscode.workspace.onDidOpenTextDocument((document) => refresh(document)),
+    vscode.workspace.onDidChangeTextDocument((event) =>
+      scheduleRefresh(event.document)
+    ),
+    vscode.workspace.onDidSaveTextDocument((document) => {
+      // Dependencies changed: undeclared findings may have come or gone
+      if (document.fileName.endsWith("package.json")) {
+        refreshAll();
+      }
+    }),
+    vscode.workspace.onDidCloseTextDocument((document) => {
+      collection.delete(document.uri);
+      findingsByUri.delete(document.uri.toString());
+    }),
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      // Rule changes alter recommendations, so look packages up again
+      if (event.affectsConfiguration("packagePilot.rules")) {
+        Object.keys(facts).forEach((name) => delete facts[name]);
+      }
+      if (event.affectsConfiguration("packagePilot")) {
+        refreshAll();
+      }
+    }),
+  ];
+
+  refreshAll();
+
+  return {
+    collection,
+    updateFacts: (updated) => {
+      Object.assign(facts, updated);
+      refreshAll();
+    },
+    getFindings: (uri) => findingsByUri.get(uri.toString()) ?? [],
+    getFacts: (packageName) => facts[packageName],
+    refresh,
+    dispose: () => {
+      timers.forEach((timer) => clearTimeout(timer));
+      subscriptions.forEach((subscription) => subscription.dispose());
+    },
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./findings";
+export * from "./importDiagnostics";
+export * from "./codeActions";
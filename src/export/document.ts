@@ -0,0 +1,254 @@
+import * as path from "path";
+import { AdvisorySeverity } from "../audit/osv";
+import {
+  DiagnosticCategory,
+  FindingSeverity,
+  computeImportFindings,
+  defaultDiagnosticSeverity,
+  getPackageFacts,
+} from "../diagnostics/findings";
+import { ImportRecord, SourceRange } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import { ManifestFindingKind, ManifestReport } from "../manifest/reconcile";
+import { LicenseCategory } from "../licenses";
+import { PolicyResult, getPolicyResult } from "../policy/check";
+import { PackageStatus, getPackageStatus } from "../views/packageNodes";
+import { licenseOf } from "../views/report";
+
+// Bumped on breaking changes to the document shape, see
+// schemas/report.schema.json
+export const reportFormatVersion = 1;
+
+export interface ExportedAdvisory {
+  id: string;
+  severity: AdvisorySeverity;
+  summary: string;
+  fixedVersion?: string;
+  url?: string;
+}
+
+// A deprecated version: the package's own, its latest, or one it installs
+export interface ExportedDeprecation {
+  name: string;
+  version: string;
+  message: string;
+  // Packages the message names as replacements
+  replacements: string[];
+  // The package installing it, for transitive dependencies
+  requiredBy?: string;
+}
+
+export interface ExportedPackage {
+  name: string;
+  version?: string;
+  latestVersion?: string;
+  status: PackageStatus;
+  summary: string;
+  description?: string;
+  license: string;
+  licenseCategory?: LicenseCategory;
+  homepage?: string;
+  weeklyDownloads?: number;
+  lastPublished?: string;
+  deprecated?: string;
+  // Deprecations of this version, the latest and installed dependencies
+  deprecations?: ExportedDeprecation[];
+  alternatives: string[];
+  // Reason given by the matching recommendation rule
+  recommendation?: string;
+  advisories: ExportedAdvisory[];
+  score?: number;
+  // Bytes installed with the package's dependency tree
+  installSize?: number;
+  // Minified and gzipped bytes the imports add to a bundle
+  bundleSize?: number;
+  // Files importing the package, relative to the report root
+  files: string[];
+  // Set when the registry metadata couldn't be fetched
+  error?: string;
+}
+
+// A finding attached to one import, as shown in editor diagnostics
+export interface ExportedFinding {
+  category: DiagnosticCategory;
+  severity: Exclude<FindingSeverity, "off">;
+  packageName: string;
+  message: string;
+  file: string;
+  // Zero-based, like editor positions
+  range: SourceRange;
+}
+
+export interface ExportedManifestFinding {
+  manifest: string;
+  kind: ManifestFindingKind;
+  packageName: string;
+  message: string;
+  files: string[];
+}
+
+export interface ReportDocument {
+  formatVersion: typeof reportFormatVersion;
+  tool: { name: string; version: string };
+  generatedAt: string;
+  // Absolute path every other path in the document is relative to
+  root: string;
+  summary: {
+    files: number;
+    packages: number;
+    statuses: Partial<Record<PackageStatus, number>>;
+    findings: Partial<Record<Exclude<FindingSeverity, "off">, number>>;
+  };
+  packages: ExportedPackage[];
+  findings: ExportedFinding[];
+  manifestFindings: ExportedManifestFinding[];
+  // Present when the workspace defines a dependency policy
+  policy?: PolicyResult;
+}
+
+export interface ReportInput {
+  root: string;
+  importRecords: Record<string, ImportRecord[]>;
+  packageData: Record<string, any>;
+  manifestReports?: ManifestReport[];
+  // Finding severities, e.g. from the diagnostics.severity setting
+  severity?: Record<DiagnosticCategory, FindingSeverity>;
+  toolVersion: string;
+  generatedAt?: Date;
+}
+
+// Paths use forward slashes so reports compare across platforms
+const relativeTo = (root: string) => (filePath: string) =>
+  path.relative(root, filePath).split(path.sep).join("/") || ".";
+
+const count = <T extends string>(values: T[]) =>
+  values.reduce<Partial<Record<T, number>>>(
+    (counts, value) => ({ ...counts, [value]: (counts[value] ?? 0) + 1 }),
+    {}
+  );
+
+// Deprecation notices of a package, undefined when there are none
+const exportDeprecations = (
+  name: string,
+  deprecation: any
+): ExportedDeprecation[] | undefined => {
+  const notices: ExportedDeprecation[] = [
+    ...[deprecation?.installed, deprecation?.latest]
+      .filter(Boolean)
+      .map((notice: any) => ({ name, ...notice })),
+    ...(deprecation?.transitive ?? []),
+  ].map((notice) => ({
+    name: notice.name,
+    version: notice.version,
+    message: notice.message,
+    replacements: notice.replacements,
+    requiredBy: notice.requiredBy,
+  }));
+  return notices.length > 0 ? notices : undefined;
+};
+
+// Collect an analysis into the versioned document every export format is
+// rendered from
+export function buildReportDocument(input: ReportInput): ReportDocument {
+  const relative = relativeTo(input.root);
+  const files = Object.keys(input.importRecords).sort();
+
+  const importers: Record<string, string[]> = {};
+  files.forEach((filePath) =>
+    input.importRecords[filePath].forEach((record) => {
+      const { packageName } = classifySpecifier(record.specifier);
+      if (packageName && !importers[packageName]?.includes(filePath)) {
+        (importers[packageName] ||= []).push(filePath);
+      }
+    })
+  );
+
+  const packages = Object.keys(importers)
+    .sort()
+    .map((name): ExportedPackage => {
+      const pkg = input.packageData[name];
+      return {
+        name,
+        version: pkg?.version || undefined,
+        latestVersion: pkg?.latestVersion || undefined,
+        ...getPackageStatus(pkg),
+        description: pkg?.description || undefined,
+        license: licenseOf(pkg),
+        licenseCategory: pkg?.licenseCategory,
+        homepage: pkg?.homepage || undefined,
+        weeklyDownloads:
+          typeof pkg?.weeklyDownloads === "number"
+            ? pkg.weeklyDownloads
+            : undefined,
+        lastPublished: pkg?.lastPublished || undefined,
+        deprecated: pkg?.deprecated || undefined,
+        deprecations: exportDeprecations(name, pkg?.deprecation),
+        alternatives: pkg?.alternatives ?? [],
+        recommendation: pkg?.recommendation?.reason,
+        advisories: (pkg?.audit?.advisories ?? []).map((advisory: any) => ({
+          id: advisory.id,
+          severity: advisory.severity,
+          summary: advisory.summary,
+          fixedVersion: advisory.fixedVersion,
+          url: advisory.url,
+        })),
+        score: pkg?.score?.total,
+        installSize: pkg?.size?.install?.totalSize,
+        bundleSize: pkg?.size?.bundle?.gzipped,
+        files: importers[name].map(relative),
+        error: pkg?.error,
+      };
+    });
+
+  const facts = getPackageFacts(input.packageData);
+  const manifestReports = input.manifestReports ?? [];
+  // Each file only gets the manifest findings about it, so a package
+  // undeclared in one workspace isn't flagged in another that declares it
+  const reportsFor = (filePath: string): ManifestReport[] =>
+    manifestReports.map((report) => ({
+      ...report,
+      findings: report.findings.filter((finding) =>
+        finding.files.includes(filePath)
+      ),
+    }));
+  const findings = files.flatMap((filePath) =>
+    computeImportFindings(
+      input.importRecords[filePath],
+      facts,
+      reportsFor(filePath),
+      input.severity ?? defaultDiagnosticSeverity
+    ).map((finding): ExportedFinding => ({
+      category: finding.category,
+      severity: finding.severity,
+      packageName: finding.packageName,
+      message: finding.message,
+      file: relative(filePath),
+      range: finding.range,
+    }))
+  );
+
+  return {
+    formatVersion: reportFormatVersion,
+    tool: { name: "package-pilot", version: input.toolVersion },
+    generatedAt: (input.generatedAt ?? new Date()).toISOString(),
+    root: input.root,
+    summary: {
+      files: files.length,
+      packages: packages.length,
+      statuses: count(packages.map((pkg) => pkg.status)),
+      findings: count(findings.map((finding) => finding.severity)),
+    },
+    packages,
+    findings,
+    manifestFindings: manifestReports.flatMap((report) =>
+      report.findings.map((finding) => ({
+        manifest: relative(report.manifestPath),
+        kind: finding.kind,
+        packageName: finding.packageName,
+        message: finding.message,
+        files: finding.files.map(relative),
+      }))
+    ),
+    policy: getPolicyResult(input.packageData),
+  };
+}
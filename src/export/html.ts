@@ -0,0 +1,285 @@
+import { formatPolicySummary } from "../policy/check";
+import { SafeHtml, html, httpUrl, raw } from "../views/html";
+import { ReportDocument } from "./document";
+
+const styles = `
+  body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; margin: 2em auto; max-width: 1100px; padding: 0 1em; color: #1f2328; line-height: 1.5; }
+  table { border-collapse: collapse; width: 100%; margin-bottom: 2em; }
+  th, td { text-align: left; vertical-align: top; padding: 6px 10px; border-bottom: 1px solid #d0d7de; }
+  th { background: #f6f8fa; }
+  code { font-size: 0.9em; }
+  .muted { color: #656d76; }
+  .status, .severity { display: inline-block; padding: 0 6px; border-radius: 3px; font-size: 0.85em; color: #fff; background: #656d76; }
+  .status-vulnerable, .severity-error, .severity-critical, .severity-high { background: #cf222e; }
+  .status-deprecated, .severity-warning, .severity-moderate { background: #bc4c00; }
+  .status-outdated, .status-alternatives, .severity-information, .severity-low { background: #0969da; }
+  .status-ok { background: #1a7f37; }
+  .policy { padding: 8px 12px; border-left: 4px solid #1a7f37; background: #f6f8fa; }
+  .policy-failed { border-left-color: #cf222e; }
+`;
+
+const link = (url: string | undefined, label: string): SafeHtml => {
+  const href = httpUrl(url);
+  return href ? html`<a href="${href}">${label}</a>` : html`${label}`;
+};
+
+// Self-contained HTML page with no scripts, for audits and attachments
+export function renderHtmlReport(document: ReportDocument): string {
+  const advisories = document.packages.flatMap((pkg) =>
+    pkg.advisories.map((advisory) => ({ pkg, advisory }))
+  );
+  const deprecations = document.packages.flatMap(
+    (pkg) => pkg.deprecations ?? []
+  );
+
+  return html`<!DOCTYPE html>
+    <html lang="en">
+      <head>
+        <meta charset="UTF-8" />
+        <meta
+          http-equiv="Content-Security-Policy"
+          content="default-src 'none'; style-src 'unsafe-inline'"
+        />
+        <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+        <title>Package Pilot report</title>
+        <style>
+          ${raw(styles)}
+        </style>
+      </head>
+      <body>
+        <h1>Package Pilot report</h1>
+        <p class="muted">
+          ${document.summary.packages} packages imported by
+          ${document.summary.files} files in <code>${document.root}</code>.
+          Generated ${document.generatedAt} by ${document.tool.name}
+          ${document.tool.version}.
+        </p>
+
+        ${
+          document.policy &&
+          html`
+            <h2>Dependency policy</h2>
+            <p class="policy ${document.policy.passed ? "" : "policy-failed"}">
+              ${formatPolicySummary(document.policy)}
+            </p>
+            ${
+              document.policy.violations.length > 0 &&
+              html`
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Package</th>
+                      <th>Rule</th>
+                      <th>Violation</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    ${document.policy.violations.map(
+                      (violation) => html`
+                        <tr>
+                          <td><code>${violation.packageName}</code></td>
+                          <td>${violation.kind}</td>
+                          <td>${violation.message}</td>
+                        </tr>
+                      `
+                    )}
+                  </tbody>
+                </table>
+              `
+            }
+          `
+        }
+
+        <h2>Packages</h2>
+        <table>
+          <thead>
+            <tr>
+              <th>Package</th>
+              <th>Version</th>
+              <th>Status</th>
+              <th>Licence</th>
+              <th>Weekly downloads</th>
+              <th>Files</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${document.packages.map(
+              (pkg) => html`
+                <tr>
+                  <td>
+                    ${link(pkg.homepage, pkg.name)}
+                    <div class="muted">${pkg.description}</div>
+                  </td>
+                  <td>
+                    ${pkg.version}${
+                      pkg.latestVersion &&
+                      pkg.latestVersion !== pkg.version &&
+                      html` <span class="muted"
+                        >(latest ${pkg.latestVersion})</span
+                      >`
+                    }
+                  </td>
+                  <td>
+                    <span class="status status-${pkg.status}"
+                      >${pkg.status}</span
+                    >
+                    ${pkg.summary}
+                  </td>
+                  <td>${pkg.license}</td>
+                  <td>
+                    ${pkg.weeklyDownloads?.toLocaleString("en-US") ?? "—"}
+                  </td>
+                  <td>
+                    ${pkg.files.map((file, i) => html`${i > 0 && html`<br />`}<code>${file}</code>`)}
+                  </td>
+                </tr>
+              `
+            )}
+          </tbody>
+        </table>
+
+        ${
+          document.findings.length > 0 &&
+          html`
+            <h2>Findings</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Severity</th>
+                  <th>Location</th>
+                  <th>Message</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${document.findings.map(
+                  (finding) => html`
+                    <tr>
+                      <td>
+                        <span class="severity severity-${finding.severity}"
+                          >${finding.severity}</span
+                        >
+                      </td>
+                      <td>
+                        <code
+                          >${finding.file}:${finding.range.start.line + 1}:${finding.range.start.character + 1}</code
+                        >
+                      </td>
+                      <td>${finding.message}</td>
+                    </tr>
+                  `
+                )}
+              </tbody>
+            </table>
+          `
+        }
+        ${
+          advisories.length > 0 &&
+          html`
+            <h2>Security advisories</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Package</th>
+                  <th>Advisory</th>
+                  <th>Severity</th>
+                  <th>Fixed in</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${advisories.map(
+                  ({ pkg, advisory }) => html`
+                    <tr>
+                      <td><code>${pkg.name}</code></td>
+                      <td>
+                        ${link(advisory.url, advisory.id)}
+                        <div class="muted">${advisory.summary}</div>
+                      </td>
+                      <td>
+                        <span class="severity severity-${advisory.severity}"
+                          >${advisory.severity}</span
+                        >
+                      </td>
+                      <td>${advisory.fixedVersion ?? "—"}</td>
+                    </tr>
+                  `
+                )}
+              </tbody>
+            </table>
+          `
+        }
+        ${
+          deprecations.length > 0 &&
+          html`
+            <h2>Deprecations</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Package</th>
+                  <th>Version</th>
+                  <th>Message</th>
+                  <th>Replacements</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${deprecations.map(
+                  (notice) => html`
+                    <tr>
+                      <td>
+                        <code>${notice.name}</code>
+                        ${
+                          notice.requiredBy &&
+                          html`<div class="muted">
+                            via <code>${notice.requiredBy}</code>
+                          </div>`
+                        }
+                      </td>
+                      <td>${notice.version}</td>
+                      <td>${notice.message}</td>
+                      <td>
+                        ${
+                          notice.replacements.length > 0
+                            ? notice.replacements.map(
+                                (name, i) =>
+                                  html`${i > 0 && ", "}<code>${name}</code>`
+                              )
+                            : "—"
+                        }
+                      </td>
+                    </tr>
+                  `
+                )}
+              </tbody>
+            </table>
+          `
+        }
+        ${
+          document.manifestFindings.length > 0 &&
+          html`
+            <h2>Dependency issues</h2>
+            <table>
+              <thead>
+                <tr>
+                  <th>Manifest</th>
+                  <th>Kind</th>
+                  <th>Package</th>
+                  <th>Message</th>
+                </tr>
+              </thead>
+              <tbody>
+                ${document.manifestFindings.map(
+                  (finding) => html`
+                    <tr>
+                      <td><code>${finding.manifest}</code></td>
+                      <td>${finding.kind}</td>
+                      <td><code>${finding.packageName}</code></td>
+                      <td>${finding.message}</td>
+                    </tr>
+                  `
+                )}
+              </tbody>
+            </table>
+          `
+        }
+      </body>
+    </html> `.markup;
+}
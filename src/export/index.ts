@@ -0,0 +1,54 @@
+import { ReportDocument } from "./document";
+import { renderHtmlReport } from "./html";
+import { renderMarkdownReport } from "./markdown";
+import { renderSarifReport } from "./sarif";
+
+export * from "./document";
+export * from "./html";
+export * from "./markdown";
+export * from "./sarif";
+
+export type ExportFormat = "json" | "markdown" | "html" | "sarif";
+
+export const exportFormats: Record<
+  ExportFormat,
+  { label: string; extension: string; description: string }
+> = {
+  json: {
+    label: "JSON",
+    extension: "json",
+    description: "Versioned document following schemas/report.schema.json",
+  },
+  markdown: {
+    label: "Markdown",
+    extension: "md",
+    description: "Summary and findings to paste into a pull request",
+  },
+  html: {
+    label: "HTML",
+    extension: "html",
+    description: "Standalone page for audits and attachments",
+  },
+  sarif: {
+    label: "SARIF 2.1.0",
+    extension: "sarif",
+    description: "Findings at their import locations for code scanning",
+  },
+};
+
+// Render a report document in one of the export formats
+export function renderReport(
+  document: ReportDocument,
+  format: ExportFormat
+): string {
+  switch (format) {
+    case "markdown":
+      return renderMarkdownReport(document);
+    case "html":
+      return renderHtmlReport(document);
+    case "sarif":
+      return JSON.stringify(renderSarifReport(document), null, 2) + "\n";
+    default:
+      return JSON.stringify(document, null, 2) + "\n";
+  }
+}
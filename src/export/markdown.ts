@@ -0,0 +1,153 @@
+import { formatPolicySummary } from "../policy/check";
+import { httpUrl } from "../views/html";
+import { PackageStatus } from "../views/packageNodes";
+import { ReportDocument } from "./document";
+
+const statusLabels: Record<PackageStatus, string> = {
+  vulnerable: "🔴 vulnerable",
+  deprecated: "🟠 deprecated",
+  outdated: "🔵 outdated",
+  alternatives: "💡 alternatives",
+  unknown: "❔ unknown",
+  ok: "✅ ok",
+};
+
+// Keep registry text from breaking out of a table cell or adding markup
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/\r?\n/g, " ")
+    .replace(/([\\`*_{}[\]<>()#+!|~])/g, "\\$1");
+}
+
+const code = (text: string) => `\`${text.replace(/`/g, "'")}\``;
+
+const link = (label: string, url: string | undefined) => {
+  const href = httpUrl(url);
+  return href
+    ? `[${escapeMarkdown(label)}](${href.replace(/\(/g, "%28").replace(/\)/g, "%29")})`
+    : escapeMarkdown(label);
+};
+
+// Markdown for pull requests and issues: a summary, a package table and the
+// findings with their import locations
+export function renderMarkdownReport(document: ReportDocument): string {
+  const lines: string[] = [
+    "## Package Pilot report",
+    "",
+    `${document.summary.packages} packages imported by ${document.summary.files} files, generated ${document.generatedAt} by ${document.tool.name} ${document.tool.version}.`,
+    "",
+  ];
+
+  if (document.policy) {
+    lines.push(
+      `${document.policy.passed ? "✅" : "❌"} **${escapeMarkdown(
+        formatPolicySummary(document.policy)
+      )}**`,
+      ""
+    );
+    document.policy.violations.forEach((violation) =>
+      lines.push(
+        `- ${code(violation.packageName)} **${violation.kind}** ${escapeMarkdown(
+          violation.message
+        )}`
+      )
+    );
+    if (document.policy.violations.length > 0) {
+      lines.push("");
+    }
+  }
+
+  lines.push(
+    "| Package | Version | Status | Licence | Details |",
+    "| --- | --- | --- | --- | --- |",
+    ...document.packages.map((pkg) =>
+      [
+        "",
+        code(pkg.name),
+        pkg.version ? escapeMarkdown(pkg.version) : "",
+        statusLabels[pkg.status],
+        escapeMarkdown(pkg.license),
+        escapeMarkdown(pkg.summary),
+        "",
+      ]
+        .join(" | ")
+        .trim()
+    )
+  );
+
+  if (document.findings.length > 0) {
+    lines.push("", "### Findings", "");
+    document.findings.forEach((finding) =>
+      lines.push(
+        `- **${finding.severity}** ${code(
+          `${finding.file}:${finding.range.start.line + 1}`
+        )} ${escapeMarkdown(finding.message)}`
+      )
+    );
+  }
+
+  const advisories = document.packages.flatMap((pkg) =>
+    pkg.advisories.map((advisory) => ({ pkg, advisory }))
+  );
+  if (advisories.length > 0) {
+    lines.push(
+      "",
+      "### Security advisories",
+      "",
+      "| Package | Advisory | Severity | Fixed in |",
+      "| --- | --- | --- | --- |",
+      ...advisories.map(({ pkg, advisory }) =>
+        [
+          "",
+          code(pkg.name),
+          link(advisory.id, advisory.url),
+          advisory.severity,
+          advisory.fixedVersion ? escapeMarkdown(advisory.fixedVersion) : "—",
+          "",
+        ]
+          .join(" | ")
+          .trim()
+      )
+    );
+  }
+
+  const deprecations = document.packages.flatMap(
+    (pkg) => pkg.deprecations ?? []
+  );
+  if (deprecations.length > 0) {
+    lines.push(
+      "",
+      "### Deprecations",
+      "",
+      "| Package | Version | Message | Replacements |",
+      "| --- | --- | --- | --- |",
+      ...deprecations.map((notice) =>
+        [
+          "",
+          `${code(notice.name)}${
+            notice.requiredBy ? ` (via ${code(notice.requiredBy)})` : ""
+          }`,
+          escapeMarkdown(notice.version),
+          escapeMarkdown(notice.message),
+          notice.replacements.map(code).join(", ") || "—",
+          "",
+        ]
+          .join(" | ")
+          .trim()
+      )
+    );
+  }
+
+  if (document.manifestFindings.length > 0) {
+    lines.push("", "### Dependency issues", "");
+    document.manifestFindings.forEach((finding) =>
+      lines.push(
+        `- ${code(finding.manifest)}: **${finding.kind}** ${code(
+          finding.packageName
+        )} ${escapeMarkdown(finding.message)}`
+      )
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,159 @@
+import { pathToFileURL } from "url";
+import {
+  DiagnosticCategory,
+  FindingSeverity,
+  defaultDiagnosticSeverity,
+} from "../diagnostics/findings";
+import { ReportDocument } from "./document";
+
+// The subset of SARIF 2.1.0 we write
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        version: string;
+        rules: {
+          id: string;
+          name: string;
+          shortDescription: { text: string };
+          defaultConfiguration: { level: SarifLevel };
+        }[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    results: {
+      ruleId: string;
+      ruleIndex: number;
+      level: SarifLevel;
+      message: { text: string };
+      locations: {
+        physicalLocation: {
+          artifactLocation: { uri: string; uriBaseId: string };
+          region: {
+            startLine: number;
+            startColumn: number;
+            endLine: number;
+            endColumn: number;
+          };
+        };
+      }[];
+      partialFingerprints: Record<string, string>;
+      properties: { packageName: string };
+    }[];
+  }[];
+}
+
+type SarifLevel = "error" | "warning" | "note" | "none";
+
+const levels: Record<FindingSeverity, SarifLevel> = {
+  error: "error",
+  warning: "warning",
+  information: "note",
+  hint: "note",
+  off: "none",
+};
+
+const rules: Record<DiagnosticCategory, { name: string; text: string }> = {
+  deprecated: {
+    name: "DeprecatedPackage",
+    text: "Imported package version, its latest version or a package it installs is deprecated",
+  },
+  advisory: {
+    name: "VulnerablePackage",
+    text: "Imported package version has known vulnerabilities",
+  },
+  alternative: {
+    name: "PackageHasAlternatives",
+    text: "A recommended alternative exists for the imported package",
+  },
+  undeclared: {
+    name: "UndeclaredDependency",
+    text: "Imported package is not declared in package.json",
+  },
+  policy: {
+    name: "DependencyPolicyViolation",
+    text: "Imported package violates the dependency policy",
+  },
+};
+
+const rootBaseId = "PROJECTROOT";
+
+// file:// URI of a directory, with the trailing slash SARIF requires
+const directoryUri = (directory: string) =>
+  pathToFileURL(directory).href.replace(/\/?$/, "/");
+
+// SARIF 2.1.0 log with one result per finding, located at the import it
+// was raised on so code-scanning UIs annotate the right line
+export function renderSarifReport(document: ReportDocument): SarifLog {
+  const categories = Object.keys(rules) as DiagnosticCategory[];
+  const ruleId = (category: DiagnosticCategory) => `package-pilot/${category}`;
+  // Stable across line moves, so code scanning can track alerts; repeated
+  // imports in one file are told apart by their order
+  const occurrences = new Map<string, number>();
+  const fingerprint = (key: string) => {
+    const occurrence = (occurrences.get(key) ?? 0) + 1;
+    occurrences.set(key, occurrence);
+    return `${key}:${occurrence}`;
+  };
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "Package Pilot",
+            version: document.tool.version,
+            rules: categories.map((category) => ({
+              id: ruleId(category),
+              name: rules[category].name,
+              shortDescription: { text: rules[category].text },
+              defaultConfiguration: {
+                level: levels[defaultDiagnosticSeverity[category]],
+              },
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          [rootBaseId]: { uri: directoryUri(document.root) },
+        },
+        results: document.findings.map((finding) => ({
+          ruleId: ruleId(finding.category),
+          ruleIndex: categories.indexOf(finding.category),
+          level: levels[finding.severity],
+          message: { text: finding.message },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: finding.file
+                    .split("/")
+                    .map(encodeURIComponent)
+                    .join("/"),
+                  uriBaseId: rootBaseId,
+                },
+                // SARIF lines and columns are one-based
+                region: {
+                  startLine: finding.range.start.line + 1,
+                  startColumn: finding.range.start.character + 1,
+                  endLine: finding.range.end.line + 1,
+                  endColumn: finding.range.end.character + 1,
+                },
+              },
+            },
+          ],
+          partialFingerprints: {
+            "packagePilot/v1": fingerprint(
+              `${finding.category}:${finding.packageName}:${finding.file}`
+            ),
+          },
+          properties: { packageName: finding.packageName },
+        })),
+      },
+    ],
+  };
+}
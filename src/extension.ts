@@ -1,7 +1,136 @@
 import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
-import axios from "axios";
+import { ImportRecord } from "./imports/scanner";
+import { classifySpecifier } from "./imports/specifier";
+import {
+  CacheKind,
+  MetadataCache,
+  createMetadataCache,
+  defaultCacheTtl,
+} from "./cache/metadataCache";
+import { ManifestReport, reconcileImports } from "./manifest/reconcile";
+import { DependencyNode, loadLockfile } from "./lockfile";
+import {
+  AdvisorySource,
+  AuditResult,
+  createEndpointAdvisorySource,
+  createLocalAdvisorySource,
+  summarizeAudit,
+} from "./audit";
+import {
+  RuleEngine,
+  RuleError,
+  RuleSet,
+  builtinRuleSet,
+  createRuleEngine,
+  findRuleFile,
+  formatRuleError,
+  loadRuleFile,
+  validateCodemods,
+  validateRules,
+} from "./rules";
+import {
+  ImportDiagnostics,
+  PackageFacts,
+  createImportCodeActions,
+  createImportDiagnostics,
+  getFindingSeverity,
+  getPackageFacts,
+  replaceInManifestCommand,
+  toRange,
+} from "./diagnostics";
+import {
+  Codemod,
+  formatMigrationReport,
+  planProjectMigration,
+  resolveCodemods,
+} from "./codemods";
+import {
+  CollectPackageDataOptions,
+  ProjectAnalysis,
+  analyzeFileImports,
+  analyzeProjectStructure,
+  collectFilesFromDir,
+  collectPackageData,
+  createProjectRegistryClient,
+  extractUniquePackages,
+  getImportedPackages,
+} from "./core";
+import {
+  ExportFormat,
+  buildReportDocument,
+  exportFormats,
+  renderReport,
+} from "./export";
+import {
+  LicenseCategory,
+  LicenseInventory,
+  buildLicenseInventory,
+  createLicenseLookup,
+  getProjectLicense,
+  renderNotice,
+} from "./licenses";
+import {
+  PolicyResult,
+  PolicyViolation,
+  formatPolicySummary,
+  getPolicyResult,
+} from "./policy";
+import {
+  AnalysisScope,
+  LicenseTree,
+  PackageTree,
+  ReportPackage,
+  ReportQuery,
+  ReportSort,
+  SafeHtml,
+  buildReportPackages,
+  createLicenseTree,
+  createNonce,
+  createPackageTree,
+  defaultReportQuery,
+  html,
+  licenseCategoryLabels,
+  httpUrl,
+  listDirectories,
+  packageStatusOrder,
+  queryReport,
+} from "./views";
+import {
+  PackageSummary,
+  RecommendationProvider,
+  createOpenAICompatibleProvider,
+  createTokenBudget,
+} from "./ai";
+import { ScoringStrategy, createScoringStrategy } from "./scoring";
+import { PackageSize, formatSizeDelta } from "./size";
+import { DeprecationNotice, TransitiveDeprecation } from "./deprecation";
+import {
+  PackageHealth,
+  RepositoryLookup,
+  createGitHubRepositoryLookup,
+  healthSignalLabels,
+} from "./health";
+import { findNearestManifest, readManifest } from "./manifest/packageJson";
+import {
+  ReleaseLinks,
+  UpgradeKind,
+  UpgradeOption,
+  formatUpgradeReport,
+  includePeerGroups,
+  planManifestUpgrades,
+  planUpgrades,
+  selectUpgrades,
+  upgradedRanges,
+} from "./upgrades";
+import {
+  RegistryClient,
+  RequestScheduler,
+  createRequestScheduler,
+  defaultDownloadsEndpoint,
+} from "./registry";
+import { errorHandler, formatBytes, isPathInside } from "./utils";
 
 // Configuration for OpenAI API
 // For security reasons, we'll fetch the API key from VS Code settings
@@ -10,13 +139,140 @@ function getOpenAIApiKey(): string {
   return config.get("openaiApiKey") || "";
 }
 
-// Helper function to extract error messages
-const errorHandler = (error: unknown): string => {
-  if (error instanceof Error) {
-    return error.message;
+// Metadata cache in the extension's global storage, configured from settings
+function getMetadataCache(context: vscode.ExtensionContext): MetadataCache {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  const ttl = config.get<Partial<Record<CacheKind, number>>>("cache.ttl", {});
+  return createMetadataCache({
+    directory: path.join(context.globalStorageUri.fsPath, "metadata"),
+    ttl: { ...defaultCacheTtl, ...ttl },
+    offline: config.get<boolean>("offline", false),
+  });
+}
+
+// Recommendation rules: built-in defaults, then user settings, then the
+// nearest .packagepilot.json/.yaml. Validation problems are reported,
+// unless quiet, but the valid rules still apply.
+function getRuleEngine(startPath: string, quiet = false): RuleEngine {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  const ruleSets: RuleSet[] = [builtinRuleSet];
+  const errors: RuleError[] = [];
+
+  const userRules = validateRules(
+    config.get<unknown>("rules", []),
+    "Settings",
+    "packagePilot.rules"
+  );
+  const userCodemods = validateCodemods(
+    config.get<unknown>("codemods", []),
+    "Settings",
+    "packagePilot.codemods"
+  );
+  ruleSets.push({
+    source: "user",
+    origin: "Settings",
+    rules: userRules.rules,
+    codemods: userCodemods.codemods,
+  });
+  errors.push(...userRules.errors, ...userCodemods.errors);
+
+  const ruleFile = findRuleFile(startPath);
+  if (ruleFile) {
+    const loaded = loadRuleFile(ruleFile);
+    ruleSets.push(loaded.ruleSet);
+    errors.push(...loaded.errors);
   }
-  return String(error);
-};
+
+  if (errors.length > 0 && !quiet) {
+    const shown = errors.slice(0, 3).map(formatRuleError).join("; ");
+    const more = errors.length > 3 ? ` (and ${errors.length - 3} more)` : "";
+    vscode.window
+      .showWarningMessage(
+        `Invalid Package Pilot rules were skipped: ${shown}${more}`,
+        ...(ruleFile ? ["Open Rules File"] : [])
+      )
+      .then((choice) => {
+        if (choice && ruleFile) {
+          vscode.window.showTextDocument(vscode.Uri.file(ruleFile));
+        }
+      });
+  }
+
+  return createRuleEngine(ruleSets);
+}
+
+// Request scheduler shared by the registry and advisory lookups of one run
+function getRequestScheduler(): RequestScheduler {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  return createRequestScheduler({
+    concurrency: config.get<number>("network.concurrency", 8),
+    retries: config.get<number>("network.retries", 3),
+    timeout: config.get<number>("network.timeout", 15000),
+  });
+}
+
+// Advisory source from settings; a local advisory path wins over the endpoint
+function getAdvisorySource(
+  cache?: MetadataCache,
+  scheduler?: RequestScheduler
+): AdvisorySource | undefined {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  if (!config.get<boolean>("audit.enabled", true)) {
+    return undefined;
+  }
+
+  const advisoryPath = config.get<string>("audit.advisoryPath", "");
+  if (advisoryPath) {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    return createLocalAdvisorySource(
+      workspaceFolder
+        ? path.resolve(workspaceFolder.uri.fsPath, advisoryPath)
+        : advisoryPath
+    );
+  }
+
+  return createEndpointAdvisorySource(
+    config.get<string>("audit.endpoint", "https://api.osv.dev/v1"),
+    cache,
+    scheduler
+  );
+}
+
+// Repository lookup for the health scores, unless turned off in settings
+function getRepositoryLookup(
+  cache?: MetadataCache,
+  scheduler?: RequestScheduler
+): RepositoryLookup | undefined {
+  return vscode.workspace
+    .getConfiguration("packagePilot")
+    .get<boolean>("health.checkRepositories", true)
+    ? createGitHubRepositoryLookup({
+        token: process.env.GITHUB_TOKEN,
+        cache,
+        scheduler,
+      })
+    : undefined;
+}
+
+// Registry client built from the project and user .npmrc, with the
+// registry and downloads endpoint overridable from settings
+function getRegistryClient(
+  startPath: string,
+  cache?: MetadataCache,
+  scheduler?: RequestScheduler
+): RegistryClient {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  const downloadsEndpoint = config.get<string>(
+    "registry.downloadsEndpoint",
+    defaultDownloadsEndpoint
+  );
+  return createProjectRegistryClient(startPath, {
+    registryUrl: config.get<string>("registry.url", ""),
+    downloadsEndpoint: downloadsEndpoint || undefined,
+    cache,
+    scheduler,
+  });
+}
 
 // Activation function for the extension
 // Central function to analyze folder/project
@@ -59,6 +315,12 @@ async function analyzeProjectFolder(
         // Analyze project structure
         const analysis = analyzeProjectStructure(targetPath);
 
+        // Compare imports against the project's package.json files
+        analysis.manifestReports = reconcileImports(
+          analysis.importRecords,
+          targetPath
+        );
+
         progress.report({
           message: "Extracting package dependencies...",
           increment: 30,
@@ -80,7 +342,12 @@ async function analyzeProjectFolder(
         });
 
         // Fetch npm metadata for packages
-        const packageData = await fetchNpmMetadata(Array.from(uniquePackages));
+        const packageData = await analyzePackages(
+          Array.from(uniquePackages),
+          targetPath,
+          context,
+          analysis.importRecords
+        );
 
         progress.report({
           message: "Generating recommendations...",
@@ -89,6 +356,11 @@ async function analyzeProjectFolder(
 
         // Create webview to display results
         displayPackageAnalysis(analysis, packageData, context.extensionUri);
+        packageTree?.update(
+          { kind: "folder", path: targetPath },
+          analysis.importRecords,
+          packageData
+        );
 
         progress.report({ message: "Analysis complete", increment: 10 });
       }
@@ -130,41 +402,60 @@ async function getSelectedFilesInExplorer(): Promise<string[]> {
   }
 }
 
-// Function to recursively collect JS/TS files from a directory
-function collectFilesFromDir(dirPath: string): string[] {
-  const result: string[] = [];
-  if (!fs.existsSync(dirPath)) {
-    return result;
-  }
+// Diagnostics on imports in open editors, created on activation
+let importDiagnostics: ImportDiagnostics | undefined;
 
-  const entries = fs.readdirSync(dirPath);
-  entries.forEach((entry) => {
-    const fullPath = path.join(dirPath, entry);
-    try {
-      const stat = fs.statSync(fullPath);
-      if (stat.isDirectory()) {
-        // Skip node_modules and hidden directories
-        if (
-          entry !== "node_modules" &&
-          entry !== ".git" &&
-          !entry.startsWith(".")
-        ) {
-          result.push(...collectFilesFromDir(fullPath));
-        }
-      } else if (
-        [".js", ".jsx", ".ts", ".tsx"].includes(path.extname(fullPath))
-      ) {
-        result.push(fullPath);
-      }
-    } catch (error) {
-      console.warn(`Unable to access ${fullPath}: ${errorHandler(error)}`);
-    }
-  });
-  return result;
-}
+// Sidebar view of the last analysis, created on activation
+let packageTree: PackageTree | undefined;
+
+// Sidebar view of the last analysis' licences, created on activation
+let licenseTree: LicenseTree | undefined;
 
 // Activation function for the extension
 export function activate(context: vscode.ExtensionContext) {
+  importDiagnostics = createImportDiagnostics({
+    scan: (document) =>
+      analyzeFileImports(document.uri.fsPath, document.getText()),
+    lookup: (packageNames, filePath) =>
+      lookupPackageFacts(packageNames, path.dirname(filePath), context),
+  });
+  context.subscriptions.push(
+    importDiagnostics,
+    createImportCodeActions({
+      diagnostics: importDiagnostics,
+      resolveVersion: async (packageName, filePath) =>
+        (
+          await getRegistryClient(
+            path.dirname(filePath),
+            getMetadataCache(context)
+          ).getPackument(packageName)
+        ).data?.["dist-tags"]?.latest,
+      showDetails: (packageName, uri) =>
+        showPackageDetails(packageName, uri, context),
+      codemods: (filePath) =>
+        resolveCodemods(getRuleEngine(path.dirname(filePath), true).codemods),
+    })
+  );
+  packageTree = createPackageTree({
+    analyze: (scope) => analyzeScope(scope, context),
+    migratable: (packageNames, scope) => {
+      const codemods = resolveCodemods(
+        getRuleEngine(
+          scope.kind === "folder" ? scope.path : path.dirname(scope.files[0]),
+          true
+        ).codemods
+      );
+      return packageNames.filter((packageName) =>
+        codemods.some((codemod) => codemod.from === packageName)
+      );
+    },
+  });
+  context.subscriptions.push(packageTree);
+  licenseTree = createLicenseTree({
+    build: () => buildAnalysisLicenseInventory(context),
+  });
+  context.subscriptions.push(licenseTree);
+
   console.log("packagePilot is now active");
 
   // 1. Command to analyze current file (from editor or selected in explorer)
@@ -226,9 +517,14 @@ export function activate(context: vscode.ExtensionContext) {
 
             // Analyze files
             const packageImports: Record<string, string[]> = {};
+            const importRecords: Record<string, ImportRecord[]> = {};
 
             for (const filePath of filesToAnalyze) {
-              const imports = analyzeFileImports(filePath);
+              const records = analyzeFileImports(filePath);
+              const imports = getImportedPackages(records);
+              if (records.length > 0) {
+                importRecords[filePath] = records;
+              }
               if (imports.length > 0) {
                 packageImports[filePath] = imports;
               }
@@ -250,8 +546,11 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             // Fetch npm metadata for packages
-            const packageData = await fetchNpmMetadata(
-              Array.from(uniquePackages)
+            const packageData = await analyzePackages(
+              Array.from(uniquePackages),
+              path.dirname(filesToAnalyze[0]),
+              context,
+              importRecords
             );
 
             progress.report({
@@ -260,14 +559,21 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             // Create analysis result structure
-            const analysis = {
+            const analysis: ProjectAnalysis = {
               structure: [],
               packageImports,
+              importRecords,
               suggestedAnalysis: Object.keys(packageImports),
+              manifestReports: reconcileImports(importRecords),
             };
 
             // Display results
             displayPackageAnalysis(analysis, packageData, context.extensionUri);
+            packageTree?.update(
+              { kind: "files", files: filesToAnalyze },
+              analysis.importRecords,
+              packageData
+            );
 
             progress.report({ message: "Analysis complete", increment: 10 });
           }
@@ -339,8 +645,13 @@ export function activate(context: vscode.ExtensionContext) {
 
             // Analyze selected files
             const packageImports: Record<string, string[]> = {};
+            const importRecords: Record<string, ImportRecord[]> = {};
             selectedFiles.forEach((file) => {
-              const imports = analyzeFileImports(file.path);
+              const records = analyzeFileImports(file.path);
+              const imports = getImportedPackages(records);
+              if (records.length > 0) {
+                importRecords[file.path] = records;
+              }
               if (imports.length > 0) {
                 packageImports[file.path] = imports;
               }
@@ -362,8 +673,11 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             // Fetch npm metadata for packages
-            const packageData = await fetchNpmMetadata(
-              Array.from(uniquePackages)
+            const packageData = await analyzePackages(
+              Array.from(uniquePackages),
+              path.dirname(selectedFiles[0].path),
+              context,
+              importRecords
             );
 
             progress.report({
@@ -372,14 +686,24 @@ export function activate(context: vscode.ExtensionContext) {
             });
 
             // Create analysis result structure
-            const analysis = {
+            const analysis: ProjectAnalysis = {
               structure: [],
               packageImports,
+              importRecords,
               suggestedAnalysis: Object.keys(packageImports),
+              manifestReports: reconcileImports(importRecords),
             };
 
             // Display results
             displayPackageAnalysis(analysis, packageData, context.extensionUri);
+            packageTree?.update(
+              {
+                kind: "files",
+                files: selectedFiles.map((file) => file.path),
+              },
+              analysis.importRecords,
+              packageData
+            );
 
             progress.report({ message: "Analysis complete", increment: 10 });
           }
@@ -472,10 +796,15 @@ export function activate(context: vscode.ExtensionContext) {
 
             // Analyze all collected files
             const packageImports: Record<string, string[]> = {};
+            const importRecords: Record<string, ImportRecord[]> = {};
             let totalImports: string[] = [];
 
             for (const filePath of filesToAnalyze) {
-              const imports = analyzeFileImports(filePath);
+              const records = analyzeFileImports(filePath);
+              const imports = getImportedPackages(records);
+              if (records.length > 0) {
+                importRecords[filePath] = records;
+              }
               if (imports.length > 0) {
                 packageImports[filePath] = imports;
                 totalImports = [...totalImports, ...imports];
@@ -496,20 +825,32 @@ export function activate(context: vscode.ExtensionContext) {
               increment: 50,
             });
 
-            const packageData = await fetchNpmMetadata(uniqueImports);
+            const packageData = await analyzePackages(
+              uniqueImports,
+              path.dirname(filesToAnalyze[0]),
+              context,
+              importRecords
+            );
 
             progress.report({
               message: "Generating recommendations...",
               increment: 40,
             });
 
-            const analysis = {
+            const analysis: ProjectAnalysis = {
               structure: [],
               packageImports,
+              importRecords,
               suggestedAnalysis: Object.keys(packageImports),
+              manifestReports: reconcileImports(importRecords),
             };
 
             displayPackageAnalysis(analysis, packageData, context.extensionUri);
+            packageTree?.update(
+              { kind: "files", files: filesToAnalyze },
+              analysis.importRecords,
+              packageData
+            );
 
             progress.report({ message: "Analysis complete", increment: 10 });
           }
@@ -522,359 +863,1416 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
+  let exportReportCommand = vscode.commands.registerCommand(
+    "packagePilot.exportReport",
+    (format?: ExportFormat) => exportAnalysisReport(context, format)
+  );
+
+  let checkPolicyCommand = vscode.commands.registerCommand(
+    "packagePilot.checkPolicy",
+    () => checkDependencyPolicy(context)
+  );
+
+  let exportNoticeCommand = vscode.commands.registerCommand(
+    "packagePilot.exportNotice",
+    () => exportLicenseNotice(context)
+  );
+
+  let migratePackageCommand = vscode.commands.registerCommand(
+    "packagePilot.migratePackage",
+    (selectedResource, packageName?: string) =>
+      migrateProjectPackage(selectedResource, packageName)
+  );
+
+  let planUpgradesCommand = vscode.commands.registerCommand(
+    "packagePilot.planUpgrades",
+    (selectedResource) => planDependencyUpgrades(context, selectedResource)
+  );
+
+  let manageCacheCommand = vscode.commands.registerCommand(
+    "packagePilot.manageCache",
+    async () => {
+      try {
+        const cache = getMetadataCache(context);
+        const stats = cache.stats();
+        const totalEntries = stats.reduce((sum, s) => sum + s.entries, 0);
+        const totalBytes = stats.reduce((sum, s) => sum + s.bytes, 0);
+
+        const items: (vscode.QuickPickItem & { target: CacheKind | "all" })[] =
+          [
+            {
+              label: "$(trash) Clear entire cache",
+              description: `${totalEntries} entries, ${formatBytes(totalBytes)}`,
+              detail: cache.options.offline
+                ? "Offline mode is on: cleared entries cannot be refetched"
+                : undefined,
+              target: "all",
+            },
+            ...stats.map((s) => ({
+              label: `$(database) Clear ${s.kind}`,
+              description: `${s.entries} entries, ${formatBytes(s.bytes)}`,
+              detail: s.newest
+                ? `Oldest ${new Date(s.oldest!).toLocaleString()}, newest ${new Date(s.newest).toLocaleString()} (TTL ${cache.options.ttl[s.kind]}s)`
+                : "Empty",
+              target: s.kind,
+            })),
+          ];
+
+        const picked = await vscode.window.showQuickPick(items, {
+          placeHolder: `Metadata cache in ${cache.options.directory}`,
+        });
+        if (!picked) {
+          return;
+        }
+        cache.clear(picked.target === "all" ? undefined : picked.target);
+        vscode.window.showInformationMessage(
+          picked.target === "all"
+            ? "Cleared the metadata cache"
+            : `Cleared cached ${picked.target} entries`
+        );
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error managing cache: ${errorHandler(error)}`
+        );
+      }
+    }
+  );
+
   // Add all commands to subscriptions
   context.subscriptions.push(
     analyzeCurrentFileCommand,
     analyzeFolderCommand,
     analyzeProjectCommand,
     analyzePickedFilesCommand,
-    analyzeSelectedFilesCommand
+    analyzeSelectedFilesCommand,
+    exportReportCommand,
+    checkPolicyCommand,
+    exportNoticeCommand,
+    migratePackageCommand,
+    planUpgradesCommand,
+    manageCacheCommand
   );
 }
 
-// Function to analyze project structure
-function analyzeProjectStructure(targetPath: string, depth: number = 0) {
-  interface ProjectAnalysis {
-    structure: {
-      type: "directory" | "file";
-      name: string;
-      path: string;
-      children?: ProjectAnalysis["structure"];
-    }[];
-    packageImports: Record<string, string[]>;
-    suggestedAnalysis: string[];
-  }
+// Output channel for policy violations, created on first use
+let policyOutput: vscode.OutputChannel | undefined;
 
-  let analysisResult: ProjectAnalysis = {
-    structure: [],
-    packageImports: {},
-    suggestedAnalysis: [],
-  };
+// Function to check the workspace against the dependency policy in its
+// .packagepilot.json/.yaml. Resolves to the pass/fail result, or undefined
+// when there was nothing to check, so tasks and other extensions can use it.
+async function checkDependencyPolicy(
+  context: vscode.ExtensionContext
+): Promise<PolicyResult | undefined> {
+  try {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage(
+        "Please open a workspace folder to check its dependency policy"
+      );
+      return undefined;
+    }
+    const scope: AnalysisScope = {
+      kind: "folder",
+      path: workspaceFolder.uri.fsPath,
+    };
+    const { importRecords, packageData } = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Checking the dependency policy...",
+      },
+      () => analyzeScope(scope, context)
+    );
+    packageTree?.update(scope, importRecords, packageData);
+
+    const result = getPolicyResult(packageData);
+    if (!result) {
+      vscode.window.showInformationMessage(
+        Object.keys(packageData).length === 0
+          ? "No npm packages found in the project"
+          : 'No dependency policy is defined; add a "policy" section to .packagepilot.json'
+      );
+      return undefined;
+    }
 
-  if (!fs.existsSync(targetPath)) {
-    return analysisResult;
+    const summary = formatPolicySummary(result);
+    if (result.passed) {
+      vscode.window.showInformationMessage(summary);
+      return result;
+    }
+    policyOutput ??= vscode.window.createOutputChannel("Package Pilot Policy");
+    policyOutput.appendLine(summary);
+    result.violations.forEach((violation) =>
+      policyOutput!.appendLine(`  ${violation.kind}: ${violation.message}`)
+    );
+    policyOutput.appendLine("");
+    vscode.window
+      .showErrorMessage(summary, "Show Violations")
+      .then((choice) => choice && policyOutput?.show());
+    return result;
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error checking the dependency policy: ${errorHandler(error)}`
+    );
+    return undefined;
   }
+}
 
-  // Sort directories first, then files
-  let allEntries = fs.readdirSync(targetPath);
-  let directories: string[] = [];
-  let files: string[] = [];
-
-  allEntries.forEach((entry) => {
-    let fullPath = path.join(targetPath, entry);
-    try {
-      if (fs.statSync(fullPath).isDirectory()) {
-        // Skip node_modules and other non-relevant directories
-        if (
-          entry !== "node_modules" &&
-          entry !== ".git" &&
-          !entry.startsWith(".")
-        ) {
-          directories.push(entry);
-        }
-      } else {
-        // Focus on JS/TS files for analysis
-        if (
-          entry.endsWith(".js") ||
-          entry.endsWith(".jsx") ||
-          entry.endsWith(".ts") ||
-          entry.endsWith(".tsx")
-        ) {
-          files.push(entry);
-        }
+// Function to write the last analysis to a file as JSON, Markdown, HTML
+// or SARIF
+async function exportAnalysisReport(
+  context: vscode.ExtensionContext,
+  format?: ExportFormat
+) {
+  try {
+    if (!lastAnalysis) {
+      await promptForAnalysis("exporting a report");
+      return;
+    }
+    const { analysis, packageData } = lastAnalysis;
+
+    if (!format || !exportFormats[format]) {
+      const picked = await vscode.window.showQuickPick(
+        (Object.keys(exportFormats) as ExportFormat[]).map((value) => ({
+          label: exportFormats[value].label,
+          detail: exportFormats[value].description,
+          value,
+        })),
+        { placeHolder: "Export the analysis as" }
+      );
+      if (!picked) {
+        return;
       }
-    } catch (error) {
-      // Skip files that can't be accessed
-      console.warn(`Unable to access ${fullPath}: ${errorHandler(error)}`);
+      format = picked.value;
     }
-  });
-
-  // Process all directories
-  directories.forEach((dir: string) => {
-    let fullPath: string = path.join(targetPath, dir);
-    let subAnalysis: ProjectAnalysis = analyzeProjectStructure(
-      fullPath,
-      depth + 1
-    );
-    analysisResult.structure.push({
-      type: "directory",
-      name: dir,
-      path: fullPath,
-      children: subAnalysis.structure,
+    const { label, extension } = exportFormats[format];
+
+    const root = getAnalysisRoot(analysis);
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(root, `package-pilot-report.${extension}`)
+      ),
+      filters: { [label]: [extension] },
+      saveLabel: "Export",
     });
+    if (!uri) {
+      return;
+    }
 
-    // Merge package imports from subdirectories
-    Object.assign(analysisResult.packageImports, subAnalysis.packageImports);
-
-    // Add suggested files from subdirectories
-    analysisResult.suggestedAnalysis = [
-      ...analysisResult.suggestedAnalysis,
-      ...subAnalysis.suggestedAnalysis,
-    ];
-  });
-
-  // Process all files
-  files.forEach((file) => {
-    let fullPath = path.join(targetPath, file);
-    analysisResult.structure.push({
-      type: "file",
-      name: file,
-      path: fullPath,
+    const document = buildReportDocument({
+      root,
+      importRecords: analysis.importRecords,
+      packageData,
+      manifestReports: analysis.manifestReports,
+      severity: getFindingSeverity(),
+      toolVersion: context.extension.packageJSON.version,
     });
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(renderReport(document, format), "utf8")
+    );
 
-    // Analyze imports for JS/TS files
-    try {
-      const imports = analyzeFileImports(fullPath);
-      if (imports.length > 0) {
-        analysisResult.packageImports[fullPath] = imports;
-
-        // If file has many imports, suggest it for detailed analysis
-        if (imports.length > 3) {
-          analysisResult.suggestedAnalysis.push(fullPath);
-        }
-      }
-    } catch (error) {
-      console.warn(
-        `Error analyzing imports in ${fullPath}: ${errorHandler(error)}`
-      );
+    const choice = await vscode.window.showInformationMessage(
+      `Exported the report to ${vscode.workspace.asRelativePath(uri)}`,
+      "Open"
+    );
+    if (choice) {
+      await vscode.commands.executeCommand("vscode.open", uri);
     }
-  });
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error exporting report: ${errorHandler(error)}`
+    );
+  }
+}
 
-  return analysisResult;
+// Function to ask for an analysis when there is none to work from yet
+async function promptForAnalysis(action: string) {
+  const choice = await vscode.window.showInformationMessage(
+    `Run a Package Pilot analysis before ${action}`,
+    "Analyze Project"
+  );
+  if (choice) {
+    await vscode.commands.executeCommand("packagePilot.analyzeProject");
+  }
 }
 
-// Function to analyze imports in a file
-function analyzeFileImports(filePath: string): string[] {
-  // Basic implementation - uses regex to extract imports
-  const content = fs.readFileSync(filePath, "utf8");
-  const imports = new Set<string>();
+// Function to collect the licences of the last analysis' packages and
+// everything the lockfile installs for them
+async function buildAnalysisLicenseInventory(
+  context: vscode.ExtensionContext
+): Promise<LicenseInventory | undefined> {
+  if (!lastAnalysis) {
+    await promptForAnalysis("building a licence inventory");
+    return undefined;
+  }
+  const { analysis, packageData } = lastAnalysis;
+  const root = getAnalysisRoot(analysis);
+  const lockfile = loadLockfile(root);
+  return buildLicenseInventory({
+    project: getProjectLicense(root),
+    packages: Object.values(packageData)
+      .filter((pkg: any) => pkg.version)
+      .map((pkg: any) => ({ name: pkg.name, version: pkg.version })),
+    lockfile,
+    lookup: createLicenseLookup({
+      root,
+      lockfile,
+      client: getRegistryClient(root, getMetadataCache(context)),
+    }),
+  });
+}
 
+// Function to export a third-party notices file for the last analysis
+async function exportLicenseNotice(context: vscode.ExtensionContext) {
   try {
-    // Detect require statements
-    const requireMatches = content.match(/require\(['"]([^'"]+)['"]\)/g);
-    if (requireMatches) {
-      requireMatches.forEach((match) => {
-        const regexResult = /require\(['"]([^'"]+)['"]\)/.exec(match);
-        if (regexResult && regexResult[1]) {
-          const pkg = regexResult[1];
-          // Only include npm packages (not relative paths)
-          if (!pkg.startsWith(".") && !pkg.startsWith("/")) {
-            // Extract base package name (e.g., 'lodash/fp' -> 'lodash')
-            const baseName = pkg.split("/")[0];
-            imports.add(baseName);
-          }
-        }
-      });
+    const inventory =
+      licenseTree?.inventory ??
+      (await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Collecting licences...",
+        },
+        () => buildAnalysisLicenseInventory(context)
+      ));
+    if (!inventory || !lastAnalysis) {
+      return;
     }
 
-    // Detect import statements
-    const importMatches = content.match(/import .+ from ['"]([^'"]+)['"]/g);
-    if (importMatches) {
-      importMatches.forEach((match) => {
-        const regexResult = /from ['"]([^'"]+)['"]/g.exec(match);
-        if (regexResult && regexResult[1]) {
-          const pkg = regexResult[1];
-          // Only include npm packages (not relative paths)
-          if (!pkg.startsWith(".") && !pkg.startsWith("/")) {
-            // Extract base package name
-            const baseName = pkg.split("/")[0];
-            imports.add(baseName);
-          }
-        }
-      });
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        path.join(
+          getAnalysisRoot(lastAnalysis.analysis),
+          "THIRD-PARTY-NOTICES.txt"
+        )
+      ),
+      filters: { "Text Files": ["txt"] },
+      saveLabel: "Export",
+    });
+    if (!uri) {
+      return;
     }
+    await vscode.workspace.fs.writeFile(
+      uri,
+      Buffer.from(renderNotice(inventory), "utf8")
+    );
 
-    // Detect dynamic imports
-    const dynamicImportMatches = content.match(/import\(['"]([^'"]+)['"]\)/g);
-    if (dynamicImportMatches) {
-      dynamicImportMatches.forEach((match) => {
-        const regexResult = /import\(['"]([^'"]+)['"]\)/.exec(match);
-        if (regexResult && regexResult[1]) {
-          const pkg = regexResult[1];
-          // Only include npm packages (not relative paths)
-          if (!pkg.startsWith(".") && !pkg.startsWith("/")) {
-            // Extract base package name
-            const baseName = pkg.split("/")[0];
-            imports.add(baseName);
-          }
-        }
-      });
+    const conflicts = inventory.packages.filter(
+      (entry) => entry.conflict
+    ).length;
+    const message = `Exported notices for ${inventory.packages.length} packages to ${vscode.workspace.asRelativePath(uri)}`;
+    const choice = conflicts
+      ? await vscode.window.showWarningMessage(
+          `${message}; ${conflicts} of their licences conflict with the project licence`,
+          "Open"
+        )
+      : await vscode.window.showInformationMessage(message, "Open");
+    if (choice) {
+      await vscode.commands.executeCommand("vscode.open", uri);
     }
   } catch (error) {
-    console.error(
-      `Error parsing imports in ${filePath}: ${errorHandler(error)}`
+    vscode.window.showErrorMessage(
+      `Error exporting third-party notices: ${errorHandler(error)}`
     );
   }
-
-  return Array.from(imports);
 }
 
-// Function to extract unique packages from an import analysis
-function extractUniquePackages(
-  packageImports: Record<string, string[]>
-): Set<string> {
-  const uniquePackages = new Set<string>();
-  Object.values(packageImports).forEach((imports) => {
-    imports.forEach((pkg) => uniquePackages.add(pkg));
-  });
-  return uniquePackages;
+// Function to find the folder an analysis covered: the analysed folder, or
+// the workspace folder of the analysed files
+function getAnalysisRoot(analysis: ProjectAnalysis): string {
+  if (analysis.structure.length > 0) {
+    return path.dirname(analysis.structure[0].path);
+  }
+  const [firstFile] = Object.keys(analysis.importRecords);
+  const folder =
+    firstFile &&
+    vscode.workspace.getWorkspaceFolder(vscode.Uri.file(firstFile));
+  return folder
+    ? folder.uri.fsPath
+    : firstFile
+      ? path.dirname(firstFile)
+      : vscode.workspace.workspaceFolders?.[0]?.uri.fsPath ?? process.cwd();
 }
 
-// Function to fetch npm metadata for a list of packages
-async function fetchNpmMetadata(
-  packageNames: string[]
-): Promise<Record<string, any>> {
-  const packageData: Record<string, any> = {};
+// Output channel for migration reports, created on first use
+let migrationOutput: vscode.OutputChannel | undefined;
 
-  await Promise.all(
-    packageNames.map(async (packageName) => {
-      try {
-        // Fetch basic package info from npm registry
-        const response = await axios.get(
-          `https://registry.npmjs.org/${packageName}`
+// Function to run a codemod over every file that imports its package. The
+// edit opens in the refactor preview so each file's diff can be reviewed.
+// packageName limits the choice to codemods away from that package.
+async function migrateProjectPackage(
+  selectedResource: any,
+  packageName?: string
+) {
+  try {
+    let targetPath: string;
+    if (
+      selectedResource &&
+      fs.statSync(selectedResource.fsPath).isDirectory()
+    ) {
+      targetPath = selectedResource.fsPath;
+    } else {
+      const workspaceFolders = vscode.workspace.workspaceFolders;
+      if (!workspaceFolders || workspaceFolders.length === 0) {
+        vscode.window.showErrorMessage(
+          "Please open a workspace folder to migrate"
         );
+        return;
+      }
+      targetPath = workspaceFolders[0].uri.fsPath;
+    }
 
-        if (response.status === 200) {
-          const data = response.data;
-          const latestVersion = data["dist-tags"]?.latest;
-
-          packageData[packageName] = {
-            name: packageName,
-            description: data.description || "",
-            version: latestVersion || "",
-            license: data.license || "Unknown",
-            homepage: data.homepage || "",
-            repository: data.repository?.url || "",
-            maintainers: data.maintainers?.length || 0,
-            lastPublished: data.time?.[latestVersion] || "",
-            dependencies: data.versions?.[latestVersion]?.dependencies || {},
-            weeklyDownloads: 0, // Will be populated with additional API call
-            alternatives: [], // Will be populated later with recommendations
-          };
+    const analysis = analyzeProjectStructure(targetPath);
+    const imported = extractUniquePackages(analysis.packageImports);
+    const codemods = resolveCodemods(
+      getRuleEngine(targetPath).codemods
+    ).filter(
+      (codemod) =>
+        imported.has(codemod.from) &&
+        (!packageName || codemod.from === packageName)
+    );
+    if (codemods.length === 0) {
+      vscode.window.showInformationMessage(
+        packageName
+          ? `There is no migration codemod for ${packageName} in this project`
+          : "No package imported in this project has a migration codemod"
+      );
+      return;
+    }
 
-          // Additional API call to get download counts
-          try {
-            const downloadsResponse = await axios.get(
-              `https://api.npmjs.org/downloads/point/last-week/${packageName}`
-            );
-            if (downloadsResponse.status === 200) {
-              packageData[packageName].weeklyDownloads =
-                downloadsResponse.data.downloads || 0;
-            }
-          } catch (error) {
-            console.warn(`Could not fetch download stats for ${packageName}`);
-          }
-        }
-      } catch (error) {
-        console.warn(
-          `Error fetching metadata for ${packageName}: ${errorHandler(error)}`
-        );
-        // Store minimal info for packages that couldn't be fetched
-        packageData[packageName] = {
-          name: packageName,
-          description: "Could not fetch package data",
-          version: "",
-          error: errorHandler(error),
-        };
-      }
-    })
-  );
+    const picked = await vscode.window.showQuickPick(
+      codemods.map((codemod) => ({
+        label: `${codemod.from} → ${codemod.to}`,
+        description: codemod.id,
+        detail: codemod.description,
+        codemod,
+      })),
+      { placeHolder: "Choose a migration to preview" }
+    );
+    if (!picked) {
+      return;
+    }
+    const { from, to }: Codemod = picked.codemod;
 
-  // Generate recommendations using a combination of predefined suggestions and AI analysis
-  await Promise.all(
-    Object.keys(packageData).map(async (packageName) => {
-      switch (packageName) {
-        case "moment":
-          packageData[packageName].alternatives = [
-            "date-fns",
-            "dayjs",
-            "luxon",
-          ];
-          packageData[packageName].aiReason =
-            "These modern alternatives offer better tree-shaking, smaller bundle sizes, and improved performance.";
-          break;
-        case "lodash":
-        case "underscore":
-          packageData[packageName].alternatives = ["lodash-es", "ramda"];
-          packageData[packageName].aiReason =
-            "ES module versions reduce bundle size, while native JS methods can replace many utility functions.";
-          break;
-        case "request":
-          packageData[packageName].alternatives = [
-            "axios",
-            "node-fetch",
-            "got",
-          ];
-          packageData[packageName].aiReason =
-            "Request is deprecated. These alternatives offer better Promise support and modern features.";
-          break;
-        case "jquery":
-          packageData[packageName].alternatives = ["cash-dom", "umbrella"];
-          packageData[packageName].aiReason =
-            "Modern browsers support most jQuery features natively. These lightweight alternatives offer similar APIs with much smaller footprints.";
-          break;
-        case "analyi_tool":
-          // analyis_tool
-          break;
-        case "analyis_strategy_dimension_weight":
-          // analyis_strategy_dimension_weight
-          break;
-        case "analyis_strategy_dimension_userbase":
-          // analyis_strategy_dimension_userbase
-          break;
-        case "analyis_strategy_hybrid_dimension_AB":
-          // analyis_strategy_hybrid_weight
-          break;
-        default:
-          // Use AI to generate recommendations
-          break;
-      }
-    })
-  );
+    const openDocuments = new Map(
+      vscode.workspace.textDocuments.map((doc) => [doc.uri.fsPath, doc])
+    );
+    const migration = planProjectMigration(
+      analysis.packageImports,
+      picked.codemod,
+      (filePath) =>
+        openDocuments.get(filePath)?.getText() ??
+        fs.readFileSync(filePath, "utf8")
+    );
 
-  return packageData;
-}
+    migrationOutput ??= vscode.window.createOutputChannel(
+      "Package Pilot Migrations"
+    );
+    migrationOutput.appendLine(formatMigrationReport(migration, targetPath));
+    migrationOutput.appendLine("");
+    const needsManualChanges = migration.files.some(
+      (file) => file.unconverted.length > 0
+    );
 
-// Function to display package analysis in a webview
-function displayPackageAnalysis(
-  analysis: any,
-  packageData: any,
-  extensionUri: vscode.Uri
-): void {
-  // Create webview panel
-  const panel = vscode.window.createWebviewPanel(
-    "packagePilot",
-    "packagePilot Analysis",
-    vscode.ViewColumn.One,
-    {
-      enableScripts: true,
-      localResourceRoots: [extensionUri],
+    const changed = migration.files.filter(
+      (file) => file.replacements.length > 0
+    );
+    if (changed.length === 0) {
+      migrationOutput.show(true);
+      vscode.window.showInformationMessage(
+        `Nothing could be converted from ${from} to ${to} automatically`
+      );
+      return;
     }
-  );
 
-  // Generate HTML content
-  panel.webview.html = generateAnalysisHTML(analysis, packageData);
+    const edit = new vscode.WorkspaceEdit();
+    changed.forEach((file) => {
+      const uri = vscode.Uri.file(file.filePath);
+      file.replacements.forEach((replacement) =>
+        edit.replace(uri, toRange(replacement.range), replacement.newText, {
+          label: `${from} → ${to}`,
+          description: path.relative(targetPath, file.filePath),
+          needsConfirmation: true,
+        })
+      );
+    });
+    if (!(await vscode.workspace.applyEdit(edit, { isRefactoring: true }))) {
+      return;
+    }
 
-  // Handle messages from the webview
-  panel.webview.onDidReceiveMessage(
-    (message) => {
-      if (message.command === "openFile") {
-        const filePath = message.filepath;
-        if (fs.existsSync(filePath)) {
-          vscode.workspace.openTextDocument(filePath).then((doc) => {
-            vscode.window.showTextDocument(doc);
-          });
-        }
-      }
-    },
-    undefined,
-    []
-  );
+    if (needsManualChanges) {
+      migrationOutput.show(true);
+    }
+    await vscode.commands.executeCommand(
+      replaceInManifestCommand,
+      vscode.Uri.file(changed[0].filePath),
+      from,
+      to
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error migrating package: ${errorHandler(error)}`
+    );
+  }
 }
 
-// Function to generate HTML for the analysis webview
-function generateAnalysisHTML(analysis: any, packageData: any): string {
-  // Count total imports per package
+// Output channel for upgrade plans, created on first use
+let upgradeOutput: vscode.OutputChannel | undefined;
+
+// Function to plan upgrades of the dependencies in the nearest package.json:
+// pick how far to go and which packages, pull in the packages they have to
+// move with because of peer dependencies, and preview the new ranges as an
+// edit to package.json
+async function planDependencyUpgrades(
+  context: vscode.ExtensionContext,
+  selectedResource?: vscode.Uri
+) {
+  try {
+    const startPath =
+      selectedResource?.fsPath ??
+      vscode.window.activeTextEditor?.document.uri.fsPath ??
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const manifestPath =
+      startPath &&
+      findNearestManifest(
+        fs.existsSync(startPath) && fs.statSync(startPath).isDirectory()
+          ? startPath
+          : path.dirname(startPath)
+      );
+    const manifest = manifestPath && readManifest(manifestPath);
+    if (!manifest) {
+      vscode.window.showErrorMessage(
+        "Please open a folder with a package.json to plan upgrades"
+      );
+      return;
+    }
+
+    const plan = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Checking for dependency upgrades...",
+      },
+      () =>
+        planUpgrades(manifest, {
+          client: getRegistryClient(manifest.dir, getMetadataCache(context)),
+          lockfile: loadLockfile(manifest.dir),
+        })
+    );
+    if (plan.entries.length === 0) {
+      vscode.window.showInformationMessage(
+        `All ${plan.upToDate.length} dependencies are up to date${
+          plan.skipped.length > 0 ? ` (${plan.skipped.length} skipped)` : ""
+        }`
+      );
+      return;
+    }
+
+    const levels: Exclude<UpgradeKind, "prerelease">[] = [
+      "patch",
+      "minor",
+      "major",
+    ];
+    const level = await vscode.window.showQuickPick(
+      levels.map((upTo) => ({
+        label: `Up to ${upTo}`,
+        description: `${
+          Object.keys(selectUpgrades(plan.entries, upTo)).length
+        } packages`,
+        detail: {
+          patch: "Bug fixes only",
+          minor: "New features that should be backwards compatible",
+          major: "Newest releases, which may break the project",
+        }[upTo],
+        upTo,
+      })),
+      { placeHolder: "How far should dependencies be upgraded?" }
+    );
+    if (!level) {
+      return;
+    }
+
+    const selected = selectUpgrades(plan.entries, level.upTo);
+    const { groups } = includePeerGroups(plan.entries, selected);
+    const groupOf = (name: string) =>
+      groups.find((group) => group.packages.includes(name));
+    const picked = await vscode.window.showQuickPick(
+      plan.entries
+        .filter((entry) => selected[entry.name])
+        .map((entry) => {
+          const option = selected[entry.name];
+          const group = groupOf(entry.name);
+          return {
+            label: entry.name,
+            description: `${entry.current} → ${option.version} (${option.kind})`,
+            detail:
+              group &&
+              `Upgrades with ${group.packages
+                .filter((name) => name !== entry.name)
+                .join(", ")}`,
+            picked: true,
+            name: entry.name,
+          };
+        }),
+      { placeHolder: "Choose the packages to upgrade", canPickMany: true }
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+
+    const chosen: Record<string, UpgradeOption> = {};
+    picked.forEach(({ name }) => (chosen[name] = selected[name]));
+    const result = includePeerGroups(plan.entries, chosen);
+
+    upgradeOutput ??= vscode.window.createOutputChannel(
+      "Package Pilot Upgrades"
+    );
+    upgradeOutput.appendLine(
+      formatUpgradeReport(plan, result.targets, result.groups)
+    );
+    upgradeOutput.appendLine("");
+    upgradeOutput.show(true);
+    if (result.added.length > 0) {
+      vscode.window.showInformationMessage(
+        `Also upgrading ${result.added.join(", ")} to keep peer dependencies satisfied`
+      );
+    }
+
+    const document = await vscode.workspace.openTextDocument(manifest.path);
+    const ranges = upgradedRanges(plan.entries, result.targets);
+    const replacements = planManifestUpgrades(document.getText(), ranges);
+    if (replacements.length === 0) {
+      vscode.window.showInformationMessage(
+        "The chosen ranges already allow these versions"
+      );
+      return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    replacements.forEach((replacement) =>
+      edit.replace(
+        document.uri,
+        toRange(replacement.range),
+        replacement.newText,
+        {
+          label: `Upgrade ${replacement.packageName}`,
+          description: replacement.newText,
+          needsConfirmation: true,
+        }
+      )
+    );
+    if (await vscode.workspace.applyEdit(edit, { isRefactoring: true })) {
+      vscode.window.showInformationMessage(
+        "Updated package.json; run your package manager's install to apply the upgrades"
+      );
+    }
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Error planning upgrades: ${errorHandler(error)}`
+    );
+  }
+}
+
+// Function to show the analysis of one package as imported by a file
+async function showPackageDetails(
+  packageName: string,
+  uri: vscode.Uri,
+  context: vscode.ExtensionContext
+) {
+  const filePath = uri.fsPath;
+  const document = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.toString() === uri.toString()
+  );
+
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Analyzing ${packageName}...`,
+    },
+    async () => {
+      const importRecords = {
+        [filePath]: analyzeFileImports(filePath, document?.getText()).filter(
+          (record) =>
+            classifySpecifier(record.specifier).packageName === packageName
+        ),
+      };
+      const packageData = await analyzePackages(
+        [packageName],
+        path.dirname(filePath),
+        context,
+        importRecords
+      );
+      displayPackageAnalysis(
+        {
+          structure: [],
+          packageImports: { [filePath]: [packageName] },
+          importRecords,
+          suggestedAnalysis: [filePath],
+        },
+        packageData,
+        context.extensionUri
+      );
+    }
+  );
+}
+
+// Function to analyze a folder or set of files again for the sidebar,
+// without opening the results panel
+async function analyzeScope(
+  scope: AnalysisScope,
+  context: vscode.ExtensionContext
+) {
+  let importRecords: Record<string, ImportRecord[]> = {};
+  let startPath: string;
+  if (scope.kind === "folder") {
+    importRecords = analyzeProjectStructure(scope.path).importRecords;
+    startPath = scope.path;
+  } else {
+    // Files may have been deleted since the last run
+    scope.files.filter(fs.existsSync).forEach((filePath) => {
+      const records = analyzeFileImports(filePath);
+      if (records.length > 0) {
+        importRecords[filePath] = records;
+      }
+    });
+    startPath = path.dirname(scope.files[0]);
+  }
+
+  const packageNames = getImportedPackages(
+    Object.values(importRecords).flat()
+  );
+  const packageData =
+    packageNames.length > 0
+      ? await analyzePackages(packageNames, startPath, context, importRecords)
+      : {};
+  return { importRecords, packageData };
+}
+
+// Options for collecting package data, from settings. startPath locates
+// the lockfile, .npmrc and rule file.
+function getPackageDataOptions(
+  startPath: string,
+  context: vscode.ExtensionContext,
+  scheduler: RequestScheduler
+): CollectPackageDataOptions {
+  const cache = getMetadataCache(context);
+  return {
+    client: getRegistryClient(startPath, cache, scheduler),
+    advisorySource: getAdvisorySource(cache, scheduler),
+    rules: getRuleEngine(startPath),
+    lockfile: loadLockfile(startPath),
+    transitiveDeprecations: vscode.workspace
+      .getConfiguration("packagePilot")
+      .get<boolean>("deprecation.checkDependencies", true),
+    repositoryLookup: getRepositoryLookup(cache, scheduler),
+  };
+}
+
+// Facts for the import diagnostics of an opened file: metadata, advisories
+// and recommendations only. This runs in the background whenever a file is
+// opened, so transitive deprecations, repository lookups, scores and sizes
+// wait for an analysis, and invalid rules aren't reported from here.
+async function lookupPackageFacts(
+  packageNames: string[],
+  startPath: string,
+  context: vscode.ExtensionContext
+): Promise<Record<string, PackageFacts>> {
+  const cache = getMetadataCache(context);
+  const scheduler = getRequestScheduler();
+  return getPackageFacts(
+    await collectPackageData(packageNames, {
+      client: getRegistryClient(startPath, cache, scheduler),
+      advisorySource: getAdvisorySource(cache, scheduler),
+      rules: getRuleEngine(startPath, true),
+      lockfile: loadLockfile(startPath),
+      transitiveDeprecations: false,
+    })
+  );
+}
+
+// Function to collect package data with everything the settings turn on,
+// including AI suggestions, scoring and sizes
+async function analyzePackages(
+  packageNames: string[],
+  startPath: string,
+  context: vscode.ExtensionContext,
+  importRecords: Record<string, ImportRecord[]>
+): Promise<Record<string, any>> {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  const scheduler = getRequestScheduler();
+  const packageData = await collectPackageData(packageNames, {
+    ...getPackageDataOptions(startPath, context, scheduler),
+    recommend: (data) =>
+      applyAiRecommendations(
+        data,
+        importRecords,
+        getRecommendationProvider(scheduler)
+      ),
+    strategy: getScoringStrategy(),
+    size: {
+      root: startPath,
+      importRecords,
+      installSize: config.get<boolean>("size.installSize", true),
+      bundleSize: config.get<boolean>("size.bundleSize", true),
+    },
+  });
+  importDiagnostics?.updateFacts(getPackageFacts(packageData));
+  return packageData;
+}
+
+// LLM provider from settings, or undefined when AI suggestions are off.
+// Works with any OpenAI-compatible endpoint, including local servers.
+function getRecommendationProvider(
+  scheduler: RequestScheduler
+): RecommendationProvider | undefined {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  if (!config.get<boolean>("ai.enabled", false)) {
+    return undefined;
+  }
+  const baseUrl = config.get<string>("ai.baseUrl", "https://api.openai.com/v1");
+  const apiKey = getOpenAIApiKey();
+  if (!apiKey && new URL(baseUrl).hostname === "api.openai.com") {
+    vscode.window.showWarningMessage(
+      "Package Pilot AI suggestions need packagePilot.openaiApiKey; showing rule-based recommendations only."
+    );
+    return undefined;
+  }
+  const pricing = config.get<{ input?: number; output?: number }>(
+    "ai.pricing",
+    {}
+  );
+  return createOpenAICompatibleProvider({
+    baseUrl,
+    model: config.get<string>("ai.model", "gpt-4o-mini"),
+    apiKey: apiKey || undefined,
+    budget: createTokenBudget({
+      maxTokens: config.get<number>("ai.maxTokens", 20000),
+      maxCost: config.get<number>("ai.maxCost", 0.05),
+      inputPrice: pricing.input ?? 0.15,
+      outputPrice: pricing.output ?? 0.6,
+    }),
+    scheduler,
+  });
+}
+
+// Function to summarise each package and how it is imported, for the LLM
+function summarizePackagesForAi(
+  packageData: Record<string, any>,
+  importRecords: Record<string, ImportRecord[]>
+): PackageSummary[] {
+  const usage: Record<string, PackageSummary["usage"]> = {};
+  Object.values(importRecords).forEach((records) => {
+    const seen = new Set<string>();
+    records.forEach((record) => {
+      const classified = classifySpecifier(record.specifier);
+      const name = classified.packageName;
+      if (!name || !packageData[name]) {
+        return;
+      }
+      const entry = (usage[name] ??= {
+        files: 0,
+        importedNames: [],
+        subpaths: [],
+      });
+      if (!seen.has(name)) {
+        seen.add(name);
+        entry.files++;
+      }
+      record.names.forEach((binding) => {
+        if (!entry.importedNames.includes(binding.imported)) {
+          entry.importedNames.push(binding.imported);
+        }
+      });
+      if (classified.subpath && !entry.subpaths.includes(classified.subpath)) {
+        entry.subpaths.push(classified.subpath);
+      }
+    });
+  });
+
+  return Object.values(packageData)
+    .filter((pkg: any) => !pkg.error)
+    .map((pkg: any) => ({
+      name: pkg.name,
+      version: pkg.version || undefined,
+      latestVersion: pkg.latestVersion || undefined,
+      description: pkg.description?.slice(0, 200) || undefined,
+      license: pkg.license,
+      weeklyDownloads: pkg.weeklyDownloads,
+      lastPublished: pkg.lastPublished || undefined,
+      deprecated: pkg.signals?.deprecated || undefined,
+      advisories: pkg.audit?.advisories?.length,
+      usage: usage[pkg.name] ?? { files: 0, importedNames: [], subpaths: [] },
+      ruleAlternatives: pkg.recommendation?.alternatives ?? [],
+    }));
+}
+
+// Function to ask the LLM provider for suggestions and merge its
+// alternatives after the rule-based ones, remembering where each came from
+async function applyAiRecommendations(
+  packageData: Record<string, any>,
+  importRecords: Record<string, ImportRecord[]>,
+  provider: RecommendationProvider | undefined
+): Promise<void> {
+  Object.values(packageData).forEach((pkg: any) => {
+    pkg.alternativeSources = Object.fromEntries(
+      (pkg.alternatives ?? []).map((name: string) => [
+        name,
+        pkg.alternativeSources?.[name] ?? "rule",
+      ])
+    );
+  });
+  if (!provider) {
+    return;
+  }
+
+  const summaries = summarizePackagesForAi(packageData, importRecords);
+  const result = await provider.recommend(summaries);
+
+  result.suggestions.forEach((suggestion) => {
+    const pkg = packageData[suggestion.packageName];
+    pkg.aiSuggestion = { ...suggestion, provider: provider.description };
+    suggestion.alternatives.forEach((alt) => {
+      if (!pkg.alternatives.includes(alt.name)) {
+        pkg.alternatives.push(alt.name);
+        pkg.alternativeSources[alt.name] = "ai";
+      }
+    });
+  });
+
+  vscode.window.setStatusBarMessage(
+    `Package Pilot AI: ${
+      result.usage.promptTokens + result.usage.completionTokens
+    } tokens, $${result.usage.cost.toFixed(4)}`,
+    15000
+  );
+  if (result.skipped.length > 0) {
+    vscode.window.showWarningMessage(
+      `AI token budget reached; ${result.skipped.length} package(s) only have rule-based recommendations.`
+    );
+  }
+  if (result.errors.length > 0) {
+    vscode.window.showWarningMessage(
+      `Some AI suggestions failed: ${result.errors[0]}`
+    );
+  }
+}
+
+// Scoring strategy from settings
+function getScoringStrategy(): ScoringStrategy {
+  const config = vscode.workspace.getConfiguration("packagePilot");
+  const id = config.get<string>("scoring.strategy", "hybrid");
+  const hybridMix = config.get<number>("scoring.hybridMix", 0.5);
+  try {
+    return createScoringStrategy(id, { hybridMix });
+  } catch (error) {
+    vscode.window.showWarningMessage(
+      `${errorHandler(error)}; using the hybrid strategy`
+    );
+    return createScoringStrategy("hybrid", { hybridMix });
+  }
+}
+
+// The analysis report panel, reused by every analysis
+let analysisPanel: vscode.WebviewPanel | undefined;
+let analysisReport: AnalysisReport | undefined;
+let reportQuery: ReportQuery = defaultReportQuery;
+
+// The last analysis shown, for exporting
+let lastAnalysis: { analysis: ProjectAnalysis; packageData: any } | undefined;
+
+// Function to display package analysis in a webview. An open report panel
+// is updated in place rather than opening another one.
+function displayPackageAnalysis(
+  analysis: any,
+  packageData: any,
+  extensionUri: vscode.Uri
+): void {
+  analysisReport = renderAnalysisReport(analysis, packageData);
+  lastAnalysis = { analysis, packageData };
+  licenseTree?.analysisChanged();
+  if (analysisPanel) {
+    analysisPanel.reveal();
+    postAnalysisReport(analysisPanel.webview);
+    return;
+  }
+
+  // Create webview panel
+  const panel = vscode.window.createWebviewPanel(
+    "packagePilot",
+    "packagePilot Analysis",
+    vscode.ViewColumn.One,
+    {
+      enableScripts: true,
+      localResourceRoots: [extensionUri],
+    }
+  );
+  analysisPanel = panel;
+  panel.onDidDispose(() => {
+    analysisPanel = undefined;
+    analysisReport = undefined;
+  });
+
+  // The page asks for the report once loaded, including after it was
+  // hidden and reloaded, and sends its restored filters along
+  panel.webview.html = generateAnalysisHTML(panel.webview);
+
+  // Handle messages from the webview
+  panel.webview.onDidReceiveMessage(
+    (message) => {
+      switch (message.command) {
+        case "ready":
+          reportQuery = { ...defaultReportQuery, ...message.query };
+          postAnalysisReport(panel.webview);
+          break;
+        case "query":
+          reportQuery = { ...defaultReportQuery, ...message.query };
+          postReportGroups(panel.webview);
+          break;
+        case "export":
+          vscode.commands.executeCommand("packagePilot.exportReport");
+          break;
+        case "openFile": {
+          // The page is untrusted, so only open files in the workspace
+          const filePath = resolveWorkspaceFile(message.filepath);
+          if (filePath) {
+            vscode.workspace.openTextDocument(filePath).then((doc) => {
+              vscode.window.showTextDocument(doc);
+            });
+          }
+          break;
+        }
+      }
+    },
+    undefined,
+    []
+  );
+}
+
+// Function to resolve a path to an existing file inside a workspace folder,
+// following symlinks so they can't point outside it
+function resolveWorkspaceFile(filePath: unknown): string | undefined {
+  if (typeof filePath !== "string" || !path.isAbsolute(filePath)) {
+    return undefined;
+  }
+  try {
+    const realPath = fs.realpathSync(filePath);
+    const folders = (vscode.workspace.workspaceFolders || []).map((folder) =>
+      fs.realpathSync(folder.uri.fsPath)
+    );
+    return fs.statSync(realPath).isFile() &&
+      folders.some((folder) => isPathInside(realPath, folder))
+      ? realPath
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Function to send the rendered report and its filter options to the page
+function postAnalysisReport(webview: vscode.Webview) {
+  if (!analysisReport) {
+    return;
+  }
+  const count = <T extends string>(values: T[]) =>
+    values.reduce<Record<string, number>>(
+      (counts, value) => ({ ...counts, [value]: (counts[value] || 0) + 1 }),
+      {}
+    );
+  const { packages } = analysisReport;
+  webview.postMessage({
+    command: "load",
+    headerHTML: analysisReport.headerHTML,
+    footerHTML: analysisReport.footerHTML,
+    cards: analysisReport.cards,
+    statuses: count(packages.map((pkg) => pkg.status)),
+    licenses: count(packages.map((pkg) => pkg.license)),
+  });
+  postReportGroups(webview);
+}
+
+// Function to send the packages matching the page's filters, in order
+function postReportGroups(webview: vscode.Webview) {
+  if (!analysisReport) {
+    return;
+  }
+  const groups = queryReport(
+    analysisReport.packages,
+    reportQuery,
+    analysisReport.directories
+  );
+  webview.postMessage({
+    command: "render",
+    groups: groups.map((group) => ({
+      label: group.directory
+        ? vscode.workspace.asRelativePath(group.directory)
+        : undefined,
+      packages: group.packages,
+    })),
+    shown: new Set(groups.flatMap((group) => group.packages)).size,
+    total: analysisReport.packages.length,
+  });
+}
+
+const dimensionLabels: Record<string, string> = {
+  weight: "Bundle weight",
+  userBase: "User base",
+  maintenance: "Maintenance",
+  security: "Security",
+};
+
+// Render a score with its per-dimension breakdown. When a baseline is given
+// (the current package's score), show how an alternative compares.
+function renderScore(score: any, baseline?: number): SafeHtml {
+  const delta =
+    baseline !== undefined &&
+    score.total !== baseline &&
+    html` <span class="score-delta">(${score.total > baseline ? "+" : ""}${
+      score.total - baseline
+    })</span>`;
+  return html`
+    <details class="score">
+      <summary title="${score.label || score.strategy} strategy">
+        <span class="score-total">${score.total}</span>/100${delta}
+      </summary>
+      <table class="score-breakdown">
+        ${score.dimensions.map(
+          (entry: any) => html`
+            <tr>
+              <td>${dimensionLabels[entry.dimension] || entry.dimension}</td>
+              <td class="score-value">${entry.score}</td>
+              <td class="score-weight">×${Math.round(entry.weight * 100)}%</td>
+              <td class="score-detail">${entry.detail}</td>
+            </tr>
+          `
+        )}
+      </table>
+    </details>
+  `;
+}
+
+// Render a package's maintenance health score with what it was scored from
+function renderHealth(health: PackageHealth | undefined): SafeHtml | undefined {
+  if (!health) {
+    return undefined;
+  }
+  return html`
+    <div class="stat">
+      <span class="stat-label">Health:</span>
+      <details class="score health health-${
+        health.score >= 70 ? "good" : health.score >= 40 ? "fair" : "poor"
+      }">
+        <summary title="${health.explanation}">
+          <span class="score-total">${health.score}</span>/100
+        </summary>
+        <table class="score-breakdown">
+          ${health.signals.map(
+            (signal) => html`
+              <tr>
+                <td>${healthSignalLabels[signal.id]}</td>
+                <td class="score-value">${signal.score}</td>
+                <td class="score-detail">${signal.detail}</td>
+              </tr>
+            `
+          )}
+        </table>
+      </details>
+    </div>
+  `;
+}
+
+// Render a package's install size and bundle cost as card stats
+function renderSizeStats(size: PackageSize | undefined): SafeHtml | undefined {
+  if (!size) {
+    return undefined;
+  }
+  const { install, bundle } = size;
+  return html`
+    ${
+      install?.totalSize !== undefined &&
+      html`
+        <div class="stat" title="${[
+          install.unpackedSize !== undefined &&
+            `${formatBytes(install.unpackedSize)} unpacked, ${install.fileCount ?? "?"} files in the package itself`,
+          install.unknownSizes > 0 &&
+            `${install.unknownSizes} packages have no size in the registry`,
+          install.truncated && "Dependency tree cut short",
+        ]
+          .filter(Boolean)
+          .join("; ")}">
+          <span class="stat-label">Install Size:</span>
+          <span class="stat-value">${formatBytes(install.totalSize)} (${
+            install.packageCount
+          } package${install.packageCount !== 1 && "s"})</span>
+        </div>
+      `
+    }
+    ${
+      (bundle || size.bundleError) &&
+      html`
+        <div class="stat" title="${
+          bundle
+            ? `${formatBytes(bundle.minified)} minified, ${
+                bundle.treeShaken ? "imported names only" : "whole package"
+              }`
+            : size.bundleError
+        }">
+          <span class="stat-label">Bundle Size:</span>
+          <span class="stat-value">${
+            bundle ? `${formatBytes(bundle.gzipped)} min+gzip` : "Unknown"
+          }</span>
+        </div>
+      `
+    }
+  `;
+}
+
+// Render an alternative's sizes with the difference from the current package.
+// Alternatives are bundled whole, so they're compared with the whole of the
+// current package and never with just the names it's imported for.
+function renderSizeDelta(
+  size: PackageSize | undefined,
+  baseline: PackageSize | undefined
+): SafeHtml | undefined {
+  const baselineBundle = baseline?.wholeBundle ?? baseline?.bundle;
+  const parts = [
+    ["install", size?.install?.totalSize, baseline?.install?.totalSize],
+    [
+      "bundle",
+      size?.bundle?.gzipped,
+      baselineBundle?.treeShaken ? undefined : baselineBundle?.gzipped,
+    ],
+  ] as const;
+  const shown = parts.filter(([, value]) => value !== undefined);
+  if (shown.length === 0) {
+    return undefined;
+  }
+  return html`<span class="alternative-size" title="Install size and whole-package min+gzip bundle size of v${
+    size!.version
+  }">${shown.map(
+    ([label, value, base], i) =>
+      html`${i > 0 && " · "}${label} ${formatBytes(value!)}${
+        base !== undefined &&
+        html` <span class="size-delta size-${
+          value! > base ? "larger" : value! < base ? "smaller" : "same"
+        }">(${formatSizeDelta(value! - base)})</span>`
+      }`
+  )}</span>`;
+}
+
+// Render the newest patch, minor and major versions a package could move to
+function renderUpgradeStats(upgrades: any): SafeHtml | undefined {
+  const options: UpgradeOption[] = upgrades?.options ?? [];
+  if (options.length === 0) {
+    return undefined;
+  }
+  return html`
+    <div class="stat" title="Newer versions than v${
+      upgrades.current
+    }; run PackagePilot: Plan Dependency Upgrades to apply them">
+      <span class="stat-label">Upgrades:</span>
+      <span class="stat-value">${options.map(
+        (option) =>
+          html`<span class="upgrade-kind upgrade-${option.kind}">${
+            option.kind
+          } v${option.version}${
+            option.tag && option.tag !== "latest" && ` (${option.tag})`
+          }</span> `
+      )}</span>
+    </div>
+  `;
+}
+
+// Render links to a package's release notes, changelog and version diff
+function renderReleaseLinks(links: ReleaseLinks | undefined): SafeHtml[] {
+  return [
+    links?.releases && renderLink(links.releases, "Releases", "release-link"),
+    links?.changelog &&
+      renderLink(links.changelog, "Changelog", "release-link"),
+    links?.compare && renderLink(links.compare, "Compare", "release-link"),
+  ].filter((link): link is SafeHtml => !!link);
+}
+
+// Render how a package's metadata and download counts were obtained
+function renderFetchStatus(status: any): SafeHtml | undefined {
+  if (!status) {
+    return undefined;
+  }
+  const badge = (label: string, state: string) =>
+    html`<span class="fetch-state fetch-${state}">${label}: ${state}</span>`;
+  return html`
+    <div class="stat" title="${status.error || ""}">
+      <span class="stat-label">Fetch Status:</span>
+      <span class="stat-value">
+        ${badge("metadata", status.metadata)}
+        ${badge("downloads", status.downloads)}
+        ${
+          status.attempts > 0 &&
+          html`<span class="fetch-attempts">(${status.attempts} attempt${
+            status.attempts === 1 ? "" : "s"
+          })</span>`
+        }
+      </span>
+    </div>
+  `;
+}
+
+// Render a link to a registry-provided URL, or plain text when the URL
+// isn't http(s)
+function renderLink(
+  url: unknown,
+  label: unknown,
+  className?: string
+): SafeHtml {
+  const href = httpUrl(url);
+  return href
+    ? html`<a href="${href}" target="_blank" class="${className || ""}">${label}</a>`
+    : html`<span class="${className || ""}">${label}</span>`;
+}
+
+// Link to a package's npm page
+const npmPageUrl = (packageName: string) =>
+  `https://www.npmjs.com/package/${packageName}`;
+
+// Function to render the security advisories matched for a package
+function renderAdvisories(audit: AuditResult): SafeHtml {
+  let body: SafeHtml | SafeHtml[];
+  if (audit.error) {
+    body = html`<div class="no-advisories">Audit failed: ${audit.error}</div>`;
+  } else if (audit.advisories.length === 0) {
+    body = html`<div class="no-advisories">No known advisories for v${audit.version}</div>`;
+  } else {
+    body = audit.advisories.map(
+      (advisory) => html`
+        <div class="advisory-item">
+          <div class="advisory-header">
+            <span class="severity-badge severity-${advisory.severity}">${
+              advisory.severity
+            }${advisory.score !== undefined && ` ${advisory.score}`}</span>
+            ${renderLink(advisory.url, advisory.id, "advisory-id")}
+          </div>
+          <div class="advisory-summary">${advisory.summary}</div>
+          <div class="advisory-details">
+            Affected: ${advisory.affectedRanges.join(", ") || "unknown"}
+            &middot;
+            ${
+              advisory.fixedVersion
+                ? html`Fixed in <strong>v${advisory.fixedVersion}</strong>`
+                : "No fix available"
+            }
+          </div>
+        </div>
+      `
+    );
+  }
+
+  return html`
+    <div class="package-section">
+      <h4 class="section-title">Security Advisories</h4>
+      <div class="advisory-list">${body}</div>
+    </div>
+  `;
+}
+
+// Function to render a package's dependency policy violations
+function renderPolicyViolations(violations: PolicyViolation[]): SafeHtml {
+  return html`
+    <div class="package-section policy-violations">
+      <h4 class="section-title">Policy Violations</h4>
+      ${violations.map(
+        (violation) => html`
+          <div class="policy-item">
+            <span class="rule-severity rule-error">${violation.kind}</span>
+            ${violation.message}
+          </div>
+        `
+      )}
+    </div>
+  `;
+}
+
+// Render the deprecation notices of a package, its latest version and the
+// packages it installs, with the replacements the maintainers name
+function renderDeprecation(deprecation: any): SafeHtml | undefined {
+  const own: { label: string; notice: DeprecationNotice }[] = [
+    { label: "installed", notice: deprecation?.installed },
+    { label: "latest", notice: deprecation?.latest },
+  ].filter((entry) => entry.notice);
+  const transitive: TransitiveDeprecation[] = deprecation?.transitive ?? [];
+  if (own.length === 0 && transitive.length === 0) {
+    return undefined;
+  }
+  const replacements = (names: string[]) =>
+    names.length > 0 &&
+    html`<div class="deprecation-replacements">Use instead: ${names.map(
+      (name, i) => html`${i > 0 && ", "}<code>${name}</code>`
+    )}</div>`;
+  return html`
+    <div class="package-section deprecation">
+      <h4 class="section-title">Deprecation</h4>
+      ${own.map(
+        ({ label, notice }) => html`
+          <div class="deprecation-item">
+            <span class="rule-severity rule-warning">${label} v${
+              notice.version
+            }</span>
+            ${notice.message}
+            ${replacements(notice.replacements)}
+          </div>
+        `
+      )}
+      ${
+        transitive.length > 0 &&
+        html`
+          <details>
+            <summary>${transitive.length} deprecated ${
+              transitive.length === 1 ? "dependency" : "dependencies"
+            }</summary>
+            ${transitive.map(
+              (notice) => html`
+                <div class="deprecation-item">
+                  <code>${notice.name}@${notice.version}</code>
+                  <span class="deprecation-via">via ${notice.requiredBy}</span>
+                  ${notice.message}
+                  ${replacements(notice.replacements)}
+                </div>
+              `
+            )}
+          </details>
+        `
+      }
+    </div>
+  `;
+}
+
+// Function to render one node of a lockfile dependency tree
+function renderDependencyNode(node: DependencyNode): SafeHtml {
+  return html`
+    <li>
+      <span class="dependency-name">${node.name}</span>
+      <span class="dependency-version">${node.version}</span>
+      ${node.truncated && html`<span class="dependency-note">…</span>`}
+      ${
+        node.children.length > 0 &&
+        html`<ul>${node.children.map(renderDependencyNode)}</ul>`
+      }
+    </li>
+  `;
+}
+
+// Rendered report content; the page arranges the cards itself
+interface AnalysisReport {
+  packages: ReportPackage[];
+  directories: string[];
+  // Card markup per package name
+  cards: Record<string, string>;
+  headerHTML: string;
+  footerHTML: string;
+}
+
+// Function to render the report content for the analysis webview. Every
+// registry, AI and file system value is escaped by the `html` tag.
+function renderAnalysisReport(
+  analysis: any,
+  packageData: any
+): AnalysisReport {
+  // Count total imports per package
   const packageUsage: Record<string, { count: number; files: string[] }> = {};
   Object.entries(analysis.packageImports).forEach(
     ([file, imports]: [string, any]) => {
@@ -885,191 +2283,836 @@ function generateAnalysisHTML(analysis: any, packageData: any): string {
             files: [],
           };
         }
-        packageUsage[pkg].count++;
-        packageUsage[pkg].files.push(file);
-      });
-    }
-  );
+        packageUsage[pkg].count++;
+        packageUsage[pkg].files.push(file);
+      });
+    }
+  );
+
+  // Group built-in and unresolvable specifiers, which get no package card,
+  // and remember which deep import paths each package is used through
+  const builtinUsage: Record<string, Set<string>> = {};
+  const unresolvedUsage: Record<string, Set<string>> = {};
+  const packageSubpaths: Record<string, Set<string>> = {};
+  Object.entries(analysis.importRecords || {}).forEach(
+    ([file, records]: [string, any]) => {
+      records.forEach((record: ImportRecord) => {
+        const classified = classifySpecifier(record.specifier);
+        if (classified.kind === "builtin") {
+          const name = classified.builtinName || record.specifier;
+          (builtinUsage[name] ||= new Set()).add(file);
+        } else if (classified.kind === "unresolvable") {
+          (unresolvedUsage[record.specifier] ||= new Set()).add(file);
+        } else if (classified.packageName && classified.subpath) {
+          (packageSubpaths[classified.packageName] ||= new Set()).add(
+            record.specifier
+          );
+        }
+      });
+    }
+  );
+
+  // The page opens files through a delegated click handler
+  const renderFileItem = (file: string) => html`
+    <div class="file-item">
+      <button class="file-link" data-file="${file}">
+        ${path.basename(file)}
+      </button>
+      <span class="file-path">${file}</span>
+    </div>
+  `;
+
+  // Packages in order of usage
+  const sortedPackages = Object.keys(packageUsage).sort(
+    (a, b) => packageUsage[b].count - packageUsage[a].count
+  );
+
+  // Generate package cards HTML
+  const cards: Record<string, string> = {};
+  sortedPackages.forEach((pkg) => {
+    const pkgData = packageData[pkg] || {
+      name: pkg,
+      description: "No metadata available",
+      version: "Unknown",
+      weeklyDownloads: "Unknown",
+    };
+
+    // Installed copies and transitive tree from the lockfile
+    const installed = pkgData.installed;
+    const installedStatsHTML =
+      installed &&
+      html`
+        <div class="stat" title="${installed.versions.join(", ")}">
+          <span class="stat-label">Installed Copies:</span>
+          <span class="stat-value">${installed.copies}${
+            installed.versions.length > 1 &&
+            ` (${installed.versions.length} versions)`
+          }</span>
+        </div>
+      `;
+    const dependencyTreeHTML =
+      installed?.dependencyTree.children.length > 0 &&
+      html`
+        <div class="package-section">
+          <details class="dependency-tree">
+            <summary class="section-title">Dependency Tree (${
+              installed.transitiveCount
+            } transitive)</summary>
+            <ul>${installed.dependencyTree.children.map(
+              renderDependencyNode
+            )}</ul>
+          </details>
+        </div>
+      `;
+
+    const subpathsHTML =
+      packageSubpaths[pkg] &&
+      html`
+        <div class="package-section">
+          <h4 class="section-title">Deep Imports</h4>
+          <div class="subpath-list">
+            ${Array.from(packageSubpaths[pkg])
+              .sort()
+              .map((subpath) => html`<code class="subpath">${subpath}</code>`)}
+          </div>
+        </div>
+      `;
+
+    const recommendation = pkgData.recommendation;
+    const ruleReasonHTML =
+      recommendation &&
+      html`
+        <div class="ai-reason">
+          <div class="reason-label">
+            Rule-based recommendation
+            <span class="rule-severity rule-${recommendation.severity}">${
+              recommendation.severity
+            }</span>
+            <span class="rule-origin" title="${recommendation.origin}">${
+              recommendation.ruleId
+            } (${recommendation.source})</span>
+          </div>
+          <div class="reason-text">${recommendation.reason}</div>
+          ${
+            recommendation.links.length > 0 &&
+            html`<div class="rule-links">${recommendation.links.map(
+              (link: { title: string; url: string }, i: number) =>
+                html`${i > 0 && " · "}${renderLink(link.url, link.title)}`
+            )}</div>`
+          }
+        </div>
+      `;
+    const aiSuggestion = pkgData.aiSuggestion;
+    const aiReasonHTML =
+      aiSuggestion?.summary &&
+      html`
+        <div class="ai-reason ai-generated">
+          <div class="reason-label">
+            AI-generated suggestion
+            <span class="rule-origin">${aiSuggestion.provider}</span>
+          </div>
+          <div class="reason-text">${aiSuggestion.summary}</div>
+        </div>
+      `;
+    const alternativesHTML = pkgData.alternatives?.length
+      ? html`
+          ${ruleReasonHTML}
+          ${aiReasonHTML}
+          ${pkgData.alternatives.map((alt: string) => {
+            const altScore = pkgData.alternativeScores?.find(
+              (entry: any) => entry.name === alt
+            );
+            const source = pkgData.alternativeSources?.[alt] ?? "rule";
+            const aiReason = aiSuggestion?.alternatives.find(
+              (entry: any) => entry.name === alt
+            )?.reason;
+            return html`
+              <div class="alternative-item">
+                <span class="alternative-name">${alt}</span>
+                <span class="alternative-source source-${source}" title="${
+                  source === "ai"
+                    ? `Suggested by ${aiSuggestion?.provider}; verify before use`
+                    : source === "policy"
+                      ? "Required by the dependency policy"
+                      : source === "deprecation"
+                        ? "Named in the deprecation message"
+                        : "From the recommendation rules"
+                }">${source === "ai" ? "AI" : source}</span>
+                ${
+                  altScore
+                    ? renderScore(altScore, pkgData.score?.total)
+                    : html`<span class="score-missing">not scored</span>`
+                }
+                ${renderSizeDelta(pkgData.alternativeSizes?.[alt], pkgData.size)}
+                ${renderLink(npmPageUrl(alt), "View on npm", "alternative-link")}
+                ${aiReason && html`<div class="alternative-reason">${aiReason}</div>`}
+              </div>
+            `;
+          })}
+        `
+      : html`${aiReasonHTML}<div class="no-alternatives">No alternatives suggested</div>`;
+
+    const homepage = httpUrl(pkgData.homepage);
+    const licenseCategory =
+      licenseCategoryLabels[pkgData.licenseCategory as LicenseCategory];
+    cards[pkg] = html`
+      <div class="package-card">
+        <div class="package-header">
+          <h3 class="package-name">${pkgData.name}</h3>
+          ${
+            pkgData.stale &&
+            html`<span class="stale-badge" title="Cached ${new Date(
+              pkgData.fetchedAt
+            ).toLocaleString()}">stale</span>`
+          }
+          ${pkgData.score && renderScore(pkgData.score)}
+          <span class="package-version">v${pkgData.version || "Unknown"}${
+            pkgData.latestVersion &&
+            pkgData.latestVersion !== pkgData.version &&
+            html` <span class="package-latest">(latest v${pkgData.latestVersion})</span>`
+          }</span>
+        </div>
+        <p class="package-description">${
+          pkgData.description || "No description available"
+        }</p>
+        <div class="package-stats">
+          <div class="stat">
+            <span class="stat-label">Weekly Downloads:</span>
+            <span class="stat-value">${
+              typeof pkgData.weeklyDownloads === "number"
+                ? pkgData.weeklyDownloads.toLocaleString()
+                : "Unknown"
+            }</span>
+          </div>
+          <div class="stat">
+            <span class="stat-label">Licence:</span>
+            <span class="stat-value">${pkgData.license || "Unknown"}${
+              licenseCategory && ` (${licenseCategory.toLowerCase()})`
+            }</span>
+          </div>
+          <div class="stat">
+            <span class="stat-label">Used in:</span>
+            <span class="stat-value">${packageUsage[pkg].count} file${
+              packageUsage[pkg].count !== 1 && "s"
+            }</span>
+          </div>
+          ${installedStatsHTML}
+          ${renderHealth(pkgData.health)}
+          ${renderSizeStats(pkgData.size)}
+          ${renderUpgradeStats(pkgData.upgrades)}
+          ${renderFetchStatus(pkgData.fetchStatus)}
+        </div>
+
+        <div class="package-section">
+          <h4 class="section-title">Files Using This Package</h4>
+          <div class="file-list">
+            ${packageUsage[pkg].files.map(renderFileItem)}
+          </div>
+        </div>
+
+        ${subpathsHTML}
+
+        ${
+          pkgData.policyViolations?.length > 0 &&
+          renderPolicyViolations(pkgData.policyViolations)
+        }
+
+        ${renderDeprecation(pkgData.deprecation)}
+
+        ${pkgData.audit && renderAdvisories(pkgData.audit)}
+
+        ${dependencyTreeHTML}
+
+        <div class="package-section">
+          <h4 class="section-title">Suggested Alternatives</h4>
+          <div class="alternatives-list">
+            ${alternativesHTML}
+          </div>
+        </div>
+
+        <div class="package-links">
+          ${renderLink(npmPageUrl(pkg), "View on npm", "npm-link")}
+          ${homepage && renderLink(homepage, "Homepage", "homepage-link")}
+          ${renderReleaseLinks(pkgData.releaseLinks)}
+        </div>
+      </div>
+    `.markup;
+  });
+
+  // Summarise advisories across all audited packages for the banner
+  const auditResults: Record<string, AuditResult> = {};
+  Object.values(packageData).forEach((pkg: any) => {
+    if (pkg.audit) {
+      auditResults[pkg.name] = pkg.audit;
+    }
+  });
+  const auditSummary = summarizeAudit(auditResults);
+  const severityCountsHTML = Object.entries(auditSummary.counts)
+    .filter(([, count]) => count > 0)
+    .map(
+      ([severity, count]) =>
+        html`<span class="severity-badge severity-${severity}">${count} ${severity}</span> `
+    );
+  const auditBannerHTML =
+    auditSummary.auditedPackages > 0 &&
+    html`
+      <div class="audit-banner ${
+        auditSummary.vulnerablePackages ? "audit-vulnerable" : "audit-clean"
+      }">
+        ${
+          auditSummary.vulnerablePackages
+            ? html`<strong>${auditSummary.vulnerablePackages}</strong> of ${auditSummary.auditedPackages} packages have known vulnerabilities: ${severityCountsHTML}`
+            : html`No known vulnerabilities in ${auditSummary.auditedPackages} audited packages.`
+        }
+        ${
+          auditSummary.errors > 0 &&
+          html`<span class="audit-errors">(${auditSummary.errors} could not be audited)</span>`
+        }
+      </div>
+    `;
+
+  // Pass/fail line for the dependency policy, when the project has one
+  const policyResult = getPolicyResult(packageData);
+  const policyBannerHTML =
+    policyResult &&
+    html`
+      <div class="audit-banner policy-banner ${
+        policyResult.passed ? "audit-clean" : "audit-vulnerable"
+      }">${formatPolicySummary(policyResult)}</div>
+    `;
+
+  // Warn when some of the metadata comes from expired cache entries
+  const stalePackages = Object.values(packageData).filter(
+    (pkg: any) => pkg.stale
+  ).length;
+  const offline = vscode.workspace
+    .getConfiguration("packagePilot")
+    .get<boolean>("offline", false);
+  const failedPackages = Object.values(packageData).filter(
+    (pkg: any) =>
+      pkg.fetchStatus?.metadata === "failed" ||
+      pkg.fetchStatus?.downloads === "failed"
+  ).length;
+  const cacheBannerHTML =
+    (offline || stalePackages > 0 || failedPackages > 0) &&
+    html`
+      <div class="cache-banner">
+        ${offline && html`<strong>Offline mode:</strong> showing cached metadata only. `}
+        ${
+          stalePackages > 0 &&
+          html`${stalePackages} package${stalePackages !== 1 && "s"} use cached data past its TTL (marked <span class="stale-badge">stale</span>).`
+        }
+        ${
+          failedPackages > 0 &&
+          html`${failedPackages} package${failedPackages !== 1 && "s"} could not be fully fetched; see the fetch status on each card.`
+        }
+      </div>
+    `;
+
+  // Render package.json reconciliation findings, grouped per manifest
+  const findingLabels: Record<string, string> = {
+    unused: "Unused",
+    undeclared: "Undeclared",
+    "dev-only": "Dev-only",
+    "orphan-types": "Orphan @types",
+  };
+  const manifestReports: ManifestReport[] = (
+    analysis.manifestReports || []
+  ).filter((report: ManifestReport) => report.findings.length > 0);
+  const manifestFindingsHTML = manifestReports.map(
+    (report) => html`
+      <div class="manifest-report">
+        <h3>${report.packageName || path.basename(path.dirname(report.manifestPath))}
+          <span class="manifest-path">${report.manifestPath}</span>
+        </h3>
+        ${report.findings.map(
+          (finding) => html`
+            <div class="manifest-finding finding-${finding.kind}">
+              <div class="finding-header">
+                <span class="finding-badge">${findingLabels[finding.kind]}</span>
+                <code class="finding-package">${finding.packageName}</code>
+                <span class="finding-message">${finding.message}</span>
+              </div>
+              <div class="file-list">
+                ${finding.files.map(renderFileItem)}
+              </div>
+            </div>
+          `
+        )}
+      </div>
+    `
+  );
+
+  // Render built-ins and unresolvable specifiers in their own section
+  const renderOtherImports = (
+    title: string,
+    usage: Record<string, Set<string>>
+  ) =>
+    Object.keys(usage).length > 0 &&
+    html`
+      <div class="other-imports-group">
+        <h3>${title}</h3>
+        ${Object.keys(usage)
+          .sort()
+          .map(
+            (name) => html`
+              <div class="other-import">
+                <code class="other-import-name">${name}</code>
+                <div class="file-list">
+                  ${Array.from(usage[name]).map(renderFileItem)}
+                </div>
+              </div>
+            `
+          )}
+      </div>
+    `;
+
+  const otherImportsHTML = [
+    renderOtherImports("Node.js Built-in Modules", builtinUsage),
+    renderOtherImports("Unresolvable Imports", unresolvedUsage),
+  ].filter((section): section is SafeHtml => !!section);
+
+  const headerHTML = html`
+    ${cacheBannerHTML}
+    ${policyBannerHTML}
+    ${auditBannerHTML}
+
+    <div class="summary">
+      <p>Analyzed <strong>${
+        Object.keys(analysis.packageImports).length
+      }</strong> files containing <strong>${
+        sortedPackages.length
+      }</strong> unique npm packages.</p>
+    </div>
+
+    ${
+      manifestFindingsHTML.length > 0 &&
+      html`<div class="manifest-findings">
+        <h2>Dependency Issues</h2>
+        ${manifestFindingsHTML}
+      </div>`
+    }
+  `;
+  const footerHTML =
+    otherImportsHTML.length > 0 &&
+    html`<div class="other-imports">
+      <h2>Other Imports</h2>
+      ${otherImportsHTML}
+    </div>`;
+
+  // Group by the analysed folder and its subdirectories, in tree order
+  const structure = analysis.structure || [];
+  const directories = structure.length
+    ? [path.dirname(structure[0].path), ...listDirectories(structure)]
+    : [];
+
+  return {
+    packages: buildReportPackages(analysis.packageImports, packageData),
+    directories,
+    cards,
+    headerHTML: headerHTML.markup,
+    footerHTML: footerHTML ? footerHTML.markup : "",
+  };
+}
+
+const reportSortLabels: Record<ReportSort, string> = {
+  usage: "Usage",
+  downloads: "Weekly downloads",
+  lastPublished: "Last publish",
+  size: "Size",
+  health: "Health",
+};
+
+// Function to generate the HTML page of the analysis webview. Content
+// arrives by postMessage so the page can be updated in place. The CSP only
+// runs this page's own nonce-tagged script and style, so markup in the
+// content can't execute anything.
+function generateAnalysisHTML(webview: vscode.Webview): string {
+  const nonce = createNonce();
+  return `
+    <!DOCTYPE html>
+    <html lang="en">
+    <head>
+      <meta charset="UTF-8">
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${webview.cspSource} https: data:; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+      <meta name="viewport" content="width=device-width, initial-scale=1.0">
+      <title>packagePilot Analysis</title>
+      <style nonce="${nonce}">
+        body {
+          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+          padding: 20px;
+          line-height: 1.5;
+          color: var(--vscode-editor-foreground);
+        }
+
+        h1, h2, h3, h4 {
+          color: var(--vscode-editor-foreground);
+        }
+
+        .header {
+          display: flex;
+          align-items: center;
+          margin-bottom: 20px;
+        }
+
+        .logo {
+          width: 30px;
+          height: 30px;
+          margin-right: 10px;
+        }
+
+        .summary {
+          background-color: var(--vscode-editor-inactiveSelectionBackground);
+          padding: 15px;
+          border-radius: 4px;
+          margin-bottom: 20px;
+        }
+
+        .package-grid {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(350px, 1fr));
+          gap: 20px;
+        }
+
+        .package-card {
+          border: 1px solid var(--vscode-panel-border);
+          border-radius: 4px;
+          padding: 15px;
+          background-color: var(--vscode-editor-background);
+        }
+
+        .package-header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          margin-bottom: 10px;
+        }
+
+        .package-name {
+          margin: 0;
+          color: var(--vscode-symbolIcon-packageForeground);
+        }
+
+        .package-version {
+          color: var(--vscode-descriptionForeground);
+          font-size: 0.9em;
+        }
+
+        .cache-banner {
+          padding: 10px 15px;
+          border-radius: 4px;
+          margin-bottom: 20px;
+          border-left: 4px solid var(--vscode-editorWarning-foreground);
+          background-color: var(--vscode-editor-inactiveSelectionBackground);
+        }
+
+        .fetch-state {
+          font-size: 0.8em;
+          margin-right: 6px;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .fetch-state.fetch-failed {
+          color: var(--vscode-editorError-foreground);
+        }
+
+        .fetch-state.fetch-stale {
+          color: var(--vscode-editorWarning-foreground);
+        }
+
+        .fetch-attempts {
+          font-size: 0.8em;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .score {
+          display: inline-block;
+          margin: 0 8px;
+          font-size: 0.9em;
+        }
+
+        .score summary {
+          cursor: pointer;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .score-total {
+          font-weight: bold;
+          color: var(--vscode-foreground);
+        }
+
+        .score-delta,
+        .score-missing,
+        .score-weight,
+        .score-detail {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .score-missing {
+          margin: 0 8px;
+          font-size: 0.85em;
+        }
+
+        .alternative-size {
+          margin: 0 8px;
+          font-size: 0.85em;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .size-smaller {
+          color: var(--vscode-testing-iconPassed);
+        }
+
+        .size-larger {
+          color: var(--vscode-list-warningForeground);
+        }
+
+        .health {
+          margin: 0;
+        }
+
+        .health-fair .score-total {
+          color: var(--vscode-list-warningForeground);
+        }
+
+        .health-poor .score-total {
+          color: var(--vscode-editorError-foreground);
+        }
+
+        .upgrade-kind {
+          margin-right: 6px;
+        }
+
+        .upgrade-major {
+          color: var(--vscode-list-warningForeground);
+        }
+
+        .upgrade-prerelease {
+          color: var(--vscode-descriptionForeground);
+        }
 
-  // Sort packages by usage count
-  const sortedPackages = Object.keys(packageUsage).sort(
-    (a, b) => packageUsage[b].count - packageUsage[a].count
-  );
+        .score-breakdown {
+          margin-top: 4px;
+          border-collapse: collapse;
+        }
 
-  // Generate package cards HTML
-  const packageCardsHTML = sortedPackages
-    .map((pkg) => {
-      const pkgData = packageData[pkg] || {
-        name: pkg,
-        description: "No metadata available",
-        version: "Unknown",
-        weeklyDownloads: "Unknown",
-      };
+        .score-breakdown td {
+          padding: 2px 8px 2px 0;
+          vertical-align: top;
+        }
 
-      const filesHTML = packageUsage[pkg].files
-        .map(
-          (file) => `
-            <div class="file-item">
-              <button class="file-link" onclick="openFile('${file.replace(
-                /\\/g,
-                "\\\\"
-              )}')">
-                ${path.basename(file)}
-              </button>
-              <span class="file-path">${file}</span>
-            </div>
-          `
-        )
-        .join("");
-
-      const alternativesHTML = pkgData.alternatives?.length
-        ? `
-            <div class="ai-reason">
-              <div class="reason-label">AI Analysis:</div>
-              <div class="reason-text">${
-                pkgData.aiReason || "No specific analysis available."
-              }</div>
-            </div>
-            ${pkgData.alternatives
-              .map(
-                (alt: string) => `
-                  <div class="alternative-item">
-                    <span class="alternative-name">${alt}</span>
-                    <a href="https://www.npmjs.com/package/${alt}" target="_blank" class="alternative-link">
-                      View on npm
-                    </a>
-                  </div>
-                `
-              )
-              .join("")}
-          `
-        : '<div class="no-alternatives">No alternatives suggested</div>';
-
-      return `
-        <div class="package-card">
-          <div class="package-header">
-            <h3 class="package-name">${pkgData.name}</h3>
-            <span class="package-version">v${
-              pkgData.version || "Unknown"
-            }</span>
-          </div>
-          <p class="package-description">${
-            pkgData.description || "No description available"
-          }</p>
-          <div class="package-stats">
-            <div class="stat">
-              <span class="stat-label">Weekly Downloads:</span>
-              <span class="stat-value">${
-                typeof pkgData.weeklyDownloads === "number"
-                  ? pkgData.weeklyDownloads.toLocaleString()
-                  : "Unknown"
-              }</span>
-            </div>
-            <div class="stat">
-              <span class="stat-label">Used in:</span>
-              <span class="stat-value">${packageUsage[pkg].count} file${
-        packageUsage[pkg].count === 1 ? "" : "s"
-      }</span>
-            </div>
-          </div>
+        .score-value {
+          font-weight: bold;
+          text-align: right;
+        }
 
-          <div class="package-section">
-            <h4 class="section-title">Files Using This Package</h4>
-            <div class="file-list">
-              ${filesHTML}
-            </div>
-          </div>
+        .alternative-source {
+          font-size: 0.7em;
+          text-transform: uppercase;
+          padding: 1px 5px;
+          border-radius: 3px;
+          margin-left: 6px;
+          border: 1px solid var(--vscode-descriptionForeground);
+          color: var(--vscode-descriptionForeground);
+        }
 
-          <div class="package-section">
-            <h4 class="section-title">Suggested Alternatives</h4>
-            <div class="alternatives-list">
-              ${alternativesHTML}
-            </div>
-          </div>
+        .alternative-source.source-policy {
+          color: var(--vscode-editorError-foreground);
+          border-color: var(--vscode-editorError-foreground);
+        }
 
-          <div class="package-links">
-            <a href="https://www.npmjs.com/package/${pkg}" target="_blank" class="npm-link">
-              View on npm
-            </a>
-            ${
-              pkgData.homepage
-                ? `<a href="${pkgData.homepage}" target="_blank" class="homepage-link">
-                   Homepage
-                 </a>`
-                : ""
-            }
-          </div>
-        </div>
-      `;
-    })
-    .join("");
+        .policy-item {
+          padding: 5px;
+        }
 
-  return `
-    <!DOCTYPE html>
-    <html lang="en">
-    <head>
-      <meta charset="UTF-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-      <title>packagePilot Analysis</title>
-      <style>
-        body {
-          font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
-          padding: 20px;
-          line-height: 1.5;
-          color: var(--vscode-editor-foreground);
+        .alternative-source.source-deprecation {
+          color: var(--vscode-list-warningForeground);
+          border-color: var(--vscode-list-warningForeground);
         }
 
-        h1, h2, h3, h4 {
-          color: var(--vscode-editor-foreground);
+        .deprecation-item {
+          padding: 5px;
         }
 
-        .header {
-          display: flex;
-          align-items: center;
-          margin-bottom: 20px;
+        .deprecation-item .rule-severity {
+          margin: 0 6px 0 0;
         }
 
-        .logo {
-          width: 30px;
-          height: 30px;
-          margin-right: 10px;
+        .deprecation-via,
+        .deprecation-replacements {
+          font-size: 0.85em;
+          color: var(--vscode-descriptionForeground);
         }
 
-        .summary {
-          background-color: var(--vscode-editor-inactiveSelectionBackground);
-          padding: 15px;
+        .policy-item .rule-severity {
+          margin: 0 6px 0 0;
+        }
+
+        .alternative-source.source-ai,
+        .ai-generated .reason-label {
+          color: var(--vscode-charts-purple);
+          border-color: var(--vscode-charts-purple);
+        }
+
+        .ai-generated {
+          border-left: 3px solid var(--vscode-charts-purple);
+        }
+
+        .alternative-reason {
+          flex-basis: 100%;
+          font-size: 0.85em;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .rule-severity {
+          font-size: 0.75em;
+          text-transform: uppercase;
+          padding: 1px 6px;
+          border-radius: 3px;
+          margin-left: 6px;
+          border: 1px solid var(--vscode-descriptionForeground);
+        }
+
+        .rule-severity.rule-warning {
+          color: var(--vscode-editorWarning-foreground);
+          border-color: var(--vscode-editorWarning-foreground);
+        }
+
+        .rule-severity.rule-error {
+          color: var(--vscode-editorError-foreground);
+          border-color: var(--vscode-editorError-foreground);
+        }
+
+        .rule-origin {
+          font-weight: normal;
+          font-size: 0.85em;
+          margin-left: 6px;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .rule-links {
+          margin-top: 6px;
+          font-size: 0.9em;
+        }
+
+        .stale-badge {
+          display: inline-block;
+          font-size: 0.75em;
+          text-transform: uppercase;
+          padding: 1px 6px;
+          border-radius: 3px;
+          color: var(--vscode-editorWarning-foreground);
+          border: 1px solid var(--vscode-editorWarning-foreground);
+        }
+
+        .audit-banner {
+          padding: 10px 15px;
           border-radius: 4px;
           margin-bottom: 20px;
+          border-left: 4px solid var(--vscode-testing-iconPassed);
+          background-color: var(--vscode-editor-inactiveSelectionBackground);
         }
 
-        .package-grid {
-          display: grid;
-          grid-template-columns: repeat(auto-fill, minmax(350px, 1fr));
-          gap: 20px;
+        .audit-banner.audit-vulnerable {
+          border-left-color: var(--vscode-editorError-foreground);
         }
 
-        .package-card {
+        .audit-errors {
+          color: var(--vscode-descriptionForeground);
+          margin-left: 6px;
+        }
+
+        .severity-badge {
+          display: inline-block;
+          font-size: 0.75em;
+          font-weight: bold;
+          text-transform: uppercase;
+          padding: 1px 6px;
+          border-radius: 2px;
+          color: #fff;
+          background-color: var(--vscode-descriptionForeground);
+        }
+
+        .severity-critical {
+          background-color: #a1260d;
+        }
+
+        .severity-high {
+          background-color: var(--vscode-editorError-foreground);
+        }
+
+        .severity-moderate {
+          background-color: var(--vscode-editorWarning-foreground);
+        }
+
+        .severity-low {
+          background-color: var(--vscode-editorInfo-foreground);
+        }
+
+        .advisory-list {
           border: 1px solid var(--vscode-panel-border);
-          border-radius: 4px;
-          padding: 15px;
-          background-color: var(--vscode-editor-background);
+          border-radius: 2px;
+          font-size: 0.9em;
         }
 
-        .package-header {
+        .advisory-item {
+          padding: 5px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .advisory-item:last-child {
+          border-bottom: none;
+        }
+
+        .advisory-header {
           display: flex;
-          justify-content: space-between;
           align-items: center;
-          margin-bottom: 10px;
+          gap: 8px;
         }
 
-        .package-name {
+        .advisory-id {
+          color: var(--vscode-textLink-foreground);
+          font-size: 0.9em;
+        }
+
+        .advisory-details {
+          font-size: 0.85em;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .no-advisories {
+          padding: 5px;
+          color: var(--vscode-descriptionForeground);
+          font-style: italic;
+        }
+
+        .package-latest {
+          font-size: 0.85em;
+        }
+
+        .dependency-tree summary {
+          cursor: pointer;
+        }
+
+        .dependency-tree ul {
           margin: 0;
-          color: var(--vscode-symbolIcon-packageForeground);
+          padding-left: 16px;
+          font-size: 0.85em;
+          list-style: none;
         }
 
-        .package-version {
+        .dependency-tree > ul {
+          max-height: 200px;
+          overflow-y: auto;
+        }
+
+        .dependency-version,
+        .dependency-note {
           color: var(--vscode-descriptionForeground);
-          font-size: 0.9em;
+        }
+
+        .dependency-note {
+          font-style: italic;
         }
 
         .package-description {
@@ -1155,6 +3198,7 @@ function generateAnalysisHTML(analysis: any, packageData: any): string {
           padding: 5px;
           border-bottom: 1px solid var(--vscode-panel-border);
           display: flex;
+          flex-wrap: wrap;
           justify-content: space-between;
           align-items: center;
         }
@@ -1203,15 +3247,150 @@ function generateAnalysisHTML(analysis: any, packageData: any): string {
           margin-top: 15px;
         }
 
-        .npm-link, .homepage-link {
+        .npm-link, .homepage-link, .release-link {
           color: var(--vscode-textLink-foreground);
           text-decoration: none;
           font-size: 0.9em;
         }
 
-        .npm-link:hover, .homepage-link:hover {
+        .npm-link:hover, .homepage-link:hover, .release-link:hover {
           text-decoration: underline;
         }
+
+        .manifest-findings {
+          margin-bottom: 30px;
+        }
+
+        .manifest-path {
+          font-size: 0.7em;
+          font-weight: normal;
+          margin-left: 8px;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .manifest-finding {
+          margin-bottom: 10px;
+        }
+
+        .finding-header {
+          display: flex;
+          align-items: center;
+          gap: 8px;
+          margin-bottom: 4px;
+        }
+
+        .finding-badge {
+          font-size: 0.75em;
+          padding: 2px 6px;
+          border-radius: 2px;
+          color: var(--vscode-badge-foreground);
+          background-color: var(--vscode-badge-background);
+        }
+
+        .finding-undeclared .finding-badge,
+        .finding-dev-only .finding-badge {
+          background-color: var(--vscode-editorWarning-foreground);
+        }
+
+        .finding-message {
+          color: var(--vscode-descriptionForeground);
+        }
+
+        .subpath-list {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+
+        .subpath {
+          font-size: 0.85em;
+          padding: 2px 6px;
+          border-radius: 2px;
+          background-color: var(--vscode-textCodeBlock-background);
+        }
+
+        .other-imports {
+          margin-top: 30px;
+        }
+
+        .other-imports-group {
+          margin-bottom: 20px;
+        }
+
+        .other-import {
+          margin-bottom: 10px;
+        }
+
+        .other-import-name {
+          display: block;
+          font-weight: bold;
+          margin-bottom: 4px;
+        }
+
+        .report-toolbar {
+          position: sticky;
+          top: 0;
+          z-index: 1;
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px 16px;
+          padding: 10px 0;
+          margin-bottom: 20px;
+          border-bottom: 1px solid var(--vscode-panel-border);
+          background-color: var(--vscode-editor-background);
+        }
+
+        .report-toolbar input[type="search"],
+        .report-toolbar select {
+          padding: 3px 6px;
+          color: var(--vscode-input-foreground);
+          background-color: var(--vscode-input-background);
+          border: 1px solid var(--vscode-input-border, transparent);
+        }
+
+        .report-toolbar input[type="search"] {
+          min-width: 200px;
+        }
+
+        .status-filters {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 6px;
+        }
+
+        .status-filter {
+          font-size: 0.85em;
+          white-space: nowrap;
+        }
+
+        .result-count {
+          margin-left: auto;
+          color: var(--vscode-descriptionForeground);
+        }
+
+        #export {
+          padding: 4px 10px;
+          border: none;
+          cursor: pointer;
+          color: var(--vscode-button-foreground);
+          background-color: var(--vscode-button-background);
+        }
+
+        #export:hover {
+          background-color: var(--vscode-button-hoverBackground);
+        }
+
+        .group-title {
+          margin: 20px 0 10px;
+          font-size: 1em;
+          font-family: var(--vscode-editor-font-family);
+        }
+
+        .no-results {
+          color: var(--vscode-descriptionForeground);
+          font-style: italic;
+        }
       </style>
     </head>
     <body>
@@ -1219,27 +3398,185 @@ function generateAnalysisHTML(analysis: any, packageData: any): string {
         <h1>packagePilot Analysis</h1>
       </div>
 
-      <div class="summary">
-        <p>Analyzed <strong>${
-          Object.keys(analysis.packageImports).length
-        }</strong> files containing <strong>${
-    sortedPackages.length
-  }</strong> unique npm packages.</p>
+      <div class="report-toolbar">
+        <input type="search" id="search" placeholder="Search packages" aria-label="Search packages">
+        <div class="status-filters" id="status-filters"></div>
+        <select id="license-filter" aria-label="Licence">
+          <option value="">All licences</option>
+        </select>
+        <label><input type="checkbox" id="alternatives-only"> Has alternatives</label>
+        <label>Sort by
+          <select id="sort">
+            ${Object.entries(reportSortLabels)
+              .map(([value, label]) => `<option value="${value}">${label}</option>`)
+              .join("")}
+          </select>
+        </label>
+        <label><input type="checkbox" id="group-by-directory"> Group by directory</label>
+        <span class="result-count" id="result-count"></span>
+        <button id="export">Export…</button>
       </div>
 
-      <div class="package-grid">
-        ${packageCardsHTML}
-      </div>
+      <div id="report-header"></div>
+      <div id="package-groups"></div>
+      <div id="report-footer"></div>
 
-      <script>
+      <script nonce="${nonce}">
         const vscode = acquireVsCodeApi();
+        const statusOrder = ${JSON.stringify(packageStatusOrder)};
+        let query = Object.assign(
+          ${JSON.stringify(defaultReportQuery)},
+          (vscode.getState() || {}).query
+        );
+        let cards = {};
+
+        const search = document.getElementById('search');
+        const statusFilters = document.getElementById('status-filters');
+        const licenseFilter = document.getElementById('license-filter');
+        const alternativesOnly = document.getElementById('alternatives-only');
+        const sort = document.getElementById('sort');
+        const groupByDirectory = document.getElementById('group-by-directory');
+
+        search.value = query.search;
+        alternativesOnly.checked = query.alternativesOnly;
+        sort.value = query.sort;
+        groupByDirectory.checked = query.groupByDirectory;
+
+        // Remember the filters across reloads and ask for matching packages
+        function update(changes) {
+          query = Object.assign({}, query, changes);
+          vscode.setState({ query });
+          vscode.postMessage({ command: 'query', query });
+        }
 
-        function openFile(filepath) {
-          vscode.postMessage({
-            command: 'openFile',
-            filepath: filepath
-          });
+        let searchTimer;
+        search.addEventListener('input', () => {
+          clearTimeout(searchTimer);
+          searchTimer = setTimeout(() => update({ search: search.value }), 150);
+        });
+        licenseFilter.addEventListener('change', () =>
+          update({ license: licenseFilter.value })
+        );
+        alternativesOnly.addEventListener('change', () =>
+          update({ alternativesOnly: alternativesOnly.checked })
+        );
+        sort.addEventListener('change', () => update({ sort: sort.value }));
+        groupByDirectory.addEventListener('change', () =>
+          update({ groupByDirectory: groupByDirectory.checked })
+        );
+        document.getElementById('export').addEventListener('click', () =>
+          vscode.postMessage({ command: 'export' })
+        );
+        statusFilters.addEventListener('change', () =>
+          update({
+            statuses: Array.from(
+              statusFilters.querySelectorAll('input:checked')
+            ).map((input) => input.value),
+          })
+        );
+
+        // Build elements with text content; licences and paths come from
+        // package metadata and the file system
+        function element(tag, className, text) {
+          const node = document.createElement(tag);
+          if (className) {
+            node.className = className;
+          }
+          if (text !== undefined) {
+            node.textContent = text;
+          }
+          return node;
+        }
+
+        // Offer only the statuses and licences present in this analysis
+        function renderOptions(statuses, licenses) {
+          statusFilters.replaceChildren(
+            ...statusOrder
+              .filter((status) => statuses[status])
+              .map((status) => {
+                const label = element('label', 'status-filter');
+                const input = element('input');
+                input.type = 'checkbox';
+                input.value = status;
+                input.checked = query.statuses.includes(status);
+                label.append(input, ' ' + status + ' (' + statuses[status] + ')');
+                return label;
+              })
+          );
+          const all = element('option', undefined, 'All licences');
+          all.value = '';
+          licenseFilter.replaceChildren(
+            all,
+            ...Object.keys(licenses)
+              .sort()
+              .map((license) => {
+                const option = element(
+                  'option',
+                  undefined,
+                  license + ' (' + licenses[license] + ')'
+                );
+                option.value = license;
+                return option;
+              })
+          );
+          licenseFilter.value = licenses[query.license] ? query.license : '';
+
+          // Drop filters the new analysis has nothing for
+          const statusesKept = query.statuses.filter((status) => statuses[status]);
+          if (
+            statusesKept.length !== query.statuses.length ||
+            licenseFilter.value !== query.license
+          ) {
+            update({ statuses: statusesKept, license: licenseFilter.value });
+          }
+        }
+
+        // Cards are escaped by the extension before they are sent
+        function render(groups, shown, total) {
+          document.getElementById('result-count').textContent =
+            shown === total ? total + ' packages' : shown + ' of ' + total + ' packages';
+          const container = document.getElementById('package-groups');
+          if (!shown) {
+            container.replaceChildren(
+              element('p', 'no-results', 'No packages match these filters.')
+            );
+            return;
+          }
+          container.replaceChildren(
+            ...groups.flatMap((group) => {
+              const grid = element('div', 'package-grid');
+              grid.innerHTML = group.packages.map((name) => cards[name] || '').join('');
+              return group.label
+                ? [element('h3', 'group-title', group.label), grid]
+                : [grid];
+            })
+          );
         }
+
+        // One listener for every file link, including ones added later
+        document.addEventListener('click', (event) => {
+          const link = event.target.closest('[data-file]');
+          if (link) {
+            vscode.postMessage({ command: 'openFile', filepath: link.dataset.file });
+          }
+        });
+
+        window.addEventListener('message', (event) => {
+          const message = event.data;
+          switch (message.command) {
+            case 'load':
+              cards = message.cards;
+              document.getElementById('report-header').innerHTML = message.headerHTML;
+              document.getElementById('report-footer').innerHTML = message.footerHTML;
+              renderOptions(message.statuses, message.licenses);
+              break;
+            case 'render':
+              render(message.groups, message.shown, message.total);
+              break;
+          }
+        });
+
+        vscode.postMessage({ command: 'ready', query });
       </script>
     </body>
     </html>
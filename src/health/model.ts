@@ -0,0 +1,285 @@
+import * as semver from "semver";
+import { RepositoryRef, parseRepository } from "../registry";
+import { RepositoryState } from "./repository";
+
+export type HealthSignalId =
+  "cadence" | "recency" | "maintainers" | "churn" | "repository";
+
+// How much each signal counts towards the score, out of 100
+export const healthSignalWeights: Record<HealthSignalId, number> = {
+  cadence: 20,
+  recency: 30,
+  maintainers: 20,
+  churn: 15,
+  repository: 15,
+};
+
+export const healthSignalLabels: Record<HealthSignalId, string> = {
+  cadence: "Release cadence",
+  recency: "Last publish",
+  maintainers: "Maintainers",
+  churn: "Major versions",
+  repository: "Repository",
+};
+
+// One signal scored 0-100 with what it was scored from
+export interface HealthSignal {
+  id: HealthSignalId;
+  score: number;
+  detail: string;
+}
+
+export interface PackageHealth {
+  // Weighted 0-100 over the signals that could be scored
+  score: number;
+  signals: HealthSignal[];
+  // The signal details, weakest first
+  explanation: string;
+}
+
+export interface HealthOptions {
+  now?: number;
+  // Left out of the score when undefined, i.e. not looked up
+  repositoryState?: RepositoryState;
+}
+
+const day = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+const plural = (count: number, word: string) =>
+  `${count} ${count === 1 ? word : `${word}s`}`;
+
+// Publish times of the versions in a packument's `time`, oldest first
+function releaseTimes(packument: any): { version: string; time: number }[] {
+  return Object.entries(packument?.time ?? {})
+    .filter(([version]) => semver.valid(version))
+    .map(([version, time]) => ({ version, time: Date.parse(time as string) }))
+    .filter((release) => !isNaN(release.time))
+    .sort((a, b) => a.time - b.time);
+}
+
+// Maintainer names from a packument or version manifest, which list
+// `{ name, email }` objects or "name <email>" strings
+function maintainerNames(manifest: any): string[] | undefined {
+  if (!Array.isArray(manifest?.maintainers)) {
+    return undefined;
+  }
+  return manifest.maintainers
+    .map((maintainer: any) =>
+      typeof maintainer === "string"
+        ? maintainer.replace(/\s*[<(].*$/, "")
+        : maintainer?.name
+    )
+    .filter((name: unknown): name is string => typeof name === "string");
+}
+
+// Stable releases over the last year; a single release ever says nothing
+function scoreCadence(
+  releases: { version: string; time: number }[],
+  now: number
+): HealthSignal | undefined {
+  const stable = releases.filter(
+    (release) => !semver.prerelease(release.version)
+  );
+  if (stable.length < 2) {
+    return undefined;
+  }
+  const lastYear = stable.filter((release) => release.time >= now - 365 * day);
+  // Median gap between the last ten releases
+  const recent = stable.slice(-10);
+  const gaps = recent
+    .slice(1)
+    .map((release, i) => (release.time - recent[i].time) / day)
+    .sort((a, b) => a - b);
+  const median = gaps[Math.floor(gaps.length / 2)];
+  return {
+    id: "cadence",
+    // One release a year is 40, six or more is full marks
+    score: lastYear.length === 0 ? 0 : clamp(40 + 12 * (lastYear.length - 1)),
+    detail: `${plural(lastYear.length, "release")} in the last year, typically ${plural(
+      Math.round(median),
+      "day"
+    )} apart`,
+  };
+}
+
+// Full marks within 90 days of the last publish, nothing after 3 years
+function scoreRecency(
+  releases: { version: string; time: number }[],
+  now: number
+): HealthSignal | undefined {
+  const last = releases[releases.length - 1];
+  if (!last) {
+    return undefined;
+  }
+  const ageDays = Math.max(0, Math.round((now - last.time) / day));
+  return {
+    id: "recency",
+    score: clamp(100 - ((ageDays - 90) / (3 * 365 - 90)) * 100),
+    detail: `Last published ${plural(ageDays, "day")} ago (${last.version})`,
+  };
+}
+
+// More maintainers is better; maintainers who joined in the last year
+// count against it, and a complete handover most of all
+function scoreMaintainers(
+  packument: any,
+  releases: { version: string; time: number }[],
+  now: number
+): HealthSignal | undefined {
+  const current = maintainerNames(packument);
+  if (!current) {
+    return undefined;
+  }
+  const base = [0, 50, 80][current.length] ?? 100;
+  const details = [plural(current.length, "maintainer")];
+
+  // Maintainers of the newest release against those of a year ago
+  const yearAgo = [...releases]
+    .reverse()
+    .find((release) => release.time < now - 365 * day);
+  const newest = releases[releases.length - 1];
+  const before =
+    yearAgo && maintainerNames(packument.versions?.[yearAgo.version]);
+  const after = newest && maintainerNames(packument.versions?.[newest.version]);
+  if (!before?.length || !after?.length || yearAgo === newest) {
+    return { id: "maintainers", score: base, detail: details[0] };
+  }
+  const added = after.filter((name) => !before.includes(name));
+  const removed = before.filter((name) => !after.includes(name));
+  if (added.length > 0) {
+    details.push(`${added.join(", ")} joined in the last year`);
+  }
+  if (removed.length > 0) {
+    details.push(`${removed.join(", ")} left in the last year`);
+  }
+  const handover = added.length > 0 && removed.length === before.length;
+  if (handover) {
+    details.push("every maintainer changed");
+  }
+  return {
+    id: "maintainers",
+    score: handover
+      ? Math.min(base, 20)
+      : clamp(base - 15 * Math.min(added.length, 3)),
+    detail: details.join(", "),
+  };
+}
+
+// Breaking release lines started in the last two years. Below 1.0.0 a
+// minor release is breaking, so 0.x lines count too.
+function scoreChurn(
+  releases: { version: string; time: number }[],
+  now: number
+): HealthSignal | undefined {
+  const stable = releases.filter(
+    (release) => !semver.prerelease(release.version)
+  );
+  if (stable.length === 0) {
+    return undefined;
+  }
+  const firstOfLine = new Map<string, string>();
+  stable.forEach(({ version, time }) => {
+    const parsed = semver.parse(version)!;
+    const line = parsed.major > 0 ? `${parsed.major}` : `0.${parsed.minor}`;
+    if (!firstOfLine.has(line)) {
+      firstOfLine.set(line, time >= now - 2 * 365 * day ? version : "");
+    }
+  });
+  // The package's first release isn't churn
+  const breaking = Array.from(firstOfLine.values()).filter(
+    (version) => version && version !== stable[0].version
+  );
+  return {
+    id: "churn",
+    score: [100, 85, 60, 35][breaking.length] ?? 10,
+    detail: `${plural(breaking.length, "breaking release")} in the last 2 years${
+      breaking.length > 0 ? ` (${breaking.join(", ")})` : ""
+    }`,
+  };
+}
+
+// Whether the `repository` field leads to a repository that's still there
+export function scoreRepository(
+  repository: RepositoryRef | undefined,
+  state: RepositoryState | undefined
+): HealthSignal | undefined {
+  if (!repository) {
+    return {
+      id: "repository",
+      score: 20,
+      detail: "No source repository is listed",
+    };
+  }
+  const name = `${repository.owner}/${repository.name}`;
+  switch (state) {
+    case "archived":
+      return { id: "repository", score: 0, detail: `${name} is archived` };
+    case "missing":
+      return {
+        id: "repository",
+        score: 0,
+        detail: `${name} no longer exists on ${repository.host}`,
+      };
+    case "active":
+      return { id: "repository", score: 100, detail: `${name} is active` };
+    default:
+      return undefined;
+  }
+}
+
+// Weigh the signals into a score and explain it
+export function summarizeHealth(signals: HealthSignal[]): PackageHealth {
+  const order = Object.keys(healthSignalWeights);
+  const sorted = [...signals].sort(
+    (a, b) => order.indexOf(a.id) - order.indexOf(b.id)
+  );
+  const totalWeight = sorted.reduce(
+    (sum, signal) => sum + healthSignalWeights[signal.id],
+    0
+  );
+  return {
+    score: totalWeight
+      ? clamp(
+          sorted.reduce(
+            (sum, signal) =>
+              sum + signal.score * healthSignalWeights[signal.id],
+            0
+          ) / totalWeight
+        )
+      : 0,
+    signals: sorted,
+    explanation: [...sorted]
+      .sort((a, b) => a.score - b.score)
+      .map((signal) => signal.detail)
+      .join("; "),
+  };
+}
+
+// Score how well a package is maintained from its full packument: release
+// cadence and recency from `time`, maintainers and recent changes to them,
+// major-version churn and, when looked up, the state of its repository.
+// Undefined when the packument has none of these.
+export function computeHealth(
+  packument: any,
+  options: HealthOptions = {}
+): PackageHealth | undefined {
+  const now = options.now ?? Date.now();
+  const releases = releaseTimes(packument);
+  const signals = [
+    scoreCadence(releases, now),
+    scoreRecency(releases, now),
+    scoreMaintainers(packument, releases, now),
+    scoreChurn(releases, now),
+    scoreRepository(
+      parseRepository(packument?.repository),
+      options.repositoryState
+    ),
+  ].filter((signal): signal is HealthSignal => !!signal);
+  // A repository field alone is no basis for a score
+  if (!signals.some((signal) => signal.id !== "repository")) {
+    return undefined;
+  }
+  return summarizeHealth(signals);
+}
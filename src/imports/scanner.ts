@@ -0,0 +1,293 @@
+import * as ts from "typescript";
+
+// Kinds of module references we recognise in a source file
+export type ImportKind =
+  | "static"
+  | "dynamic"
+  | "require"
+  | "re-export"
+  | "type-only";
+
+// Zero-based line/character position, matching vscode.Position
+export interface SourcePosition {
+  line: number;
+  character: number;
+}
+
+export interface SourceRange {
+  start: SourcePosition;
+  end: SourcePosition;
+}
+
+// A single binding pulled in by an import. `imported` is the name on the
+// module side ("default" for default imports, "*" for namespaces and whole
+// CommonJS modules), `local` is the binding it lands in.
+export interface ImportedName {
+  imported: string;
+  local: string;
+  typeOnly?: boolean;
+}
+
+export interface ImportRecord {
+  kind: ImportKind;
+  specifier: string;
+  // Range of the whole statement or call expression
+  range: SourceRange;
+  // Range of the specifier text, excluding the quotes
+  specifierRange: SourceRange;
+  names: ImportedName[];
+}
+
+// Pick the script kind from the file extension so JSX parses correctly
+export function getScriptKind(fileName: string): ts.ScriptKind {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".tsx")) {
+    return ts.ScriptKind.TSX;
+  }
+  if (lower.endsWith(".jsx")) {
+    return ts.ScriptKind.JSX;
+  }
+  if (
+    lower.endsWith(".js") ||
+    lower.endsWith(".mjs") ||
+    lower.endsWith(".cjs")
+  ) {
+    return ts.ScriptKind.JS;
+  }
+  return ts.ScriptKind.TS;
+}
+
+function toRange(
+  sourceFile: ts.SourceFile,
+  start: number,
+  end: number
+): SourceRange {
+  const startPos = sourceFile.getLineAndCharacterOfPosition(start);
+  const endPos = sourceFile.getLineAndCharacterOfPosition(end);
+  return {
+    start: { line: startPos.line, character: startPos.character },
+    end: { line: endPos.line, character: endPos.character },
+  };
+}
+
+function isStringLike(
+  node: ts.Node | undefined
+): node is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral {
+  return (
+    !!node &&
+    (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+  );
+}
+
+// Collect bindings from `const x = ...` / `const { a, b: c } = ...`
+function namesFromBinding(name: ts.BindingName): ImportedName[] {
+  if (ts.isIdentifier(name)) {
+    return [{ imported: "*", local: name.text }];
+  }
+  if (ts.isObjectBindingPattern(name)) {
+    const names: ImportedName[] = [];
+    name.elements.forEach((element) => {
+      if (element.dotDotDotToken) {
+        return;
+      }
+      const property = element.propertyName ?? element.name;
+      if (
+        (ts.isIdentifier(property) || ts.isStringLiteral(property)) &&
+        ts.isIdentifier(element.name)
+      ) {
+        names.push({ imported: property.text, local: element.name.text });
+      }
+    });
+    return names;
+  }
+  return [];
+}
+
+// Walk up through `await` and parentheses to find a variable declaration
+function findDeclaringBinding(node: ts.Node): ts.BindingName | undefined {
+  let current = node.parent;
+  while (
+    current &&
+    (ts.isAwaitExpression(current) || ts.isParenthesizedExpression(current))
+  ) {
+    current = current.parent;
+  }
+  if (current && ts.isVariableDeclaration(current)) {
+    return current.name;
+  }
+  return undefined;
+}
+
+function namesFromImportClause(clause: ts.ImportClause): ImportedName[] {
+  const names: ImportedName[] = [];
+  if (clause.name) {
+    names.push({
+      imported: "default",
+      local: clause.name.text,
+      typeOnly: clause.isTypeOnly || undefined,
+    });
+  }
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push({
+      imported: "*",
+      local: bindings.name.text,
+      typeOnly: clause.isTypeOnly || undefined,
+    });
+  } else if (bindings && ts.isNamedImports(bindings)) {
+    bindings.elements.forEach((element) => {
+      names.push({
+        imported: (element.propertyName ?? element.name).text,
+        local: element.name.text,
+        typeOnly: clause.isTypeOnly || element.isTypeOnly || undefined,
+      });
+    });
+  }
+  return names;
+}
+
+function namesFromExportClause(
+  clause: ts.NamedExportBindings | undefined,
+  typeOnly: boolean
+): ImportedName[] {
+  if (!clause) {
+    return [{ imported: "*", local: "*", typeOnly: typeOnly || undefined }];
+  }
+  if (ts.isNamespaceExport(clause)) {
+    return [
+      { imported: "*", local: clause.name.text, typeOnly: typeOnly || undefined },
+    ];
+  }
+  return clause.elements.map((element) => ({
+    imported: (element.propertyName ?? element.name).text,
+    local: element.name.text,
+    typeOnly: typeOnly || element.isTypeOnly || undefined,
+  }));
+}
+
+// Parse a JS/TS source file and return every module reference in it.
+// Comments and string contents are never matched since we work on the AST.
+export function scanImports(
+  content: string,
+  fileName: string = "file.ts"
+): ImportRecord[] {
+  const sourceFile = ts.createSourceFile(
+    fileName,
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    getScriptKind(fileName)
+  );
+  const records: ImportRecord[] = [];
+
+  const push = (
+    kind: ImportKind,
+    node: ts.Node,
+    literal: ts.StringLiteral | ts.NoSubstitutionTemplateLiteral,
+    names: ImportedName[]
+  ) => {
+    records.push({
+      kind,
+      specifier: literal.text,
+      range: toRange(sourceFile, node.getStart(sourceFile), node.getEnd()),
+      specifierRange: toRange(
+        sourceFile,
+        literal.getStart(sourceFile) + 1,
+        literal.getEnd() - 1
+      ),
+      names,
+    });
+  };
+
+  const visit = (node: ts.Node) => {
+    // import x, { a } from "x" / import "x" / import type { A } from "x"
+    if (ts.isImportDeclaration(node) && isStringLike(node.moduleSpecifier)) {
+      const clause = node.importClause;
+      const names = clause ? namesFromImportClause(clause) : [];
+      push(
+        clause?.isTypeOnly ? "type-only" : "static",
+        node,
+        node.moduleSpecifier,
+        names
+      );
+      return;
+    }
+
+    // export * from "x" / export { a } from "x" / export type { A } from "x"
+    if (
+      ts.isExportDeclaration(node) &&
+      node.moduleSpecifier &&
+      isStringLike(node.moduleSpecifier)
+    ) {
+      push(
+        node.isTypeOnly ? "type-only" : "re-export",
+        node,
+        node.moduleSpecifier,
+        namesFromExportClause(node.exportClause, node.isTypeOnly)
+      );
+      return;
+    }
+
+    // import x = require("x")
+    if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference) &&
+      isStringLike(node.moduleReference.expression)
+    ) {
+      push(
+        node.isTypeOnly ? "type-only" : "require",
+        node,
+        node.moduleReference.expression,
+        [{ imported: "*", local: node.name.text }]
+      );
+      return;
+    }
+
+    // type T = typeof import("x")
+    if (
+      ts.isImportTypeNode(node) &&
+      ts.isLiteralTypeNode(node.argument) &&
+      isStringLike(node.argument.literal)
+    ) {
+      const qualifier = node.qualifier;
+      push(
+        "type-only",
+        node,
+        node.argument.literal,
+        qualifier && ts.isIdentifier(qualifier)
+          ? [{ imported: qualifier.text, local: qualifier.text, typeOnly: true }]
+          : []
+      );
+    }
+
+    if (ts.isCallExpression(node) && isStringLike(node.arguments[0])) {
+      const callee = node.expression;
+      const literal = node.arguments[0];
+
+      // import("x")
+      if (callee.kind === ts.SyntaxKind.ImportKeyword) {
+        const binding = findDeclaringBinding(node);
+        push("dynamic", node, literal, binding ? namesFromBinding(binding) : []);
+      }
+      // require("x")
+      else if (ts.isIdentifier(callee) && callee.text === "require") {
+        const binding = findDeclaringBinding(node);
+        push("require", node, literal, binding ? namesFromBinding(binding) : []);
+      }
+      // require.resolve("x")
+      else if (
+        ts.isPropertyAccessExpression(callee) &&
+        ts.isIdentifier(callee.expression) &&
+        callee.expression.text === "require" &&
+        callee.name.text === "resolve"
+      ) {
+        push("require", node, literal, []);
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+
+  visit(sourceFile);
+  return records;
+}
@@ -0,0 +1,99 @@
+import { builtinModules } from "module";
+
+// What an import specifier points at
+export type SpecifierKind =
+  | "package"
+  | "builtin"
+  | "relative"
+  | "absolute"
+  | "unresolvable";
+
+export interface ClassifiedSpecifier {
+  kind: SpecifierKind;
+  specifier: string;
+  // npm package name, with the scope kept together (e.g. "@aws-sdk/client-s3")
+  packageName?: string;
+  // Deep import path inside the package (e.g. "fp" for "lodash/fp")
+  subpath?: string;
+  // Built-in module name without the "node:" prefix (e.g. "fs/promises")
+  builtinName?: string;
+}
+
+const builtins = new Set(
+  builtinModules.filter((name) => !name.startsWith("_"))
+);
+
+// Valid npm package name segments, including legacy mixed-case names
+const packageSegment = /^[a-z0-9-][a-z0-9-._~]*$/i;
+
+// Whether a module id (without "node:") is a Node.js built-in
+export function isBuiltinModule(name: string): boolean {
+  return builtins.has(name) || builtins.has(name.split("/")[0]);
+}
+
+// Classify a raw import specifier into package, built-in, local or unresolvable
+export function classifySpecifier(specifier: string): ClassifiedSpecifier {
+  if (
+    specifier === "." ||
+    specifier === ".." ||
+    specifier.startsWith("./") ||
+    specifier.startsWith("../")
+  ) {
+    return { kind: "relative", specifier };
+  }
+
+  if (
+    specifier.startsWith("/") ||
+    /^[a-zA-Z]:[\\/]/.test(specifier) ||
+    specifier.startsWith("file:")
+  ) {
+    return { kind: "absolute", specifier };
+  }
+
+  // "node:" specifiers are always built-ins, including prefix-only ones like node:test
+  if (specifier.startsWith("node:")) {
+    return {
+      kind: "builtin",
+      specifier,
+      builtinName: specifier.slice("node:".length),
+    };
+  }
+
+  if (isBuiltinModule(specifier)) {
+    return { kind: "builtin", specifier, builtinName: specifier };
+  }
+
+  // Anything else with a protocol (http:, virtual:, data:) or an alias prefix
+  // (~/, #internal) cannot be mapped to a registry package
+  if (/^[a-z][a-z0-9+.-]*:/i.test(specifier) || /^[~#]/.test(specifier)) {
+    return { kind: "unresolvable", specifier };
+  }
+
+  const parts = specifier.split("/");
+  let nameParts: string[];
+
+  if (specifier.startsWith("@")) {
+    const scope = parts[0].slice(1);
+    if (
+      parts.length < 2 ||
+      !packageSegment.test(scope) ||
+      !packageSegment.test(parts[1])
+    ) {
+      return { kind: "unresolvable", specifier };
+    }
+    nameParts = parts.slice(0, 2);
+  } else {
+    if (!packageSegment.test(parts[0])) {
+      return { kind: "unresolvable", specifier };
+    }
+    nameParts = parts.slice(0, 1);
+  }
+
+  const subpath = parts.slice(nameParts.length).join("/");
+  return {
+    kind: "package",
+    specifier,
+    packageName: nameParts.join("/"),
+    subpath: subpath || undefined,
+  };
+}
@@ -0,0 +1,109 @@
+import { LicenseInfo, baseLicenseId, categorizeExpression } from "./declared";
+import { SpdxExpression } from "./spdx";
+
+type SpdxLicense = Extract<SpdxExpression, { license: string }>;
+
+// Copyleft licences whose terms can't be met together with the listed
+// ones, even though both are open source. Entries without "-only" or
+// "-or-later" match every version suffix.
+const incompatibleLicenses: Record<string, string[]> = {
+  "GPL-2.0-only": [
+    "AGPL-3.0",
+    "Apache-2.0",
+    "CDDL-1.0",
+    "CDDL-1.1",
+    "EPL-1.0",
+    "EPL-2.0",
+    "GPL-3.0",
+    "LGPL-3.0",
+    "MPL-1.1",
+  ],
+  "GPL-3.0": ["CDDL-1.0", "CDDL-1.1", "EPL-1.0", "GPL-2.0-only", "MPL-1.1"],
+  "AGPL-3.0": ["CDDL-1.0", "CDDL-1.1", "EPL-1.0", "GPL-2.0-only", "MPL-1.1"],
+};
+
+// "GPL-2.0+" -> "GPL-2.0-or-later"; a bare GNU licence version is taken
+// to mean "-only", as SPDX did before the suffixes existed
+function versionedId(license: SpdxLicense): string {
+  const base = baseLicenseId(license.license);
+  if (license.plus || /-or-later$/i.test(license.license)) {
+    return `${base}-or-later`;
+  }
+  return /^(A|L)?GPL-/.test(base) ? `${base}-only` : license.license;
+}
+
+const matchesEntry = (license: SpdxLicense) => (entry: string) =>
+  entry === versionedId(license) || entry === baseLicenseId(license.license);
+
+// Why one dependency licence can't be used under one project licence;
+// an undefined project licence stands for proprietary code
+function conflictOf(
+  project: SpdxLicense | undefined,
+  dependency: SpdxLicense
+): string | undefined {
+  const dependencyCategory = categorizeExpression(dependency);
+  const projectCategory = project ? categorizeExpression(project) : undefined;
+  if (dependencyCategory === "strong-copyleft") {
+    if (projectCategory !== "strong-copyleft") {
+      return `${dependency.license} is strong copyleft, so its terms would extend to the whole project`;
+    }
+  }
+  if (!project) {
+    return undefined;
+  }
+  const table = Object.keys(incompatibleLicenses).find(matchesEntry(project));
+  if (table && incompatibleLicenses[table].some(matchesEntry(dependency))) {
+    return `the terms of ${project.license} and ${dependency.license} can't both be met`;
+  }
+  return undefined;
+}
+
+// Undefined when an expression can be satisfied with licences `reject`
+// lets through, otherwise the first reason a required licence was rejected
+function evaluate(
+  expression: SpdxExpression,
+  reject: (license: SpdxLicense) => string | undefined
+): string | undefined {
+  if ("license" in expression) {
+    return reject(expression);
+  }
+  const left = evaluate(expression.left, reject);
+  const right = evaluate(expression.right, reject);
+  return expression.conjunction === "and"
+    ? (left ?? right)
+    : left && right
+      ? left
+      : undefined;
+}
+
+// Why a dependency's licence clashes with the project's own licence, or
+// undefined. Projects without an SPDX licence are treated as proprietary.
+// Unknown dependency licences need a manual review but aren't clashes.
+export function findLicenseConflict(
+  project: LicenseInfo,
+  dependency: LicenseInfo
+): string | undefined {
+  if (dependency.category === "proprietary") {
+    return project.expression
+      ? `${dependency.declared} packages may not be redistributed with an open-source project`
+      : undefined;
+  }
+  if (!dependency.expression) {
+    return undefined;
+  }
+  const dependencyExpression = dependency.expression;
+  const reason = project.expression
+    ? // The project can pick whichever of its own licences works
+      evaluate(project.expression, (projectLicense) =>
+        evaluate(dependencyExpression, (license) =>
+          conflictOf(projectLicense, license)
+        )
+      )
+    : evaluate(dependencyExpression, (license) =>
+        conflictOf(undefined, license)
+      );
+  return (
+    reason &&
+    `${dependency.declared} conflicts with the project licence ${project.declared}: ${reason}`
+  );
+}
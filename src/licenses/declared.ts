@@ -0,0 +1,231 @@
+import {
+  SpdxExpression,
+  formatSpdxExpression,
+  parseSpdxExpression,
+} from "./spdx";
+
+// How far a licence's obligations reach into the code that uses it
+export type LicenseCategory =
+  | "permissive"
+  | "weak-copyleft"
+  | "strong-copyleft"
+  | "proprietary"
+  | "unknown";
+
+// Least to most restrictive. A choice (OR) takes its least restrictive
+// side, a combination (AND) its most restrictive one.
+export const licenseCategoryOrder: LicenseCategory[] = [
+  "permissive",
+  "weak-copyleft",
+  "strong-copyleft",
+  "unknown",
+  "proprietary",
+];
+
+// A package's licence declaration, normalised
+export interface LicenseInfo {
+  // e.g. "MIT OR Apache-2.0", "SEE LICENSE IN LICENSE.md" or "Unknown"
+  declared: string;
+  // Present when the declaration is a valid SPDX expression
+  expression?: SpdxExpression;
+  // File named by "SEE LICENSE IN <file>"
+  file?: string;
+  category: LicenseCategory;
+}
+
+// The manifest fields npm has used for licences over time
+export interface LicenseFields {
+  license?: unknown;
+  // Deprecated array of { type, url } objects
+  licenses?: unknown;
+}
+
+// Categories of common SPDX identifiers, without "-only"/"-or-later"
+const knownLicenses: Record<string, LicenseCategory> = {
+  "0BSD": "permissive",
+  "AFL-3.0": "permissive",
+  "Apache-1.1": "permissive",
+  "Apache-2.0": "permissive",
+  "Artistic-2.0": "permissive",
+  "BlueOak-1.0.0": "permissive",
+  "BSD-2-Clause": "permissive",
+  "BSD-3-Clause": "permissive",
+  "BSL-1.0": "permissive",
+  "CC-BY-3.0": "permissive",
+  "CC-BY-4.0": "permissive",
+  "CC0-1.0": "permissive",
+  ISC: "permissive",
+  MIT: "permissive",
+  "MIT-0": "permissive",
+  NCSA: "permissive",
+  PostgreSQL: "permissive",
+  "Python-2.0": "permissive",
+  "UPL-1.0": "permissive",
+  Unlicense: "permissive",
+  WTFPL: "permissive",
+  X11: "permissive",
+  Zlib: "permissive",
+  "CDDL-1.0": "weak-copyleft",
+  "CDDL-1.1": "weak-copyleft",
+  "CPL-1.0": "weak-copyleft",
+  "EPL-1.0": "weak-copyleft",
+  "EPL-2.0": "weak-copyleft",
+  "LGPL-2.0": "weak-copyleft",
+  "LGPL-2.1": "weak-copyleft",
+  "LGPL-3.0": "weak-copyleft",
+  "MPL-1.1": "weak-copyleft",
+  "MPL-2.0": "weak-copyleft",
+  "AGPL-1.0": "strong-copyleft",
+  "AGPL-3.0": "strong-copyleft",
+  "CC-BY-SA-3.0": "strong-copyleft",
+  "CC-BY-SA-4.0": "strong-copyleft",
+  "EUPL-1.1": "strong-copyleft",
+  "EUPL-1.2": "strong-copyleft",
+  "GPL-1.0": "strong-copyleft",
+  "GPL-2.0": "strong-copyleft",
+  "GPL-3.0": "strong-copyleft",
+  "OSL-3.0": "strong-copyleft",
+  "SSPL-1.0": "strong-copyleft",
+};
+
+const canonicalIds = new Map(
+  Object.keys(knownLicenses).map((id) => [id.toLowerCase(), id])
+);
+
+// Free-text declarations seen in older packages
+const legacyNames: Record<string, string> = {
+  "apache 2": "Apache-2.0",
+  "apache 2.0": "Apache-2.0",
+  "apache license 2.0": "Apache-2.0",
+  "apache license, version 2.0": "Apache-2.0",
+  "apache-2": "Apache-2.0",
+  apache2: "Apache-2.0",
+  "bsd 2-clause": "BSD-2-Clause",
+  "bsd 3-clause": "BSD-3-Clause",
+  "bsd-new": "BSD-3-Clause",
+  "new bsd": "BSD-3-Clause",
+  "simplified bsd": "BSD-2-Clause",
+  gplv2: "GPL-2.0-only",
+  gplv3: "GPL-3.0-only",
+  lgplv3: "LGPL-3.0-only",
+  "mit license": "MIT",
+  "mit/x11": "MIT",
+  "mpl 2.0": "MPL-2.0",
+};
+
+const versionSuffix = /-(only|or-later)$/i;
+
+// Identifier without "+", "-only" or "-or-later", e.g. "GPL-2.0"
+export function baseLicenseId(id: string): string {
+  return id.replace(/\+$/, "").replace(versionSuffix, "");
+}
+
+// Spell known identifiers the way SPDX does ("mit" -> "MIT")
+function canonicalize(expression: SpdxExpression): SpdxExpression {
+  if ("conjunction" in expression) {
+    return {
+      ...expression,
+      left: canonicalize(expression.left),
+      right: canonicalize(expression.right),
+    };
+  }
+  const base = baseLicenseId(expression.license);
+  const canonical = canonicalIds.get(base.toLowerCase());
+  return canonical
+    ? {
+        ...expression,
+        license: `${canonical}${expression.license
+          .slice(base.length)
+          .toLowerCase()}`,
+      }
+    : expression;
+}
+
+// Category of a single licence; linking exceptions such as
+// "GPL-2.0 WITH Classpath-exception-2.0" relax strong copyleft to weak
+function categorizeLicense(
+  license: Extract<SpdxExpression, { license: string }>
+): LicenseCategory {
+  const category = knownLicenses[baseLicenseId(license.license)] ?? "unknown";
+  return category === "strong-copyleft" && license.exception
+    ? "weak-copyleft"
+    : category;
+}
+
+// Overall category of an expression
+export function categorizeExpression(
+  expression: SpdxExpression
+): LicenseCategory {
+  if ("license" in expression) {
+    return categorizeLicense(expression);
+  }
+  const [left, right] = [expression.left, expression.right].map((side) =>
+    licenseCategoryOrder.indexOf(categorizeExpression(side))
+  );
+  return licenseCategoryOrder[
+    expression.conjunction === "or"
+      ? Math.min(left, right)
+      : Math.max(left, right)
+  ];
+}
+
+// Parse one declaration, falling back to the legacy free-text names
+function parseDeclaration(text: string): SpdxExpression | undefined {
+  for (const candidate of [text, legacyNames[text.toLowerCase()]]) {
+    if (candidate) {
+      try {
+        return canonicalize(parseSpdxExpression(candidate));
+      } catch {
+        // Not SPDX; try the next candidate
+      }
+    }
+  }
+  return undefined;
+}
+
+const typeOf = (value: unknown): string | undefined => {
+  const type =
+    typeof value === "object" && value !== null
+      ? (value as { type?: unknown }).type
+      : value;
+  return typeof type === "string" && type.trim() ? type.trim() : undefined;
+};
+
+// Normalise a manifest's licence: an SPDX expression, the legacy
+// { type, url } object or `licenses` array (read as a choice between its
+// entries), "SEE LICENSE IN <file>" or "UNLICENSED"
+export function describeLicense(
+  manifest: LicenseFields | undefined
+): LicenseInfo {
+  const raw = manifest?.license ?? manifest?.licenses;
+  const declarations = (Array.isArray(raw) ? raw : [raw])
+    .map(typeOf)
+    .filter((type): type is string => !!type);
+  if (declarations.length === 0) {
+    return { declared: "Unknown", category: "unknown" };
+  }
+
+  if (declarations.length === 1) {
+    const [text] = declarations;
+    const file = /^SEE LICEN[CS]E IN\s+(.+)$/i.exec(text)?.[1];
+    if (file) {
+      return { declared: `SEE LICENSE IN ${file}`, file, category: "unknown" };
+    }
+    if (text.toUpperCase() === "UNLICENSED") {
+      return { declared: "UNLICENSED", category: "proprietary" };
+    }
+  }
+
+  const parsed = declarations.map(parseDeclaration);
+  if (parsed.some((expression) => !expression)) {
+    return { declared: declarations.join(" OR "), category: "unknown" };
+  }
+  const expression = (parsed as SpdxExpression[]).reduce(
+    (left, right): SpdxExpression => ({ conjunction: "or", left, right })
+  );
+  return {
+    declared: formatSpdxExpression(expression),
+    expression,
+    category: categorizeExpression(expression),
+  };
+}
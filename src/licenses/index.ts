@@ -0,0 +1,5 @@
+export * from "./compatibility";
+export * from "./declared";
+export * from "./inventory";
+export * from "./notice";
+export * from "./spdx";
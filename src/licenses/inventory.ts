@@ -0,0 +1,237 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LockedPackage, Lockfile, findInstalledId } from "../lockfile";
+import { findNearestManifest } from "../manifest/packageJson";
+import { RegistryClient } from "../registry";
+import { errorHandler } from "../utils";
+import { findLicenseConflict } from "./compatibility";
+import {
+  LicenseCategory,
+  LicenseFields,
+  LicenseInfo,
+  describeLicense,
+  licenseCategoryOrder,
+} from "./declared";
+
+// Licence fields of one package version, and where it is installed
+export interface LicenseManifest extends LicenseFields {
+  // Installed package folder, for reading licence texts
+  directory?: string;
+}
+
+// Finds the licence of a package version; `locked` is its lockfile entry
+export type LicenseLookup = (
+  name: string,
+  version: string,
+  locked?: LockedPackage
+) => Promise<LicenseManifest | undefined>;
+
+export interface LicenseInventoryEntry {
+  name: string;
+  version: string;
+  license: LicenseInfo;
+  // Imported by the project itself rather than pulled in by a dependency
+  direct: boolean;
+  // Imported packages this one is installed for
+  requiredBy: string[];
+  // Why the licence clashes with the project's own, if it does
+  conflict?: string;
+  directory?: string;
+}
+
+export interface LicenseInventory {
+  project: { name?: string; license: LicenseInfo };
+  // Sorted by name and version
+  packages: LicenseInventoryEntry[];
+}
+
+export interface LicenseInventoryOptions {
+  project: LicenseInventory["project"];
+  // Packages the project imports, at their installed versions
+  packages: { name: string; version: string }[];
+  // Adds the transitive dependencies of the imported packages
+  lockfile?: Lockfile;
+  lookup: LicenseLookup;
+}
+
+// Name and licence of the project owning a folder
+export function getProjectLicense(
+  startPath: string
+): LicenseInventory["project"] {
+  const manifestPath = findNearestManifest(startPath);
+  if (!manifestPath) {
+    return { license: describeLicense(undefined) };
+  }
+  try {
+    const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    return { name: manifest.name, license: describeLicense(manifest) };
+  } catch (error) {
+    console.warn(`Unable to read ${manifestPath}: ${errorHandler(error)}`);
+    return { license: describeLicense(undefined) };
+  }
+}
+
+// Read an installed package's manifest if it is the wanted version
+function readInstalledManifest(
+  directory: string,
+  version: string
+): LicenseManifest | undefined {
+  try {
+    const manifest = JSON.parse(
+      fs.readFileSync(path.join(directory, "package.json"), "utf8")
+    );
+    return manifest.version === version
+      ? { license: manifest.license, licenses: manifest.licenses, directory }
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Look licences up in the lockfile (npm records them), then in the
+// installed package.json, then in the registry's version manifest
+export function createLicenseLookup(options: {
+  root: string;
+  lockfile?: Lockfile;
+  client?: RegistryClient;
+}): LicenseLookup {
+  const { root, lockfile, client } = options;
+  const lockDir = lockfile ? path.dirname(lockfile.path) : root;
+
+  return async (name, version, locked) => {
+    // npm lockfile ids are install paths such as "node_modules/a"
+    const directories = [
+      ...(lockfile?.kind === "npm" && locked
+        ? [path.join(lockDir, locked.id)]
+        : []),
+      path.join(lockDir, "node_modules", name),
+      path.join(root, "node_modules", name),
+    ];
+    const installed = directories
+      .map((directory) => readInstalledManifest(directory, version))
+      .find(Boolean);
+    if (locked?.license) {
+      return { license: locked.license, directory: installed?.directory };
+    }
+    if (installed?.license || installed?.licenses || !client) {
+      return installed;
+    }
+
+    try {
+      const data = (await client.getPackument(name)).data;
+      const manifest = data?.versions?.[version];
+      const fields: LicenseFields =
+        manifest?.license || manifest?.licenses ? manifest : (data ?? {});
+      return {
+        license: fields.license,
+        licenses: fields.licenses,
+        directory: installed?.directory,
+      };
+    } catch (error) {
+      console.warn(
+        `Unable to fetch the licence of ${name}@${version}: ${errorHandler(error)}`
+      );
+      return installed;
+    }
+  };
+}
+
+// Collect the licence of every imported package and, with a lockfile,
+// everything installed for them, flagging clashes with the project licence
+export async function buildLicenseInventory(
+  options: LicenseInventoryOptions
+): Promise<LicenseInventory> {
+  const { lockfile } = options;
+  const entries = new Map<
+    string,
+    {
+      name: string;
+      version: string;
+      direct: boolean;
+      requiredBy: Set<string>;
+      locked?: LockedPackage;
+    }
+  >();
+  const add = (
+    name: string,
+    version: string,
+    requiredBy: string,
+    direct: boolean,
+    locked?: LockedPackage
+  ) => {
+    const key = `${name}@${version}`;
+    const entry = entries.get(key) ?? {
+      name,
+      version,
+      direct,
+      requiredBy: new Set<string>(),
+      locked,
+    };
+    entry.direct ||= direct;
+    entry.locked ??= locked;
+    if (!direct) {
+      entry.requiredBy.add(requiredBy);
+    }
+    entries.set(key, entry);
+    return entry;
+  };
+
+  options.packages.forEach(({ name, version }) => {
+    const id = lockfile ? findInstalledId(lockfile, name) : undefined;
+    const root = id ? lockfile!.packages[id] : undefined;
+    add(name, root?.version ?? version, name, true, root);
+    if (!root) {
+      return;
+    }
+    // Every package reachable from this one, each visited once
+    const seen = new Set([root.id]);
+    const stack = Object.values(root.dependencies);
+    while (stack.length > 0) {
+      const dependencyId = stack.pop()!;
+      const locked = lockfile!.packages[dependencyId];
+      if (!locked || seen.has(dependencyId)) {
+        continue;
+      }
+      seen.add(dependencyId);
+      add(locked.name, locked.version, name, false, locked);
+      stack.push(...Object.values(locked.dependencies));
+    }
+  });
+
+  const packages = await Promise.all(
+    Array.from(entries.values()).map(
+      async (entry): Promise<LicenseInventoryEntry> => {
+        const manifest = await options.lookup(
+          entry.name,
+          entry.version,
+          entry.locked
+        );
+        const license = describeLicense(manifest);
+        return {
+          name: entry.name,
+          version: entry.version,
+          license,
+          direct: entry.direct,
+          requiredBy: Array.from(entry.requiredBy).sort(),
+          conflict: findLicenseConflict(options.project.license, license),
+          directory: manifest?.directory,
+        };
+      }
+    )
+  );
+  packages.sort(
+    (a, b) => a.name.localeCompare(b.name) || a.version.localeCompare(b.version)
+  );
+  return { project: options.project, packages };
+}
+
+// Number of inventory packages per licence category
+export function countLicenseCategories(
+  inventory: LicenseInventory
+): Record<LicenseCategory, number> {
+  const counts = Object.fromEntries(
+    licenseCategoryOrder.map((category) => [category, 0])
+  ) as Record<LicenseCategory, number>;
+  inventory.packages.forEach((entry) => counts[entry.license.category]++);
+  return counts;
+}
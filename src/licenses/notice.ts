@@ -0,0 +1,70 @@
+import * as fs from "fs";
+import * as path from "path";
+import { LicenseInventory, LicenseInventoryEntry } from "./inventory";
+
+// Files holding licence texts and attributions, by name prefix
+const licenseFilePattern = /^(licen[cs]e|copying|notice)([.-].*)?$/i;
+
+const separator = "-".repeat(80);
+
+// Licence texts installed with a package: the file named by "SEE LICENSE
+// IN", else its LICENSE/COPYING files followed by any NOTICE file
+export function readLicenseTexts(entry: LicenseInventoryEntry): string[] {
+  const { directory } = entry;
+  if (!directory) {
+    return [];
+  }
+  try {
+    const files = entry.license.file
+      ? [entry.license.file]
+      : fs
+          .readdirSync(directory)
+          .filter((file) => licenseFilePattern.test(file))
+          .sort(
+            (a, b) =>
+              Number(/^notice/i.test(a)) - Number(/^notice/i.test(b)) ||
+              a.localeCompare(b)
+          );
+    return files
+      .map((file) => path.join(directory, file))
+      .filter((file) => fs.existsSync(file) && fs.statSync(file).isFile())
+      .map((file) => fs.readFileSync(file, "utf8").trim());
+  } catch {
+    return [];
+  }
+}
+
+// Render a third-party attribution file (NOTICE) for the inventory
+export function renderNotice(
+  inventory: LicenseInventory,
+  readTexts: (entry: LicenseInventoryEntry) => string[] = readLicenseTexts
+): string {
+  const subject = inventory.project.name ?? "This project";
+  const lines = [
+    "THIRD-PARTY SOFTWARE NOTICES",
+    "",
+    `${subject} uses the following ${inventory.packages.length} third-party package${
+      inventory.packages.length === 1 ? "" : "s"
+    }.`,
+  ];
+
+  inventory.packages.forEach((entry) => {
+    lines.push(
+      "",
+      separator,
+      `${entry.name} ${entry.version}`,
+      `License: ${entry.license.declared}`,
+      `https://www.npmjs.com/package/${entry.name}/v/${entry.version}`,
+      separator,
+      ""
+    );
+    const texts = readTexts(entry);
+    lines.push(
+      ...(texts.length > 0
+        ? texts.join("\n\n")
+        : "No licence text is installed for this package; see its npm page."
+      ).split("\n")
+    );
+  });
+  return `${lines.join("\n")}\n`;
+}
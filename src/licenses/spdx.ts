@@ -0,0 +1,128 @@
+// A parsed SPDX licence expression, e.g. "(MIT OR Apache-2.0) AND BSD-3-Clause"
+export type SpdxExpression =
+  | {
+      license: string;
+      // "GPL-2.0+": this version or later
+      plus?: boolean;
+      // "Apache-2.0 WITH LLVM-exception"
+      exception?: string;
+    }
+  | {
+      conjunction: "and" | "or";
+      left: SpdxExpression;
+      right: SpdxExpression;
+    };
+
+const tokenize = (text: string) =>
+  text
+    .replace(/([()])/g, " $1 ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Parse an SPDX licence expression. AND binds tighter than OR; operators
+// are accepted in any case, as npm does.
+export function parseSpdxExpression(text: string): SpdxExpression {
+  const tokens = tokenize(text);
+  let position = 0;
+  const peek = () => tokens[position]?.toUpperCase();
+  const fail = (message: string): never => {
+    throw new Error(`Invalid SPDX expression "${text}": ${message}`);
+  };
+
+  const primary = (): SpdxExpression => {
+    const token = tokens[position++];
+    if (token === undefined) {
+      return fail("unexpected end");
+    }
+    if (token === "(") {
+      const inner = or();
+      if (tokens[position++] !== ")") {
+        fail(`missing ")"`);
+      }
+      return inner;
+    }
+    if (token === ")" || ["AND", "OR", "WITH"].includes(token.toUpperCase())) {
+      return fail(`unexpected "${token}"`);
+    }
+    const plus = token.endsWith("+") && token.length > 1;
+    const leaf: SpdxExpression = { license: plus ? token.slice(0, -1) : token };
+    if (plus) {
+      leaf.plus = true;
+    }
+    if (peek() === "WITH") {
+      position++;
+      const exception = tokens[position++];
+      if (exception === undefined || exception === "(" || exception === ")") {
+        fail(`missing exception after WITH`);
+      }
+      leaf.exception = exception;
+    }
+    return leaf;
+  };
+
+  const and = (): SpdxExpression => {
+    let left = primary();
+    while (peek() === "AND") {
+      position++;
+      left = { conjunction: "and", left, right: primary() };
+    }
+    return left;
+  };
+
+  const or = (): SpdxExpression => {
+    let left = and();
+    while (peek() === "OR") {
+      position++;
+      left = { conjunction: "or", left, right: and() };
+    }
+    return left;
+  };
+
+  const expression = or();
+  if (position < tokens.length) {
+    fail(`unexpected "${tokens[position]}"`);
+  }
+  return expression;
+}
+
+// Whether the licence terms can be met using only licences accepted by
+// `isAccepted`: one side of an OR, or both sides of an AND
+export function satisfiesExpression(
+  expression: SpdxExpression,
+  isAccepted: (license: string) => boolean
+): boolean {
+  if ("license" in expression) {
+    return isAccepted(expression.license);
+  }
+  return expression.conjunction === "and"
+    ? satisfiesExpression(expression.left, isAccepted) &&
+        satisfiesExpression(expression.right, isAccepted)
+    : satisfiesExpression(expression.left, isAccepted) ||
+        satisfiesExpression(expression.right, isAccepted);
+}
+
+// Licence identifiers an expression mentions, in order of appearance
+export function listLicenses(expression: SpdxExpression): string[] {
+  return "license" in expression
+    ? [expression.license]
+    : [...listLicenses(expression.left), ...listLicenses(expression.right)];
+}
+
+// Write an expression back as text, adding parentheses only where an OR
+// is nested inside an AND
+export function formatSpdxExpression(expression: SpdxExpression): string {
+  if ("license" in expression) {
+    return `${expression.license}${expression.plus ? "+" : ""}${
+      expression.exception ? ` WITH ${expression.exception}` : ""
+    }`;
+  }
+  const side = (child: SpdxExpression) =>
+    "conjunction" in child &&
+    child.conjunction === "or" &&
+    expression.conjunction === "and"
+      ? `(${formatSpdxExpression(child)})`
+      : formatSpdxExpression(child);
+  return `${side(expression.left)} ${expression.conjunction.toUpperCase()} ${side(
+    expression.right
+  )}`;
+}
@@ -0,0 +1,118 @@
+import { Lockfile, LockedPackage } from "./types";
+import { splitDescriptor } from "./yarn";
+
+interface BunWorkspace {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+interface BunPackageInfo {
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+// bun.lock is JSON with trailing commas; drop them outside of strings
+export function stripTrailingCommas(content: string): string {
+  let result = "";
+  let inString = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inString) {
+      result += char;
+      if (char === "\\") {
+        result += content[++i] ?? "";
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === ",") {
+      const next = content.slice(i + 1).match(/^\s*(.)/);
+      if (next && (next[1] === "}" || next[1] === "]")) {
+        continue;
+      }
+    }
+    result += char;
+  }
+  return result;
+}
+
+// "a/@s/b/c" -> ["a", "@s/b", "c"]
+function splitPackagePath(key: string): string[] {
+  const segments: string[] = [];
+  key.split("/").forEach((part) => {
+    const last = segments[segments.length - 1];
+    if (last?.startsWith("@") && !last.includes("/")) {
+      segments[segments.length - 1] = `${last}/${part}`;
+    } else {
+      segments.push(part);
+    }
+  });
+  return segments;
+}
+
+// Parse the text bun.lock format (bun 1.1.39+). The binary bun.lockb is not supported.
+export function parseBunLockfile(content: string, lockPath: string): Lockfile {
+  const data = JSON.parse(stripTrailingCommas(content));
+  const entries: Record<string, unknown[]> = data.packages || {};
+  const workspaces: Record<string, BunWorkspace> = data.workspaces || {};
+
+  // Nested keys ("parent/dep") shadow hoisted ones, like nested node_modules
+  const resolve = (from: string, dependency: string): string | undefined => {
+    const segments = from ? splitPackagePath(from) : [];
+    while (true) {
+      const candidate = [...segments, dependency].join("/");
+      if (entries[candidate]) {
+        return candidate;
+      }
+      if (segments.length === 0) {
+        return undefined;
+      }
+      segments.pop();
+    }
+  };
+
+  const resolveAll = (from: string, dependencies: Record<string, string>) => {
+    const resolved: Record<string, string> = {};
+    Object.keys(dependencies).forEach((name) => {
+      const id = resolve(from, name);
+      if (id) {
+        resolved[name] = id;
+      }
+    });
+    return resolved;
+  };
+
+  const packages: Record<string, LockedPackage> = {};
+  Object.entries(entries).forEach(([key, entry]) => {
+    const { name, range } = splitDescriptor(String(entry[0] ?? key));
+    const info = (entry.find(
+      (item, index) => index > 0 && item && typeof item === "object"
+    ) || {}) as BunPackageInfo;
+    packages[key] = {
+      id: key,
+      name,
+      version: range,
+      dependencies: resolveAll(key, {
+        ...info.dependencies,
+        ...info.optionalDependencies,
+        ...info.peerDependencies,
+      }),
+    };
+  });
+
+  const importers: Lockfile["importers"] = {};
+  Object.entries(workspaces).forEach(([dir, workspace]) => {
+    importers[dir || "."] = resolveAll("", {
+      ...workspace.dependencies,
+      ...workspace.devDependencies,
+      ...workspace.optionalDependencies,
+    });
+  });
+
+  return { kind: "bun", path: lockPath, importers, packages };
+}
@@ -0,0 +1,219 @@
+import * as fs from "fs";
+import * as path from "path";
+import { errorHandler } from "../utils";
+import { parseBunLockfile } from "./bun";
+import { parseNpmLockfile } from "./npm";
+import { parsePnpmLockfile } from "./pnpm";
+import { Lockfile, ManifestDependencies } from "./types";
+import { parseYarnLockfile } from "./yarn";
+
+export * from "./types";
+
+// Lockfile names in order of preference when several sit in one directory
+const lockfileParsers: Record<
+  string,
+  (content: string, lockPath: string, root: ManifestDependencies) => Lockfile
+> = {
+  "package-lock.json": parseNpmLockfile,
+  "npm-shrinkwrap.json": parseNpmLockfile,
+  "pnpm-lock.yaml": parsePnpmLockfile,
+  "yarn.lock": parseYarnLockfile,
+  "bun.lock": parseBunLockfile,
+};
+
+export interface DependencyNode {
+  name: string;
+  version: string;
+  children: DependencyNode[];
+  // Already shown elsewhere in the tree, children omitted
+  deduped?: boolean;
+  // Depth limit reached, children omitted
+  truncated?: boolean;
+}
+
+export interface InstalledPackageInfo {
+  installedVersion: string;
+  // Every distinct version installed anywhere in the tree
+  versions: string[];
+  // Number of installed copies, including identical versions at several paths
+  copies: number;
+  // Number of unique packages this one pulls in transitively
+  transitiveCount: number;
+  dependencyTree: DependencyNode;
+}
+
+// Find the closest lockfile at or above startDir
+export function findLockfile(startDir: string): string | undefined {
+  let dir = startDir;
+  while (true) {
+    for (const fileName of Object.keys(lockfileParsers)) {
+      const candidate = path.join(dir, fileName);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Parse a lockfile by name
+export function parseLockfile(lockPath: string): Lockfile {
+  const parser = lockfileParsers[path.basename(lockPath)];
+  if (!parser) {
+    throw new Error(`Unsupported lockfile ${path.basename(lockPath)}`);
+  }
+
+  // Yarn classic needs the root manifest to know the direct dependencies
+  let rootDependencies: ManifestDependencies = {};
+  const manifestPath = path.join(path.dirname(lockPath), "package.json");
+  if (fs.existsSync(manifestPath)) {
+    try {
+      const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+      rootDependencies = {
+        ...manifest.dependencies,
+        ...manifest.devDependencies,
+        ...manifest.optionalDependencies,
+      };
+    } catch (error) {
+      console.warn(`Unable to read ${manifestPath}: ${errorHandler(error)}`);
+    }
+  }
+
+  return parser(fs.readFileSync(lockPath, "utf8"), lockPath, rootDependencies);
+}
+
+// Find and parse the lockfile governing startDir, if there is one
+export function loadLockfile(startDir: string): Lockfile | undefined {
+  const lockPath = findLockfile(startDir);
+  if (!lockPath) {
+    return undefined;
+  }
+  try {
+    return parseLockfile(lockPath);
+  } catch (error) {
+    console.warn(`Unable to parse ${lockPath}: ${errorHandler(error)}`);
+    return undefined;
+  }
+}
+
+// Build the transitive dependency tree below a locked package, npm ls style:
+// packages already expanded elsewhere are marked as deduped
+export function buildDependencyTree(
+  lockfile: Lockfile,
+  id: string,
+  maxDepth: number = 4
+): DependencyNode {
+  const expanded = new Set<string>();
+
+  const build = (currentId: string, depth: number): DependencyNode => {
+    const locked = lockfile.packages[currentId];
+    const node: DependencyNode = {
+      name: locked?.name ?? currentId,
+      version: locked?.version ?? "",
+      children: [],
+    };
+    if (!locked || Object.keys(locked.dependencies).length === 0) {
+      return node;
+    }
+    if (expanded.has(currentId)) {
+      node.deduped = true;
+      return node;
+    }
+    if (depth >= maxDepth) {
+      node.truncated = true;
+      return node;
+    }
+    expanded.add(currentId);
+    node.children = Object.keys(locked.dependencies)
+      .sort()
+      .map((name) => build(locked.dependencies[name], depth + 1));
+    return node;
+  };
+
+  return build(id, 0);
+}
+
+// Count unique packages reachable from a locked package
+export function countTransitiveDependencies(
+  lockfile: Lockfile,
+  id: string
+): number {
+  const seen = new Set<string>();
+  const stack = [id];
+  while (stack.length > 0) {
+    const locked = lockfile.packages[stack.pop()!];
+    Object.values(locked?.dependencies ?? {}).forEach((dependencyId) => {
+      if (dependencyId !== id && !seen.has(dependencyId)) {
+        seen.add(dependencyId);
+        stack.push(dependencyId);
+      }
+    });
+  }
+  return seen.size;
+}
+
+// Find the copy of a package the project actually uses: the direct
+// dependency of the root (or any workspace), else the most common copy
+export function findInstalledId(
+  lockfile: Lockfile,
+  packageName: string
+): string | undefined {
+  const importerDirs = Object.keys(lockfile.importers).sort((a, b) =>
+    a === "." ? -1 : b === "." ? 1 : a.localeCompare(b)
+  );
+  for (const dir of importerDirs) {
+    const id = lockfile.importers[dir][packageName];
+    if (id) {
+      return id;
+    }
+  }
+
+  const counts = new Map<string, number>();
+  Object.values(lockfile.packages).forEach((locked) => {
+    Object.entries(locked.dependencies).forEach(([name, id]) => {
+      if (name === packageName) {
+        counts.set(id, (counts.get(id) ?? 0) + 1);
+      }
+    });
+  });
+  let best: string | undefined;
+  counts.forEach((count, id) => {
+    if (!best || count > counts.get(best)!) {
+      best = id;
+    }
+  });
+  return (
+    best ??
+    Object.values(lockfile.packages).find(
+      (locked) => locked.name === packageName
+    )?.id
+  );
+}
+
+// Installed version, duplicate copies and dependency subtree of a package
+export function getInstalledPackageInfo(
+  lockfile: Lockfile,
+  packageName: string,
+  maxDepth?: number
+): InstalledPackageInfo | undefined {
+  const id = findInstalledId(lockfile, packageName);
+  if (!id || !lockfile.packages[id]) {
+    return undefined;
+  }
+
+  const copies = Object.values(lockfile.packages).filter(
+    (locked) => locked.name === packageName
+  );
+
+  return {
+    installedVersion: lockfile.packages[id].version,
+    versions: Array.from(new Set(copies.map((locked) => locked.version))).sort(),
+    copies: copies.length,
+    transitiveCount: countTransitiveDependencies(lockfile, id),
+    dependencyTree: buildDependencyTree(lockfile, id, maxDepth),
+  };
+}
@@ -0,0 +1,106 @@
+import { Lockfile, LockedPackage } from "./types";
+
+interface NpmLockEntry {
+  name?: string;
+  version?: string;
+  link?: boolean;
+  resolved?: string;
+  license?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+}
+
+const nodeModules = "node_modules/";
+
+// Package name from an install path like "node_modules/a/node_modules/@s/b"
+function nameFromPath(key: string): string {
+  return key.slice(key.lastIndexOf(nodeModules) + nodeModules.length);
+}
+
+// Parse package-lock.json / npm-shrinkwrap.json (lockfileVersion 2 and 3)
+export function parseNpmLockfile(content: string, lockPath: string): Lockfile {
+  const data = JSON.parse(content);
+  const entries: Record<string, NpmLockEntry> = data.packages;
+  if (!entries || typeof entries !== "object") {
+    throw new Error(
+      `Unsupported package-lock.json version ${data.lockfileVersion}; run npm install to upgrade it`
+    );
+  }
+
+  // Follow workspace symlinks ("node_modules/a" -> "packages/a")
+  const follow = (key: string) =>
+    entries[key]?.link && entries[key].resolved ? entries[key].resolved! : key;
+
+  // Node's resolution: look in our own node_modules, then each ancestor's
+  const resolve = (from: string, dependency: string): string | undefined => {
+    let base = from;
+    while (true) {
+      const candidate = `${base ? `${base}/` : ""}${nodeModules}${dependency}`;
+      if (entries[candidate]) {
+        return follow(candidate);
+      }
+      if (!base) {
+        return undefined;
+      }
+      const index = base.lastIndexOf(nodeModules);
+      base = index <= 0 ? "" : base.slice(0, index - 1);
+    }
+  };
+
+  const dependencyNames = (entry: NpmLockEntry, includeDev: boolean) =>
+    Object.keys({
+      ...entry.dependencies,
+      ...entry.optionalDependencies,
+      ...entry.peerDependencies,
+      ...(includeDev ? entry.devDependencies : {}),
+    });
+
+  const resolveAll = (key: string, names: string[]) => {
+    const resolved: Record<string, string> = {};
+    names.forEach((name) => {
+      const id = resolve(key, name);
+      if (id) {
+        resolved[name] = id;
+      }
+    });
+    return resolved;
+  };
+
+  const packages: Record<string, LockedPackage> = {};
+  const importers: Lockfile["importers"] = {};
+
+  Object.entries(entries).forEach(([key, entry]) => {
+    if (entry.link) {
+      return;
+    }
+    if (key === "" || !key.includes(nodeModules)) {
+      // The root project or a workspace package
+      importers[key || "."] = resolveAll(key, dependencyNames(entry, true));
+      return;
+    }
+    packages[key] = {
+      id: key,
+      name: entry.name || nameFromPath(key),
+      version: entry.version || "",
+      dependencies: resolveAll(key, dependencyNames(entry, false)),
+      ...(entry.license ? { license: entry.license } : {}),
+    };
+  });
+
+  // Workspace packages can also be depended on, so expose them as packages
+  Object.entries(entries).forEach(([key, entry]) => {
+    if (entry.link && entry.resolved && entries[entry.resolved]) {
+      const target = entries[entry.resolved];
+      packages[entry.resolved] ||= {
+        id: entry.resolved,
+        name: target.name || nameFromPath(key),
+        version: target.version || "",
+        dependencies: importers[entry.resolved] || {},
+      };
+    }
+  });
+
+  return { kind: "npm", path: lockPath, importers, packages };
+}
@@ -0,0 +1,117 @@
+import * as YAML from "yaml";
+import { Lockfile, LockedPackage } from "./types";
+
+type PnpmDependencyValue = string | { specifier?: string; version: string };
+
+interface PnpmImporter {
+  dependencies?: Record<string, PnpmDependencyValue>;
+  devDependencies?: Record<string, PnpmDependencyValue>;
+  optionalDependencies?: Record<string, PnpmDependencyValue>;
+}
+
+interface PnpmSnapshot {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+// Strip peer suffixes: "1.0.0(react@18.2.0)" (v6+) or "1.0.0_react@18.2.0" (v5)
+function stripPeerSuffix(version: string): string {
+  return version.replace(/\(.*$/, "").replace(/_.*$/, "");
+}
+
+// Parse pnpm-lock.yaml (lockfileVersion 5.x, 6.x and 9.x)
+export function parsePnpmLockfile(content: string, lockPath: string): Lockfile {
+  const data = YAML.parse(content) || {};
+  const lockfileVersion = parseFloat(String(data.lockfileVersion ?? "5"));
+  const major = Math.floor(lockfileVersion);
+
+  // v9 splits metadata (packages) from the dependency graph (snapshots)
+  const snapshots: Record<string, PnpmSnapshot> =
+    major >= 9 ? data.snapshots || {} : data.packages || {};
+
+  // Parse "name@1.0.0(peer)" / "/name@1.0.0" / "/name/1.0.0_peer" keys
+  const parseKey = (key: string): { name: string; version: string } => {
+    const bare = key.startsWith("/") ? key.slice(1) : key;
+    if (major < 6) {
+      const index = bare.lastIndexOf("/");
+      return {
+        name: bare.slice(0, index),
+        version: stripPeerSuffix(bare.slice(index + 1)),
+      };
+    }
+    const withoutPeers = bare.replace(/\(.*$/, "");
+    const index = withoutPeers.lastIndexOf("@");
+    return {
+      name: withoutPeers.slice(0, index),
+      version: withoutPeers.slice(index + 1),
+    };
+  };
+
+  // Map a dependency reference back to the snapshot key it points at
+  const toId = (name: string, reference: string): string | undefined => {
+    if (reference.startsWith("link:") || reference.startsWith("file:")) {
+      return undefined;
+    }
+    let id: string;
+    if (reference.startsWith("/")) {
+      // Aliased or non-registry dependency written as a full key (v5/v6)
+      id = reference;
+    } else if (
+      major >= 9 &&
+      /^(@[^/]+\/)?[^@/]+@/.test(reference.replace(/\(.*$/, ""))
+    ) {
+      // Aliased dependency written as "real-name@1.0.0" (v9)
+      id = reference;
+    } else if (major >= 9) {
+      id = `${name}@${reference}`;
+    } else if (major >= 6) {
+      id = `/${name}@${reference}`;
+    } else {
+      id = `/${name}/${reference}`;
+    }
+    return snapshots[id] !== undefined ? id : undefined;
+  };
+
+  const resolveAll = (dependencies: Record<string, PnpmDependencyValue>) => {
+    const resolved: Record<string, string> = {};
+    Object.entries(dependencies).forEach(([name, value]) => {
+      const reference = typeof value === "string" ? value : value?.version;
+      const id = reference ? toId(name, String(reference)) : undefined;
+      if (id) {
+        resolved[name] = id;
+      }
+    });
+    return resolved;
+  };
+
+  const packages: Record<string, LockedPackage> = {};
+  Object.entries(snapshots).forEach(([key, snapshot]) => {
+    const parsed = parseKey(key);
+    packages[key] = {
+      id: key,
+      name: snapshot?.name || parsed.name,
+      version: snapshot?.version || parsed.version,
+      dependencies: resolveAll({
+        ...snapshot?.dependencies,
+        ...snapshot?.optionalDependencies,
+      }),
+    };
+  });
+
+  // Single-project lockfiles before v9 keep the root's dependencies at the top level
+  const importerEntries: Record<string, PnpmImporter> = data.importers || {
+    ".": data,
+  };
+  const importers: Lockfile["importers"] = {};
+  Object.entries(importerEntries).forEach(([dir, importer]) => {
+    importers[dir] = resolveAll({
+      ...importer.dependencies,
+      ...importer.devDependencies,
+      ...importer.optionalDependencies,
+    });
+  });
+
+  return { kind: "pnpm", path: lockPath, importers, packages };
+}
@@ -0,0 +1,30 @@
+export type LockfileKind =
+  | "npm"
+  | "pnpm"
+  | "yarn-classic"
+  | "yarn-berry"
+  | "bun";
+
+// One installed copy of a package. `dependencies` maps each dependency
+// name to the id of the copy it resolves to inside the same lockfile.
+export interface LockedPackage {
+  id: string;
+  name: string;
+  version: string;
+  dependencies: Record<string, string>;
+  // Licence field copied from the package manifest (npm lockfiles only)
+  license?: string;
+}
+
+export interface Lockfile {
+  kind: LockfileKind;
+  path: string;
+  // Workspace directory relative to the lockfile ("." for the root) ->
+  // direct dependency name -> locked package id
+  importers: Record<string, Record<string, string>>;
+  packages: Record<string, LockedPackage>;
+}
+
+// Declared dependencies of the root package, needed by formats that don't
+// record importers themselves (yarn classic)
+export type ManifestDependencies = Record<string, string>;
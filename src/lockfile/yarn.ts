@@ -0,0 +1,172 @@
+import * as YAML from "yaml";
+import { Lockfile, LockedPackage, ManifestDependencies } from "./types";
+
+interface YarnEntry {
+  version?: string;
+  resolution?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+}
+
+const unquote = (value: string) =>
+  value.length >= 2 && value.startsWith('"') && value.endsWith('"')
+    ? value.slice(1, -1)
+    : value;
+
+// Split "name@range" descriptors, keeping the scope's leading "@"
+export function splitDescriptor(descriptor: string): {
+  name: string;
+  range: string;
+} {
+  const index = descriptor.indexOf("@", 1);
+  return index === -1
+    ? { name: descriptor, range: "" }
+    : { name: descriptor.slice(0, index), range: descriptor.slice(index + 1) };
+}
+
+// Yarn classic uses its own indentation-based format rather than YAML
+function parseClassicEntries(content: string): Record<string, YarnEntry> {
+  const entries: Record<string, YarnEntry> = {};
+  let current: YarnEntry | undefined;
+  let section: Record<string, string> | undefined;
+
+  content.split(/\r?\n/).forEach((line) => {
+    if (!line.trim() || line.trimStart().startsWith("#")) {
+      return;
+    }
+    const indent = line.length - line.trimStart().length;
+    const text = line.trim();
+
+    if (indent === 0 && text.endsWith(":")) {
+      current = {};
+      section = undefined;
+      text
+        .slice(0, -1)
+        .split(/,\s*/)
+        .forEach((descriptor) => {
+          entries[unquote(descriptor.trim())] = current!;
+        });
+      return;
+    }
+    if (!current) {
+      return;
+    }
+
+    if (indent === 2) {
+      section = undefined;
+      if (text.endsWith(":")) {
+        const key = text.slice(0, -1);
+        if (key === "dependencies" || key === "optionalDependencies") {
+          section = current[key] = {};
+        }
+        return;
+      }
+      const [key, ...rest] = text.split(/\s+/);
+      if (key === "version") {
+        current.version = unquote(rest.join(" "));
+      }
+      return;
+    }
+
+    if (indent >= 4 && section) {
+      const match = /^("[^"]+"|\S+)\s+(.+)$/.exec(text);
+      if (match) {
+        section[unquote(match[1])] = unquote(match[2]);
+      }
+    }
+  });
+
+  return entries;
+}
+
+function buildYarnLockfile(
+  kind: "yarn-classic" | "yarn-berry",
+  lockPath: string,
+  entries: Record<string, YarnEntry>,
+  rootDependencies: ManifestDependencies
+): Lockfile {
+  // Every descriptor of an entry points at the id of its first descriptor
+  const idByDescriptor = new Map<string, string>();
+  const entryById = new Map<string, YarnEntry>();
+  const seen = new Map<YarnEntry, string>();
+  Object.entries(entries).forEach(([descriptor, entry]) => {
+    if (!seen.has(entry)) {
+      seen.set(entry, descriptor);
+      entryById.set(descriptor, entry);
+    }
+    idByDescriptor.set(descriptor, seen.get(entry)!);
+  });
+
+  // Berry omits the default "npm:" protocol in dependency ranges
+  const lookup = (name: string, range: string) =>
+    idByDescriptor.get(`${name}@${range}`) ??
+    idByDescriptor.get(`${name}@npm:${range}`);
+
+  const resolveAll = (dependencies: Record<string, string>) => {
+    const resolved: Record<string, string> = {};
+    Object.entries(dependencies).forEach(([name, range]) => {
+      const id = lookup(name, range);
+      if (id) {
+        resolved[name] = id;
+      }
+    });
+    return resolved;
+  };
+
+  const packages: Record<string, LockedPackage> = {};
+  const importers: Lockfile["importers"] = {};
+
+  entryById.forEach((entry, id) => {
+    const { name, range } = splitDescriptor(id);
+    const dependencies = resolveAll({
+      ...entry.dependencies,
+      ...entry.optionalDependencies,
+    });
+
+    // Berry records workspaces as "name@workspace:path" entries
+    if (range.startsWith("workspace:")) {
+      importers[range.slice("workspace:".length) || "."] = dependencies;
+    }
+    packages[id] = {
+      id,
+      name,
+      version: entry.version || "",
+      dependencies,
+    };
+  });
+
+  // Classic doesn't record the root workspace, so use the manifest ranges
+  if (!importers["."]) {
+    importers["."] = resolveAll(rootDependencies);
+  }
+
+  return { kind, path: lockPath, importers, packages };
+}
+
+// Parse yarn.lock, detecting classic (v1) and berry (v2+) formats
+export function parseYarnLockfile(
+  content: string,
+  lockPath: string,
+  rootDependencies: ManifestDependencies = {}
+): Lockfile {
+  if (/^__metadata:/m.test(content)) {
+    const data: Record<string, YarnEntry> = YAML.parse(content) || {};
+    const entries: Record<string, YarnEntry> = {};
+    Object.entries(data).forEach(([key, entry]) => {
+      if (key === "__metadata") {
+        return;
+      }
+      key.split(/,\s*/).forEach((descriptor) => {
+        entries[descriptor.trim()] = entry;
+      });
+    });
+    return buildYarnLockfile("yarn-berry", lockPath, entries, rootDependencies);
+  }
+
+  return buildYarnLockfile(
+    "yarn-classic",
+    lockPath,
+    parseClassicEntries(content),
+    rootDependencies
+  );
+}
@@ -0,0 +1,119 @@
+import * as fs from "fs";
+import * as path from "path";
+import { errorHandler } from "../utils";
+
+// The parts of a package.json that Package Pilot cares about
+export interface PackageManifest {
+  path: string;
+  dir: string;
+  name?: string;
+  license?: string;
+  engines: Record<string, string>;
+  scripts: Record<string, string>;
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  peerDependencies: Record<string, string>;
+  optionalDependencies: Record<string, string>;
+}
+
+export type DependencySection =
+  | "dependencies"
+  | "devDependencies"
+  | "peerDependencies"
+  | "optionalDependencies";
+
+export const dependencySections: DependencySection[] = [
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+];
+
+const asStringRecord = (value: unknown): Record<string, string> => {
+  const result: Record<string, string> = {};
+  if (value && typeof value === "object" && !Array.isArray(value)) {
+    Object.entries(value).forEach(([key, entry]) => {
+      if (typeof entry === "string") {
+        result[key] = entry;
+      }
+    });
+  }
+  return result;
+};
+
+// Read and normalise a package.json, returning undefined if it can't be parsed
+export function readManifest(manifestPath: string): PackageManifest | undefined {
+  try {
+    const data = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+    return {
+      path: manifestPath,
+      dir: path.dirname(manifestPath),
+      name: typeof data.name === "string" ? data.name : undefined,
+      license: typeof data.license === "string" ? data.license : undefined,
+      engines: asStringRecord(data.engines),
+      scripts: asStringRecord(data.scripts),
+      dependencies: asStringRecord(data.dependencies),
+      devDependencies: asStringRecord(data.devDependencies),
+      peerDependencies: asStringRecord(data.peerDependencies),
+      optionalDependencies: asStringRecord(data.optionalDependencies),
+    };
+  } catch (error) {
+    console.warn(`Unable to read ${manifestPath}: ${errorHandler(error)}`);
+    return undefined;
+  }
+}
+
+// Find the closest package.json at or above startPath. Results are memoised
+// per directory in `cache` so scanning many files stays cheap.
+export function findNearestManifest(
+  startPath: string,
+  cache: Map<string, string | undefined> = new Map()
+): string | undefined {
+  const visited: string[] = [];
+  let dir = startPath;
+  let found: string | undefined;
+
+  while (true) {
+    if (cache.has(dir)) {
+      found = cache.get(dir);
+      break;
+    }
+    visited.push(dir);
+    const candidate = path.join(dir, "package.json");
+    if (fs.existsSync(candidate)) {
+      found = candidate;
+      break;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      break;
+    }
+    dir = parent;
+  }
+
+  visited.forEach((entry) => cache.set(entry, found));
+  return found;
+}
+
+// Which sections of the manifest declare a package
+export function getDeclaringSections(
+  manifest: PackageManifest,
+  packageName: string
+): DependencySection[] {
+  return dependencySections.filter(
+    (section) => packageName in manifest[section]
+  );
+}
+
+// "@scope/name" -> "@types/scope__name", "name" -> "@types/name"
+export function typesPackageFor(packageName: string): string {
+  return packageName.startsWith("@")
+    ? `@types/${packageName.slice(1).replace("/", "__")}`
+    : `@types/${packageName}`;
+}
+
+// "@types/scope__name" -> "@scope/name", "@types/name" -> "name"
+export function runtimePackageForTypes(typesName: string): string {
+  const name = typesName.slice("@types/".length);
+  return name.includes("__") ? `@${name.replace("__", "/")}` : name;
+}
@@ -0,0 +1,211 @@
+import * as path from "path";
+import { ImportRecord } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+import {
+  PackageManifest,
+  findNearestManifest,
+  getDeclaringSections,
+  readManifest,
+  runtimePackageForTypes,
+  typesPackageFor,
+} from "./packageJson";
+
+export type ManifestFindingKind =
+  | "unused"
+  | "undeclared"
+  | "dev-only"
+  | "orphan-types";
+
+export interface ManifestFinding {
+  kind: ManifestFindingKind;
+  packageName: string;
+  message: string;
+  // Importing files, or the manifest itself when nothing imports the package
+  files: string[];
+}
+
+export interface ManifestReport {
+  manifestPath: string;
+  packageName?: string;
+  findings: ManifestFinding[];
+}
+
+// Files that only run at build or test time and may use devDependencies
+const devOnlyFilePatterns = [
+  /(^|\/)(__tests__|__mocks__|tests?|spec|e2e|scripts|\.storybook)\//,
+  /\.(test|spec|stories)\.[cm]?[jt]sx?$/,
+  /(^|\/)[^/]*\.config\.[cm]?[jt]sx?$/,
+];
+
+export function isDevOnlyFile(filePath: string, rootDir: string): boolean {
+  const relative = path.relative(rootDir, filePath).split(path.sep).join("/");
+  return devOnlyFilePatterns.some((pattern) => pattern.test(relative));
+}
+
+// Modules supplied by the host rather than node_modules (e.g. "vscode" for extensions)
+function getHostModules(manifest: PackageManifest): Set<string> {
+  const hostModules = new Set<string>();
+  if (manifest.engines.vscode) {
+    hostModules.add("vscode");
+  }
+  return hostModules;
+}
+
+// Compare the imports of files belonging to one package.json against its
+// declared dependencies. `checkUnused` should only be set when every source
+// file of the package was scanned, otherwise most dependencies look unused.
+export function reconcileManifest(
+  manifest: PackageManifest,
+  importRecords: Record<string, ImportRecord[]>,
+  checkUnused: boolean
+): ManifestFinding[] {
+  const findings: ManifestFinding[] = [];
+  const hostModules = getHostModules(manifest);
+
+  // package name -> importing files, split by where the import happens
+  const importedBy: Record<string, Set<string>> = {};
+  const runtimeImportedBy: Record<string, Set<string>> = {};
+  const valueImported = new Set<string>();
+
+  Object.entries(importRecords).forEach(([file, records]) => {
+    const devFile = isDevOnlyFile(file, manifest.dir);
+    records.forEach((record) => {
+      const { packageName } = classifySpecifier(record.specifier);
+      if (!packageName || hostModules.has(packageName)) {
+        return;
+      }
+      (importedBy[packageName] ||= new Set()).add(file);
+      if (record.kind !== "type-only") {
+        valueImported.add(packageName);
+        if (!devFile) {
+          (runtimeImportedBy[packageName] ||= new Set()).add(file);
+        }
+      }
+    });
+  });
+
+  Object.keys(importedBy)
+    .sort()
+    .forEach((packageName) => {
+      // A package importing itself by name resolves through "exports"
+      if (packageName === manifest.name) {
+        return;
+      }
+
+      const sections = getDeclaringSections(manifest, packageName);
+      const typesDeclared =
+        getDeclaringSections(manifest, typesPackageFor(packageName)).length > 0;
+
+      // Type-only imports are satisfied by a declared @types package
+      if (
+        sections.length === 0 &&
+        (valueImported.has(packageName) || !typesDeclared)
+      ) {
+        findings.push({
+          kind: "undeclared",
+          packageName,
+          message: "Imported but not declared in package.json; it only resolves through hoisting.",
+          files: Array.from(importedBy[packageName]),
+        });
+        return;
+      }
+
+      if (
+        runtimeImportedBy[packageName] &&
+        sections.length === 1 &&
+        sections[0] === "devDependencies"
+      ) {
+        findings.push({
+          kind: "dev-only",
+          packageName,
+          message: "Listed only in devDependencies but imported by runtime code.",
+          files: Array.from(runtimeImportedBy[packageName]),
+        });
+      }
+    });
+
+  if (checkUnused) {
+    const scripts = Object.values(manifest.scripts).join("\n");
+    Object.keys(manifest.dependencies)
+      .filter(
+        (name) =>
+          !name.startsWith("@types/") &&
+          !importedBy[name] &&
+          !hostModules.has(name) &&
+          !scripts.includes(name)
+      )
+      .sort()
+      .forEach((packageName) => {
+        findings.push({
+          kind: "unused",
+          packageName,
+          message: "Declared in dependencies but never imported.",
+          files: [manifest.path],
+        });
+      });
+  }
+
+  const typesPackages = new Set([
+    ...Object.keys(manifest.dependencies),
+    ...Object.keys(manifest.devDependencies),
+  ]);
+  Array.from(typesPackages)
+    .filter((name) => name.startsWith("@types/"))
+    .sort()
+    .forEach((typesName) => {
+      const runtimeName = runtimePackageForTypes(typesName);
+      // @types/node describes the runtime itself
+      if (runtimeName === "node" || hostModules.has(runtimeName)) {
+        return;
+      }
+      if (getDeclaringSections(manifest, runtimeName).length === 0) {
+        findings.push({
+          kind: "orphan-types",
+          packageName: typesName,
+          message: `No matching runtime package "${runtimeName}" is declared.`,
+          files: importedBy[runtimeName]
+            ? Array.from(importedBy[runtimeName])
+            : [manifest.path],
+        });
+      }
+    });
+
+  return findings;
+}
+
+// Group scanned files by their nearest package.json and reconcile each group.
+// `scanRoot` is the folder that was scanned in full, if any.
+export function reconcileImports(
+  importRecords: Record<string, ImportRecord[]>,
+  scanRoot?: string
+): ManifestReport[] {
+  const lookupCache = new Map<string, string | undefined>();
+  const groups: Record<string, Record<string, ImportRecord[]>> = {};
+
+  Object.entries(importRecords).forEach(([file, records]) => {
+    const manifestPath = findNearestManifest(path.dirname(file), lookupCache);
+    if (manifestPath) {
+      (groups[manifestPath] ||= {})[file] = records;
+    }
+  });
+
+  const reports: ManifestReport[] = [];
+  Object.keys(groups)
+    .sort()
+    .forEach((manifestPath) => {
+      const manifest = readManifest(manifestPath);
+      if (!manifest) {
+        return;
+      }
+      const relative = scanRoot ? path.relative(scanRoot, manifest.dir) : "..";
+      const checkUnused =
+        !relative.startsWith("..") && !path.isAbsolute(relative);
+      reports.push({
+        manifestPath,
+        packageName: manifest.name,
+        findings: reconcileManifest(manifest, groups[manifestPath], checkUnused),
+      });
+    });
+
+  return reports;
+}
@@ -0,0 +1,172 @@
+import { parseSpdxExpression, satisfiesExpression } from "../licenses";
+import { PackagePolicy } from "../rules/types";
+import { compilePattern } from "../rules/validate";
+import { licenseOf } from "../views/report";
+
+export type PolicyViolationKind =
+  "denied" | "license" | "downloads" | "age" | "health";
+
+export interface PolicyViolation {
+  packageName: string;
+  kind: PolicyViolationKind;
+  message: string;
+  // Required replacements of a denied package
+  replacements?: string[];
+}
+
+// The pass/fail outcome of checking every analysed package
+export interface PolicyResult {
+  passed: boolean;
+  // Packages the policy was checked against
+  checked: number;
+  violations: PolicyViolation[];
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const sameLicense = (a: string) => (b: string) =>
+  a.toLowerCase() === b.toLowerCase();
+
+// Whether a licence string passes the allow and deny lists. Strings that
+// aren't valid SPDX expressions are compared as a single identifier.
+export function isLicenseAllowed(
+  license: string,
+  licenses: PackagePolicy["licenses"]
+): boolean {
+  const isAccepted = (id: string) =>
+    (!licenses.allow || licenses.allow.some(sameLicense(id))) &&
+    !licenses.deny.some(sameLicense(id));
+  try {
+    return satisfiesExpression(parseSpdxExpression(license), isAccepted);
+  } catch {
+    return isAccepted(license);
+  }
+}
+
+// Check one package's data against the policy. Limits on metadata that
+// couldn't be fetched are skipped; the name is always checked.
+export function checkPackagePolicy(
+  pkg: any,
+  policy: PackagePolicy,
+  now: Date = new Date()
+): PolicyViolation[] {
+  const packageName: string = pkg.name;
+  const violations: PolicyViolation[] = [];
+  const add = (
+    kind: PolicyViolationKind,
+    message: string,
+    replacements?: string[]
+  ) => violations.push({ packageName, kind, message, replacements });
+
+  const denied = policy.deniedPackages.find((entry) =>
+    compilePattern(entry.name).test(packageName)
+  );
+  if (denied) {
+    add(
+      "denied",
+      `${packageName} is denied by the dependency policy${
+        denied.reason ? `: ${denied.reason}` : ""
+      }${
+        denied.replacements.length > 0
+          ? `. Use ${denied.replacements.join(" or ")} instead`
+          : ""
+      }`,
+      denied.replacements
+    );
+  }
+  if (pkg.error) {
+    return violations;
+  }
+
+  const { allow, deny } = policy.licenses;
+  if (allow || deny.length > 0) {
+    const license = licenseOf(pkg);
+    if (license === "Unknown") {
+      if (allow) {
+        add("license", `${packageName} has no licence information`);
+      }
+    } else if (!isLicenseAllowed(license, policy.licenses)) {
+      add(
+        "license",
+        `${packageName} is licensed under ${license}, which the dependency policy doesn't allow`
+      );
+    }
+  }
+
+  if (
+    policy.minWeeklyDownloads !== undefined &&
+    typeof pkg.weeklyDownloads === "number" &&
+    pkg.weeklyDownloads < policy.minWeeklyDownloads
+  ) {
+    add(
+      "downloads",
+      `${packageName} has ${pkg.weeklyDownloads.toLocaleString(
+        "en-US"
+      )} weekly downloads, below the policy minimum of ${policy.minWeeklyDownloads.toLocaleString(
+        "en-US"
+      )}`
+    );
+  }
+
+  const published = Date.parse(pkg.lastPublished);
+  if (policy.maxDaysSinceLastPublish !== undefined && !isNaN(published)) {
+    const days = Math.floor((now.getTime() - published) / dayMs);
+    if (days > policy.maxDaysSinceLastPublish) {
+      add(
+        "age",
+        `${packageName} was last published ${days} days ago, more than the policy maximum of ${policy.maxDaysSinceLastPublish}`
+      );
+    }
+  }
+
+  if (
+    policy.minHealthScore !== undefined &&
+    pkg.health &&
+    pkg.health.score < policy.minHealthScore
+  ) {
+    add(
+      "health",
+      `${packageName} has a health score of ${pkg.health.score}, below the policy minimum of ${policy.minHealthScore}: ${pkg.health.explanation}`
+    );
+  }
+
+  return violations;
+}
+
+// Collect the violations attached by the analysis, by package name;
+// undefined when no policy was checked
+export function getPolicyResult(
+  packageData: Record<string, any>
+): PolicyResult | undefined {
+  const checked = Object.values(packageData).filter((pkg: any) =>
+    Array.isArray(pkg.policyViolations)
+  );
+  if (checked.length === 0) {
+    return undefined;
+  }
+  const violations: PolicyViolation[] = checked
+    .flatMap((pkg: any) => pkg.policyViolations)
+    .sort((a, b) => a.packageName.localeCompare(b.packageName));
+  return {
+    passed: violations.length === 0,
+    checked: checked.length,
+    violations,
+  };
+}
+
+// One-line summary, e.g. for notifications and CI logs
+export function formatPolicySummary(result: PolicyResult): string {
+  if (result.passed) {
+    return `Dependency policy passed: ${result.checked} package${
+      result.checked === 1 ? "" : "s"
+    } checked`;
+  }
+  const packages = new Set(
+    result.violations.map((violation) => violation.packageName)
+  ).size;
+  return `Dependency policy failed: ${result.violations.length} violation${
+    result.violations.length === 1 ? "" : "s"
+  } in ${packages} of ${result.checked} package${
+    result.checked === 1 ? "" : "s"
+  }`;
+}
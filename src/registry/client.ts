@@ -0,0 +1,340 @@
+import * as http from "http";
+import * as https from "https";
+import axios, { AxiosRequestConfig } from "axios";
+import { HttpsProxyAgent } from "https-proxy-agent";
+import {
+  CacheKind,
+  CachedValue,
+  FetchResult,
+  MetadataCache,
+  OfflineCacheMissError,
+} from "../cache/metadataCache";
+import { RegistryConfig, toNerfDart } from "./npmrc";
+import { RequestScheduler, createRequestScheduler } from "./scheduler";
+
+export const defaultDownloadsEndpoint = "https://api.npmjs.org/downloads";
+
+export interface RegistryClientOptions {
+  // Base URL of an npm-style downloads API; undefined disables download counts
+  downloadsEndpoint?: string;
+  // Persistent cache for packuments and download counts
+  cache?: MetadataCache;
+  // Concurrency, retries and timeouts; a default scheduler is used otherwise
+  scheduler?: RequestScheduler;
+}
+
+// How a piece of package metadata was obtained, for the report
+export type FetchState = "fetched" | "cached" | "stale" | "failed" | "skipped";
+
+// The npm bulk downloads API accepts at most 128 unscoped names per request
+export const bulkDownloadsLimit = 128;
+
+export interface RegistryClient {
+  config: RegistryConfig;
+  // Registry URL a package is fetched from, honouring scope overrides
+  registryFor(packageName: string): string;
+  getPackument(packageName: string): Promise<CachedValue<any>>;
+  getWeeklyDownloads(packageName: string): Promise<number | undefined>;
+  // Weekly downloads for many packages, batched where the API allows it.
+  // Packages without a downloads source are left out of the result.
+  getBulkWeeklyDownloads(
+    packageNames: string[]
+  ): Promise<Record<string, CachedValue<number> | Error>>;
+  // Number of packages depending on this one, from the registry search API
+  getDependents(packageName: string): Promise<number | undefined>;
+}
+
+export function fetchStateOf(
+  result: CachedValue<unknown> | Error | undefined
+): FetchState {
+  if (!result) {
+    return "skipped";
+  }
+  if (result instanceof Error) {
+    return "failed";
+  }
+  return result.stale ? "stale" : result.fromCache ? "cached" : "fetched";
+}
+
+// "@scope/name" -> "@scope%2fname" as registries expect
+export function encodePackageName(packageName: string): string {
+  return packageName.replace("/", "%2f");
+}
+
+function matchesNoProxy(host: string, noProxy: string[]): boolean {
+  return noProxy.some((entry) => {
+    const domain = entry.replace(/^\*?\./, "");
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+export function createRegistryClient(
+  config: RegistryConfig,
+  options: RegistryClientOptions = {}
+): RegistryClient {
+  const agents = new Map<string, http.Agent>();
+  const scheduler = options.scheduler ?? createRequestScheduler();
+
+  // Agent per proxy so TLS settings and keep-alive are shared between requests
+  const getHttpsAgent = (proxy?: string): http.Agent => {
+    const key = proxy || "direct";
+    if (!agents.has(key)) {
+      const tlsOptions = {
+        rejectUnauthorized: config.strictSSL,
+        ca: config.ca,
+      };
+      agents.set(
+        key,
+        proxy
+          ? new HttpsProxyAgent(proxy, tlsOptions)
+          : new https.Agent({ keepAlive: true, ...tlsOptions })
+      );
+    }
+    return agents.get(key)!;
+  };
+
+  // Authorization is only sent to the registry the credentials belong to
+  const getAuthHeader = (url: string): string | undefined => {
+    const nerfDart = toNerfDart(url);
+    const match = Object.keys(config.auth)
+      .filter((key) => nerfDart.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    const auth = match ? config.auth[match] : undefined;
+    if (auth?.token) {
+      return `Bearer ${auth.token}`;
+    }
+    if (auth?.basic) {
+      return `Basic ${auth.basic}`;
+    }
+    return undefined;
+  };
+
+  const requestConfig = (url: string): AxiosRequestConfig => {
+    const target = new URL(url);
+    const headers: Record<string, string> = { Accept: "application/json" };
+    const authorization = getAuthHeader(url);
+    if (authorization) {
+      headers.Authorization = authorization;
+    }
+
+    const bypassProxy = matchesNoProxy(target.hostname, config.noProxy);
+    const requestOptions: AxiosRequestConfig = { headers };
+
+    if (target.protocol === "https:") {
+      requestOptions.httpsAgent = getHttpsAgent(
+        bypassProxy ? undefined : config.httpsProxy
+      );
+      requestOptions.proxy = false;
+    } else if (config.proxy && !bypassProxy) {
+      const proxy = new URL(config.proxy);
+      requestOptions.proxy = {
+        protocol: proxy.protocol.replace(":", ""),
+        host: proxy.hostname,
+        port: Number(proxy.port) || (proxy.protocol === "https:" ? 443 : 80),
+      };
+    } else {
+      requestOptions.proxy = false;
+    }
+    return requestOptions;
+  };
+
+  const registryFor = (packageName: string) => {
+    const scope = packageName.startsWith("@")
+      ? packageName.split("/")[0]
+      : undefined;
+    return (scope && config.scopes[scope]) || config.registry;
+  };
+
+  // GET with If-None-Match revalidation through the cache, when there is one
+  const cachedGet = async <T>(
+    kind: CacheKind,
+    key: string,
+    url: string,
+    transform: (data: any) => T
+  ): Promise<CachedValue<T>> => {
+    const fetcher = async (etag?: string): Promise<FetchResult<T>> => {
+      const request = requestConfig(url);
+      if (etag) {
+        request.headers = { ...request.headers, "If-None-Match": etag };
+      }
+      request.validateStatus = (status) =>
+        (status >= 200 && status < 300) || status === 304;
+      const response = await scheduler.schedule(url, (signal) =>
+        axios.get(url, { ...request, signal })
+      );
+      if (response.status === 304) {
+        return { notModified: true };
+      }
+      return {
+        data: transform(response.data),
+        etag: response.headers.etag,
+      };
+    };
+
+    if (options.cache) {
+      return options.cache.fetch(kind, key, fetcher);
+    }
+    const result = await fetcher();
+    return {
+      data: (result as { data: T }).data,
+      fetchedAt: Date.now(),
+      stale: false,
+      fromCache: false,
+    };
+  };
+
+  // Only unscoped packages from the default registry have public counts
+  const downloadsUrlFor = (packageName: string): string | undefined => {
+    // Private scopes live elsewhere; don't leak their names to a public API
+    if (
+      !options.downloadsEndpoint ||
+      registryFor(packageName) !== config.registry
+    ) {
+      return undefined;
+    }
+    const base = options.downloadsEndpoint.replace(/\/+$/, "");
+    return `${base}/point/last-week/${packageName}`;
+  };
+
+  const getWeeklyDownloads = async (packageName: string) => {
+    const url = downloadsUrlFor(packageName);
+    if (!url) {
+      return undefined;
+    }
+    return cachedGet(
+      "downloads",
+      url,
+      url,
+      (data): number => data?.downloads ?? 0
+    );
+  };
+
+  // One request for a batch of unscoped names, answered per package. Entries
+  // are cached under the same keys as single lookups.
+  const fetchDownloadsBatch = async (
+    names: string[],
+    results: Record<string, CachedValue<number> | Error>
+  ) => {
+    const base = options.downloadsEndpoint!.replace(/\/+$/, "");
+    const url = `${base}/point/last-week/${names.join(",")}`;
+    try {
+      const response = await scheduler.schedule(url, (signal) =>
+        axios.get(url, { ...requestConfig(url), signal })
+      );
+      names.forEach((name) => {
+        const downloads: number = response.data?.[name]?.downloads ?? 0;
+        options.cache?.set("downloads", downloadsUrlFor(name)!, downloads);
+        results[name] = {
+          data: downloads,
+          fetchedAt: Date.now(),
+          stale: false,
+          fromCache: false,
+        };
+      });
+    } catch (error) {
+      // Fall back to expired copies where we have them
+      names.forEach((name) => {
+        const entry = options.cache?.get<number>(
+          "downloads",
+          downloadsUrlFor(name)!
+        );
+        results[name] = entry
+          ? {
+              data: entry.data,
+              fetchedAt: entry.fetchedAt,
+              stale: true,
+              fromCache: true,
+            }
+          : error instanceof Error
+            ? error
+            : new Error(String(error));
+      });
+    }
+  };
+
+  return {
+    config,
+    registryFor,
+
+    getPackument: async (packageName) => {
+      const registry = registryFor(packageName);
+      const url = `${registry}${encodePackageName(packageName)}`;
+      return cachedGet("packument", url, url, (data) => data);
+    },
+
+    getDependents: async (packageName) => {
+      // Only the default registry is searched; private scopes stay private
+      if (registryFor(packageName) !== config.registry) {
+        return undefined;
+      }
+      const url = `${config.registry}-/v1/search?text=${encodeURIComponent(
+        packageName
+      )}&size=5`;
+      // Popularity data, so it shares the downloads TTL
+      const result = await cachedGet("downloads", url, url, (data) => {
+        const match = (data?.objects ?? []).find(
+          (entry: any) => entry.package?.name === packageName
+        );
+        const dependents = Number(match?.dependents);
+        return match?.dependents !== undefined && !isNaN(dependents)
+          ? dependents
+          : null;
+      });
+      return result.data ?? undefined;
+    },
+
+    getWeeklyDownloads: async (packageName) =>
+      (await getWeeklyDownloads(packageName))?.data,
+
+    getBulkWeeklyDownloads: async (packageNames) => {
+      const results: Record<string, CachedValue<number> | Error> = {};
+      const batchable: string[] = [];
+
+      await Promise.all(
+        packageNames.map(async (name) => {
+          const url = downloadsUrlFor(name);
+          if (!url) {
+            return;
+          }
+          const cached = options.cache?.lookup<number>("downloads", url);
+          if (cached) {
+            results[name] = cached;
+          } else if (options.cache?.options.offline) {
+            results[name] = new OfflineCacheMissError("downloads", url);
+          } else if (name.startsWith("@")) {
+            // The bulk endpoint doesn't support scoped packages
+            try {
+              results[name] = (await getWeeklyDownloads(name))!;
+            } catch (error) {
+              results[name] =
+                error instanceof Error ? error : new Error(String(error));
+            }
+          } else {
+            batchable.push(name);
+          }
+        })
+      );
+
+      const batches: string[][] = [];
+      for (let i = 0; i < batchable.length; i += bulkDownloadsLimit) {
+        batches.push(batchable.slice(i, i + bulkDownloadsLimit));
+      }
+      await Promise.all(
+        batches.map(async (batch) => {
+          // A single name gets the single-package response shape
+          if (batch.length === 1) {
+            try {
+              results[batch[0]] = (await getWeeklyDownloads(batch[0]))!;
+            } catch (error) {
+              results[batch[0]] =
+                error instanceof Error ? error : new Error(String(error));
+            }
+          } else {
+            await fetchDownloadsBatch(batch, results);
+          }
+        })
+      );
+      return results;
+    },
+  };
+}
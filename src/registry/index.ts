@@ -0,0 +1,5 @@
+export * from "./client";
+export * from "./npmrc";
+export * from "./repository";
+export * from "./scheduler";
+export * from "./tree";
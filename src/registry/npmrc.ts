@@ -0,0 +1,163 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { errorHandler } from "../utils";
+
+export const defaultRegistry = "https://registry.npmjs.org/";
+
+// Credentials for one registry, keyed by its "nerf dart" (//host/path/)
+export interface RegistryAuth {
+  token?: string;
+  // base64 "user:password"
+  basic?: string;
+}
+
+export interface RegistryConfig {
+  registry: string;
+  // "@scope" -> registry URL
+  scopes: Record<string, string>;
+  auth: Record<string, RegistryAuth>;
+  proxy?: string;
+  httpsProxy?: string;
+  noProxy: string[];
+  strictSSL: boolean;
+  ca?: string;
+}
+
+// Expand ${VAR} references the way npm does
+function expandEnv(value: string, env: NodeJS.ProcessEnv): string {
+  return value.replace(/\$\{([^}]+)\}/g, (_, name) => env[name] ?? "");
+}
+
+// Parse the ini-style .npmrc format into raw key/value pairs
+export function parseNpmrc(
+  content: string,
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  const values: Record<string, string> = {};
+  content.split(/\r?\n/).forEach((line) => {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith("#") || trimmed.startsWith(";")) {
+      return;
+    }
+    const index = trimmed.indexOf("=");
+    if (index === -1) {
+      return;
+    }
+    const key = expandEnv(trimmed.slice(0, index).trim(), env);
+    let value = trimmed.slice(index + 1).trim();
+    if (
+      value.length >= 2 &&
+      ((value.startsWith('"') && value.endsWith('"')) ||
+        (value.startsWith("'") && value.endsWith("'")))
+    ) {
+      value = value.slice(1, -1);
+    }
+    values[key] = expandEnv(value, env);
+  });
+  return values;
+}
+
+// "https://npm.example.com/a/" -> "//npm.example.com/a/"
+export function toNerfDart(url: string): string {
+  const parsed = new URL(url);
+  const pathname = parsed.pathname.endsWith("/")
+    ? parsed.pathname
+    : `${parsed.pathname}/`;
+  return `//${parsed.host}${pathname}`;
+}
+
+export const withTrailingSlash = (url: string) =>
+  url.endsWith("/") ? url : `${url}/`;
+
+// Turn merged .npmrc values into a registry configuration
+export function buildRegistryConfig(
+  values: Record<string, string>
+): RegistryConfig {
+  const config: RegistryConfig = {
+    registry: withTrailingSlash(values.registry || defaultRegistry),
+    scopes: {},
+    auth: {},
+    proxy: values.proxy || undefined,
+    httpsProxy: values["https-proxy"] || values.proxy || undefined,
+    noProxy: (values.noproxy || values["no-proxy"] || "")
+      .split(",")
+      .map((entry) => entry.trim())
+      .filter(Boolean),
+    strictSSL: values["strict-ssl"] !== "false",
+  };
+
+  if (values.cafile) {
+    try {
+      config.ca = fs.readFileSync(values.cafile, "utf8");
+    } catch (error) {
+      console.warn(
+        `Unable to read cafile ${values.cafile}: ${errorHandler(error)}`
+      );
+    }
+  }
+
+  Object.entries(values).forEach(([key, value]) => {
+    const scopeMatch = /^(@[^:]+):registry$/.exec(key);
+    if (scopeMatch) {
+      config.scopes[scopeMatch[1]] = withTrailingSlash(value);
+      return;
+    }
+
+    const authMatch =
+      /^(\/\/.+\/?):(_authToken|_auth|username|_password)$/.exec(key);
+    if (!authMatch) {
+      return;
+    }
+    const nerfDart = withTrailingSlash(authMatch[1]);
+    const auth = (config.auth[nerfDart] ||= {});
+    if (authMatch[2] === "_authToken") {
+      auth.token = value;
+    } else if (authMatch[2] === "_auth") {
+      auth.basic = value;
+    } else {
+      // username + base64 _password combine into basic auth
+      const username =
+        authMatch[2] === "username"
+          ? value
+          : values[`${authMatch[1]}:username`];
+      const password =
+        authMatch[2] === "_password"
+          ? value
+          : values[`${authMatch[1]}:_password`];
+      if (username && password) {
+        auth.basic = Buffer.from(
+          `${username}:${Buffer.from(password, "base64").toString("utf8")}`
+        ).toString("base64");
+      }
+    }
+  });
+
+  return config;
+}
+
+// Read the user and project .npmrc files (project settings win), the same
+// precedence npm itself uses
+export function loadNpmrc(
+  projectDir?: string,
+  userConfigPath: string = path.join(os.homedir(), ".npmrc"),
+  env: NodeJS.ProcessEnv = process.env
+): RegistryConfig {
+  const files = [userConfigPath];
+  if (projectDir) {
+    files.push(path.join(projectDir, ".npmrc"));
+  }
+
+  const values: Record<string, string> = {};
+  files.forEach((file) => {
+    if (fs.existsSync(file)) {
+      try {
+        Object.assign(values, parseNpmrc(fs.readFileSync(file, "utf8"), env));
+      } catch (error) {
+        console.warn(`Unable to read ${file}: ${errorHandler(error)}`);
+      }
+    }
+  });
+
+  return buildRegistryConfig(values);
+}
@@ -0,0 +1,69 @@
+// A package's source repository, from the `repository` manifest field
+export interface RepositoryRef {
+  // Host name, e.g. "github.com"
+  host: string;
+  owner: string;
+  name: string;
+  // Folder of the package inside a monorepo
+  directory?: string;
+  // Browsable https URL of the repository
+  url: string;
+}
+
+const shorthandHosts: Record<string, string> = {
+  github: "github.com",
+  gitlab: "gitlab.com",
+  bitbucket: "bitbucket.org",
+};
+
+// Parse the `repository` field: an object with `url` (and `directory`), or
+// a string such as "github:owner/name", "owner/name" or any git URL.
+// Undefined when it doesn't name an owner/name repository on a host.
+export function parseRepository(field: unknown): RepositoryRef | undefined {
+  const value =
+    typeof field === "string"
+      ? field
+      : typeof (field as any)?.url === "string"
+        ? (field as any).url
+        : undefined;
+  if (!value) {
+    return undefined;
+  }
+  const directory =
+    typeof (field as any)?.directory === "string"
+      ? (field as any).directory.replace(/^\.?\/+|\/+$/g, "") || undefined
+      : undefined;
+
+  let host: string | undefined;
+  let repoPath: string | undefined;
+  const shorthand = /^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/.exec(
+    value.trim()
+  );
+  if (shorthand) {
+    host = shorthandHosts[shorthand[1] ?? "github"];
+    repoPath = shorthand[2];
+  } else {
+    // git@host:owner/name.git, git+https://host/owner/name.git, git://...
+    const match =
+      /^(?:[\w+.-]+:\/\/)?(?:[^@/]+@)?([^/:]+)(?::\d+)?[:/](.+)$/.exec(
+        value.trim()
+      );
+    host = match?.[1].toLowerCase();
+    repoPath = match?.[2];
+  }
+  const [owner, name] = (repoPath ?? "")
+    .replace(/\.git$/, "")
+    .replace(/[#?].*$/, "")
+    .split("/")
+    .filter(Boolean);
+  if (!host || !owner || !name) {
+    return undefined;
+  }
+  return {
+    host,
+    owner,
+    name,
+    directory,
+    url: `https://${host}/${owner}/${name}`,
+  };
+}
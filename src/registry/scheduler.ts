@@ -0,0 +1,168 @@
+import { isAxiosError } from "axios";
+
+export interface SchedulerOptions {
+  // Requests in flight at once
+  concurrency: number;
+  // Retries after the first attempt for retryable failures
+  retries: number;
+  // Milliseconds before a single attempt is aborted
+  timeout: number;
+  // First backoff delay in milliseconds, doubled on every retry
+  baseDelay: number;
+  // Upper bound for any single wait, including Retry-After
+  maxDelay: number;
+}
+
+export const defaultSchedulerOptions: SchedulerOptions = {
+  concurrency: 8,
+  retries: 3,
+  timeout: 15000,
+  baseDelay: 500,
+  maxDelay: 30000,
+};
+
+export interface RequestScheduler {
+  options: SchedulerOptions;
+  // Run a request under the concurrency limit, retrying transient failures.
+  // The task must pass the signal on so timeouts can abort it.
+  schedule<T>(
+    label: string,
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T>;
+}
+
+// Thrown once every attempt for a request has failed
+export class RequestFailedError extends Error {
+  constructor(
+    readonly label: string,
+    readonly attempts: number,
+    readonly status: number | undefined,
+    reason: string
+  ) {
+    super(
+      `${label} failed after ${attempts} attempt${attempts === 1 ? "" : "s"}: ${reason}`
+    );
+    this.name = "RequestFailedError";
+  }
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+export function parseRetryAfter(
+  value: string | undefined,
+  now: number = Date.now()
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+// Timeouts, dropped connections, 408, 429 and 5xx are worth another try
+function isRetryable(error: unknown): boolean {
+  if (!isAxiosError(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  if (status === undefined) {
+    return true;
+  }
+  return status === 408 || status === 429 || (status >= 500 && status !== 501);
+}
+
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export function createRequestScheduler(
+  overrides: Partial<SchedulerOptions> = {}
+): RequestScheduler {
+  const options = { ...defaultSchedulerOptions, ...overrides };
+  const waiting: (() => void)[] = [];
+  let active = 0;
+  // A 429 with Retry-After holds back every request, not just the one that got it
+  let pausedUntil = 0;
+
+  const acquire = async () => {
+    if (active < Math.max(1, options.concurrency)) {
+      active++;
+    } else {
+      // The releasing request hands its slot over directly
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    const pause = pausedUntil - Date.now();
+    if (pause > 0) {
+      await sleep(pause);
+    }
+  };
+
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const attempt = async <T>(
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> => {
+    await acquire();
+    // The timeout covers the request itself, not time spent queued
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeout);
+    try {
+      return await task(controller.signal);
+    } finally {
+      clearTimeout(timer);
+      release();
+    }
+  };
+
+  return {
+    options,
+
+    schedule: async (label, task) => {
+      for (let attempts = 1; ; attempts++) {
+        try {
+          return await attempt(task);
+        } catch (error) {
+          const status = isAxiosError(error)
+            ? error.response?.status
+            : undefined;
+          const reason =
+            isAxiosError(error) && error.code === "ERR_CANCELED"
+              ? `timed out after ${options.timeout}ms`
+              : isAxiosError(error) && status
+                ? `HTTP ${status}`
+                : error instanceof Error
+                  ? error.message
+                  : String(error);
+
+          if (!isRetryable(error) || attempts > options.retries) {
+            throw new RequestFailedError(label, attempts, status, reason);
+          }
+
+          const backoff = options.baseDelay * 2 ** (attempts - 1);
+          const retryAfter = isAxiosError(error)
+            ? parseRetryAfter(error.response?.headers?.["retry-after"])
+            : undefined;
+          const delay = Math.min(
+            options.maxDelay,
+            retryAfter ?? backoff * (0.5 + Math.random() / 2)
+          );
+          if (retryAfter !== undefined) {
+            pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+          }
+          console.warn(
+            `Retrying ${label} in ${Math.round(delay)}ms (${reason})`
+          );
+          await sleep(delay);
+        }
+      }
+    },
+  };
+}
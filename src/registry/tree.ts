@@ -0,0 +1,152 @@
+import * as semver from "semver";
+import { Lockfile, findInstalledId } from "../lockfile";
+import { errorHandler } from "../utils";
+import { RegistryClient } from "./client";
+
+// A package version reached while walking a dependency tree
+export interface TreeVisit {
+  name: string;
+  version: string;
+  // Version manifest from the packument; undefined when it couldn't be found
+  manifest: any;
+  // Package that installs this one; undefined for the root
+  parent?: string;
+}
+
+export interface WalkTreeOptions {
+  client: RegistryClient;
+  // Exact versions of the installed tree; dependencies are resolved from
+  // the registry otherwise, as a fresh install would
+  lockfile?: Lockfile;
+  maxPackages?: number;
+}
+
+interface TreeNode {
+  name: string;
+  // Version or range; ranges are resolved against the packument
+  version: string;
+  lockedId?: string;
+  parent?: string;
+}
+
+// Version a dependency range installs: an exact version or dist-tag, else
+// the latest version if it matches, else the highest matching one
+export function resolveVersion(
+  packument: any,
+  range: string
+): string | undefined {
+  const tagged = packument?.["dist-tags"]?.[range];
+  if (packument?.versions?.[range] || tagged) {
+    return tagged ?? range;
+  }
+  const latest = packument?.["dist-tags"]?.latest;
+  if (latest && semver.satisfies(latest, range)) {
+    return latest;
+  }
+  return (
+    semver.maxSatisfying(Object.keys(packument?.versions ?? {}), range) ??
+    undefined
+  );
+}
+
+// Visit a package version and everything it installs, breadth first, with
+// each version's manifest. Every package is fetched through the client, so
+// the cache and request scheduler apply; versions are visited once however
+// often they recur. Resolves to whether the tree was cut at `maxPackages`.
+export async function walkDependencyTree(
+  name: string,
+  version: string,
+  options: WalkTreeOptions,
+  visit: (node: TreeVisit) => void
+): Promise<{ truncated: boolean }> {
+  const { client, lockfile, maxPackages = 500 } = options;
+  const lockedId = lockfile ? findInstalledId(lockfile, name) : undefined;
+  // Resolved versions visited, and ranges already queued
+  const seen = new Set<string>();
+  const queued = new Set<string>();
+  let truncated = false;
+  let level: TreeNode[] = [
+    {
+      name,
+      version,
+      lockedId:
+        lockedId && lockfile?.packages[lockedId]?.version === version
+          ? lockedId
+          : undefined,
+    },
+  ];
+
+  while (level.length > 0) {
+    const next: TreeNode[] = [];
+    const queue = (node: TreeNode) => {
+      const key = `${node.name}@${node.lockedId ?? node.version}`;
+      if (!queued.has(key)) {
+        queued.add(key);
+        next.push(node);
+      }
+    };
+    await Promise.all(
+      level.map(async (node) => {
+        let manifest: any;
+        let resolved = node.version;
+        try {
+          const packument = (await client.getPackument(node.name)).data;
+          resolved = node.lockedId
+            ? node.version
+            : (resolveVersion(packument, node.version) ?? node.version);
+          manifest = packument?.versions?.[resolved];
+        } catch (error) {
+          console.warn(
+            `Unable to fetch ${node.name} for its dependency tree: ${errorHandler(error)}`
+          );
+        }
+
+        const key = `${node.name}@${resolved}`;
+        if (seen.has(key)) {
+          return;
+        }
+        if (seen.size >= maxPackages) {
+          truncated = true;
+          return;
+        }
+        seen.add(key);
+        visit({
+          name: node.name,
+          version: resolved,
+          manifest,
+          parent: node.parent,
+        });
+
+        const locked = node.lockedId
+          ? lockfile?.packages[node.lockedId]
+          : undefined;
+        if (locked) {
+          Object.values(locked.dependencies).forEach((id) => {
+            const dependency = lockfile!.packages[id];
+            if (dependency) {
+              queue({
+                name: dependency.name,
+                version: dependency.version,
+                lockedId: id,
+                parent: node.name,
+              });
+            }
+          });
+        } else {
+          Object.entries({
+            ...manifest?.dependencies,
+            ...manifest?.optionalDependencies,
+          }).forEach(([dependency, range]) =>
+            queue({
+              name: dependency,
+              version: String(range),
+              parent: node.name,
+            })
+          );
+        }
+      })
+    );
+    level = next;
+  }
+  return { truncated };
+}
@@ -0,0 +1,62 @@
+import { RecommendationRule } from "./types";
+
+// Rules shipped with the extension. Workspace and user rules with the same
+// id replace these.
+export const builtinRules: RecommendationRule[] = [
+  {
+    id: "moment",
+    match: { name: "moment" },
+    alternatives: ["date-fns", "dayjs", "luxon"],
+    reason:
+      "These modern alternatives offer better tree-shaking, smaller bundle sizes, and improved performance.",
+    severity: "info",
+    links: [
+      {
+        title: "Moment.js project status",
+        url: "https://momentjs.com/docs/#/-project-status/",
+      },
+    ],
+  },
+  {
+    id: "lodash",
+    match: { name: ["lodash", "underscore"] },
+    alternatives: ["lodash-es", "ramda"],
+    reason:
+      "ES module versions reduce bundle size, while native JS methods can replace many utility functions.",
+    severity: "info",
+    links: [
+      {
+        title: "You Don't Need Lodash/Underscore",
+        url: "https://github.com/you-dont-need/You-Dont-Need-Lodash-Underscore",
+      },
+    ],
+  },
+  {
+    id: "request",
+    match: { name: "request" },
+    alternatives: ["axios", "node-fetch", "got"],
+    reason:
+      "Request is deprecated. These alternatives offer better Promise support and modern features.",
+    severity: "warning",
+    links: [
+      {
+        title: "Request deprecation notice",
+        url: "https://github.com/request/request/issues/3142",
+      },
+    ],
+  },
+  {
+    id: "jquery",
+    match: { name: "jquery" },
+    alternatives: ["cash-dom", "umbrella"],
+    reason:
+      "Modern browsers support most jQuery features natively. These lightweight alternatives offer similar APIs with much smaller footprints.",
+    severity: "info",
+    links: [
+      {
+        title: "You Might Not Need jQuery",
+        url: "https://youmightnotneedjquery.com/",
+      },
+    ],
+  },
+];
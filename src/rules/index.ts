@@ -0,0 +1,196 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as semver from "semver";
+import * as YAML from "yaml";
+import { errorHandler } from "../utils";
+import { builtinRules } from "./defaults";
+import {
+  CodemodDefinition,
+  PackagePolicy,
+  Recommendation,
+  RecommendationRule,
+  RuleError,
+  RuleSet,
+  ruleSourcePrecedence,
+} from "./types";
+import { compilePattern, validateRuleFile } from "./validate";
+
+export * from "./types";
+export { builtinRules } from "./defaults";
+export {
+  compilePattern,
+  formatRuleError,
+  validateCodemods,
+  validatePolicy,
+  validateRuleFile,
+  validateRules,
+} from "./validate";
+
+// Workspace rule files, JSON preferred when both exist
+export const ruleFileNames = [
+  ".packagepilot.json",
+  ".packagepilot.yaml",
+  ".packagepilot.yml",
+];
+
+export interface RuleEngine {
+  // Active rules, highest precedence first, with disabled rules removed
+  rules: (RecommendationRule & Pick<RuleSet, "source" | "origin">)[];
+  recommend(packageName: string, version?: string): Recommendation | undefined;
+  // Codemod definitions, highest precedence first. Disabled entries are
+  // kept so they can switch off built-in codemods with the same id.
+  codemods: (CodemodDefinition & Pick<RuleSet, "source" | "origin">)[];
+  // Dependency policy of the highest-precedence set that defines one
+  policy?: PackagePolicy;
+}
+
+export const builtinRuleSet: RuleSet = {
+  source: "builtin",
+  origin: "built-in rules",
+  rules: builtinRules,
+};
+
+// Find the closest rule file at or above startDir
+export function findRuleFile(startDir: string): string | undefined {
+  let dir = startDir;
+  while (true) {
+    for (const fileName of ruleFileNames) {
+      const candidate = path.join(dir, fileName);
+      if (fs.existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Parse and validate a .packagepilot.json/.yaml file
+export function loadRuleFile(filePath: string): {
+  ruleSet: RuleSet;
+  errors: RuleError[];
+} {
+  const origin = path.basename(filePath);
+  const ruleSet: RuleSet = { source: "workspace", origin: filePath, rules: [] };
+
+  let document: unknown;
+  try {
+    const content = fs.readFileSync(filePath, "utf8");
+    document = filePath.endsWith(".json")
+      ? JSON.parse(content)
+      : YAML.parse(content);
+  } catch (error) {
+    return {
+      ruleSet,
+      errors: [
+        {
+          origin,
+          path: "(root)",
+          message: `could not be parsed: ${errorHandler(error)}`,
+        },
+      ],
+    };
+  }
+
+  const { rules, codemods, policy, errors } = validateRuleFile(
+    document,
+    origin
+  );
+  return { ruleSet: { ...ruleSet, rules, codemods, policy }, errors };
+}
+
+const matchesRule = (
+  rule: RecommendationRule,
+  packageName: string,
+  version: string | undefined
+): boolean => {
+  const { name, pattern, version: range } = rule.match;
+  if (name !== undefined) {
+    const names = Array.isArray(name) ? name : [name];
+    if (!names.includes(packageName)) {
+      return false;
+    }
+  }
+  if (pattern !== undefined && !compilePattern(pattern).test(packageName)) {
+    return false;
+  }
+  // Range rules only apply when we know which version is in use
+  if (range !== undefined) {
+    const coerced = version && semver.valid(version);
+    if (
+      !coerced ||
+      !semver.satisfies(coerced, range, { includePrerelease: true })
+    ) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// Combine rule sets. Precedence is workspace over user settings over the
+// built-in defaults: a rule replaces any lower-precedence rule with the same
+// id (or removes it with "disabled": true), and when several rules match a
+// package the highest-precedence one wins, then the first in its file.
+// Codemod definitions follow the same id precedence.
+export function createRuleEngine(ruleSets: RuleSet[]): RuleEngine {
+  const ordered = [...ruleSets].sort(
+    (a, b) =>
+      ruleSourcePrecedence.indexOf(b.source) -
+      ruleSourcePrecedence.indexOf(a.source)
+  );
+
+  const claimed = new Set<string>();
+  const rules: RuleEngine["rules"] = [];
+  ordered.forEach((ruleSet) => {
+    ruleSet.rules.forEach((rule) => {
+      if (claimed.has(rule.id)) {
+        return;
+      }
+      claimed.add(rule.id);
+      if (!rule.disabled) {
+        rules.push({ ...rule, source: ruleSet.source, origin: ruleSet.origin });
+      }
+    });
+  });
+
+  const claimedCodemods = new Set<string>();
+  const codemods: RuleEngine["codemods"] = [];
+  ordered.forEach((ruleSet) => {
+    (ruleSet.codemods ?? []).forEach((codemod) => {
+      if (!claimedCodemods.has(codemod.id)) {
+        claimedCodemods.add(codemod.id);
+        codemods.push({
+          ...codemod,
+          source: ruleSet.source,
+          origin: ruleSet.origin,
+        });
+      }
+    });
+  });
+
+  return {
+    rules,
+    codemods,
+    policy: ordered.find((ruleSet) => ruleSet.policy)?.policy,
+    recommend: (packageName, version) => {
+      const rule = rules.find((candidate) =>
+        matchesRule(candidate, packageName, version)
+      );
+      if (!rule) {
+        return undefined;
+      }
+      return {
+        ruleId: rule.id,
+        source: rule.source,
+        origin: rule.origin,
+        alternatives: rule.alternatives.filter((alt) => alt !== packageName),
+        reason: rule.reason,
+        severity: rule.severity,
+        links: rule.links,
+      };
+    },
+  };
+}
@@ -0,0 +1,111 @@
+export type RuleSeverity = "info" | "warning" | "error";
+
+export const ruleSeverities: RuleSeverity[] = ["info", "warning", "error"];
+
+// Where a rule set was loaded from, lowest precedence first
+export type RuleSource = "builtin" | "user" | "workspace";
+
+export const ruleSourcePrecedence: RuleSource[] = [
+  "builtin",
+  "user",
+  "workspace",
+];
+
+export interface RuleLink {
+  title: string;
+  url: string;
+}
+
+// Which packages a rule applies to. Every field given must match.
+export interface RuleMatch {
+  // Exact package name, or one of several
+  name?: string | string[];
+  // Glob over the package name ("@babel/*", "lodash.*"), or a regular
+  // expression written as "/.../"
+  pattern?: string;
+  // Semver range the used version must satisfy
+  version?: string;
+}
+
+export interface RecommendationRule {
+  // Stable identifier; a rule with the same id in a higher-precedence set
+  // replaces this one
+  id: string;
+  match: RuleMatch;
+  alternatives: string[];
+  reason: string;
+  severity: RuleSeverity;
+  links: RuleLink[];
+  // Switch off a rule with the same id from a lower-precedence set
+  disabled?: boolean;
+}
+
+// A codemod described in configuration, for package pairs the built-in
+// codemods don't cover
+export interface CodemodDefinition {
+  // A definition with the same id as a built-in codemod replaces it
+  id: string;
+  from: string;
+  to: string;
+  description?: string;
+  // Import specifier mapping. Keys ending in "/*" map deep imports, e.g.
+  // { "moment/locale/*": "dayjs/locale/*" }. Defaults to { [from]: to }.
+  specifiers?: Record<string, string>;
+  // Whether `to` can be loaded with require(); defaults to true
+  require?: boolean;
+  // Local binding names to rename, e.g. { "moment": "dayjs" }
+  rename?: Record<string, string>;
+  // Members of the imported binding without a counterpart, and why
+  unsupported?: Record<string, string>;
+  // Switch off a codemod with the same id from a lower-precedence source
+  disabled?: boolean;
+}
+
+// A package the dependency policy forbids
+export interface DeniedPackage {
+  // Exact name, or a glob/regular expression like RuleMatch.pattern
+  name: string;
+  // Packages to use instead
+  replacements: string[];
+  reason?: string;
+}
+
+// The team's dependency policy from the workspace configuration file
+export interface PackagePolicy {
+  deniedPackages: DeniedPackage[];
+  // SPDX licence identifiers. A licence expression passes when it can be
+  // met with allowed licences (any when allow is missing) that aren't denied.
+  licenses: { allow?: string[]; deny: string[] };
+  minWeeklyDownloads?: number;
+  // Maximum age of the latest release
+  maxDaysSinceLastPublish?: number;
+  // Lowest acceptable maintenance health score, 0-100
+  minHealthScore?: number;
+}
+
+export interface RuleSet {
+  source: RuleSource;
+  // File or setting the rules came from, for messages
+  origin: string;
+  rules: RecommendationRule[];
+  codemods?: CodemodDefinition[];
+  policy?: PackagePolicy;
+}
+
+// A readable validation problem, e.g. "rules[1].match.version: ..."
+export interface RuleError {
+  origin: string;
+  path: string;
+  message: string;
+}
+
+// The outcome of matching a package against the active rules
+export interface Recommendation {
+  ruleId: string;
+  source: RuleSource;
+  origin: string;
+  alternatives: string[];
+  reason: string;
+  severity: RuleSeverity;
+  links: RuleLink[];
+}
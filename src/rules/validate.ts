@@ -0,0 +1,562 @@
+import * as semver from "semver";
+import {
+  CodemodDefinition,
+  DeniedPackage,
+  PackagePolicy,
+  RecommendationRule,
+  RuleError,
+  RuleLink,
+  RuleMatch,
+  ruleSeverities,
+} from "./types";
+
+const ruleKeys = [
+  "id",
+  "match",
+  "alternatives",
+  "reason",
+  "severity",
+  "links",
+  "disabled",
+];
+const matchKeys = ["name", "pattern", "version"];
+const policyKeys = [
+  "deniedPackages",
+  "licenses",
+  "minWeeklyDownloads",
+  "maxDaysSinceLastPublish",
+  "minHealthScore",
+];
+const codemodKeys = [
+  "id",
+  "from",
+  "to",
+  "description",
+  "specifiers",
+  "require",
+  "rename",
+  "unsupported",
+  "disabled",
+];
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) =>
+  Array.isArray(value)
+    ? "an array"
+    : value === null
+      ? "null"
+      : typeof value === "object"
+        ? "an object"
+        : JSON.stringify(value);
+
+type Validator = ReturnType<typeof createValidator>;
+
+// Collects errors for one origin so each check stays a one-liner
+function createValidator(origin: string) {
+  const errors: RuleError[] = [];
+  const error = (path: string, message: string) => {
+    errors.push({ origin, path: path || "(root)", message });
+  };
+  const string = (value: unknown, path: string): value is string => {
+    if (typeof value !== "string" || value.trim() === "") {
+      error(path, `must be a non-empty string, got ${describe(value)}`);
+      return false;
+    }
+    return true;
+  };
+
+  return {
+    errors,
+    error,
+    string,
+
+    unknownKeys: (
+      value: Record<string, any>,
+      allowed: string[],
+      path: string
+    ) => {
+      Object.keys(value)
+        .filter((key) => !allowed.includes(key))
+        .forEach((key) =>
+          error(
+            path ? `${path}.${key}` : key,
+            `unknown property (expected one of ${allowed.join(", ")})`
+          )
+        );
+    },
+
+    stringMap: (
+      value: unknown,
+      path: string
+    ): value is Record<string, string> => {
+      if (!isObject(value)) {
+        error(path, `must be an object of strings, got ${describe(value)}`);
+        return false;
+      }
+      return Object.entries(value).every(([key, item]) =>
+        string(item, `${path}.${key}`)
+      );
+    },
+
+    stringList: (value: unknown, path: string): value is string[] => {
+      if (!Array.isArray(value)) {
+        error(path, `must be an array of strings, got ${describe(value)}`);
+        return false;
+      }
+      return value.every((item, i) => string(item, `${path}[${i}]`));
+    },
+  };
+}
+
+// Compile a rule pattern: "/regex/flags" or a glob where * matches anything
+export function compilePattern(pattern: string): RegExp {
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (regex) {
+    return new RegExp(regex[1], regex[2]);
+  }
+  const escaped = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\/]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${escaped}$`);
+}
+
+function validateMatch(
+  value: unknown,
+  path: string,
+  v: Validator
+): RuleMatch | undefined {
+  if (!isObject(value)) {
+    v.error(path, `must be an object, got ${describe(value)}`);
+    return undefined;
+  }
+  v.unknownKeys(value, matchKeys, path);
+  const before = v.errors.length;
+
+  if (value.name !== undefined) {
+    if (Array.isArray(value.name)) {
+      v.stringList(value.name, `${path}.name`);
+    } else {
+      v.string(value.name, `${path}.name`);
+    }
+  }
+  if (
+    value.pattern !== undefined &&
+    v.string(value.pattern, `${path}.pattern`)
+  ) {
+    try {
+      compilePattern(value.pattern);
+    } catch (error) {
+      v.error(`${path}.pattern`, `is not a valid regular expression`);
+    }
+  }
+  if (
+    value.version !== undefined &&
+    v.string(value.version, `${path}.version`)
+  ) {
+    if (!semver.validRange(value.version)) {
+      v.error(
+        `${path}.version`,
+        `"${value.version}" is not a valid semver range`
+      );
+    }
+  }
+  if (value.name === undefined && value.pattern === undefined) {
+    v.error(path, `needs a "name" or "pattern"`);
+  }
+  return v.errors.length === before ? (value as RuleMatch) : undefined;
+}
+
+function validateLinks(
+  value: unknown,
+  path: string,
+  v: Validator
+): RuleLink[] | undefined {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    v.error(path, `must be an array, got ${describe(value)}`);
+    return undefined;
+  }
+  const links: RuleLink[] = [];
+  value.forEach((link, i) => {
+    // A bare URL is shorthand for a link titled with the URL itself
+    const normalized =
+      typeof link === "string" ? { title: link, url: link } : link;
+    if (!isObject(normalized)) {
+      v.error(`${path}[${i}]`, `must be a URL or { title, url }`);
+      return;
+    }
+    v.unknownKeys(normalized, ["title", "url"], `${path}[${i}]`);
+    if (
+      v.string(normalized.title, `${path}[${i}].title`) &&
+      v.string(normalized.url, `${path}[${i}].url`)
+    ) {
+      if (!/^https?:\/\//i.test(normalized.url)) {
+        v.error(`${path}[${i}].url`, `must be an http(s) URL`);
+        return;
+      }
+      links.push({ title: normalized.title, url: normalized.url });
+    }
+  });
+  return links;
+}
+
+function validateRule(
+  value: unknown,
+  path: string,
+  v: Validator
+): RecommendationRule | undefined {
+  if (!isObject(value)) {
+    v.error(path, `must be an object, got ${describe(value)}`);
+    return undefined;
+  }
+  const before = v.errors.length;
+  v.unknownKeys(value, ruleKeys, path);
+  v.string(value.id, `${path}.id`);
+
+  if (value.disabled !== undefined && typeof value.disabled !== "boolean") {
+    v.error(`${path}.disabled`, `must be true or false`);
+  }
+
+  // Disabling only needs the id of the rule being switched off
+  if (value.disabled === true) {
+    return v.errors.length === before
+      ? {
+          id: value.id,
+          match: {},
+          alternatives: [],
+          reason: "",
+          severity: "info",
+          links: [],
+          disabled: true,
+        }
+      : undefined;
+  }
+
+  const match = validateMatch(value.match, `${path}.match`, v);
+  v.stringList(value.alternatives, `${path}.alternatives`);
+  v.string(value.reason, `${path}.reason`);
+  if (
+    value.severity !== undefined &&
+    !ruleSeverities.includes(value.severity)
+  ) {
+    v.error(
+      `${path}.severity`,
+      `must be one of ${ruleSeverities.join(", ")}, got ${describe(value.severity)}`
+    );
+  }
+  const links = validateLinks(value.links, `${path}.links`, v);
+
+  if (v.errors.length > before || !match || !links) {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    match,
+    alternatives: value.alternatives,
+    reason: value.reason,
+    severity: value.severity ?? "info",
+    links,
+    disabled: value.disabled,
+  };
+}
+
+// Validate a list of rules. Invalid rules are dropped and reported; the
+// valid ones are still returned so one typo doesn't disable everything.
+export function validateRules(
+  value: unknown,
+  origin: string,
+  path: string = "rules"
+): { rules: RecommendationRule[]; errors: RuleError[] } {
+  const v = createValidator(origin);
+  if (!Array.isArray(value)) {
+    v.error(path, `must be an array of rules, got ${describe(value)}`);
+    return { rules: [], errors: v.errors };
+  }
+
+  const rules: RecommendationRule[] = [];
+  const seen = new Set<string>();
+  value.forEach((item, i) => {
+    const rule = validateRule(item, `${path}[${i}]`, v);
+    if (!rule) {
+      return;
+    }
+    if (seen.has(rule.id)) {
+      v.error(`${path}[${i}].id`, `duplicate rule id "${rule.id}"`);
+      return;
+    }
+    seen.add(rule.id);
+    rules.push(rule);
+  });
+  return { rules, errors: v.errors };
+}
+
+function validateCodemod(
+  value: unknown,
+  path: string,
+  v: Validator
+): CodemodDefinition | undefined {
+  if (!isObject(value)) {
+    v.error(path, `must be an object, got ${describe(value)}`);
+    return undefined;
+  }
+  const before = v.errors.length;
+  v.unknownKeys(value, codemodKeys, path);
+  v.string(value.id, `${path}.id`);
+  if (value.disabled !== undefined && typeof value.disabled !== "boolean") {
+    v.error(`${path}.disabled`, `must be true or false`);
+  }
+  if (value.disabled === true) {
+    return v.errors.length === before
+      ? { id: value.id, from: "", to: "", disabled: true }
+      : undefined;
+  }
+
+  v.string(value.from, `${path}.from`);
+  v.string(value.to, `${path}.to`);
+  if (value.description !== undefined) {
+    v.string(value.description, `${path}.description`);
+  }
+  if (
+    value.specifiers !== undefined &&
+    v.stringMap(value.specifiers, `${path}.specifiers`)
+  ) {
+    Object.entries(value.specifiers).forEach(([key, target]) => {
+      if (key.endsWith("/*") !== (target as string).endsWith("/*")) {
+        v.error(
+          `${path}.specifiers.${key}`,
+          `deep import patterns must end in "/*" on both sides`
+        );
+      }
+    });
+  }
+  if (value.require !== undefined && typeof value.require !== "boolean") {
+    v.error(`${path}.require`, `must be true or false`);
+  }
+  if (
+    value.rename !== undefined &&
+    v.stringMap(value.rename, `${path}.rename`)
+  ) {
+    Object.entries(value.rename).forEach(([key, name]) => {
+      if (!/^[A-Za-z_$][\w$]*$/.test(name as string)) {
+        v.error(`${path}.rename.${key}`, `"${name}" is not a valid identifier`);
+      }
+    });
+  }
+  if (value.unsupported !== undefined) {
+    v.stringMap(value.unsupported, `${path}.unsupported`);
+  }
+
+  if (v.errors.length > before) {
+    return undefined;
+  }
+  return {
+    id: value.id,
+    from: value.from,
+    to: value.to,
+    description: value.description,
+    specifiers: value.specifiers,
+    require: value.require,
+    rename: value.rename,
+    unsupported: value.unsupported,
+    disabled: value.disabled,
+  };
+}
+
+// Validate a list of codemod definitions, dropping and reporting bad ones
+export function validateCodemods(
+  value: unknown,
+  origin: string,
+  path: string = "codemods"
+): { codemods: CodemodDefinition[]; errors: RuleError[] } {
+  const v = createValidator(origin);
+  if (!Array.isArray(value)) {
+    v.error(path, `must be an array of codemods, got ${describe(value)}`);
+    return { codemods: [], errors: v.errors };
+  }
+
+  const codemods: CodemodDefinition[] = [];
+  const seen = new Set<string>();
+  value.forEach((item, i) => {
+    const codemod = validateCodemod(item, `${path}[${i}]`, v);
+    if (!codemod) {
+      return;
+    }
+    if (seen.has(codemod.id)) {
+      v.error(`${path}[${i}].id`, `duplicate codemod id "${codemod.id}"`);
+      return;
+    }
+    seen.add(codemod.id);
+    codemods.push(codemod);
+  });
+  return { codemods, errors: v.errors };
+}
+
+function validateDeniedPackage(
+  value: unknown,
+  path: string,
+  v: Validator
+): DeniedPackage | undefined {
+  if (!isObject(value)) {
+    v.error(path, `must be an object, got ${describe(value)}`);
+    return undefined;
+  }
+  const before = v.errors.length;
+  v.unknownKeys(value, ["name", "replacements", "reason"], path);
+  if (v.string(value.name, `${path}.name`)) {
+    try {
+      compilePattern(value.name);
+    } catch (error) {
+      v.error(`${path}.name`, `is not a valid regular expression`);
+    }
+  }
+  if (value.replacements !== undefined) {
+    v.stringList(value.replacements, `${path}.replacements`);
+  }
+  if (value.reason !== undefined) {
+    v.string(value.reason, `${path}.reason`);
+  }
+  return v.errors.length === before
+    ? {
+        name: value.name,
+        replacements: value.replacements ?? [],
+        reason: value.reason,
+      }
+    : undefined;
+}
+
+// Validate the dependency policy. Invalid entries are dropped and
+// reported, like rules.
+export function validatePolicy(
+  value: unknown,
+  origin: string,
+  path: string = "policy"
+): { policy?: PackagePolicy; errors: RuleError[] } {
+  const v = createValidator(origin);
+  if (!isObject(value)) {
+    v.error(path, `must be an object, got ${describe(value)}`);
+    return { errors: v.errors };
+  }
+  v.unknownKeys(value, policyKeys, path);
+
+  const policy: PackagePolicy = { deniedPackages: [], licenses: { deny: [] } };
+  if (value.deniedPackages !== undefined) {
+    if (Array.isArray(value.deniedPackages)) {
+      value.deniedPackages.forEach((item, i) => {
+        const denied = validateDeniedPackage(
+          item,
+          `${path}.deniedPackages[${i}]`,
+          v
+        );
+        if (denied) {
+          policy.deniedPackages.push(denied);
+        }
+      });
+    } else {
+      v.error(
+        `${path}.deniedPackages`,
+        `must be an array, got ${describe(value.deniedPackages)}`
+      );
+    }
+  }
+
+  const licenses = value.licenses;
+  if (licenses !== undefined) {
+    if (isObject(licenses)) {
+      v.unknownKeys(licenses, ["allow", "deny"], `${path}.licenses`);
+      if (
+        licenses.allow !== undefined &&
+        v.stringList(licenses.allow, `${path}.licenses.allow`)
+      ) {
+        policy.licenses.allow = licenses.allow;
+      }
+      if (
+        licenses.deny !== undefined &&
+        v.stringList(licenses.deny, `${path}.licenses.deny`)
+      ) {
+        policy.licenses.deny = licenses.deny;
+      }
+    } else {
+      v.error(
+        `${path}.licenses`,
+        `must be an object with "allow" and/or "deny", got ${describe(licenses)}`
+      );
+    }
+  }
+
+  (
+    ["minWeeklyDownloads", "maxDaysSinceLastPublish", "minHealthScore"] as const
+  ).forEach((key) => {
+    const limit = value[key];
+    if (limit === undefined) {
+      return;
+    }
+    if (typeof limit !== "number" || !Number.isFinite(limit) || limit < 0) {
+      v.error(
+        `${path}.${key}`,
+        `must be a non-negative number, got ${describe(limit)}`
+      );
+      return;
+    }
+    if (key === "minHealthScore" && limit > 100) {
+      v.error(`${path}.${key}`, `must be at most 100, got ${limit}`);
+      return;
+    }
+    policy[key] = limit;
+  });
+
+  return { policy, errors: v.errors };
+}
+
+// Validate a whole .packagepilot.json/.yaml document
+export function validateRuleFile(
+  value: unknown,
+  origin: string
+): {
+  rules: RecommendationRule[];
+  codemods: CodemodDefinition[];
+  policy?: PackagePolicy;
+  errors: RuleError[];
+} {
+  const v = createValidator(origin);
+  if (!isObject(value)) {
+    v.error(
+      "",
+      `must be an object with a "rules" array, got ${describe(value)}`
+    );
+    return { rules: [], codemods: [], errors: v.errors };
+  }
+  v.unknownKeys(value, ["$schema", "rules", "codemods", "policy"], "");
+  const rules =
+    value.rules === undefined
+      ? { rules: [], errors: [] }
+      : validateRules(value.rules, origin);
+  const codemods =
+    value.codemods === undefined
+      ? { codemods: [], errors: [] }
+      : validateCodemods(value.codemods, origin);
+  const policy =
+    value.policy === undefined
+      ? { errors: [] }
+      : validatePolicy(value.policy, origin);
+  return {
+    rules: rules.rules,
+    codemods: codemods.codemods,
+    policy: policy.policy,
+    errors: [
+      ...v.errors,
+      ...rules.errors,
+      ...codemods.errors,
+      ...policy.errors,
+    ],
+  };
+}
+
+// "file: rules[2].match.version: ..." for messages
+export function formatRuleError(error: RuleError): string {
+  return `${error.origin}: ${error.path}: ${error.message}`;
+}
@@ -0,0 +1,169 @@
+import * as semver from "semver";
+import { AdvisorySeverity } from "../audit/osv";
+import { formatBytes } from "../utils";
+import { DimensionScore, PackageSignals, ScoreDimension } from "./types";
+
+const day = 24 * 60 * 60 * 1000;
+
+const clamp = (value: number) => Math.max(0, Math.min(100, Math.round(value)));
+
+// Map a value onto 0-100 on a log scale between a best and worst bound
+const logScale = (value: number, best: number, worst: number) => {
+  const position =
+    (Math.log10(Math.max(value, 1)) - Math.log10(best)) /
+    (Math.log10(worst) - Math.log10(best));
+  return clamp(100 * (1 - position));
+};
+
+// Smaller installs score higher: 10 kB or less is perfect, 5 MB is zero.
+// Each direct dependency costs a little on top.
+function scoreWeight(signals: PackageSignals): DimensionScore | undefined {
+  if (signals.unpackedSize === undefined) {
+    return undefined;
+  }
+  const dependencies = signals.dependencyCount ?? 0;
+  return {
+    dimension: "weight",
+    score: clamp(
+      logScale(signals.unpackedSize, 10 * 1024, 5 * 1024 * 1024) -
+        2 * dependencies
+    ),
+    detail: `${formatBytes(signals.unpackedSize)} unpacked, ${dependencies} direct dependenc${
+      dependencies === 1 ? "y" : "ies"
+    }`,
+  };
+}
+
+// 1M weekly downloads or 10k dependents is as popular as it gets
+function scoreUserBase(signals: PackageSignals): DimensionScore | undefined {
+  const { weeklyDownloads, dependents } = signals;
+  if (weeklyDownloads === undefined && dependents === undefined) {
+    return undefined;
+  }
+  const parts: number[] = [];
+  const details: string[] = [];
+  if (weeklyDownloads !== undefined) {
+    parts.push(100 - logScale(weeklyDownloads, 1, 1_000_000));
+    details.push(`${weeklyDownloads.toLocaleString()} weekly downloads`);
+  }
+  if (dependents !== undefined) {
+    parts.push(100 - logScale(dependents, 1, 10_000));
+    details.push(`${dependents.toLocaleString()} dependents`);
+  }
+  return {
+    dimension: "userBase",
+    score: clamp(parts.reduce((sum, part) => sum + part, 0) / parts.length),
+    detail: details.join(", "),
+  };
+}
+
+// Recent releases and more than one maintainer; deprecation is fatal
+function scoreMaintenance(
+  signals: PackageSignals,
+  now: number
+): DimensionScore | undefined {
+  if (signals.deprecated) {
+    return { dimension: "maintenance", score: 0, detail: "Deprecated" };
+  }
+  if (!signals.lastPublished) {
+    return undefined;
+  }
+  const ageDays = Math.max(
+    0,
+    (now - new Date(signals.lastPublished).getTime()) / day
+  );
+  // Full marks within 90 days, nothing after 3 years
+  const recency = clamp(100 - ((ageDays - 90) / (3 * 365 - 90)) * 100);
+  const cadence = Math.min(100, (signals.releasesLastYear ?? 0) * 25);
+  const maintainers = Math.min(100, (signals.maintainers ?? 0) * 50);
+  return {
+    dimension: "maintenance",
+    score: clamp(0.6 * recency + 0.25 * cadence + 0.15 * maintainers),
+    detail: `last release ${Math.round(ageDays)} days ago, ${
+      signals.releasesLastYear ?? 0
+    } in the last year, ${signals.maintainers ?? 0} maintainer${
+      signals.maintainers === 1 ? "" : "s"
+    }`,
+  };
+}
+
+const severityPenalty: Record<AdvisorySeverity, number> = {
+  critical: 60,
+  high: 40,
+  moderate: 20,
+  low: 10,
+  unknown: 10,
+};
+
+function scoreSecurity(signals: PackageSignals): DimensionScore | undefined {
+  if (!signals.advisories) {
+    return undefined;
+  }
+  const count = signals.advisories.length;
+  return {
+    dimension: "security",
+    score: clamp(
+      100 -
+        signals.advisories.reduce(
+          (sum, advisory) => sum + severityPenalty[advisory.severity],
+          0
+        )
+    ),
+    detail: count
+      ? `${count} known advisor${count === 1 ? "y" : "ies"} affect${
+          count === 1 ? "s" : ""
+        } ${signals.version ?? "this version"}`
+      : "No known advisories",
+  };
+}
+
+// Score every dimension we have signals for
+export function scoreAllDimensions(
+  signals: PackageSignals,
+  now: number = Date.now()
+): Partial<Record<ScoreDimension, DimensionScore>> {
+  const scores: Partial<Record<ScoreDimension, DimensionScore>> = {};
+  [
+    scoreWeight(signals),
+    scoreUserBase(signals),
+    scoreMaintenance(signals, now),
+    scoreSecurity(signals),
+  ].forEach((score) => {
+    if (score) {
+      scores[score.dimension] = score;
+    }
+  });
+  return scores;
+}
+
+// Pull the scoring signals for one version out of a registry packument
+export function signalsFromPackument(
+  packument: any,
+  version: string | undefined,
+  now: number = Date.now()
+): PackageSignals {
+  const resolved = version || packument?.["dist-tags"]?.latest;
+  const manifest = resolved ? packument?.versions?.[resolved] : undefined;
+  const times: Record<string, string> = packument?.time ?? {};
+  const yearAgo = now - 365 * day;
+
+  const releaseTimes = Object.entries(times)
+    .filter(([key]) => semver.valid(key))
+    .map(([, time]) => new Date(time).getTime());
+  const latest = packument?.["dist-tags"]?.latest;
+
+  return {
+    name: packument?.name,
+    version: resolved,
+    unpackedSize: manifest?.dist?.unpackedSize,
+    dependencyCount: manifest
+      ? Object.keys(manifest.dependencies ?? {}).length
+      : undefined,
+    lastPublished: (latest && times[latest]) || times.modified,
+    releasesLastYear: releaseTimes.length
+      ? releaseTimes.filter((time) => time >= yearAgo).length
+      : undefined,
+    maintainers: packument?.maintainers?.length,
+    deprecated: !!manifest?.deprecated,
+  };
+}
@@ -0,0 +1,3 @@
+export * from "./types";
+export { scoreAllDimensions, signalsFromPackument } from "./dimensions";
+export * from "./strategies";
@@ -0,0 +1,151 @@
+import { scoreAllDimensions } from "./dimensions";
+import {
+  PackageSignals,
+  ScoreBreakdown,
+  ScoreDimension,
+  ScoringStrategy,
+  scoreDimensions,
+} from "./types";
+
+export type DimensionWeights = Record<ScoreDimension, number>;
+
+// A strategy that takes a weighted average of the dimensions. Weights of
+// dimensions without signals are spread over the rest.
+export function createWeightedStrategy(
+  id: string,
+  label: string,
+  description: string,
+  weights: DimensionWeights
+): ScoringStrategy {
+  return {
+    id,
+    label,
+    description,
+    score: (signals, now) => {
+      const scores = scoreAllDimensions(signals, now);
+      const available = scoreDimensions.filter(
+        (dimension) => scores[dimension] && weights[dimension] > 0
+      );
+      const totalWeight = available.reduce(
+        (sum, dimension) => sum + weights[dimension],
+        0
+      );
+      const dimensions = available.map((dimension) => ({
+        ...scores[dimension]!,
+        weight: weights[dimension] / totalWeight,
+      }));
+      return {
+        strategy: id,
+        total: Math.round(
+          dimensions.reduce((sum, entry) => sum + entry.score * entry.weight, 0)
+        ),
+        dimensions,
+      };
+    },
+  };
+}
+
+export const weightStrategy = createWeightedStrategy(
+  "weight",
+  "Bundle weight",
+  "Favours small packages with few dependencies",
+  { weight: 0.6, userBase: 0, maintenance: 0.2, security: 0.2 }
+);
+
+export const userBaseStrategy = createWeightedStrategy(
+  "userbase",
+  "User base",
+  "Favours widely downloaded and depended-on packages",
+  { weight: 0, userBase: 0.6, maintenance: 0.2, security: 0.2 }
+);
+
+// Blend two strategies: mix 1 is all A, 0 is all B. The breakdown lists the
+// effective weight of each dimension across both.
+export function createHybridStrategy(
+  a: ScoringStrategy,
+  b: ScoringStrategy,
+  mix: number
+): ScoringStrategy {
+  const ratio = Math.max(0, Math.min(1, mix));
+  return {
+    id: "hybrid",
+    label: `Hybrid (${Math.round(ratio * 100)}% ${a.label.toLowerCase()}, ${Math.round(
+      (1 - ratio) * 100
+    )}% ${b.label.toLowerCase()})`,
+    description: `Blends ${a.label.toLowerCase()} and ${b.label.toLowerCase()}`,
+    score: (signals, now) => {
+      const left = a.score(signals, now);
+      const right = b.score(signals, now);
+      const byDimension = new Map<
+        ScoreDimension,
+        ScoreBreakdown["dimensions"][number]
+      >();
+      [
+        { breakdown: left, share: ratio },
+        { breakdown: right, share: 1 - ratio },
+      ].forEach(({ breakdown, share }) =>
+        breakdown.dimensions.forEach((entry) => {
+          const existing = byDimension.get(entry.dimension);
+          byDimension.set(entry.dimension, {
+            ...entry,
+            weight: (existing?.weight ?? 0) + entry.weight * share,
+          });
+        })
+      );
+      return {
+        strategy: "hybrid",
+        total: Math.round(ratio * left.total + (1 - ratio) * right.total),
+        dimensions: scoreDimensions
+          .filter((dimension) => byDimension.has(dimension))
+          .map((dimension) => byDimension.get(dimension)!),
+      };
+    },
+  };
+}
+
+// Strategies selectable through the packagePilot.scoring.strategy setting
+export const scoringStrategies: Record<
+  string,
+  (options: { hybridMix: number }) => ScoringStrategy
+> = {
+  weight: () => weightStrategy,
+  userbase: () => userBaseStrategy,
+  hybrid: ({ hybridMix }) =>
+    createHybridStrategy(weightStrategy, userBaseStrategy, hybridMix),
+};
+
+export function createScoringStrategy(
+  id: string,
+  options: { hybridMix: number } = { hybridMix: 0.5 }
+): ScoringStrategy {
+  const factory = scoringStrategies[id];
+  if (!factory) {
+    throw new Error(
+      `Unknown scoring strategy "${id}" (expected one of ${Object.keys(
+        scoringStrategies
+      ).join(", ")})`
+    );
+  }
+  return factory(options);
+}
+
+// Score a package and its candidate alternatives, best alternative first
+export function rankAlternatives(
+  strategy: ScoringStrategy,
+  current: PackageSignals,
+  alternatives: PackageSignals[],
+  now?: number
+): {
+  current: ScoreBreakdown;
+  alternatives: (ScoreBreakdown & { name: string })[];
+} {
+  return {
+    current: strategy.score(current, now),
+    alternatives: alternatives
+      .map((signals) => ({
+        name: signals.name,
+        ...strategy.score(signals, now),
+      }))
+      .sort((x, y) => y.total - x.total),
+  };
+}
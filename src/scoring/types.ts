@@ -0,0 +1,50 @@
+import { Advisory } from "../audit/osv";
+
+export type ScoreDimension = "weight" | "userBase" | "maintenance" | "security";
+
+export const scoreDimensions: ScoreDimension[] = [
+  "weight",
+  "userBase",
+  "maintenance",
+  "security",
+];
+
+// Raw facts about one package version that the dimensions are scored from.
+// Anything unknown is left undefined and the dimension is skipped.
+export interface PackageSignals {
+  name: string;
+  version?: string;
+  unpackedSize?: number;
+  dependencyCount?: number;
+  weeklyDownloads?: number;
+  dependents?: number;
+  lastPublished?: string;
+  releasesLastYear?: number;
+  maintainers?: number;
+  deprecated?: boolean;
+  // Undefined when the version was not audited
+  advisories?: Advisory[];
+}
+
+// One dimension scored 0-100 with a short explanation
+export interface DimensionScore {
+  dimension: ScoreDimension;
+  score: number;
+  detail: string;
+}
+
+export interface ScoreBreakdown {
+  strategy: string;
+  // Weighted total 0-100 over the dimensions that could be scored
+  total: number;
+  dimensions: (DimensionScore & { weight: number })[];
+}
+
+// A way of ranking packages. Strategies only decide how dimensions are
+// weighted; the dimension scores themselves are shared.
+export interface ScoringStrategy {
+  id: string;
+  label: string;
+  description: string;
+  score(signals: PackageSignals, now?: number): ScoreBreakdown;
+}
@@ -0,0 +1,145 @@
+import { builtinModules } from "module";
+import * as zlib from "zlib";
+import type * as esbuild from "esbuild";
+import { ImportRecord } from "../imports/scanner";
+import { errorHandler } from "../utils";
+
+// What the imported parts of a package add to a browser bundle
+export interface BundleSize {
+  minified: number;
+  gzipped: number;
+  // Whether only the names the project imports were measured, rather than
+  // the whole package
+  treeShaken: boolean;
+}
+
+export type Esbuild = typeof esbuild;
+
+// esbuild from the analysed project if it has one, else our own copy.
+// Resolves to undefined when neither can be loaded.
+export function loadEsbuild(root: string): Esbuild | undefined {
+  for (const paths of [[root], undefined]) {
+    try {
+      return require(require.resolve("esbuild", paths && { paths }));
+    } catch {
+      // Try the next location
+    }
+  }
+  return undefined;
+}
+
+// An entry module that imports exactly what the project imports from the
+// package and keeps it alive, so tree shaking drops everything else
+export function buildBundleEntry(records: ImportRecord[]): string {
+  const lines: string[] = [];
+  const kept: string[] = [];
+  const keep = () => {
+    const name = `_${kept.length}`;
+    kept.push(name);
+    return name;
+  };
+
+  records.forEach((record) => {
+    if (record.kind === "type-only") {
+      return;
+    }
+    const specifier = JSON.stringify(record.specifier);
+    const names = record.names.filter((name) => !name.typeOnly);
+    if (record.kind === "require") {
+      const members = names.filter((name) => name.imported !== "*");
+      if (members.length === 0) {
+        lines.push(`const ${keep()} = require(${specifier});`);
+      }
+      members.forEach((name) =>
+        lines.push(
+          `const ${keep()} = require(${specifier})[${JSON.stringify(name.imported)}];`
+        )
+      );
+      return;
+    }
+    if (
+      record.kind === "dynamic" ||
+      names.some((name) => name.imported === "*")
+    ) {
+      lines.push(`import * as ${keep()} from ${specifier};`);
+      return;
+    }
+    if (names.length === 0) {
+      lines.push(`import ${specifier};`);
+      return;
+    }
+    names.forEach((name) =>
+      lines.push(
+        `import { ${
+          /^[A-Za-z_$][\w$]*$/.test(name.imported)
+            ? name.imported
+            : JSON.stringify(name.imported)
+        } as ${keep()} } from ${specifier};`
+      )
+    );
+  });
+
+  if (kept.length > 0) {
+    lines.push(`export { ${kept.join(", ")} };`);
+  }
+  return `${lines.join("\n")}\n`;
+}
+
+// Bundle an entry with esbuild from `root`'s node_modules, minified for the
+// browser, and measure it before and after gzip. Node built-ins are left
+// out as a bundler for the browser would have to polyfill them.
+export async function measureBundle(
+  esbuild: Esbuild,
+  root: string,
+  contents: string
+): Promise<Omit<BundleSize, "treeShaken">> {
+  const result = await esbuild.build({
+    stdin: { contents, resolveDir: root, loader: "js" },
+    bundle: true,
+    minify: true,
+    write: false,
+    format: "esm",
+    platform: "browser",
+    external: [
+      ...builtinModules,
+      ...builtinModules.map((name) => `node:${name}`),
+    ],
+    define: { "process.env.NODE_ENV": '"production"' },
+    loader: { ".node": "empty", ".css": "empty" },
+    logLevel: "silent",
+  });
+  const output = result.outputFiles[0]?.contents ?? new Uint8Array();
+  return {
+    minified: output.byteLength,
+    gzipped: zlib.gzipSync(output, { level: 9 }).byteLength,
+  };
+}
+
+// Measure what the given imports of one package cost in a bundle, or the
+// whole package when there are no imports to go by
+export async function measureImportCost(
+  esbuild: Esbuild,
+  root: string,
+  packageName: string,
+  records: ImportRecord[] = []
+): Promise<BundleSize | Error> {
+  const treeShaken = records.length > 0;
+  const contents = buildBundleEntry(
+    treeShaken
+      ? records
+      : [
+          {
+            kind: "static",
+            specifier: packageName,
+            names: [{ imported: "*", local: "_" }],
+          } as ImportRecord,
+        ]
+  );
+  try {
+    return { ...(await measureBundle(esbuild, root, contents)), treeShaken };
+  } catch (error) {
+    // esbuild lists every unresolvable import; the first explains enough
+    const first = (error as esbuild.BuildFailure).errors?.[0]?.text;
+    return new Error(first ?? errorHandler(error));
+  }
+}
@@ -0,0 +1,3 @@
+export * from "./bundle";
+export * from "./install";
+export * from "./measure";
@@ -0,0 +1,73 @@
+import { Lockfile } from "../lockfile";
+import { RegistryClient, walkDependencyTree } from "../registry";
+
+// What installing one package version costs on disk
+export interface InstallSize {
+  // The package itself, from its version manifest's `dist`
+  unpackedSize?: number;
+  fileCount?: number;
+  // The package and everything it installs, each version counted once;
+  // undefined when the registry reports no size for any of them
+  totalSize?: number;
+  totalFiles: number;
+  packageCount: number;
+  // Packages the registry reports no size for, left out of the totals
+  unknownSizes: number;
+  // The tree had more than `maxPackages` packages and was cut short
+  truncated?: boolean;
+}
+
+export interface InstallSizeOptions {
+  client: RegistryClient;
+  // Exact versions of the installed tree; dependencies are resolved from
+  // the registry otherwise, as a fresh install would
+  lockfile?: Lockfile;
+  maxPackages?: number;
+}
+
+// Sizes reported in a version manifest
+export function manifestSize(manifest: any): {
+  unpackedSize?: number;
+  fileCount?: number;
+} {
+  const { unpackedSize, fileCount } = manifest?.dist ?? {};
+  return {
+    unpackedSize: typeof unpackedSize === "number" ? unpackedSize : undefined,
+    fileCount: typeof fileCount === "number" ? fileCount : undefined,
+  };
+}
+
+// Work out the install size of a package version and its dependency tree
+export async function computeInstallSize(
+  name: string,
+  version: string,
+  options: InstallSizeOptions
+): Promise<InstallSize> {
+  const result: InstallSize = {
+    totalFiles: 0,
+    packageCount: 0,
+    unknownSizes: 0,
+  };
+  const { truncated } = await walkDependencyTree(
+    name,
+    version,
+    options,
+    (node) => {
+      const size = manifestSize(node.manifest);
+      if (!node.parent) {
+        Object.assign(result, size);
+      }
+      result.packageCount++;
+      if (size.unpackedSize === undefined) {
+        result.unknownSizes++;
+      } else {
+        result.totalSize = (result.totalSize ?? 0) + size.unpackedSize;
+        result.totalFiles += size.fileCount ?? 0;
+      }
+    }
+  );
+  if (truncated) {
+    result.truncated = true;
+  }
+  return result;
+}
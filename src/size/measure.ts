@@ -0,0 +1,111 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ImportRecord } from "../imports/scanner";
+import { Lockfile } from "../lockfile";
+import { RegistryClient } from "../registry";
+import { errorHandler, formatBytes } from "../utils";
+import { BundleSize, Esbuild, measureImportCost } from "./bundle";
+import { InstallSize, computeInstallSize } from "./install";
+
+// Size facts for one package version, as shown on its card
+export interface PackageSize {
+  version: string;
+  install?: InstallSize;
+  bundle?: BundleSize;
+  // The whole package's bundle cost when `bundle` only covers the imported
+  // names, to compare with alternatives, which are bundled whole
+  wholeBundle?: BundleSize;
+  // Why the bundle cost couldn't be measured
+  bundleError?: string;
+}
+
+export interface MeasureSizeOptions {
+  client: RegistryClient;
+  lockfile?: Lockfile;
+  // Folder whose node_modules the bundle is built from
+  root: string;
+  // Undefined skips the bundle cost
+  esbuild?: Esbuild;
+  // What the project imports from the package; the whole package otherwise
+  records?: ImportRecord[];
+  // Also bundle the whole package when only some of it is imported
+  wholeBundle?: boolean;
+  // Skip the install size, which walks the whole dependency tree
+  skipInstall?: boolean;
+}
+
+// The version of a package installed in or above `root`, the copy esbuild
+// bundles, or undefined when it isn't installed
+export function getInstalledVersion(
+  root: string,
+  name: string
+): string | undefined {
+  for (let dir = path.resolve(root); ; dir = path.dirname(dir)) {
+    const manifestPath = path.join(dir, "node_modules", name, "package.json");
+    if (fs.existsSync(manifestPath)) {
+      try {
+        const { version } = JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+        return typeof version === "string" ? version : undefined;
+      } catch {
+        return undefined;
+      }
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+// Measure the install size and bundle cost of one package version. The
+// bundle is built from the installed copy, so it's only measured when that
+// is the version asked for.
+export async function measurePackageSize(
+  name: string,
+  version: string,
+  options: MeasureSizeOptions
+): Promise<PackageSize> {
+  const size: PackageSize = { version };
+  const installedVersion = options.esbuild
+    ? getInstalledVersion(options.root, name)
+    : undefined;
+  if (installedVersion && installedVersion !== version) {
+    size.bundleError = `${name}@${installedVersion} is installed, not ${version}`;
+  }
+  const esbuild = installedVersion === version ? options.esbuild : undefined;
+  const [install, bundle] = await Promise.all([
+    options.skipInstall
+      ? undefined
+      : computeInstallSize(name, version, options).catch((error) => {
+          console.warn(
+            `Unable to work out the install size of ${name}: ${errorHandler(error)}`
+          );
+          return undefined;
+        }),
+    esbuild
+      ? measureImportCost(esbuild, options.root, name, options.records)
+      : undefined,
+  ]);
+  if (install) {
+    size.install = install;
+  }
+  if (bundle instanceof Error) {
+    size.bundleError = bundle.message;
+  } else if (bundle) {
+    size.bundle = bundle;
+    if (esbuild && bundle.treeShaken && options.wholeBundle) {
+      const whole = await measureImportCost(esbuild, options.root, name);
+      if (!(whole instanceof Error)) {
+        size.wholeBundle = whole;
+      }
+    }
+  }
+  return size;
+}
+
+// Signed size difference, e.g. "+1.2 MB" or "−300 B"
+export function formatSizeDelta(delta: number): string {
+  if (delta === 0) {
+    return "±0 B";
+  }
+  return `${delta > 0 ? "+" : "−"}${formatBytes(Math.abs(delta))}`;
+}
@@ -0,0 +1,158 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import {
+  AiResponseError,
+  PackageSummary,
+  createOpenAICompatibleProvider,
+  createTokenBudget,
+  parseRecommendations,
+} from "../ai";
+
+const summary = (name: string): PackageSummary => ({
+  name,
+  version: "1.0.0",
+  usage: { files: 1, importedNames: ["default"], subpaths: [] },
+  ruleAlternatives: [],
+});
+
+suite("AI Recommendations", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: { headers: http.IncomingHttpHeaders; body: any }[];
+
+  suiteSetup(async () => {
+    // Stub chat completions server: suggests "<name>-next" for each package
+    server = http.createServer((request, response) => {
+      let raw = "";
+      request.on("data", (chunk) => (raw += chunk));
+      request.on("end", () => {
+        const body = JSON.parse(raw);
+        requests.push({ headers: request.headers, body });
+        const packages = JSON.parse(body.messages[1].content).packages;
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(
+          JSON.stringify({
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({
+                    recommendations: packages.map((pkg: PackageSummary) => ({
+                      package: pkg.name,
+                      summary: `${pkg.name} is fine`,
+                      alternatives: [
+                        { name: `${pkg.name}-next`, reason: "Newer" },
+                      ],
+                    })),
+                  }),
+                },
+              },
+            ],
+            usage: { prompt_tokens: 300, completion_tokens: 100 },
+          })
+        );
+      });
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  });
+
+  suiteTeardown(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  setup(() => {
+    requests = [];
+  });
+
+  test("validates the JSON reply and drops unrequested packages", () => {
+    const suggestions = parseRecommendations(
+      '```json\n{"recommendations":[' +
+        '{"package":"moment","summary":"Large","alternatives":[{"name":"dayjs","reason":"2 kB"},{"name":"moment","reason":"self"}]},' +
+        '{"package":"left-pad","alternatives":[]}]}\n```',
+      ["moment"]
+    );
+    assert.deepStrictEqual(suggestions, [
+      {
+        packageName: "moment",
+        summary: "Large",
+        alternatives: [{ name: "dayjs", reason: "2 kB" }],
+      },
+    ]);
+
+    assert.throws(
+      () => parseRecommendations("Sure! Try dayjs.", ["moment"]),
+      AiResponseError
+    );
+    assert.throws(
+      () =>
+        parseRecommendations(
+          '{"recommendations":[{"package":"moment","alternatives":[{"name":"dayjs"}]}]}',
+          ["moment"]
+        ),
+      /alternatives\[0\] needs a "name" and a "reason"/
+    );
+  });
+
+  test("calls the configured endpoint and model with the API key", async () => {
+    const provider = createOpenAICompatibleProvider({
+      baseUrl,
+      model: "test-model",
+      apiKey: "sk-test",
+      budget: createTokenBudget({
+        maxTokens: 100000,
+        maxCost: 0,
+        inputPrice: 1,
+        outputPrice: 2,
+      }),
+    });
+
+    const result = await provider.recommend([summary("moment")]);
+
+    assert.strictEqual(requests.length, 1);
+    assert.strictEqual(requests[0].body.model, "test-model");
+    assert.strictEqual(requests[0].headers.authorization, "Bearer sk-test");
+    assert.deepStrictEqual(result.suggestions[0].alternatives, [
+      { name: "moment-next", reason: "Newer" },
+    ]);
+    assert.deepStrictEqual(result.usage, {
+      promptTokens: 300,
+      completionTokens: 100,
+      cost: (300 * 1 + 100 * 2) / 1_000_000,
+    });
+    assert.match(provider.description, /test-model via 127\.0\.0\.1/);
+  });
+
+  test("stops sending batches once the token budget is spent", async () => {
+    const provider = createOpenAICompatibleProvider({
+      baseUrl,
+      model: "test-model",
+      batchSize: 1,
+      maxCompletionTokens: 100,
+      // Room for one request (~300 estimated) but not a second once the
+      // server reports 400 tokens used
+      budget: createTokenBudget({
+        maxTokens: 600,
+        maxCost: 0,
+        inputPrice: 0,
+        outputPrice: 0,
+      }),
+    });
+
+    const result = await provider.recommend([
+      summary("a"),
+      summary("b"),
+      summary("c"),
+    ]);
+
+    assert.strictEqual(requests.length, 1);
+    assert.strictEqual(requests[0].headers.authorization, undefined);
+    assert.deepStrictEqual(
+      result.suggestions.map((suggestion) => suggestion.packageName),
+      ["a"]
+    );
+    assert.deepStrictEqual(result.skipped, ["b", "c"]);
+  });
+});
@@ -0,0 +1,153 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import AdmZip from "adm-zip";
+import {
+  OsvRecord,
+  auditPackages,
+  createLocalAdvisorySource,
+  matchAdvisory,
+  summarizeAudit,
+} from "../audit";
+import { cvss3BaseScore } from "../audit/cvss";
+
+const lodashAdvisory: OsvRecord = {
+  id: "GHSA-p6mc-m468-83gw",
+  summary: "Prototype Pollution in lodash",
+  aliases: ["CVE-2020-8203"],
+  database_specific: { severity: "HIGH" },
+  affected: [
+    {
+      package: { ecosystem: "npm", name: "lodash" },
+      ranges: [
+        {
+          type: "ECOSYSTEM",
+          events: [{ introduced: "3.7.0" }, { fixed: "4.17.19" }],
+        },
+      ],
+    },
+  ],
+  references: [
+    {
+      type: "ADVISORY",
+      url: "https://github.com/advisories/GHSA-p6mc-m468-83gw",
+    },
+  ],
+};
+
+suite("Vulnerability Audit", () => {
+  test("matches versions inside introduced/fixed ranges", () => {
+    const advisory = matchAdvisory(lodashAdvisory, "lodash", "4.17.15")!;
+    assert.strictEqual(advisory.severity, "high");
+    assert.strictEqual(advisory.fixedVersion, "4.17.19");
+    assert.deepStrictEqual(advisory.affectedRanges, [">=3.7.0 <4.17.19"]);
+
+    assert.strictEqual(
+      matchAdvisory(lodashAdvisory, "lodash", "4.17.21"),
+      undefined
+    );
+    assert.strictEqual(
+      matchAdvisory(lodashAdvisory, "lodash", "3.6.0"),
+      undefined
+    );
+    assert.strictEqual(
+      matchAdvisory(lodashAdvisory, "underscore", "4.17.15"),
+      undefined
+    );
+  });
+
+  test("supports last_affected, explicit versions and withdrawn records", () => {
+    const record: OsvRecord = {
+      id: "OSV-1",
+      affected: [
+        {
+          package: { ecosystem: "npm", name: "pkg" },
+          ranges: [
+            {
+              type: "SEMVER",
+              events: [{ introduced: "0" }, { last_affected: "1.2.0" }],
+            },
+          ],
+          versions: ["2.0.0"],
+        },
+      ],
+    };
+    assert.ok(matchAdvisory(record, "pkg", "1.2.0"));
+    assert.ok(matchAdvisory(record, "pkg", "2.0.0"));
+    assert.strictEqual(matchAdvisory(record, "pkg", "1.2.1"), undefined);
+    assert.strictEqual(
+      matchAdvisory(record, "pkg", "1.2.0")!.fixedVersion,
+      undefined
+    );
+    assert.strictEqual(
+      matchAdvisory(
+        { ...record, withdrawn: "2024-01-01T00:00:00Z" },
+        "pkg",
+        "1.0.0"
+      ),
+      undefined
+    );
+  });
+
+  test("derives severity from CVSS v3 vectors", () => {
+    assert.strictEqual(
+      cvss3BaseScore("CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H"),
+      9.8
+    );
+    assert.strictEqual(
+      cvss3BaseScore("CVSS:3.1/AV:N/AC:L/PR:L/UI:N/S:C/C:L/I:L/A:N"),
+      6.4
+    );
+    const record: OsvRecord = {
+      ...lodashAdvisory,
+      database_specific: undefined,
+      severity: [
+        {
+          type: "CVSS_V3",
+          score: "CVSS:3.1/AV:N/AC:L/PR:N/UI:N/S:U/C:H/I:H/A:H",
+        },
+      ],
+    };
+    assert.strictEqual(
+      matchAdvisory(record, "lodash", "4.0.0")!.severity,
+      "critical"
+    );
+  });
+
+  test("audits offline from a directory or zip of OSV files", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-osv-"));
+    try {
+      fs.mkdirSync(path.join(dir, "npm"));
+      fs.writeFileSync(
+        path.join(dir, "npm", `${lodashAdvisory.id}.json`),
+        JSON.stringify(lodashAdvisory)
+      );
+      const zip = new AdmZip();
+      zip.addFile(
+        `${lodashAdvisory.id}.json`,
+        Buffer.from(JSON.stringify(lodashAdvisory))
+      );
+      const zipPath = path.join(dir, "all.zip");
+      zip.writeZip(zipPath);
+
+      for (const source of [
+        createLocalAdvisorySource(dir),
+        createLocalAdvisorySource(zipPath),
+      ]) {
+        const results = await auditPackages(
+          [
+            { name: "lodash", version: "4.17.10" },
+            { name: "axios", version: "1.8.3" },
+          ],
+          source
+        );
+        assert.strictEqual(results.lodash.highestSeverity, "high");
+        assert.deepStrictEqual(results.axios.advisories, []);
+        assert.strictEqual(summarizeAudit(results).vulnerablePackages, 1);
+      }
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
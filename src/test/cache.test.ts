@@ -0,0 +1,160 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  MetadataCache,
+  OfflineCacheMissError,
+  createMetadataCache,
+  defaultCacheTtl,
+} from "../cache/metadataCache";
+import { buildRegistryConfig, createRegistryClient } from "../registry";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+suite("Metadata Cache", () => {
+  let directory: string;
+  let registry: MockRegistry;
+
+  const makeCache = (overrides: Partial<MetadataCache["options"]> = {}) =>
+    createMetadataCache({
+      directory,
+      ttl: defaultCacheTtl,
+      offline: false,
+      ...overrides,
+    });
+
+  // Push an entry's fetch time into the past so it is past its TTL
+  const expire = (cache: MetadataCache, key: string) => {
+    const entry = cache.get("packument", key)!;
+    const file = fs
+      .readdirSync(path.join(directory, "packument"))
+      .map((name) => path.join(directory, "packument", name))
+      .find(
+        (candidate) =>
+          JSON.parse(fs.readFileSync(candidate, "utf8")).key === key
+      )!;
+    fs.writeFileSync(
+      file,
+      JSON.stringify({
+        ...entry,
+        fetchedAt: entry.fetchedAt - 2 * 86400 * 1000,
+      })
+    );
+  };
+
+  suiteSetup(async () => {
+    registry = await startMockRegistry({
+      lodash: { name: "lodash", "dist-tags": { latest: "4.17.21" } },
+    });
+  });
+
+  suiteTeardown(async () => {
+    await registry.close();
+  });
+
+  setup(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-cache-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("serves fresh entries without calling the fetcher", async () => {
+    const cache = makeCache();
+    let calls = 0;
+    const fetcher = async () => {
+      calls++;
+      return { data: { value: calls } };
+    };
+
+    const first = await cache.fetch("packument", "a", fetcher);
+    const second = await cache.fetch("packument", "a", fetcher);
+
+    assert.strictEqual(calls, 1);
+    assert.strictEqual(first.fromCache, false);
+    assert.deepStrictEqual(second.data, { value: 1 });
+    assert.strictEqual(second.fromCache, true);
+    assert.strictEqual(second.stale, false);
+  });
+
+  test("revalidates expired packuments with If-None-Match", async () => {
+    const cache = makeCache();
+    const client = createRegistryClient(
+      buildRegistryConfig({ registry: registry.url }),
+      { cache }
+    );
+    const url = `${registry.url}lodash`;
+    const before = registry.requests.length;
+
+    await client.getPackument("lodash");
+    expire(cache, url);
+    const revalidated = await client.getPackument("lodash");
+
+    const requests = registry.requests.slice(before);
+    assert.strictEqual(requests.length, 2);
+    assert.strictEqual(
+      requests[1].headers["if-none-match"],
+      cache.get("packument", url)!.etag
+    );
+    assert.strictEqual(revalidated.data["dist-tags"].latest, "4.17.21");
+    assert.strictEqual(revalidated.fromCache, true);
+    assert.strictEqual(revalidated.stale, false);
+  });
+
+  test("offline mode serves expired entries as stale and fails on misses", async () => {
+    makeCache().set("packument", "a", { value: 1 });
+    const cache = makeCache({ offline: true });
+    expire(cache, "a");
+    const fetcher = async () => {
+      throw new Error("network used while offline");
+    };
+
+    const cached = await cache.fetch("packument", "a", fetcher);
+    assert.deepStrictEqual(cached.data, { value: 1 });
+    assert.strictEqual(cached.stale, true);
+
+    await assert.rejects(
+      cache.fetch("packument", "b", fetcher),
+      OfflineCacheMissError
+    );
+  });
+
+  test("falls back to a stale copy when the network fails", async () => {
+    const cache = makeCache();
+    cache.set("packument", "a", { value: 1 });
+    expire(cache, "a");
+
+    const result = await cache.fetch("packument", "a", async () => {
+      throw new Error("ECONNREFUSED");
+    });
+    assert.strictEqual(result.stale, true);
+    assert.deepStrictEqual(result.data, { value: 1 });
+  });
+
+  test("reports stats and clears per kind", () => {
+    const cache = makeCache();
+    cache.set("packument", "a", { value: 1 });
+    cache.set("packument", "b", { value: 2 });
+    cache.set("advisories", "c", []);
+
+    const counts = () =>
+      Object.fromEntries(cache.stats().map((s) => [s.kind, s.entries]));
+    assert.deepStrictEqual(counts(), {
+      packument: 2,
+      downloads: 0,
+      advisories: 1,
+      repositories: 0,
+    });
+
+    cache.clear("packument");
+    assert.deepStrictEqual(counts(), {
+      packument: 0,
+      downloads: 0,
+      advisories: 1,
+      repositories: 0,
+    });
+    cache.clear();
+    assert.strictEqual(cache.get("advisories", "c"), undefined);
+  });
+});
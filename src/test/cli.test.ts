@@ -0,0 +1,277 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { CliEnvironment, parseCliArgs, runCli } from "../cli";
+import { createPathFilter, globToRegExp } from "../core";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+const fixtures = path.join(__dirname, "..", "..", "src", "test", "fixtures");
+
+// Packument with the given versions, the last one tagged latest
+const packument = (
+  name: string,
+  versions: string[],
+  deprecated: Record<string, string> = {}
+) => ({
+  name,
+  description: `${name} fixture`,
+  license: "MIT",
+  "dist-tags": { latest: versions[versions.length - 1] },
+  versions: Object.fromEntries(
+    versions.map((version) => [
+      version,
+      { name, version, deprecated: deprecated[version] },
+    ])
+  ),
+  time: Object.fromEntries(
+    versions.map((version, i) => [version, `2024-0${i + 1}-01T00:00:00.000Z`])
+  ),
+  maintainers: [{ name: "maintainer" }],
+});
+
+suite("Command Line", () => {
+  let registry: MockRegistry;
+
+  suiteSetup(async () => {
+    registry = await startMockRegistry(
+      {
+        lodash: packument("lodash", ["4.17.15", "4.17.21"]),
+        request: packument("request", ["2.88.2"], {
+          "2.88.2": "request has been deprecated",
+        }),
+        moment: packument("moment", ["2.30.1"]),
+        chalk: packument("chalk", ["5.3.0"]),
+        chai: packument("chai", ["5.1.1"]),
+        "left-pad": packument("left-pad", ["1.3.0"]),
+      },
+      { lodash: 50_000_000, request: 15_000_000, moment: 20_000_000, chalk: 1 }
+    );
+  });
+
+  suiteTeardown(() => registry.close());
+
+  // Run the CLI in-process on the fixture project, offline from npm
+  const run = async (args: string[], project = "cli-project") => {
+    const output = { stdout: "", stderr: "" };
+    const env: CliEnvironment = {
+      cwd: fixtures,
+      version: "0.0.1",
+      stdout: (text) => (output.stdout += text),
+      stderr: (text) => (output.stderr += text),
+    };
+    const code = await runCli(
+      [
+        project,
+        "--registry",
+        registry.url,
+        "--downloads-endpoint",
+        `${registry.url}downloads`,
+        "--advisories",
+        "advisories",
+        "--scoring",
+        "none",
+        "--no-repository-check",
+        ...args,
+      ],
+      env
+    );
+    return { code, ...output };
+  };
+
+  test("matches include and exclude globs", () => {
+    assert.ok(globToRegExp("src/**/*.ts").test("src/a/b/c.ts"));
+    assert.ok(globToRegExp("src/**/*.ts").test("src/c.ts"));
+    assert.ok(!globToRegExp("src/*.ts").test("src/a/c.ts"));
+    assert.ok(globToRegExp("*.test.js").test("src/a/b.test.js"));
+    assert.ok(!globToRegExp("a.?s").test("a.jsx"));
+
+    const root = path.resolve("/project");
+    const filter = createPathFilter(root, {
+      include: ["src"],
+      exclude: ["*.test.ts", "src/generated/"],
+    });
+    const accepts = (relative: string, isDirectory = false) =>
+      filter(path.join(root, relative), isDirectory);
+    assert.ok(accepts("src/index.ts"));
+    assert.ok(accepts("scripts", true));
+    assert.ok(!accepts("scripts/build.ts"));
+    assert.ok(!accepts("src/index.test.ts"));
+    assert.ok(!accepts("src/generated", true));
+  });
+
+  test("parses options and rejects invalid ones", () => {
+    const options = parseCliArgs([
+      "app",
+      "--exclude",
+      "dist",
+      "--exclude",
+      "*.spec.ts",
+      "--fail-on",
+      "deprecated,vulnerable",
+      "--fail-on",
+      "deprecated",
+      "--no-audit",
+    ]);
+    assert.strictEqual(options.path, "app");
+    assert.deepStrictEqual(options.exclude, ["dist", "*.spec.ts"]);
+    assert.deepStrictEqual(options.failOn, ["deprecated", "vulnerable"]);
+    assert.strictEqual(options.format, "markdown");
+    assert.strictEqual(options.advisories, undefined);
+    assert.strictEqual(options.scoring, "hybrid");
+    assert.strictEqual(options.size, true);
+    assert.strictEqual(parseCliArgs(["--no-size"]).size, false);
+    assert.strictEqual(options.repositoryCheck, true);
+    assert.strictEqual(
+      parseCliArgs(["--no-repository-check"]).repositoryCheck,
+      false
+    );
+    assert.strictEqual(options.transitiveDeprecations, true);
+    assert.strictEqual(
+      parseCliArgs(["--no-transitive-deprecations"]).transitiveDeprecations,
+      false
+    );
+
+    assert.throws(() => parseCliArgs(["--fail-on", "ok"]), /--fail-on status/);
+    assert.throws(() => parseCliArgs(["--format", "xml"]), /--format/);
+    assert.throws(() => parseCliArgs(["--verbose"]), /Unknown option/);
+  });
+
+  test("analyses a project against a registry", async () => {
+    const { code, stdout } = await run([
+      "--format",
+      "json",
+      "--exclude",
+      "scripts",
+      "--exclude",
+      "*.test.js",
+    ]);
+    assert.strictEqual(code, 0);
+    const document = JSON.parse(stdout);
+    assert.deepStrictEqual(
+      document.packages.map((pkg: any) => [pkg.name, pkg.version, pkg.status]),
+      [
+        ["chalk", "5.3.0", "ok"],
+        ["lodash", "4.17.15", "vulnerable"],
+        ["moment", "2.30.1", "alternatives"],
+        ["request", "2.88.2", "deprecated"],
+      ]
+    );
+    const lodash = document.packages[1];
+    assert.strictEqual(lodash.latestVersion, "4.17.21");
+    assert.strictEqual(lodash.weeklyDownloads, 50_000_000);
+    assert.deepStrictEqual(
+      lodash.advisories.map((advisory: any) => advisory.id),
+      ["GHSA-p6mc-m468-83gw"]
+    );
+    assert.deepStrictEqual(lodash.files, ["src/index.js"]);
+  });
+
+  test("only reports unused dependencies when every file is analysed", async () => {
+    const findings = async (args: string[]) =>
+      JSON.parse(
+        (await run(["--format", "json", ...args])).stdout
+      ).manifestFindings.map((finding: any) => [
+        finding.kind,
+        finding.packageName,
+      ]);
+    // chalk, lodash and request are imported by files left out of the scan
+    assert.deepStrictEqual(await findings(["--include", "src/date.js"]), []);
+    assert.deepStrictEqual(await findings(["--exclude", "scripts"]), []);
+    assert.deepStrictEqual(await findings([]), [["undeclared", "left-pad"]]);
+  });
+
+  test("fails when a threshold is reached", async () => {
+    const failed = await run([
+      "--exclude",
+      "scripts",
+      "--fail-on",
+      "deprecated,vulnerable",
+    ]);
+    assert.strictEqual(failed.code, 1);
+    assert.ok(failed.stdout.startsWith("## Package Pilot report"));
+    assert.ok(
+      failed.stderr.includes(
+        "✖ lodash is vulnerable: GHSA-p6mc-m468-83gw (high)"
+      )
+    );
+    assert.ok(
+      failed.stderr.includes(
+        "✖ request is deprecated: request has been deprecated"
+      )
+    );
+
+    const critical = await run([
+      "--include",
+      "src/**",
+      "--fail-on",
+      "vulnerable",
+      "--min-severity",
+      "critical",
+    ]);
+    assert.strictEqual(critical.code, 0);
+    assert.ok(critical.stderr.includes("5 packages in 3 files"));
+  });
+
+  test("fails when the project's dependency policy is violated", async () => {
+    const { code, stdout, stderr } = await run(
+      ["--format", "json"],
+      "policy-project"
+    );
+    assert.strictEqual(code, 1);
+    const document = JSON.parse(stdout);
+    assert.deepStrictEqual(document.policy.passed, false);
+    assert.deepStrictEqual(
+      document.policy.violations.map((violation: any) => [
+        violation.packageName,
+        violation.kind,
+      ]),
+      [
+        ["chalk", "downloads"],
+        ["request", "denied"],
+      ]
+    );
+    assert.ok(
+      stderr.includes(
+        "Dependency policy failed: 2 violations in 2 of 3 packages"
+      )
+    );
+    assert.ok(
+      stderr.includes(
+        "✖ request is denied by the dependency policy: Unmaintained. Use got instead"
+      )
+    );
+    const request = document.packages.find(
+      (pkg: any) => pkg.name === "request"
+    );
+    assert.strictEqual(request.alternatives[0], "got");
+  });
+
+  test("writes the report to a file and reports usage errors", async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-"));
+    try {
+      const output = path.join(directory, "report.sarif");
+      const { code, stdout } = await run([
+        "--format",
+        "sarif",
+        "--output",
+        output,
+      ]);
+      assert.strictEqual(code, 0);
+      assert.strictEqual(stdout, "");
+      assert.strictEqual(
+        JSON.parse(fs.readFileSync(output, "utf8")).version,
+        "2.1.0"
+      );
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+
+    const usage = await run(["--fail-on", "everything"]);
+    assert.strictEqual(usage.code, 2);
+    assert.ok(usage.stderr.includes("Usage: package-pilot"));
+    const missing = await run([], "missing-folder");
+    assert.strictEqual(missing.code, 2);
+    assert.ok(missing.stderr.includes("is not a folder"));
+  });
+});
@@ -0,0 +1,391 @@
+import * as assert from "assert";
+import {
+  applyReplacements,
+  builtinCodemods,
+  formatMigrationReport,
+  migrateImports,
+  planManifestReplacement,
+  planProjectMigration,
+  resolveCodemods,
+} from "../codemods";
+import { convertMomentFormat } from "../codemods/dateFns";
+
+suite("Codemods", () => {
+  const migrate = (
+    content: string,
+    from: string,
+    to: string,
+    codemods = builtinCodemods
+  ) => {
+    const result = migrateImports(
+      content,
+      "/project/src/index.ts",
+      from,
+      to,
+      codemods
+    );
+    return {
+      text: applyReplacements(content, result.replacements),
+      unconverted: result.unconverted.map((site) => [
+        site.range.start.line,
+        site.reason,
+      ]),
+    };
+  };
+
+  test("migrates moment to dayjs and flags plugin-only APIs", () => {
+    const { text, unconverted } = migrate(
+      [
+        'import moment from "moment";',
+        'import "moment/locale/de";',
+        'const today = moment().format("YYYY-MM-DD");',
+        'const span = moment.duration(2, "hours");',
+        "export const helpers = { moment };",
+      ].join("\n"),
+      "moment",
+      "dayjs"
+    );
+
+    assert.strictEqual(
+      text,
+      [
+        'import dayjs from "dayjs";',
+        'import "dayjs/locale/de";',
+        'const today = dayjs().format("YYYY-MM-DD");',
+        'const span = dayjs.duration(2, "hours");',
+        "export const helpers = { moment: dayjs };",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(unconverted, [
+      [3, "duration() needs the dayjs duration plugin"],
+    ]);
+  });
+
+  test("keeps the binding name when the new one is taken", () => {
+    const { text } = migrate(
+      'const moment = require("moment");\nconst dayjs = 1;\nmoment();',
+      "moment",
+      "dayjs"
+    );
+    assert.strictEqual(
+      text,
+      'const moment = require("dayjs");\nconst dayjs = 1;\nmoment();'
+    );
+  });
+
+  test("reports lodash imports lodash-es can't serve", () => {
+    const { text, unconverted } = migrate(
+      [
+        'import _ from "lodash";',
+        'import debounce from "lodash/debounce";',
+        'import fp from "lodash/fp";',
+        'const get = require("lodash/get");',
+      ].join("\n"),
+      "lodash",
+      "lodash-es"
+    );
+
+    assert.strictEqual(
+      text,
+      [
+        'import _ from "lodash-es";',
+        'import debounce from "lodash-es/debounce";',
+        'import fp from "lodash/fp";',
+        'const get = require("lodash/get");',
+      ].join("\n")
+    );
+    assert.deepStrictEqual(unconverted, [
+      [2, 'lodash-es has no equivalent of "lodash/fp"'],
+      [3, "lodash-es can't be loaded with require(); use an import instead"],
+    ]);
+  });
+
+  test("migrates promise-friendly request calls to axios", () => {
+    const { text, unconverted } = migrate(
+      [
+        'import request from "request";',
+        "request.get(url);",
+        "request.post(url, (err, res) => {});",
+        "request(url);",
+      ].join("\n"),
+      "request",
+      "axios"
+    );
+
+    assert.strictEqual(
+      text,
+      [
+        'import axios from "axios";',
+        "axios.get(url);",
+        "axios.post(url, (err, res) => {});",
+        "axios(url);",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(
+      unconverted.map(([line]) => line),
+      [2, 3]
+    );
+  });
+
+  test("swaps only the root import for pairs without a codemod", () => {
+    const { text, unconverted } = migrate(
+      'import $ from "jquery";\nimport "jquery/dist/jquery.slim";',
+      "jquery",
+      "cash-dom"
+    );
+    assert.strictEqual(
+      text,
+      'import $ from "cash-dom";\nimport "jquery/dist/jquery.slim";'
+    );
+    assert.strictEqual(unconverted.length, 1);
+  });
+
+  test("rewrites moment call chains into date-fns functions", () => {
+    const source = [
+      'import moment from "moment";',
+      'const stamp = moment().format("YYYY-MM-DD [at] HH:mm");',
+      'const due = moment(start).add(2, "days").startOf("day").toDate();',
+      'const age = moment(end).diff(moment(start), "days");',
+    ].join("\n");
+    const { text, unconverted } = migrate(source, "moment", "date-fns");
+
+    assert.strictEqual(
+      text,
+      [
+        'import { addDays, differenceInDays, format, startOfDay } from "date-fns";',
+        "const stamp = format(new Date(), \"yyyy-MM-dd' at 'HH:mm\");",
+        "const due = startOfDay(addDays(new Date(start), 2));",
+        "const age = differenceInDays(new Date(end), new Date(start));",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(unconverted, []);
+  });
+
+  test("keeps the moment import while some uses are left", () => {
+    const { text, unconverted } = migrate(
+      [
+        "const moment = require('moment');",
+        "const now = moment();",
+        "const unix = moment().unix();",
+      ].join("\n"),
+      "moment",
+      "date-fns"
+    );
+
+    assert.strictEqual(
+      text,
+      [
+        "const moment = require('moment');",
+        "const { getUnixTime } = require('date-fns');",
+        "const now = moment();",
+        "const unix = getUnixTime(new Date());",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(unconverted, [
+      [1, "the result is used as a moment object, not a Date"],
+    ]);
+  });
+
+  test("translates moment format tokens", () => {
+    assert.strictEqual(
+      convertMomentFormat("Do MMM YYYY, h:mm A"),
+      "do MMM yyyy, h:mm a"
+    );
+    assert.strictEqual(
+      convertMomentFormat("[Today is] dddd"),
+      "'Today is 'EEEE"
+    );
+    assert.strictEqual(convertMomentFormat("d"), undefined);
+  });
+
+  test("opts into week-year and day-of-year tokens", () => {
+    const { text, unconverted } = migrate(
+      [
+        'import moment from "moment";',
+        'const week = moment().format("gggg-[W]ww");',
+        'const day = moment(input, "DDD").format("[Day] DDD, YYYY");',
+      ].join("\n"),
+      "moment",
+      "date-fns"
+    );
+
+    assert.strictEqual(
+      text,
+      [
+        'import { format, parse } from "date-fns";',
+        "const week = format(new Date(), \"YYYY'-W'ww\", { useAdditionalWeekYearTokens: true });",
+        'const day = format(parse(input, "D", new Date(), { useAdditionalDayOfYearTokens: true }), "\'Day \'D, yyyy", { useAdditionalDayOfYearTokens: true });',
+      ].join("\n")
+    );
+    assert.deepStrictEqual(unconverted, []);
+  });
+
+  test("reports require() when the target is ESM-only", () => {
+    const { text, unconverted } = migrate(
+      'const request = require("request");\nrequest.get(url);',
+      "request",
+      "got"
+    );
+    assert.strictEqual(
+      text,
+      'const request = require("request");\nrequest.get(url);'
+    );
+    assert.deepStrictEqual(unconverted, [
+      [0, "got can't be loaded with require(); use an import instead"],
+    ]);
+  });
+
+  test("builds codemods from rule definitions", () => {
+    const codemods = resolveCodemods([
+      {
+        id: "axios-to-ky",
+        from: "axios",
+        to: "ky",
+        specifiers: { axios: "ky", "axios/lib/*": "ky/distribution/*" },
+        rename: { axios: "ky" },
+        unsupported: { interceptors: "ky uses hooks instead" },
+      },
+      { id: "moment-to-dayjs", from: "", to: "", disabled: true },
+    ]);
+    assert.deepStrictEqual(
+      codemods.map((codemod) => codemod.id),
+      [
+        "axios-to-ky",
+        "moment-to-date-fns",
+        "lodash-to-lodash-es",
+        "request-to-axios",
+        "request-to-got",
+      ]
+    );
+
+    const { text, unconverted } = migrate(
+      [
+        'import axios from "axios";',
+        'import utils from "axios/lib/utils";',
+        "axios.interceptors.request.use(auth);",
+        "axios.get(url);",
+      ].join("\n"),
+      "axios",
+      "ky",
+      codemods
+    );
+    assert.strictEqual(
+      text,
+      [
+        'import ky from "ky";',
+        'import utils from "ky/distribution/utils";',
+        "ky.interceptors.request.use(auth);",
+        "ky.get(url);",
+      ].join("\n")
+    );
+    assert.deepStrictEqual(unconverted, [
+      [2, "axios.interceptors: ky uses hooks instead"],
+    ]);
+
+    // A disabled built-in falls back to swapping the root import only
+    assert.strictEqual(
+      migrate(
+        'import moment from "moment";\nmoment();',
+        "moment",
+        "dayjs",
+        codemods
+      ).text,
+      'import moment from "dayjs";\nmoment();'
+    );
+  });
+
+  test("plans a migration across every importing file", () => {
+    const files: Record<string, string> = {
+      "/project/src/a.ts": 'import _ from "lodash";\n_.map([], String);',
+      "/project/src/b.js": 'const fp = require("lodash/fp");',
+      "/project/src/c.ts": 'import axios from "axios";',
+    };
+    const migration = planProjectMigration(
+      {
+        "/project/src/a.ts": ["lodash"],
+        "/project/src/b.js": ["lodash"],
+        "/project/src/c.ts": ["axios"],
+      },
+      builtinCodemods.find((codemod) => codemod.id === "lodash-to-lodash-es")!,
+      (filePath) => files[filePath]
+    );
+
+    assert.deepStrictEqual(
+      migration.files.map((file) => [
+        file.filePath,
+        file.replacements.length,
+        file.unconverted.length,
+      ]),
+      [
+        ["/project/src/a.ts", 1, 0],
+        ["/project/src/b.js", 0, 1],
+      ]
+    );
+    assert.strictEqual(
+      formatMigrationReport(migration, "/project"),
+      [
+        "lodash → lodash-es (ES module build of the same functions) (lodash-to-lodash-es)",
+        "1 file converted, 1 site needs manual changes",
+        "",
+        "src/b.js:1:12 lodash-es can't be loaded with require(); use an import instead",
+      ].join("\n")
+    );
+  });
+
+  suite("package.json", () => {
+    const manifest = JSON.stringify(
+      {
+        name: "fixture",
+        dependencies: { axios: "^1.0.0", moment: "^2.29.4" },
+        devDependencies: { mocha: "^10.0.0" },
+      },
+      null,
+      2
+    );
+
+    test("renames the dependency in place", () => {
+      const edited = applyReplacements(
+        manifest,
+        planManifestReplacement(manifest, "moment", "dayjs", "^1.11.13")
+      );
+      assert.deepStrictEqual(JSON.parse(edited).dependencies, {
+        axios: "^1.0.0",
+        dayjs: "^1.11.13",
+      });
+      assert.ok(edited.includes('    "dayjs": "^1.11.13"\n'));
+    });
+
+    test("drops the old entry when the new one is declared", () => {
+      const edited = applyReplacements(
+        manifest,
+        planManifestReplacement(manifest, "moment", "axios", "^1.8.0")
+      );
+      assert.deepStrictEqual(JSON.parse(edited).dependencies, {
+        axios: "^1.0.0",
+      });
+    });
+
+    test("adds undeclared packages to dependencies", () => {
+      const edited = applyReplacements(
+        manifest,
+        planManifestReplacement(manifest, "request", "got", "^14.0.0")
+      );
+      assert.deepStrictEqual(JSON.parse(edited).dependencies, {
+        axios: "^1.0.0",
+        moment: "^2.29.4",
+        got: "^14.0.0",
+      });
+
+      const bare = '{\n  "name": "fixture"\n}';
+      assert.deepStrictEqual(
+        JSON.parse(
+          applyReplacements(
+            bare,
+            planManifestReplacement(bare, "request", "got", "^14.0.0")
+          )
+        ).dependencies,
+        { got: "^14.0.0" }
+      );
+    });
+  });
+});
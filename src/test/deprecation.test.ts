@@ -0,0 +1,193 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  applyDeprecationReplacements,
+  applyRecommendationRules,
+  fetchNpmMetadata,
+  findTransitiveDeprecations,
+} from "../core";
+import { parseReplacements } from "../deprecation";
+import {
+  computeImportFindings,
+  defaultDiagnosticSeverity,
+  getPackageFacts,
+} from "../diagnostics/findings";
+import { buildReportDocument, renderMarkdownReport } from "../export";
+import { scanImports } from "../imports/scanner";
+import { loadLockfile } from "../lockfile";
+import { buildRegistryConfig, createRegistryClient } from "../registry";
+import { builtinRuleSet, createRuleEngine } from "../rules";
+import { getPackageStatus } from "../views/packageNodes";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+suite("Deprecation", () => {
+  let registry: MockRegistry;
+
+  suiteSetup(async () => {
+    registry = await startMockRegistry({
+      "old-http": {
+        name: "old-http",
+        "dist-tags": { latest: "2.0.0" },
+        versions: {
+          "1.0.0": {
+            name: "old-http",
+            version: "1.0.0",
+            dependencies: { "fs-walk": "^1.0.0" },
+          },
+          "2.0.0": {
+            name: "old-http",
+            version: "2.0.0",
+            deprecated:
+              "Moved to @http/client. Please use @http/client instead.",
+          },
+        },
+      },
+      "fs-walk": {
+        name: "fs-walk",
+        "dist-tags": { latest: "1.2.0" },
+        versions: {
+          "1.2.0": {
+            name: "fs-walk",
+            version: "1.2.0",
+            dependencies: { inflight: "^1.0.4" },
+          },
+        },
+      },
+      inflight: {
+        name: "inflight",
+        "dist-tags": { latest: "1.0.6" },
+        versions: {
+          "1.0.6": {
+            name: "inflight",
+            version: "1.0.6",
+            deprecated:
+              "This module is not supported, and leaks memory. Do not use it. Check out lru-cache if you want a good and tested way to coalesce async requests by a key value.",
+          },
+        },
+      },
+    });
+  });
+
+  suiteTeardown(() => registry.close());
+
+  test("finds the replacements a deprecation message names", () => {
+    assert.deepStrictEqual(
+      parseReplacements(
+        "This package is no longer supported. Use @aws-sdk/client-s3 instead"
+      ),
+      ["@aws-sdk/client-s3"]
+    );
+    assert.deepStrictEqual(
+      parseReplacements(
+        "sourcemap-codec: Please use `@jridgewell/sourcemap-codec` instead; or try magic-string."
+      ),
+      ["@jridgewell/sourcemap-codec", "magic-string"]
+    );
+    assert.deepStrictEqual(
+      parseReplacements("renamed to chalk-next, use chalk-next.", "chalk"),
+      ["chalk-next"]
+    );
+    // Prose, versions and the package itself are not replacements
+    assert.deepStrictEqual(
+      parseReplacements(
+        "Please upgrade to version 7 or higher. Older versions may use Math.random()"
+      ),
+      []
+    );
+    assert.deepStrictEqual(
+      parseReplacements("Use your platform's native DOMException instead"),
+      []
+    );
+    assert.deepStrictEqual(
+      parseReplacements("Use v2 of request", "request"),
+      []
+    );
+    assert.deepStrictEqual(
+      parseReplacements("request has been deprecated, see https://x"),
+      []
+    );
+  });
+
+  test("reports installed, latest and transitive deprecations", async () => {
+    const root = fs.mkdtempSync(
+      path.join(os.tmpdir(), "package-pilot-deprecation-")
+    );
+    // The installed 1.0.0 isn't deprecated, only the latest version is
+    fs.writeFileSync(
+      path.join(root, "package-lock.json"),
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": { dependencies: { "old-http": "^1.0.0" } },
+          "node_modules/old-http": { version: "1.0.0" },
+        },
+      })
+    );
+    const lockfile = loadLockfile(root);
+    fs.rmSync(root, { recursive: true, force: true });
+
+    const client = createRegistryClient(
+      buildRegistryConfig({ registry: registry.url })
+    );
+    const packageData = await fetchNpmMetadata(["old-http"], client, lockfile);
+    // Without the lockfile, old-http's dependencies resolve from the registry
+    await findTransitiveDeprecations(packageData, client);
+    applyRecommendationRules(packageData, createRuleEngine([builtinRuleSet]));
+    applyDeprecationReplacements(packageData);
+
+    const pkg = packageData["old-http"];
+    assert.strictEqual(pkg.version, "1.0.0");
+    assert.strictEqual(pkg.deprecated, "");
+    assert.deepStrictEqual(pkg.deprecation.latest, {
+      version: "2.0.0",
+      message: "Moved to @http/client. Please use @http/client instead.",
+      replacements: ["@http/client"],
+    });
+    assert.deepStrictEqual(
+      pkg.deprecation.transitive.map((notice: any) => [
+        notice.name,
+        notice.version,
+        notice.requiredBy,
+        notice.replacements,
+      ]),
+      [["inflight", "1.0.6", "fs-walk", ["lru-cache"]]]
+    );
+    assert.deepStrictEqual(pkg.alternatives, ["@http/client"]);
+    assert.strictEqual(pkg.alternativeSources["@http/client"], "deprecation");
+    assert.strictEqual(getPackageStatus(pkg).status, "deprecated");
+
+    const records = scanImports('import http from "old-http";', "index.ts");
+    assert.deepStrictEqual(
+      computeImportFindings(
+        records,
+        getPackageFacts(packageData),
+        [],
+        defaultDiagnosticSeverity
+      ).map((finding) => [finding.category, finding.message]),
+      [
+        [
+          "deprecated",
+          "The latest version of old-http (2.0.0) is deprecated: Moved to @http/client. Please use @http/client instead.",
+        ],
+        ["deprecated", "old-http installs deprecated package inflight@1.0.6"],
+        ["alternative", "Consider @http/client instead of old-http"],
+      ]
+    );
+
+    const markdown = renderMarkdownReport(
+      buildReportDocument({
+        root: "/project",
+        importRecords: { "/project/index.ts": records },
+        packageData,
+        toolVersion: "0.0.1",
+      })
+    );
+    assert.ok(
+      markdown.includes(
+        "| `inflight` (via `fs-walk`) | 1.0.6 | This module is not supported, and leaks memory. Do not use it. Check out lru-cache if you want a good and tested way to coalesce async requests by a key value. | `lru-cache` |"
+      )
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import * as assert from "assert";
+import { Advisory } from "../audit/osv";
+import {
+  PackageFacts,
+  computeImportFindings,
+  defaultDiagnosticSeverity,
+} from "../diagnostics/findings";
+import { scanImports } from "../imports/scanner";
+import { ManifestReport } from "../manifest/reconcile";
+
+suite("Import Diagnostics", () => {
+  const source = [
+    'import moment from "moment";',
+    'import request from "request";',
+    'const _ = require("lodash/fp");',
+    'import { helper } from "./helper";',
+    'import axios from "axios";',
+  ].join("\n");
+  const records = scanImports(source, "/project/src/index.ts");
+
+  const advisory: Advisory = {
+    id: "GHSA-p8p7-x288-28g6",
+    aliases: ["CVE-2023-28155"],
+    summary: "Server-Side Request Forgery in Request",
+    severity: "moderate",
+    affectedRanges: ["<=2.88.2"],
+  };
+
+  const facts: Record<string, PackageFacts> = {
+    moment: { alternatives: ["dayjs", "date-fns"] },
+    request: {
+      deprecated: "request has been deprecated",
+      advisories: [
+        { ...advisory, id: "GHSA-low", severity: "low", fixedVersion: "3.0.0" },
+        advisory,
+      ],
+    },
+    lodash: {},
+    axios: {},
+  };
+
+  const undeclared: ManifestReport = {
+    manifestPath: "/project/package.json",
+    findings: [
+      {
+        kind: "undeclared",
+        packageName: "axios",
+        message: "imported but not declared in package.json",
+        files: ["/project/src/index.ts"],
+      },
+    ],
+  };
+
+  test("flags deprecated, vulnerable, replaceable and undeclared imports", () => {
+    const findings = computeImportFindings(
+      records,
+      facts,
+      [undeclared],
+      defaultDiagnosticSeverity
+    );
+
+    assert.deepStrictEqual(
+      findings.map((finding) => [
+        finding.category,
+        finding.packageName,
+        finding.severity,
+        finding.range.start.line,
+      ]),
+      [
+        ["alternative", "moment", "information", 0],
+        ["deprecated", "request", "warning", 1],
+        ["advisory", "request", "error", 1],
+        ["undeclared", "axios", "error", 4],
+      ]
+    );
+    assert.strictEqual(
+      findings[2].message,
+      "request has 2 known vulnerabilities (worst: moderate, GHSA-p8p7-x288-28g6: Server-Side Request Forgery in Request). Fixed in 3.0.0"
+    );
+    assert.strictEqual(
+      findings[0].message,
+      "Consider dayjs, date-fns instead of moment"
+    );
+  });
+
+  test("hides categories set to off", () => {
+    const findings = computeImportFindings(records, facts, [undeclared], {
+      ...defaultDiagnosticSeverity,
+      advisory: "off",
+      undeclared: "hint",
+    });
+
+    assert.deepStrictEqual(
+      findings.map((finding) => [finding.category, finding.severity]),
+      [
+        ["alternative", "information"],
+        ["deprecated", "warning"],
+        ["undeclared", "hint"],
+      ]
+    );
+  });
+
+  test("ignores packages without facts", () => {
+    assert.deepStrictEqual(
+      computeImportFindings(records, {}, [], defaultDiagnosticSeverity),
+      []
+    );
+  });
+});
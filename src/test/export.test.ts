@@ -0,0 +1,250 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  buildReportDocument,
+  escapeMarkdown,
+  renderHtmlReport,
+  renderMarkdownReport,
+  renderReport,
+  renderSarifReport,
+} from "../export";
+import { scanImports } from "../imports/scanner";
+import { ManifestReport } from "../manifest/reconcile";
+
+suite("Report Export", () => {
+  const root = path.resolve("/project");
+  const indexPath = path.join(root, "src", "index.ts");
+  const datePath = path.join(root, "src", "date.ts");
+  const importRecords = {
+    [indexPath]: scanImports(
+      'import request from "request";\nimport axios from "axios";',
+      indexPath
+    ),
+    [datePath]: scanImports(
+      'import fs from "fs";\n\nimport moment from "moment";',
+      datePath
+    ),
+  };
+  const packageData = {
+    request: {
+      name: "request",
+      description: "Simplified HTTP request client.",
+      version: "2.88.2",
+      latestVersion: "2.88.2",
+      license: "Apache-2.0",
+      homepage: "javascript:alert(1)",
+      deprecated: "request has been deprecated",
+      alternatives: [],
+      audit: {
+        packageName: "request",
+        version: "2.88.2",
+        highestSeverity: "moderate",
+        advisories: [
+          {
+            id: "GHSA-p8p7-x288-28g6",
+            aliases: [],
+            summary: "Server-Side Request Forgery in Request",
+            severity: "moderate",
+            affectedRanges: ["<=2.88.2"],
+            url: "https://github.com/advisories/GHSA-p8p7-x288-28g6",
+          },
+        ],
+      },
+    },
+    axios: {
+      name: "axios",
+      description: "Promise based <b>HTTP</b> client | browser & node",
+      version: "1.7.2",
+      latestVersion: "1.7.2",
+      license: "MIT",
+      homepage: "https://axios-http.com",
+      weeklyDownloads: 50_000_000,
+      alternatives: [],
+    },
+    moment: {
+      name: "moment",
+      version: "2.29.4",
+      latestVersion: "2.30.1",
+      license: { type: "MIT" },
+      alternatives: ["dayjs"],
+      recommendation: { reason: "moment is in maintenance mode" },
+    },
+  };
+  const manifestReports: ManifestReport[] = [
+    {
+      manifestPath: path.join(root, "package.json"),
+      findings: [
+        {
+          kind: "undeclared",
+          packageName: "moment",
+          message: "imported but not declared in package.json",
+          files: [datePath],
+        },
+      ],
+    },
+  ];
+  const document = buildReportDocument({
+    root,
+    importRecords,
+    packageData,
+    manifestReports,
+    toolVersion: "0.0.1",
+    generatedAt: new Date("2024-06-01T12:00:00Z"),
+  });
+
+  test("builds a versioned document with relative paths", () => {
+    assert.strictEqual(document.formatVersion, 1);
+    assert.strictEqual(document.generatedAt, "2024-06-01T12:00:00.000Z");
+    assert.deepStrictEqual(
+      document.packages.map((pkg) => [pkg.name, pkg.status, pkg.files]),
+      [
+        ["axios", "ok", ["src/index.ts"]],
+        ["moment", "outdated", ["src/date.ts"]],
+        ["request", "vulnerable", ["src/index.ts"]],
+      ]
+    );
+    assert.deepStrictEqual(document.summary, {
+      files: 2,
+      packages: 3,
+      statuses: { ok: 1, outdated: 1, vulnerable: 1 },
+      findings: { error: 2, information: 1, warning: 1 },
+    });
+    assert.deepStrictEqual(
+      document.findings.map((finding) => [
+        finding.category,
+        finding.file,
+        finding.range.start.line,
+      ]),
+      [
+        ["alternative", "src/date.ts", 2],
+        ["undeclared", "src/date.ts", 2],
+        ["deprecated", "src/index.ts", 0],
+        ["advisory", "src/index.ts", 0],
+      ]
+    );
+    assert.strictEqual(document.manifestFindings[0].manifest, "package.json");
+  });
+
+  test("flags undeclared imports only in the workspace missing them", () => {
+    const appPath = path.join(root, "packages", "app", "index.ts");
+    const libPath = path.join(root, "packages", "lib", "index.ts");
+    const workspaces = buildReportDocument({
+      root,
+      importRecords: {
+        [appPath]: scanImports('import moment from "moment";', appPath),
+        [libPath]: scanImports('import moment from "moment";', libPath),
+      },
+      packageData: { moment: packageData.moment },
+      manifestReports: [
+        {
+          manifestPath: path.join(root, "packages", "app", "package.json"),
+          findings: [
+            {
+              kind: "undeclared",
+              packageName: "moment",
+              message: "imported but not declared in package.json",
+              files: [appPath],
+            },
+          ],
+        },
+        {
+          manifestPath: path.join(root, "packages", "lib", "package.json"),
+          findings: [],
+        },
+      ],
+      toolVersion: "0.0.1",
+    });
+    assert.deepStrictEqual(
+      workspaces.findings
+        .filter((finding) => finding.category === "undeclared")
+        .map((finding) => finding.file),
+      ["packages/app/index.ts"]
+    );
+  });
+
+  test("fills every property the schema requires", () => {
+    const schema = JSON.parse(
+      fs.readFileSync(
+        path.join(__dirname, "..", "..", "schemas", "report.schema.json"),
+        "utf8"
+      )
+    );
+    const json = JSON.parse(renderReport(document, "json"));
+    const check = (value: any, required: string[], where: string) =>
+      required.forEach((key) =>
+        assert.ok(key in value, `${where} is missing ${key}`)
+      );
+    check(json, schema.required, "report");
+    check(json.summary, schema.properties.summary.required, "summary");
+    json.packages.forEach((pkg: any) =>
+      check(pkg, schema.definitions.package.required, pkg.name)
+    );
+    json.findings.forEach((finding: any) =>
+      check(finding, schema.definitions.finding.required, finding.message)
+    );
+    json.manifestFindings.forEach((finding: any) =>
+      check(finding, schema.definitions.manifestFinding.required, "manifest")
+    );
+  });
+
+  test("renders Markdown with escaped registry text", () => {
+    const markdown = renderMarkdownReport(document);
+    assert.ok(markdown.startsWith("## Package Pilot report\n"));
+    assert.ok(markdown.includes("| `axios` | 1.7.2 | ✅ ok | MIT | 1.7.2 |"));
+    assert.ok(markdown.includes("`src/index.ts:1`"));
+    assert.ok(
+      markdown.includes(
+        "[GHSA-p8p7-x288-28g6](https://github.com/advisories/GHSA-p8p7-x288-28g6)"
+      )
+    );
+    assert.strictEqual(
+      escapeMarkdown("a | b\n<img src=x>"),
+      "a \\| b \\<img src=x\\>"
+    );
+  });
+
+  test("renders standalone HTML without unsafe links or markup", () => {
+    const page = renderHtmlReport(document);
+    assert.ok(page.startsWith("<!DOCTYPE html>"));
+    assert.ok(!page.includes("<script"));
+    assert.ok(!page.includes("javascript:"));
+    assert.ok(page.includes("&lt;b&gt;HTTP&lt;/b&gt;"));
+    assert.ok(page.includes('<a href="https://axios-http.com/">axios</a>'));
+  });
+
+  test("maps findings to SARIF results at their imports", () => {
+    const sarif = renderSarifReport(document);
+    assert.strictEqual(sarif.version, "2.1.0");
+    const [run] = sarif.runs;
+    assert.deepStrictEqual(
+      run.tool.driver.rules.map((rule) => [
+        rule.id,
+        rule.defaultConfiguration.level,
+      ]),
+      [
+        ["package-pilot/deprecated", "warning"],
+        ["package-pilot/advisory", "error"],
+        ["package-pilot/alternative", "note"],
+        ["package-pilot/undeclared", "error"],
+        ["package-pilot/policy", "error"],
+      ]
+    );
+    assert.ok(run.originalUriBaseIds.PROJECTROOT.uri.endsWith("/project/"));
+
+    const alternative = run.results[0];
+    assert.strictEqual(alternative.ruleId, "package-pilot/alternative");
+    assert.strictEqual(alternative.ruleIndex, 2);
+    assert.strictEqual(alternative.level, "note");
+    assert.deepStrictEqual(alternative.locations[0].physicalLocation, {
+      artifactLocation: { uri: "src/date.ts", uriBaseId: "PROJECTROOT" },
+      region: { startLine: 3, startColumn: 1, endLine: 3, endColumn: 29 },
+    });
+    assert.strictEqual(
+      new Set(
+        run.results.map((result) => JSON.stringify(result.partialFingerprints))
+      ).size,
+      run.results.length
+    );
+  });
+});
@@ -0,0 +1,3 @@
+import moment from "moment";
+
+export const today = () => moment().format("YYYY-MM-DD");
@@ -0,0 +1,4 @@
+import { expect } from "chai";
+import { today } from "./date";
+
+expect(today()).to.match(/^\d{4}-\d{2}-\d{2}$/);
@@ -0,0 +1,8 @@
+const _ = require("lodash");
+const request = require("request");
+const chalk = require("chalk");
+
+module.exports = (url) =>
+  request(url, (error, response, body) => {
+    console.log(chalk.green(_.get(JSON.parse(body), "name")));
+  });
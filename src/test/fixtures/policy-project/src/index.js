@@ -0,0 +1,5 @@
+const request = require("request");
+const moment = require("moment");
+const chalk = require("chalk");
+
+module.exports = { request, moment, chalk };
@@ -0,0 +1,202 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { applyPackagePolicy, checkRepositoryHealth } from "../core";
+import {
+  RepositoryLookup,
+  RepositoryState,
+  computeHealth,
+  createGitHubRepositoryLookup,
+} from "../health";
+import { parseRepository } from "../registry";
+import { validatePolicy } from "../rules";
+import {
+  buildReportPackages,
+  defaultReportQuery,
+  queryReport,
+} from "../views/report";
+
+const now = Date.parse("2026-01-01T00:00:00.000Z");
+
+const maintainers = (...names: string[]) => names.map((name) => ({ name }));
+
+// Actively released, with a new maintainer and two recent majors
+const lively = {
+  name: "lively",
+  repository: { type: "git", url: "git+https://github.com/org/lively.git" },
+  maintainers: maintainers("alice", "bob", "carol"),
+  time: {
+    created: "2022-01-10T00:00:00.000Z",
+    modified: "2025-12-15T00:00:00.000Z",
+    "1.0.0": "2022-01-10T00:00:00.000Z",
+    "2.0.0": "2024-06-01T00:00:00.000Z",
+    "2.1.0": "2025-03-01T00:00:00.000Z",
+    "3.0.0": "2025-09-01T00:00:00.000Z",
+    "3.0.1": "2025-12-01T00:00:00.000Z",
+    "4.0.0-beta.1": "2025-12-15T00:00:00.000Z",
+  },
+  versions: {
+    "2.0.0": { maintainers: maintainers("alice", "bob") },
+    "4.0.0-beta.1": { maintainers: maintainers("alice", "bob", "carol") },
+  },
+};
+
+// Two releases years ago, one maintainer and no repository
+const abandoned = {
+  name: "abandoned",
+  maintainers: ["solo <solo@example.com>"],
+  time: {
+    "1.0.0": "2019-01-01T00:00:00.000Z",
+    "1.0.1": "2019-06-01T00:00:00.000Z",
+  },
+};
+
+suite("Health", () => {
+  test("scores cadence, recency, maintainers and major churn", () => {
+    const health = computeHealth(lively, { now })!;
+    assert.deepStrictEqual(
+      health.signals.map((signal) => [signal.id, signal.score, signal.detail]),
+      [
+        [
+          "cadence",
+          64,
+          "3 releases in the last year, typically 273 days apart",
+        ],
+        ["recency", 100, "Last published 17 days ago (4.0.0-beta.1)"],
+        ["maintainers", 85, "3 maintainers, carol joined in the last year"],
+        ["churn", 60, "2 breaking releases in the last 2 years (2.0.0, 3.0.0)"],
+      ]
+    );
+    // The repository state wasn't looked up, so it's left out
+    assert.strictEqual(health.score, 81);
+    assert.strictEqual(
+      computeHealth(lively, { now, repositoryState: "archived" })!.score,
+      69
+    );
+
+    const stale = computeHealth(abandoned, { now })!;
+    assert.strictEqual(stale.score, 28);
+    assert.strictEqual(
+      stale.explanation,
+      "0 releases in the last year, typically 151 days apart; Last published 2406 days ago (1.0.1); No source repository is listed; 1 maintainer; 0 breaking releases in the last 2 years"
+    );
+
+    // Every maintainer replaced within the year
+    const handedOver = computeHealth(
+      {
+        maintainers: maintainers("mallory"),
+        time: {
+          "1.0.0": "2024-01-01T00:00:00.000Z",
+          "1.0.1": "2025-11-01T00:00:00.000Z",
+        },
+        versions: {
+          "1.0.0": { maintainers: ["dev <dev@example.com>"] },
+          "1.0.1": { maintainers: ["mallory <mallory@example.com>"] },
+        },
+      },
+      { now }
+    )!;
+    assert.deepStrictEqual(
+      handedOver.signals.find((signal) => signal.id === "maintainers"),
+      {
+        id: "maintainers",
+        score: 20,
+        detail:
+          "1 maintainer, mallory joined in the last year, dev left in the last year, every maintainer changed",
+      }
+    );
+    assert.strictEqual(computeHealth({ name: "empty" }), undefined);
+  });
+
+  test("looks up archived and missing repositories on GitHub", async () => {
+    const requests: http.IncomingMessage[] = [];
+    const server = http.createServer((request, response) => {
+      requests.push(request);
+      const repos: Record<string, any> = {
+        "/repos/org/lively": { archived: true },
+        "/repos/org/fine": { archived: false },
+      };
+      const repo = repos[request.url ?? ""];
+      response.writeHead(repo ? 200 : 404, {
+        "Content-Type": "application/json",
+      });
+      response.end(JSON.stringify(repo ?? { message: "Not Found" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    try {
+      const lookup = createGitHubRepositoryLookup({
+        endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        token: "secret",
+      });
+      const state = (field: string) => lookup.getState(parseRepository(field)!);
+      assert.strictEqual(await state("github:org/lively"), "archived");
+      assert.strictEqual(await state("github:org/fine"), "active");
+      assert.strictEqual(await state("github:org/gone"), "missing");
+      assert.strictEqual(await state("gitlab:org/lively"), undefined);
+      assert.strictEqual(requests.length, 3);
+      assert.strictEqual(requests[0].headers.authorization, "Bearer secret");
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  test("feeds repository state into sorting and the policy", async () => {
+    const states: Record<string, RepositoryState> = { lively: "archived" };
+    const lookup: RepositoryLookup = {
+      description: "test",
+      getState: async (repository) => states[repository.name],
+    };
+    const packageData: Record<string, any> = {
+      lively: {
+        name: "lively",
+        health: computeHealth(lively, { now }),
+        sourceRepository: parseRepository(lively.repository),
+      },
+      abandoned: {
+        name: "abandoned",
+        health: computeHealth(abandoned, { now }),
+      },
+    };
+    await checkRepositoryHealth(packageData, lookup);
+    assert.strictEqual(packageData.lively.health.score, 69);
+    assert.ok(
+      packageData.lively.health.explanation.startsWith("org/lively is archived")
+    );
+
+    const { policy, errors } = validatePolicy(
+      { minHealthScore: 50 },
+      ".packagepilot.json"
+    );
+    assert.deepStrictEqual(errors, []);
+    applyPackagePolicy(packageData, policy);
+    assert.deepStrictEqual(packageData.lively.policyViolations, []);
+    assert.deepStrictEqual(
+      packageData.abandoned.policyViolations.map((violation: any) => [
+        violation.kind,
+        violation.message.split(":")[0],
+      ]),
+      [
+        [
+          "health",
+          "abandoned has a health score of 28, below the policy minimum of 50",
+        ],
+      ]
+    );
+    assert.deepStrictEqual(
+      validatePolicy({ minHealthScore: 150 }, ".packagepilot.json").errors.map(
+        (error) => error.path
+      ),
+      ["policy.minHealthScore"]
+    );
+
+    const packages = buildReportPackages(
+      { "/project/index.ts": ["abandoned", "lively", "unscored"] },
+      { ...packageData, unscored: { name: "unscored" } }
+    );
+    assert.deepStrictEqual(
+      queryReport(packages, { ...defaultReportQuery, sort: "health" })[0]
+        .packages,
+      ["lively", "abandoned", "unscored"]
+    );
+  });
+});
@@ -0,0 +1,248 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  LicenseInfo,
+  buildLicenseInventory,
+  countLicenseCategories,
+  createLicenseLookup,
+  describeLicense,
+  findLicenseConflict,
+  getProjectLicense,
+  renderNotice,
+} from "../licenses";
+import { loadLockfile } from "../lockfile";
+import { buildRegistryConfig, createRegistryClient } from "../registry";
+import { buildLicenseNodes, describeLicenseEntry } from "../views/licenseNodes";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+const license = (declared: string): LicenseInfo =>
+  describeLicense({ license: declared });
+
+suite("Licences", () => {
+  let registry: MockRegistry;
+  let root: string;
+
+  suiteSetup(async () => {
+    registry = await startMockRegistry({
+      "tough-cookie": {
+        name: "tough-cookie",
+        license: "MIT",
+        versions: { "2.5.0": { version: "2.5.0", license: "BSD-3-Clause" } },
+      },
+    });
+  });
+
+  suiteTeardown(() => registry.close());
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-licenses-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const writeJson = (file: string, data: unknown) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), JSON.stringify(data));
+  };
+
+  test("normalises SPDX, legacy and custom declarations", () => {
+    const declared = (manifest: any) => {
+      const info = describeLicense(manifest);
+      return [info.declared, info.category];
+    };
+    assert.deepStrictEqual(declared({ license: "mit" }), ["MIT", "permissive"]);
+    assert.deepStrictEqual(
+      declared({ license: "(MIT OR gpl-3.0-or-later) AND BSD-3-Clause" }),
+      ["(MIT OR GPL-3.0-or-later) AND BSD-3-Clause", "permissive"]
+    );
+    assert.deepStrictEqual(
+      declared({ license: { type: "Apache 2.0", url: "https://x" } }),
+      ["Apache-2.0", "permissive"]
+    );
+    assert.deepStrictEqual(
+      declared({ licenses: [{ type: "GPL-2.0" }, { type: "MPL-2.0" }] }),
+      ["GPL-2.0 OR MPL-2.0", "weak-copyleft"]
+    );
+    assert.deepStrictEqual(declared({ license: "MIT AND AGPL-3.0-only" }), [
+      "MIT AND AGPL-3.0-only",
+      "strong-copyleft",
+    ]);
+    assert.deepStrictEqual(
+      declared({ license: "GPL-2.0+ WITH Classpath-exception-2.0" }),
+      ["GPL-2.0+ WITH Classpath-exception-2.0", "weak-copyleft"]
+    );
+    assert.deepStrictEqual(
+      describeLicense({ license: "SEE LICENSE IN EULA.md" }),
+      {
+        declared: "SEE LICENSE IN EULA.md",
+        file: "EULA.md",
+        category: "unknown",
+      }
+    );
+    assert.deepStrictEqual(declared({ license: "UNLICENSED" }), [
+      "UNLICENSED",
+      "proprietary",
+    ]);
+    assert.deepStrictEqual(declared({ license: "Custom licence" }), [
+      "Custom licence",
+      "unknown",
+    ]);
+    assert.deepStrictEqual(declared({}), ["Unknown", "unknown"]);
+  });
+
+  test("flags dependency licences that clash with the project's", () => {
+    const conflict = (project: string, dependency: string) =>
+      findLicenseConflict(license(project), license(dependency));
+
+    assert.strictEqual(
+      conflict("MIT", "GPL-3.0-only"),
+      "GPL-3.0-only conflicts with the project licence MIT: GPL-3.0-only is strong copyleft, so its terms would extend to the whole project"
+    );
+    assert.strictEqual(conflict("MIT", "MIT OR GPL-3.0-only"), undefined);
+    assert.strictEqual(conflict("MIT", "LGPL-2.1-only"), undefined);
+    assert.strictEqual(
+      conflict("MIT", "GPL-2.0-only WITH Classpath-exception-2.0"),
+      undefined
+    );
+    assert.ok(conflict("GPL-2.0-only", "Apache-2.0")?.includes("can't both"));
+    assert.ok(conflict("GPL-2.0", "GPL-3.0-or-later"));
+    assert.strictEqual(conflict("GPL-2.0-or-later", "Apache-2.0"), undefined);
+    assert.strictEqual(conflict("GPL-3.0-only", "GPL-2.0-or-later"), undefined);
+    assert.ok(conflict("GPL-3.0-only", "GPL-2.0-only"));
+    assert.strictEqual(
+      conflict("GPL-2.0-only OR MIT", "Apache-2.0"),
+      undefined
+    );
+
+    // Projects without a licence are treated as proprietary
+    assert.ok(conflict("UNLICENSED", "AGPL-3.0-only"));
+    assert.strictEqual(conflict("UNLICENSED", "UNLICENSED"), undefined);
+    assert.ok(conflict("MIT", "UNLICENSED")?.includes("redistributed"));
+    assert.strictEqual(conflict("MIT", "SEE LICENSE IN LICENSE"), undefined);
+  });
+
+  test("collects licences across the lockfile's dependency tree", async () => {
+    writeJson("package.json", {
+      name: "app",
+      license: "MIT",
+      dependencies: { request: "^2.88.0", "left-pad": "^1.3.0" },
+    });
+    const locked = (version: string, extra: any = {}) => ({
+      version,
+      ...extra,
+    });
+    writeJson("package-lock.json", {
+      name: "app",
+      lockfileVersion: 3,
+      packages: {
+        "": {
+          name: "app",
+          dependencies: { request: "^2.88.0", "left-pad": "^1.3.0" },
+        },
+        "node_modules/request": locked("2.88.2", {
+          license: "Apache-2.0",
+          dependencies: { "form-data": "~2.3.2", "tough-cookie": "~2.5.0" },
+        }),
+        "node_modules/form-data": locked("2.3.3", {
+          license: "MIT",
+          dependencies: { "combined-stream": "^1.0.6" },
+        }),
+        "node_modules/combined-stream": locked("1.0.8"),
+        "node_modules/tough-cookie": locked("2.5.0"),
+        "node_modules/left-pad": locked("1.3.0", {
+          license: "WTFPL",
+          dependencies: { "copyleft-pad": "^1.0.0" },
+        }),
+        "node_modules/copyleft-pad": locked("1.0.0", {
+          license: "GPL-3.0-only",
+        }),
+        "node_modules/unused": locked("1.0.0", { license: "ISC" }),
+      },
+    });
+    // Installed without a licence in the lockfile: read from package.json
+    writeJson("node_modules/combined-stream/package.json", {
+      name: "combined-stream",
+      version: "1.0.8",
+      licenses: [{ type: "MIT" }],
+    });
+    fs.writeFileSync(
+      path.join(root, "node_modules/combined-stream/License"),
+      "Copyright (c) 2011 Debuggable Limited\n"
+    );
+
+    const lockfile = loadLockfile(root);
+    const project = getProjectLicense(path.join(root, "src"));
+    assert.strictEqual(project.name, "app");
+    const inventory = await buildLicenseInventory({
+      project,
+      packages: [
+        { name: "request", version: "2.88.2" },
+        { name: "left-pad", version: "1.3.0" },
+      ],
+      lockfile,
+      lookup: createLicenseLookup({
+        root,
+        lockfile,
+        client: createRegistryClient(
+          buildRegistryConfig({ registry: registry.url })
+        ),
+      }),
+    });
+
+    assert.deepStrictEqual(
+      inventory.packages.map((entry) => [
+        entry.name,
+        entry.license.declared,
+        entry.direct,
+        entry.requiredBy,
+        !!entry.conflict,
+      ]),
+      [
+        ["combined-stream", "MIT", false, ["request"], false],
+        ["copyleft-pad", "GPL-3.0-only", false, ["left-pad"], true],
+        ["form-data", "MIT", false, ["request"], false],
+        ["left-pad", "WTFPL", true, [], false],
+        ["request", "Apache-2.0", true, [], false],
+        ["tough-cookie", "BSD-3-Clause", false, ["request"], false],
+      ]
+    );
+    assert.deepStrictEqual(countLicenseCategories(inventory), {
+      permissive: 5,
+      "weak-copyleft": 0,
+      "strong-copyleft": 1,
+      unknown: 0,
+      proprietary: 0,
+    });
+
+    const nodes = buildLicenseNodes(inventory);
+    assert.deepStrictEqual(
+      nodes.map((node) => [node.category, node.packages.length]),
+      [
+        ["strong-copyleft", 1],
+        ["permissive", 5],
+      ]
+    );
+    assert.strictEqual(
+      describeLicenseEntry(nodes[0].packages[0].entry),
+      "1.0.0 · GPL-3.0-only · via left-pad"
+    );
+
+    const notice = renderNotice(inventory);
+    assert.ok(
+      notice.startsWith(
+        "THIRD-PARTY SOFTWARE NOTICES\n\napp uses the following 6 third-party packages.\n"
+      )
+    );
+    assert.ok(
+      notice.includes(
+        "combined-stream 1.0.8\nLicense: MIT\nhttps://www.npmjs.com/package/combined-stream/v/1.0.8\n"
+      )
+    );
+    assert.ok(notice.includes("Copyright (c) 2011 Debuggable Limited"));
+    assert.ok(notice.includes("No licence text is installed"));
+  });
+});
@@ -0,0 +1,176 @@
+import * as assert from "assert";
+import { getInstalledPackageInfo } from "../lockfile";
+import { parseBunLockfile } from "../lockfile/bun";
+import { parseNpmLockfile } from "../lockfile/npm";
+import { parsePnpmLockfile } from "../lockfile/pnpm";
+import { parseYarnLockfile } from "../lockfile/yarn";
+import { Lockfile } from "../lockfile/types";
+
+// Every fixture describes the same tree: the root depends on a@1.0.0 and
+// b@1.0.0, and b needs its own copy of a@2.0.0 which depends on c@1.0.0
+const assertFixtureTree = (lockfile: Lockfile) => {
+  const a = getInstalledPackageInfo(lockfile, "a")!;
+  assert.strictEqual(a.installedVersion, "1.0.0");
+  assert.deepStrictEqual(a.versions, ["1.0.0", "2.0.0"]);
+  assert.strictEqual(a.copies, 2);
+
+  const b = getInstalledPackageInfo(lockfile, "b")!;
+  assert.strictEqual(b.transitiveCount, 2);
+  assert.deepStrictEqual(
+    b.dependencyTree.children.map((child) => [child.name, child.version]),
+    [["a", "2.0.0"]]
+  );
+  assert.deepStrictEqual(
+    b.dependencyTree.children[0].children.map((child) => child.name),
+    ["c"]
+  );
+};
+
+suite("Lockfile Parsers", () => {
+  test("package-lock.json v3", () => {
+    const content = JSON.stringify({
+      lockfileVersion: 3,
+      packages: {
+        "": { dependencies: { a: "^1.0.0", b: "^1.0.0" } },
+        "node_modules/a": { version: "1.0.0" },
+        "node_modules/b": { version: "1.0.0", dependencies: { a: "^2.0.0" } },
+        "node_modules/b/node_modules/a": {
+          version: "2.0.0",
+          dependencies: { c: "^1.0.0" },
+        },
+        "node_modules/c": { version: "1.0.0" },
+      },
+    });
+    assertFixtureTree(parseNpmLockfile(content, "package-lock.json"));
+  });
+
+  test("pnpm-lock.yaml v9", () => {
+    const content = [
+      "lockfileVersion: '9.0'",
+      "importers:",
+      "  .:",
+      "    dependencies:",
+      "      a:",
+      "        specifier: ^1.0.0",
+      "        version: 1.0.0",
+      "      b:",
+      "        specifier: ^1.0.0",
+      "        version: 1.0.0",
+      "packages:",
+      "  a@1.0.0: {}",
+      "  a@2.0.0: {}",
+      "  b@1.0.0: {}",
+      "  c@1.0.0: {}",
+      "snapshots:",
+      "  a@1.0.0: {}",
+      "  a@2.0.0:",
+      "    dependencies:",
+      "      c: 1.0.0",
+      "  b@1.0.0:",
+      "    dependencies:",
+      "      a: 2.0.0",
+      "  c@1.0.0: {}",
+    ].join("\n");
+    assertFixtureTree(parsePnpmLockfile(content, "pnpm-lock.yaml"));
+  });
+
+  test("pnpm-lock.yaml v6", () => {
+    const content = [
+      "lockfileVersion: '6.0'",
+      "dependencies:",
+      "  a:",
+      "    specifier: ^1.0.0",
+      "    version: 1.0.0",
+      "  b:",
+      "    specifier: ^1.0.0",
+      "    version: 1.0.0",
+      "packages:",
+      "  /a@1.0.0:",
+      "    dev: false",
+      "  /a@2.0.0:",
+      "    dependencies:",
+      "      c: 1.0.0",
+      "  /b@1.0.0:",
+      "    dependencies:",
+      "      a: 2.0.0",
+      "  /c@1.0.0:",
+      "    dev: false",
+    ].join("\n");
+    assertFixtureTree(parsePnpmLockfile(content, "pnpm-lock.yaml"));
+  });
+
+  test("yarn.lock classic", () => {
+    const content = [
+      "# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.",
+      "# yarn lockfile v1",
+      "",
+      "",
+      'a@^1.0.0, a@^1.0.1:',
+      '  version "1.0.0"',
+      '  resolved "https://registry.yarnpkg.com/a/-/a-1.0.0.tgz"',
+      "",
+      'a@^2.0.0:',
+      '  version "2.0.0"',
+      "  dependencies:",
+      '    c "^1.0.0"',
+      "",
+      'b@^1.0.0:',
+      '  version "1.0.0"',
+      "  dependencies:",
+      '    a "^2.0.0"',
+      "",
+      'c@^1.0.0:',
+      '  version "1.0.0"',
+    ].join("\n");
+    assertFixtureTree(
+      parseYarnLockfile(content, "yarn.lock", { a: "^1.0.0", b: "^1.0.0" })
+    );
+  });
+
+  test("yarn.lock berry", () => {
+    const content = [
+      "__metadata:",
+      "  version: 8",
+      "",
+      '"a@npm:^1.0.0":',
+      "  version: 1.0.0",
+      '  resolution: "a@npm:1.0.0"',
+      "",
+      '"a@npm:^2.0.0":',
+      "  version: 2.0.0",
+      "  dependencies:",
+      "    c: ^1.0.0",
+      "",
+      '"b@npm:^1.0.0":',
+      "  version: 1.0.0",
+      "  dependencies:",
+      "    a: ^2.0.0",
+      "",
+      '"c@npm:^1.0.0":',
+      "  version: 1.0.0",
+      "",
+      '"fixture@workspace:.":',
+      "  version: 0.0.0-use.local",
+      "  dependencies:",
+      "    a: ^1.0.0",
+      "    b: ^1.0.0",
+    ].join("\n");
+    assertFixtureTree(parseYarnLockfile(content, "yarn.lock"));
+  });
+
+  test("bun.lock", () => {
+    const content = `{
+      "lockfileVersion": 1,
+      "workspaces": {
+        "": { "name": "fixture", "dependencies": { "a": "^1.0.0", "b": "^1.0.0", }, },
+      },
+      "packages": {
+        "a": ["a@1.0.0", "", {}, "sha512-a"],
+        "b": ["b@1.0.0", "", { "dependencies": { "a": "^2.0.0" } }, "sha512-b"],
+        "b/a": ["a@2.0.0", "", { "dependencies": { "c": "^1.0.0" } }, "sha512-a2"],
+        "c": ["c@1.0.0", "", {}, "sha512-c"],
+      }
+    }`;
+    assertFixtureTree(parseBunLockfile(content, "bun.lock"));
+  });
+});
@@ -0,0 +1,80 @@
+import * as crypto from "crypto";
+import * as http from "http";
+import { AddressInfo } from "net";
+
+export interface MockRegistry {
+  url: string;
+  // Every request received, for asserting on paths and headers
+  requests: http.IncomingMessage[];
+  close(): Promise<void>;
+}
+
+// Minimal npm registry for tests: serves packuments by name,
+// /downloads/point/last-week/<name> and dependents through /-/v1/search
+// from the given fixtures, with ETags
+export async function startMockRegistry(
+  packuments: Record<string, any>,
+  downloads: Record<string, number> = {},
+  dependents: Record<string, number> = {}
+): Promise<MockRegistry> {
+  const requests: http.IncomingMessage[] = [];
+
+  const server = http.createServer((request, response) => {
+    requests.push(request);
+    const requestUrl = new URL(request.url || "/", "http://localhost");
+    const pathname = decodeURIComponent(requestUrl.pathname);
+    const searchText = requestUrl.searchParams.get("text");
+
+    const downloadsMatch = /\/downloads\/point\/last-week\/(.+)$/.exec(
+      pathname
+    );
+    const downloadsPoint = (name: string) =>
+      name in downloads
+        ? { downloads: downloads[name], package: name }
+        : undefined;
+    // Bulk lookups ("a,b,c") answer with an object keyed by name, null for unknown
+    const body = pathname.endsWith("/-/v1/search")
+      ? {
+          objects: Object.keys(packuments)
+            .filter((name) => searchText && name.includes(searchText))
+            .map((name) => ({
+              package: { name },
+              dependents:
+                name in dependents ? String(dependents[name]) : undefined,
+            })),
+        }
+      : downloadsMatch
+        ? downloadsMatch[1].includes(",")
+          ? Object.fromEntries(
+              downloadsMatch[1]
+                .split(",")
+                .map((name) => [name, downloadsPoint(name) ?? null])
+            )
+          : downloadsPoint(downloadsMatch[1])
+        : packuments[pathname.replace(/^\/+/, "")];
+
+    if (body === undefined) {
+      response.writeHead(404, { "Content-Type": "application/json" });
+      response.end(JSON.stringify({ error: "Not found" }));
+      return;
+    }
+    const json = JSON.stringify(body);
+    const etag = `"${crypto.createHash("sha1").update(json).digest("hex")}"`;
+    if (request.headers["if-none-match"] === etag) {
+      response.writeHead(304, { ETag: etag });
+      response.end();
+      return;
+    }
+    response.writeHead(200, { "Content-Type": "application/json", ETag: etag });
+    response.end(json);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    requests,
+    close: () => new Promise((resolve) => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,183 @@
+import * as assert from "assert";
+import { applyPackagePolicy } from "../core";
+import {
+  listLicenses,
+  parseSpdxExpression,
+  satisfiesExpression,
+} from "../licenses";
+import {
+  checkPackagePolicy,
+  formatPolicySummary,
+  getPolicyResult,
+  isLicenseAllowed,
+} from "../policy";
+import { PackagePolicy, validatePolicy } from "../rules";
+
+const now = new Date("2026-01-01T00:00:00.000Z");
+
+const policy: PackagePolicy = {
+  deniedPackages: [
+    {
+      name: "request",
+      replacements: ["got", "undici"],
+      reason: "Unmaintained",
+    },
+    { name: "@legacy/*", replacements: [] },
+  ],
+  licenses: { allow: ["MIT", "Apache-2.0", "ISC"], deny: ["GPL-3.0-only"] },
+  minWeeklyDownloads: 1000,
+  maxDaysSinceLastPublish: 365,
+};
+
+suite("Dependency Policy", () => {
+  test("parses SPDX expressions with AND binding tighter than OR", () => {
+    const expression = parseSpdxExpression(
+      "MIT OR Apache-2.0 AND (BSD-3-Clause OR GPL-2.0+ WITH Classpath-exception-2.0)"
+    );
+    assert.deepStrictEqual(listLicenses(expression), [
+      "MIT",
+      "Apache-2.0",
+      "BSD-3-Clause",
+      "GPL-2.0",
+    ]);
+    assert.deepStrictEqual(
+      parseSpdxExpression("GPL-2.0+ WITH Classpath-exception-2.0"),
+      { license: "GPL-2.0", plus: true, exception: "Classpath-exception-2.0" }
+    );
+    assert.ok(satisfiesExpression(expression, (license) => license === "MIT"));
+    assert.ok(
+      !satisfiesExpression(
+        parseSpdxExpression("MIT AND GPL-3.0-only"),
+        (license) => license === "MIT"
+      )
+    );
+    assert.throws(() => parseSpdxExpression("MIT OR"), /unexpected end/);
+    assert.throws(() => parseSpdxExpression("(MIT"), /missing "\)"/);
+    assert.throws(() => parseSpdxExpression("MIT Apache-2.0"), /unexpected/);
+  });
+
+  test("validates the policy section of a rule file", () => {
+    const valid = validatePolicy(
+      {
+        deniedPackages: [{ name: "moment", replacements: ["dayjs"] }],
+        licenses: { deny: ["AGPL-3.0-only"] },
+        minWeeklyDownloads: 500,
+      },
+      ".packagepilot.json"
+    );
+    assert.deepStrictEqual(valid.errors, []);
+    assert.deepStrictEqual(valid.policy?.licenses, { deny: ["AGPL-3.0-only"] });
+
+    const invalid = validatePolicy(
+      {
+        deniedPackages: [{ replacements: "dayjs" }],
+        licenses: ["MIT"],
+        minWeeklyDownloads: -1,
+        maxAge: 30,
+      },
+      ".packagepilot.json"
+    );
+    assert.deepStrictEqual(invalid.errors.map((error) => error.path).sort(), [
+      "policy.deniedPackages[0].name",
+      "policy.deniedPackages[0].replacements",
+      "policy.licenses",
+      "policy.maxAge",
+      "policy.minWeeklyDownloads",
+    ]);
+  });
+
+  test("checks names, licences, downloads and publish age", () => {
+    const check = (pkg: any) =>
+      checkPackagePolicy(
+        {
+          weeklyDownloads: 1_000_000,
+          lastPublished: "2025-10-01T00:00:00.000Z",
+          license: "MIT",
+          ...pkg,
+        },
+        policy,
+        now
+      ).map((violation) => [violation.kind, violation.message]);
+
+    assert.deepStrictEqual(check({ name: "lodash" }), []);
+    assert.deepStrictEqual(check({ name: "request", error: "Not found" }), [
+      [
+        "denied",
+        "request is denied by the dependency policy: Unmaintained. Use got or undici instead",
+      ],
+    ]);
+    assert.deepStrictEqual(
+      check({ name: "@legacy/utils", license: "(MIT OR GPL-3.0-only)" }),
+      [["denied", "@legacy/utils is denied by the dependency policy"]]
+    );
+    assert.deepStrictEqual(
+      check({
+        name: "tiny",
+        license: "MIT AND GPL-3.0-only",
+        weeklyDownloads: 12,
+        lastPublished: "2024-06-01T00:00:00.000Z",
+      }),
+      [
+        [
+          "license",
+          "tiny is licensed under MIT AND GPL-3.0-only, which the dependency policy doesn't allow",
+        ],
+        [
+          "downloads",
+          "tiny has 12 weekly downloads, below the policy minimum of 1,000",
+        ],
+        [
+          "age",
+          "tiny was last published 579 days ago, more than the policy maximum of 365",
+        ],
+      ]
+    );
+    assert.deepStrictEqual(check({ name: "mystery", license: undefined }), [
+      ["license", "mystery has no licence information"],
+    ]);
+
+    assert.ok(isLicenseAllowed("isc", policy.licenses));
+    assert.ok(isLicenseAllowed("Custom licence", { deny: ["MIT"] }));
+    assert.ok(!isLicenseAllowed("Custom licence", policy.licenses));
+  });
+
+  test("attaches violations and summarises the result", () => {
+    const packageData: Record<string, any> = {
+      request: {
+        name: "request",
+        license: "Apache-2.0",
+        weeklyDownloads: 15_000_000,
+        alternatives: ["undici", "axios"],
+        alternativeSources: { undici: "rule", axios: "rule" },
+      },
+      lodash: { name: "lodash", license: "MIT", alternatives: [] },
+    };
+    assert.strictEqual(getPolicyResult(packageData), undefined);
+    applyPackagePolicy(packageData, undefined);
+    assert.strictEqual(getPolicyResult(packageData), undefined);
+
+    applyPackagePolicy(packageData, policy);
+    assert.deepStrictEqual(packageData.request.alternatives, [
+      "got",
+      "undici",
+      "axios",
+    ]);
+    assert.deepStrictEqual(packageData.request.alternativeSources, {
+      got: "policy",
+      undici: "policy",
+      axios: "rule",
+    });
+    assert.deepStrictEqual(packageData.lodash.policyViolations, []);
+
+    const result = getPolicyResult(packageData)!;
+    assert.strictEqual(result.passed, false);
+    assert.strictEqual(
+      formatPolicySummary(result),
+      "Dependency policy failed: 1 violation in 1 of 2 packages"
+    );
+    assert.strictEqual(
+      formatPolicySummary({ passed: true, checked: 1, violations: [] }),
+      "Dependency policy passed: 1 package checked"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { scanImports } from "../imports/scanner";
+import { reconcileImports } from "../manifest/reconcile";
+
+suite("Manifest Reconciliation", () => {
+  let root: string;
+
+  const writeFile = (relative: string, content: string) => {
+    const filePath = path.join(root, relative);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("reports unused, undeclared, dev-only and orphan @types", () => {
+    writeFile(
+      "package.json",
+      JSON.stringify({
+        name: "fixture",
+        dependencies: { axios: "^1.0.0", moment: "^2.0.0" },
+        devDependencies: {
+          chalk: "^5.0.0",
+          mocha: "^10.0.0",
+          "@types/mocha": "^10.0.0",
+          "@types/express": "^4.0.0",
+          "@types/node": "^20.0.0",
+        },
+        scripts: { test: "mocha" },
+      })
+    );
+    const sources = [
+      writeFile(
+        "src/index.ts",
+        'import axios from "axios";\nimport chalk from "chalk";\nimport lodash from "lodash";'
+      ),
+      writeFile("src/index.test.ts", 'import chalk from "chalk";'),
+    ];
+
+    const importRecords = Object.fromEntries(
+      sources.map((file) => [
+        file,
+        scanImports(fs.readFileSync(file, "utf8"), file),
+      ])
+    );
+    const [report] = reconcileImports(importRecords, root);
+
+    assert.deepStrictEqual(
+      report.findings.map((finding) => [finding.kind, finding.packageName]),
+      [
+        ["dev-only", "chalk"],
+        ["undeclared", "lodash"],
+        ["unused", "moment"],
+        ["orphan-types", "@types/express"],
+      ]
+    );
+    assert.deepStrictEqual(report.findings[0].files, [
+      path.join(root, "src/index.ts"),
+    ]);
+  });
+
+  test("skips unused checks when only part of the package was scanned", () => {
+    writeFile(
+      "package.json",
+      JSON.stringify({ dependencies: { axios: "^1.0.0" } })
+    );
+    const file = writeFile("src/index.ts", 'import "reflect-metadata";');
+    const [report] = reconcileImports(
+      { [file]: scanImports(fs.readFileSync(file, "utf8"), file) },
+      path.join(root, "src")
+    );
+
+    assert.deepStrictEqual(
+      report.findings.map((finding) => finding.kind),
+      ["undeclared"]
+    );
+  });
+});
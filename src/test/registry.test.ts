@@ -0,0 +1,129 @@
+import * as assert from "assert";
+import {
+  buildRegistryConfig,
+  createRegistryClient,
+  parseNpmrc,
+} from "../registry";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+suite("Registry Client", () => {
+  let publicRegistry: MockRegistry;
+  let privateRegistry: MockRegistry;
+
+  suiteSetup(async () => {
+    publicRegistry = await startMockRegistry(
+      { lodash: { name: "lodash", "dist-tags": { latest: "4.17.21" } } },
+      { lodash: 1000, react: 500, "@types/node": 200 }
+    );
+    privateRegistry = await startMockRegistry({
+      "@ourco/ui": { name: "@ourco/ui", "dist-tags": { latest: "1.0.0" } },
+    });
+  });
+
+  suiteTeardown(async () => {
+    await publicRegistry.close();
+    await privateRegistry.close();
+  });
+
+  test("parses .npmrc with env expansion, scopes and auth", () => {
+    const values = parseNpmrc(
+      [
+        "# comment",
+        "registry=https://registry.example.com",
+        "@ourco:registry=https://npm.pkg.github.com/",
+        "//npm.pkg.github.com/:_authToken=${GH_TOKEN}",
+        "//registry.example.com/:username=me",
+        "//registry.example.com/:_password=c2VjcmV0",
+        "strict-ssl=false",
+        "https-proxy=http://proxy.local:3128",
+        "noproxy=localhost,.internal",
+      ].join("\n"),
+      { GH_TOKEN: "ghp_123" }
+    );
+    const config = buildRegistryConfig(values);
+
+    assert.strictEqual(config.registry, "https://registry.example.com/");
+    assert.deepStrictEqual(config.scopes, {
+      "@ourco": "https://npm.pkg.github.com/",
+    });
+    assert.strictEqual(config.auth["//npm.pkg.github.com/"].token, "ghp_123");
+    assert.strictEqual(
+      config.auth["//registry.example.com/"].basic,
+      Buffer.from("me:secret").toString("base64")
+    );
+    assert.strictEqual(config.strictSSL, false);
+    assert.strictEqual(config.httpsProxy, "http://proxy.local:3128");
+    assert.deepStrictEqual(config.noProxy, ["localhost", ".internal"]);
+  });
+
+  test("routes scoped packages and sends tokens only to their registry", async () => {
+    const privateDart = privateRegistry.url.replace(/^http:/, "");
+    const config = buildRegistryConfig({
+      registry: publicRegistry.url,
+      "@ourco:registry": privateRegistry.url,
+      [`${privateDart}:_authToken`]: "secret-token",
+    });
+    const client = createRegistryClient(config, {
+      downloadsEndpoint: `${publicRegistry.url}downloads`,
+    });
+
+    const { data: lodash } = await client.getPackument("lodash");
+    assert.strictEqual(lodash["dist-tags"].latest, "4.17.21");
+    assert.strictEqual(await client.getWeeklyDownloads("lodash"), 1000);
+    assert.strictEqual(
+      publicRegistry.requests[0].headers.authorization,
+      undefined
+    );
+
+    const { data: ui } = await client.getPackument("@ourco/ui");
+    assert.strictEqual(ui.name, "@ourco/ui");
+    assert.strictEqual(privateRegistry.requests[0].url, "/@ourco%2fui");
+    assert.strictEqual(
+      privateRegistry.requests[0].headers.authorization,
+      "Bearer secret-token"
+    );
+
+    // Private scopes never hit the public downloads API
+    assert.strictEqual(await client.getWeeklyDownloads("@ourco/ui"), undefined);
+    assert.strictEqual(publicRegistry.requests.length, 2);
+  });
+
+  test("batches unscoped download counts into one request", async () => {
+    const client = createRegistryClient(
+      buildRegistryConfig({ registry: publicRegistry.url }),
+      { downloadsEndpoint: `${publicRegistry.url}downloads` }
+    );
+    const before = publicRegistry.requests.length;
+
+    const results = await client.getBulkWeeklyDownloads([
+      "lodash",
+      "react",
+      "@types/node",
+    ]);
+
+    const paths = publicRegistry.requests
+      .slice(before)
+      .map((request) => decodeURIComponent(request.url!))
+      .sort();
+    assert.deepStrictEqual(paths, [
+      "/downloads/point/last-week/@types/node",
+      "/downloads/point/last-week/lodash,react",
+    ]);
+    assert.deepStrictEqual(
+      Object.fromEntries(
+        Object.entries(results).map(([name, result]) => [
+          name,
+          result instanceof Error ? result.message : result.data,
+        ])
+      ),
+      { lodash: 1000, react: 500, "@types/node": 200 }
+    );
+  });
+
+  test("skips download counts without an endpoint", async () => {
+    const client = createRegistryClient(
+      buildRegistryConfig({ registry: publicRegistry.url })
+    );
+    assert.strictEqual(await client.getWeeklyDownloads("lodash"), undefined);
+  });
+});
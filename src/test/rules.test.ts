@@ -0,0 +1,236 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  builtinRuleSet,
+  createRuleEngine,
+  findRuleFile,
+  formatRuleError,
+  loadRuleFile,
+  validateCodemods,
+  validateRules,
+} from "../rules";
+
+suite("Recommendation Rules", () => {
+  test("built-in rules cover the classic replacements", () => {
+    const engine = createRuleEngine([builtinRuleSet]);
+    assert.deepStrictEqual(engine.recommend("moment")?.alternatives, [
+      "date-fns",
+      "dayjs",
+      "luxon",
+    ]);
+    assert.strictEqual(engine.recommend("underscore")?.ruleId, "lodash");
+    assert.strictEqual(engine.recommend("request")?.severity, "warning");
+    assert.strictEqual(engine.recommend("react"), undefined);
+  });
+
+  test("workspace overrides user settings, which override built-ins", () => {
+    const user = validateRules(
+      [
+        {
+          id: "moment",
+          match: { name: "moment" },
+          alternatives: ["luxon"],
+          reason: "Team standard",
+        },
+        { id: "jquery", disabled: true },
+      ],
+      "Settings"
+    );
+    const workspace = validateRules(
+      [
+        {
+          id: "moment",
+          match: { name: "moment" },
+          alternatives: ["dayjs"],
+          reason: "Smallest drop-in",
+          severity: "error",
+        },
+      ],
+      ".packagepilot.json"
+    );
+    assert.deepStrictEqual([...user.errors, ...workspace.errors], []);
+
+    const engine = createRuleEngine([
+      builtinRuleSet,
+      {
+        source: "workspace",
+        origin: ".packagepilot.json",
+        rules: workspace.rules,
+      },
+      { source: "user", origin: "Settings", rules: user.rules },
+    ]);
+
+    const moment = engine.recommend("moment")!;
+    assert.deepStrictEqual(moment.alternatives, ["dayjs"]);
+    assert.strictEqual(moment.source, "workspace");
+    assert.strictEqual(moment.severity, "error");
+    assert.strictEqual(engine.recommend("jquery"), undefined);
+    assert.strictEqual(engine.recommend("request")?.source, "builtin");
+  });
+
+  test("matches by version range and name pattern", () => {
+    const { rules, errors } = validateRules(
+      [
+        {
+          id: "old-axios",
+          match: { name: "axios", version: "<1.0.0" },
+          alternatives: ["axios@1"],
+          reason: "0.x is unmaintained",
+        },
+        {
+          id: "lodash-per-method",
+          match: { pattern: "lodash.*" },
+          alternatives: ["lodash-es"],
+          reason: "Per-method packages are no longer updated",
+          links: ["https://lodash.com/per-method-packages"],
+        },
+        {
+          id: "babel-regex",
+          match: { pattern: "/^@babel\\/plugin-proposal-/" },
+          alternatives: ["@babel/preset-env"],
+          reason: "Proposals are part of the language now",
+        },
+      ],
+      "test"
+    );
+    assert.deepStrictEqual(errors, []);
+    const engine = createRuleEngine([
+      { source: "user", origin: "test", rules },
+    ]);
+
+    assert.strictEqual(
+      engine.recommend("axios", "0.27.2")?.ruleId,
+      "old-axios"
+    );
+    assert.strictEqual(engine.recommend("axios", "1.6.0"), undefined);
+    assert.strictEqual(engine.recommend("axios"), undefined);
+    assert.strictEqual(
+      engine.recommend("lodash.merge")?.links[0].url,
+      "https://lodash.com/per-method-packages"
+    );
+    assert.strictEqual(engine.recommend("lodashmerge"), undefined);
+    assert.strictEqual(
+      engine.recommend("@babel/plugin-proposal-class-properties")?.ruleId,
+      "babel-regex"
+    );
+  });
+
+  test("reports readable errors and keeps the valid rules", () => {
+    const { rules, errors } = validateRules(
+      [
+        {
+          id: "ok",
+          match: { name: "left-pad" },
+          alternatives: ["String.prototype.padStart"],
+          reason: "Built in",
+        },
+        {
+          id: "bad",
+          match: { name: "x", version: "1.x.y.z" },
+          alternatives: "y",
+          reason: "",
+          severity: "fatal",
+          colour: "red",
+        },
+        { id: "ok", disabled: true },
+      ],
+      ".packagepilot.json"
+    );
+
+    assert.deepStrictEqual(
+      rules.map((rule) => rule.id),
+      ["ok"]
+    );
+    assert.deepStrictEqual(errors.map(formatRuleError), [
+      ".packagepilot.json: rules[1].colour: unknown property (expected one of id, match, alternatives, reason, severity, links, disabled)",
+      '.packagepilot.json: rules[1].match.version: "1.x.y.z" is not a valid semver range',
+      '.packagepilot.json: rules[1].alternatives: must be an array of strings, got "y"',
+      '.packagepilot.json: rules[1].reason: must be a non-empty string, got ""',
+      '.packagepilot.json: rules[1].severity: must be one of info, warning, error, got "fatal"',
+      '.packagepilot.json: rules[2].id: duplicate rule id "ok"',
+    ]);
+  });
+
+  test("loads YAML rule files from parent directories", () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-rules-"));
+    try {
+      fs.writeFileSync(
+        path.join(root, ".packagepilot.yaml"),
+        [
+          "rules:",
+          "  - id: request",
+          "    match: { name: request }",
+          "    alternatives: [undici]",
+          "    reason: Use the fetch built into Node",
+        ].join("\n")
+      );
+      const nested = path.join(root, "packages", "app");
+      fs.mkdirSync(nested, { recursive: true });
+
+      const ruleFile = findRuleFile(nested)!;
+      assert.strictEqual(ruleFile, path.join(root, ".packagepilot.yaml"));
+      const { ruleSet, errors } = loadRuleFile(ruleFile);
+      assert.deepStrictEqual(errors, []);
+      assert.deepStrictEqual(
+        createRuleEngine([builtinRuleSet, ruleSet]).recommend("request")
+          ?.alternatives,
+        ["undici"]
+      );
+    } finally {
+      fs.rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  test("validates codemod definitions and applies id precedence", () => {
+    const { codemods, errors } = validateCodemods(
+      [
+        {
+          id: "axios-to-ky",
+          from: "axios",
+          to: "ky",
+          specifiers: { axios: "ky", "axios/*": "ky" },
+          rename: { axios: "ky-client" },
+        },
+        { id: "moment-to-dayjs", disabled: true },
+        { id: "missing-to", from: "left-pad" },
+      ],
+      ".packagepilot.json"
+    );
+    assert.deepStrictEqual(errors.map(formatRuleError), [
+      '.packagepilot.json: codemods[0].specifiers.axios/*: deep import patterns must end in "/*" on both sides',
+      '.packagepilot.json: codemods[0].rename.axios: "ky-client" is not a valid identifier',
+      ".packagepilot.json: codemods[2].to: must be a non-empty string, got undefined",
+    ]);
+    assert.deepStrictEqual(codemods, [
+      { id: "moment-to-dayjs", from: "", to: "", disabled: true },
+    ]);
+
+    const engine = createRuleEngine([
+      builtinRuleSet,
+      {
+        source: "user",
+        origin: "Settings",
+        rules: [],
+        codemods: [{ id: "ky", from: "axios", to: "ky" }],
+      },
+      {
+        source: "workspace",
+        origin: ".packagepilot.json",
+        rules: [],
+        codemods: [{ id: "ky", from: "axios", to: "ky", require: false }],
+      },
+    ]);
+    assert.deepStrictEqual(engine.codemods, [
+      {
+        id: "ky",
+        from: "axios",
+        to: "ky",
+        require: false,
+        source: "workspace",
+        origin: ".packagepilot.json",
+      },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from "assert";
+import { scanImports } from "../imports/scanner";
+
+suite("Import Scanner", () => {
+  test("finds multi-line and side-effect imports", () => {
+    const records = scanImports(
+      'import {\n  a,\n  b as c\n} from "x";\nimport "reflect-metadata";\n',
+      "file.ts"
+    );
+    assert.deepStrictEqual(
+      records.map((r) => [r.kind, r.specifier]),
+      [
+        ["static", "x"],
+        ["static", "reflect-metadata"],
+      ]
+    );
+    assert.deepStrictEqual(records[0].names, [
+      { imported: "a", local: "a", typeOnly: undefined },
+      { imported: "b", local: "c", typeOnly: undefined },
+    ]);
+    assert.deepStrictEqual(records[0].range.start, { line: 0, character: 0 });
+    assert.deepStrictEqual(records[0].specifierRange, {
+      start: { line: 3, character: 8 },
+      end: { line: 3, character: 9 },
+    });
+  });
+
+  test("classifies re-exports, type-only and require forms", () => {
+    const source = [
+      'export * from "a";',
+      'export { x as y } from "b";',
+      'import type { T } from "c";',
+      'import d = require("d");',
+      'const { e, f: g } = require("e");',
+      'const p = require.resolve("f");',
+      'const m = await import("g");',
+    ].join("\n");
+    const records = scanImports(source, "file.ts");
+    assert.deepStrictEqual(
+      records.map((r) => [r.kind, r.specifier]),
+      [
+        ["re-export", "a"],
+        ["re-export", "b"],
+        ["type-only", "c"],
+        ["require", "d"],
+        ["require", "e"],
+        ["require", "f"],
+        ["dynamic", "g"],
+      ]
+    );
+    assert.deepStrictEqual(
+      records[4].names.map((n) => `${n.imported}:${n.local}`),
+      ["e:e", "f:g"]
+    );
+    assert.deepStrictEqual(records[6].names, [{ imported: "*", local: "m" }]);
+  });
+
+  test("ignores comments and strings", () => {
+    const source = [
+      '// import a from "commented";',
+      '/* require("block") */',
+      'const s = "import b from \'in-string\'";',
+      "const t = `require('in-template')`;",
+    ].join("\n");
+    assert.deepStrictEqual(scanImports(source, "file.js"), []);
+  });
+
+  test("parses JSX files", () => {
+    const records = scanImports(
+      'import React from "react";\nexport const A = () => <div />;\n',
+      "component.jsx"
+    );
+    assert.deepStrictEqual(
+      records.map((r) => r.specifier),
+      ["react"]
+    );
+  });
+});
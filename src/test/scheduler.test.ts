@@ -0,0 +1,120 @@
+import * as assert from "assert";
+import * as http from "http";
+import { AddressInfo } from "net";
+import axios from "axios";
+import {
+  RequestFailedError,
+  createRequestScheduler,
+  parseRetryAfter,
+} from "../registry";
+
+suite("Request Scheduler", () => {
+  let server: http.Server;
+  let url: string;
+  // Responses to hand out in order; the last one repeats
+  let responses: {
+    status: number;
+    headers?: Record<string, string>;
+    delay?: number;
+  }[];
+  let hits: number;
+
+  suiteSetup(async () => {
+    server = http.createServer((_request, response) => {
+      const next = responses[Math.min(hits, responses.length - 1)];
+      hits++;
+      setTimeout(() => {
+        response.writeHead(next.status, next.headers);
+        response.end(JSON.stringify({ hit: hits }));
+      }, next.delay ?? 0);
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  suiteTeardown(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  setup(() => {
+    hits = 0;
+    responses = [{ status: 200 }];
+  });
+
+  test("never runs more tasks than the concurrency limit", async () => {
+    const scheduler = createRequestScheduler({ concurrency: 3 });
+    let running = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 10 }, (_, i) =>
+        scheduler.schedule(`task ${i}`, async () => {
+          running++;
+          peak = Math.max(peak, running);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          running--;
+        })
+      )
+    );
+
+    assert.strictEqual(peak, 3);
+  });
+
+  test("retries 429 and 5xx responses, honouring Retry-After", async () => {
+    responses = [
+      { status: 429, headers: { "Retry-After": "0" } },
+      { status: 503 },
+      { status: 200 },
+    ];
+    const scheduler = createRequestScheduler({ baseDelay: 1 });
+
+    const response = await scheduler.schedule(url, (signal) =>
+      axios.get(url, { signal })
+    );
+
+    assert.strictEqual(response.status, 200);
+    assert.strictEqual(hits, 3);
+  });
+
+  test("gives up on non-retryable responses and after the retry budget", async () => {
+    const scheduler = createRequestScheduler({ retries: 2, baseDelay: 1 });
+
+    responses = [{ status: 404 }];
+    await assert.rejects(
+      scheduler.schedule(url, (signal) => axios.get(url, { signal })),
+      (error: RequestFailedError) =>
+        error.attempts === 1 && error.status === 404
+    );
+
+    hits = 0;
+    responses = [{ status: 500 }];
+    await assert.rejects(
+      scheduler.schedule(url, (signal) => axios.get(url, { signal })),
+      (error: RequestFailedError) =>
+        error.attempts === 3 && error.status === 500
+    );
+    assert.strictEqual(hits, 3);
+  });
+
+  test("aborts attempts that exceed the timeout", async () => {
+    responses = [{ status: 200, delay: 200 }];
+    const scheduler = createRequestScheduler({ timeout: 20, retries: 0 });
+
+    await assert.rejects(
+      scheduler.schedule(url, (signal) => axios.get(url, { signal })),
+      /timed out after 20ms/
+    );
+  });
+
+  test("parses Retry-After seconds and HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    assert.strictEqual(parseRetryAfter("120", now), 120000);
+    assert.strictEqual(
+      parseRetryAfter("Mon, 01 Jan 2024 00:00:30 GMT", now),
+      30000
+    );
+    assert.strictEqual(parseRetryAfter("soon", now), undefined);
+  });
+});
@@ -0,0 +1,169 @@
+import * as assert from "assert";
+import { buildRegistryConfig, createRegistryClient } from "../registry";
+import {
+  PackageSignals,
+  createScoringStrategy,
+  rankAlternatives,
+  scoreAllDimensions,
+  signalsFromPackument,
+} from "../scoring";
+import { startMockRegistry } from "./mockRegistry";
+
+const now = Date.parse("2024-06-01T00:00:00Z");
+
+// A heavy, popular, stale package and a light, niche, active one
+const heavy: PackageSignals = {
+  name: "heavy",
+  version: "2.29.4",
+  unpackedSize: 4 * 1024 * 1024,
+  dependencyCount: 0,
+  weeklyDownloads: 20_000_000,
+  dependents: 60_000,
+  lastPublished: "2022-07-06T00:00:00Z",
+  releasesLastYear: 0,
+  maintainers: 4,
+  advisories: [],
+};
+const light: PackageSignals = {
+  name: "light",
+  version: "1.11.11",
+  unpackedSize: 40 * 1024,
+  dependencyCount: 0,
+  weeklyDownloads: 20_000,
+  dependents: 300,
+  lastPublished: "2024-05-01T00:00:00Z",
+  releasesLastYear: 6,
+  maintainers: 1,
+  advisories: [],
+};
+
+suite("Package Scoring", () => {
+  test("scores each dimension from its signals", () => {
+    const scores = scoreAllDimensions(light, now);
+    assert.ok(scores.weight!.score > 70, scores.weight!.detail);
+    assert.ok(scores.maintenance!.score > 80, scores.maintenance!.detail);
+    assert.strictEqual(scores.security!.score, 100);
+
+    const vulnerable = scoreAllDimensions(
+      {
+        ...light,
+        advisories: [
+          {
+            id: "GHSA-1",
+            aliases: [],
+            summary: "",
+            severity: "high",
+            affectedRanges: [],
+          },
+        ],
+      },
+      now
+    );
+    assert.strictEqual(vulnerable.security!.score, 60);
+    assert.strictEqual(
+      scoreAllDimensions({ ...light, deprecated: true }, now).maintenance!
+        .score,
+      0
+    );
+  });
+
+  test("skips dimensions without signals and renormalises weights", () => {
+    const breakdown = createScoringStrategy("weight").score(
+      { name: "bare", unpackedSize: 10 * 1024 },
+      now
+    );
+    assert.deepStrictEqual(
+      breakdown.dimensions.map((entry) => [entry.dimension, entry.weight]),
+      [["weight", 1]]
+    );
+    assert.strictEqual(breakdown.total, 100);
+  });
+
+  test("weight and user-base strategies rank alternatives differently", () => {
+    const byWeight = rankAlternatives(
+      createScoringStrategy("weight"),
+      heavy,
+      [heavy, light],
+      now
+    );
+    const byUsers = rankAlternatives(
+      createScoringStrategy("userbase"),
+      heavy,
+      [light, heavy],
+      now
+    );
+    assert.deepStrictEqual(
+      byWeight.alternatives.map((alt) => alt.name),
+      ["light", "heavy"]
+    );
+    assert.deepStrictEqual(
+      byUsers.alternatives.map((alt) => alt.name),
+      ["heavy", "light"]
+    );
+  });
+
+  test("hybrid blends both strategies by the configured mix", () => {
+    const weight = createScoringStrategy("weight").score(heavy, now);
+    const users = createScoringStrategy("userbase").score(heavy, now);
+    const hybrid = createScoringStrategy("hybrid", { hybridMix: 0.25 }).score(
+      heavy,
+      now
+    );
+
+    assert.strictEqual(
+      hybrid.total,
+      Math.round(0.25 * weight.total + 0.75 * users.total)
+    );
+    const weights = Object.fromEntries(
+      hybrid.dimensions.map((entry) => [entry.dimension, entry.weight])
+    );
+    assert.strictEqual(weights.weight, 0.25 * 0.6);
+    assert.strictEqual(weights.userBase, 0.75 * 0.6);
+    assert.throws(() => createScoringStrategy("random"), /Unknown scoring/);
+  });
+
+  test("reads signals from a packument and dependents from search", async () => {
+    const packument = {
+      name: "light",
+      "dist-tags": { latest: "1.1.0" },
+      maintainers: [{ name: "a" }, { name: "b" }],
+      time: {
+        modified: "2024-05-02T00:00:00Z",
+        "1.0.0": "2022-01-01T00:00:00Z",
+        "1.1.0": "2024-05-01T00:00:00Z",
+      },
+      versions: {
+        "1.0.0": { dist: { unpackedSize: 1000 } },
+        "1.1.0": {
+          dependencies: { tslib: "^2.0.0" },
+          dist: { unpackedSize: 2000 },
+        },
+      },
+    };
+    assert.deepStrictEqual(signalsFromPackument(packument, undefined, now), {
+      name: "light",
+      version: "1.1.0",
+      unpackedSize: 2000,
+      dependencyCount: 1,
+      lastPublished: "2024-05-01T00:00:00Z",
+      releasesLastYear: 1,
+      maintainers: 2,
+      deprecated: false,
+    });
+
+    const registry = await startMockRegistry(
+      { light: packument, "light-extra": {} },
+      {},
+      { light: 300 }
+    );
+    try {
+      const client = createRegistryClient(
+        buildRegistryConfig({ registry: registry.url })
+      );
+      assert.strictEqual(await client.getDependents("light"), 300);
+      assert.strictEqual(await client.getDependents("light-extra"), undefined);
+    } finally {
+      await registry.close();
+    }
+  });
+});
@@ -0,0 +1,290 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { sizePackageData } from "../core";
+import { buildReportDocument } from "../export";
+import { scanImports } from "../imports/scanner";
+import { loadLockfile } from "../lockfile";
+import { buildRegistryConfig, createRegistryClient } from "../registry";
+import {
+  buildBundleEntry,
+  computeInstallSize,
+  formatSizeDelta,
+  loadEsbuild,
+  measureImportCost,
+} from "../size";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+// Packument with the given versions, each `[unpackedSize, dependencies]`
+const packument = (
+  name: string,
+  versions: Record<string, [number | undefined, Record<string, string>?]>
+) => {
+  const names = Object.keys(versions);
+  return {
+    name,
+    "dist-tags": { latest: names[names.length - 1] },
+    versions: Object.fromEntries(
+      Object.entries(versions).map(([version, [size, dependencies]]) => [
+        version,
+        {
+          name,
+          version,
+          dependencies,
+          dist: size === undefined ? {} : { unpackedSize: size, fileCount: 10 },
+        },
+      ])
+    ),
+  };
+};
+
+suite("Sizes", () => {
+  let registry: MockRegistry;
+  let root: string;
+
+  suiteSetup(async () => {
+    registry = await startMockRegistry({
+      app: packument("app", {
+        "1.0.0": [1000, { a: "^1.0.0", b: "^2.0.0", nosize: "*" }],
+      }),
+      a: packument("a", {
+        "1.1.0": [200, { b: "^2.0.0" }],
+        "1.2.0": [300, { b: "^2.0.0" }],
+      }),
+      b: packument("b", {
+        "2.0.0": [40],
+        "2.1.0": [50],
+        "3.0.0": [60],
+      }),
+      nosize: packument("nosize", { "1.0.0": [undefined] }),
+      "mirrored-lib": packument("mirrored-lib", {
+        "2.0.0": [undefined, { nosize: "^1.0.0" }],
+      }),
+      "tiny-lib": packument("tiny-lib", { "1.0.0": [5000, { b: "^2.0.0" }] }),
+      "huge-lib": packument("huge-lib", { "4.0.0": [90000] }),
+    });
+  });
+
+  suiteTeardown(() => registry.close());
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-size-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  const client = () =>
+    createRegistryClient(buildRegistryConfig({ registry: registry.url }));
+
+  const writeFile = (file: string, contents: string) => {
+    fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+    fs.writeFileSync(path.join(root, file), contents);
+  };
+
+  // An ES module package with a small and a large export
+  const installTinyLib = () => {
+    writeFile(
+      "node_modules/tiny-lib/package.json",
+      JSON.stringify({
+        name: "tiny-lib",
+        version: "1.0.0",
+        module: "index.js",
+        sideEffects: false,
+      })
+    );
+    writeFile(
+      "node_modules/tiny-lib/index.js",
+      [
+        "export const small = () => 1;",
+        `export const large = () => ${JSON.stringify(
+          Array.from({ length: 200 }, (_, i) => `entry ${i}`)
+        )};`,
+      ].join("\n")
+    );
+  };
+
+  test("totals the install tree, counting each version once", async () => {
+    const size = await computeInstallSize("app", "1.0.0", {
+      client: client(),
+    });
+    // app + a@1.2.0 + b@2.1.0 (once) + nosize
+    assert.deepStrictEqual(size, {
+      unpackedSize: 1000,
+      fileCount: 10,
+      totalSize: 1350,
+      totalFiles: 30,
+      packageCount: 4,
+      unknownSizes: 1,
+    });
+
+    const truncated = await computeInstallSize("app", "1.0.0", {
+      client: client(),
+      maxPackages: 2,
+    });
+    assert.strictEqual(truncated.truncated, true);
+    assert.strictEqual(truncated.packageCount, 2);
+  });
+
+  test("leaves the install size unknown when the registry has no sizes", async () => {
+    const packageData: Record<string, any> = {
+      "mirrored-lib": { name: "mirrored-lib", version: "2.0.0" },
+    };
+    await sizePackageData(packageData, {
+      client: client(),
+      root,
+      installSize: true,
+      bundleSize: false,
+    });
+    const { install } = packageData["mirrored-lib"].size;
+    assert.deepStrictEqual(install, {
+      unpackedSize: undefined,
+      fileCount: undefined,
+      totalFiles: 0,
+      packageCount: 2,
+      unknownSizes: 2,
+    });
+    // Nothing is exported rather than a size of 0
+    const document = buildReportDocument({
+      root,
+      importRecords: {
+        [path.join(root, "index.js")]: scanImports(
+          'import lib from "mirrored-lib";',
+          "index.js"
+        ),
+      },
+      packageData,
+      toolVersion: "0.0.1",
+    });
+    assert.ok(
+      !("installSize" in JSON.parse(JSON.stringify(document)).packages[0])
+    );
+  });
+
+  test("follows the lockfile's versions when it has the package", async () => {
+    writeFile(
+      "package-lock.json",
+      JSON.stringify({
+        name: "project",
+        lockfileVersion: 3,
+        packages: {
+          "": { dependencies: { app: "^1.0.0" } },
+          "node_modules/app": {
+            version: "1.0.0",
+            dependencies: { a: "^1.0.0", b: "^2.0.0" },
+          },
+          "node_modules/a": { version: "1.1.0", dependencies: { b: "^2" } },
+          "node_modules/b": { version: "2.0.0" },
+        },
+      })
+    );
+    const size = await computeInstallSize("app", "1.0.0", {
+      client: client(),
+      lockfile: loadLockfile(root),
+    });
+    assert.strictEqual(size.totalSize, 1240);
+    assert.strictEqual(size.packageCount, 3);
+  });
+
+  test("builds a bundle entry from the imports", () => {
+    const records = scanImports(
+      [
+        'import def, { map as m, type T } from "lib";',
+        'import type { U } from "lib";',
+        'import * as ns from "other";',
+        'import "polyfill";',
+        'const { pick } = require("cjs");',
+      ].join("\n"),
+      "index.ts"
+    );
+    assert.strictEqual(
+      buildBundleEntry(records),
+      [
+        'import { default as _0 } from "lib";',
+        'import { map as _1 } from "lib";',
+        'import * as _2 from "other";',
+        'import "polyfill";',
+        'const _3 = require("cjs")["pick"];',
+        "export { _0, _1, _2, _3 };",
+        "",
+      ].join("\n")
+    );
+  });
+
+  test("measures only what is imported from node_modules", async () => {
+    installTinyLib();
+    const esbuild = loadEsbuild(root);
+    assert.ok(esbuild);
+    const records = scanImports(
+      'import { small } from "tiny-lib";',
+      "index.js"
+    );
+
+    const imported = await measureImportCost(
+      esbuild,
+      root,
+      "tiny-lib",
+      records
+    );
+    const whole = await measureImportCost(esbuild, root, "tiny-lib");
+    assert.ok(!(imported instanceof Error) && !(whole instanceof Error));
+    assert.strictEqual(imported.treeShaken, true);
+    assert.strictEqual(whole.treeShaken, false);
+    assert.ok(imported.minified < 100);
+    assert.ok(whole.minified > 1000);
+    assert.ok(whole.gzipped < whole.minified);
+
+    const missing = await measureImportCost(esbuild, root, "not-installed");
+    assert.ok(missing instanceof Error);
+    assert.match(missing.message, /not-installed/);
+  });
+
+  test("sizes packages and their alternatives for the cards", async () => {
+    installTinyLib();
+    writeFile(
+      "node_modules/huge-lib/package.json",
+      JSON.stringify({ name: "huge-lib", version: "3.0.0" })
+    );
+    writeFile("node_modules/huge-lib/index.js", "export const huge = 1;");
+    const packageData: Record<string, any> = {
+      "tiny-lib": {
+        name: "tiny-lib",
+        version: "1.0.0",
+        alternatives: ["huge-lib"],
+      },
+    };
+    await sizePackageData(packageData, {
+      client: client(),
+      root,
+      importRecords: {
+        [path.join(root, "index.js")]: scanImports(
+          'import { small } from "tiny-lib";',
+          "index.js"
+        ),
+      },
+      installSize: true,
+      bundleSize: true,
+    });
+
+    const { size, alternativeSizes } = packageData["tiny-lib"];
+    assert.strictEqual(size.install.totalSize, 5050);
+    assert.strictEqual(size.bundle.treeShaken, true);
+    // Alternatives are bundled whole, so they're compared with the whole
+    assert.strictEqual(size.wholeBundle.treeShaken, false);
+    assert.ok(size.wholeBundle.gzipped > size.bundle.gzipped);
+    // Another version is installed, so only the install size is known
+    assert.deepStrictEqual(Object.keys(alternativeSizes), ["huge-lib"]);
+    assert.strictEqual(alternativeSizes["huge-lib"].version, "4.0.0");
+    assert.strictEqual(alternativeSizes["huge-lib"].install.totalSize, 90000);
+    assert.strictEqual(alternativeSizes["huge-lib"].bundle, undefined);
+    assert.strictEqual(
+      alternativeSizes["huge-lib"].bundleError,
+      "huge-lib@3.0.0 is installed, not 4.0.0"
+    );
+
+    assert.strictEqual(formatSizeDelta(90000 - 5050), "+83.0 kB");
+    assert.strictEqual(formatSizeDelta(-300), "−300 B");
+  });
+});
@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import { classifySpecifier } from "../imports/specifier";
+
+suite("Specifier Classifier", () => {
+  test("keeps scoped package names together", () => {
+    assert.deepStrictEqual(classifySpecifier("@aws-sdk/client-s3"), {
+      kind: "package",
+      specifier: "@aws-sdk/client-s3",
+      packageName: "@aws-sdk/client-s3",
+      subpath: undefined,
+    });
+    assert.strictEqual(
+      classifySpecifier("@types/node").packageName,
+      "@types/node"
+    );
+  });
+
+  test("keeps deep import subpaths", () => {
+    const lodash = classifySpecifier("lodash/fp");
+    assert.strictEqual(lodash.packageName, "lodash");
+    assert.strictEqual(lodash.subpath, "fp");
+
+    const scoped = classifySpecifier("@babel/runtime/helpers/esm/extends");
+    assert.strictEqual(scoped.packageName, "@babel/runtime");
+    assert.strictEqual(scoped.subpath, "helpers/esm/extends");
+  });
+
+  test("separates Node built-ins with and without the node: prefix", () => {
+    for (const specifier of ["fs", "path", "fs/promises", "node:crypto"]) {
+      assert.strictEqual(classifySpecifier(specifier).kind, "builtin");
+    }
+    assert.strictEqual(classifySpecifier("node:crypto").builtinName, "crypto");
+    assert.strictEqual(classifySpecifier("node:test").kind, "builtin");
+  });
+
+  test("flags local and unresolvable specifiers", () => {
+    assert.strictEqual(classifySpecifier("./util").kind, "relative");
+    assert.strictEqual(classifySpecifier("../util").kind, "relative");
+    assert.strictEqual(classifySpecifier("/abs/path").kind, "absolute");
+    for (const specifier of [
+      "@/components/Button",
+      "~/utils",
+      "#internal",
+      "virtual:pwa",
+      "https://esm.sh/react",
+      "@scope",
+    ]) {
+      assert.strictEqual(
+        classifySpecifier(specifier).kind,
+        "unresolvable",
+        specifier
+      );
+    }
+  });
+});
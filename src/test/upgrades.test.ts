@@ -0,0 +1,296 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadLockfile } from "../lockfile";
+import { readManifest } from "../manifest/packageJson";
+import {
+  buildRegistryConfig,
+  createRegistryClient,
+  parseRepository,
+} from "../registry";
+import {
+  findUpgrades,
+  formatUpgradeReport,
+  getReleaseLinks,
+  groupPeerUpgrades,
+  includePeerGroups,
+  planManifestUpgrades,
+  planUpgrades,
+  rangeForUpgrade,
+  selectUpgrades,
+  upgradedRanges,
+} from "../upgrades";
+import { MockRegistry, startMockRegistry } from "./mockRegistry";
+
+// Packument with the given versions, each with optional extra manifest fields
+const packument = (
+  name: string,
+  versions: Record<string, any>,
+  distTags: Record<string, string> = {},
+  extra: any = {}
+) => {
+  const names = Object.keys(versions);
+  return {
+    name,
+    "dist-tags": { latest: names[names.length - 1], ...distTags },
+    versions: Object.fromEntries(
+      Object.entries(versions).map(([version, manifest]) => [
+        version,
+        { name, version, ...manifest },
+      ])
+    ),
+    ...extra,
+  };
+};
+
+suite("Upgrades", () => {
+  let registry: MockRegistry;
+  let root: string;
+
+  suiteSetup(async () => {
+    registry = await startMockRegistry({
+      react: packument(
+        "react",
+        { "17.0.2": {}, "18.2.0": {}, "18.3.1": {} },
+        {},
+        {
+          repository: {
+            type: "git",
+            url: "git+https://github.com/facebook/react.git",
+            directory: "packages/react",
+          },
+        }
+      ),
+      "react-dom": packument("react-dom", {
+        "17.0.2": { peerDependencies: { react: "17.0.2" } },
+        "18.3.1": { peerDependencies: { react: "^18.3.1" } },
+      }),
+      lodash: packument(
+        "lodash",
+        { "4.17.20": {}, "4.17.21": {} },
+        {},
+        { repository: "lodash/lodash" }
+      ),
+      tslib: packument("tslib", { "2.6.0": {} }),
+    });
+  });
+
+  suiteTeardown(() => registry.close());
+
+  setup(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "package-pilot-upgrades-"));
+  });
+
+  teardown(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test("finds the newest patch, minor and major versions", () => {
+    const data = packument(
+      "lib",
+      {
+        "1.0.0": {},
+        "1.0.1": {},
+        "1.0.2": { deprecated: "Broken build" },
+        "1.1.0": {},
+        "1.2.0-beta.1": {},
+        "2.0.0": {},
+        "3.0.0": {},
+        "3.1.0-rc.0": {},
+      },
+      // 3.0.0 is published but not yet latest
+      { latest: "2.0.0", next: "3.1.0-rc.0" }
+    );
+    assert.deepStrictEqual(findUpgrades(data, "1.0.0", "^1.0.0"), {
+      current: "1.0.0",
+      latest: "2.0.0",
+      wanted: "1.1.0",
+      options: [
+        { kind: "patch", version: "1.0.1", tag: undefined },
+        { kind: "minor", version: "1.1.0", tag: undefined },
+        { kind: "major", version: "2.0.0", tag: "latest" },
+      ],
+    });
+    assert.deepStrictEqual(findUpgrades(data, "2.0.0").options, []);
+    // Prereleases are offered through their dist-tag to prerelease users
+    assert.deepStrictEqual(findUpgrades(data, "3.0.0-alpha.1").options, [
+      { kind: "prerelease", version: "3.1.0-rc.0", tag: "next" },
+    ]);
+
+    assert.strictEqual(rangeForUpgrade("^1.0.0", "2.0.0"), "^2.0.0");
+    assert.strictEqual(rangeForUpgrade("~1.0", "1.1.0"), "~1.1.0");
+    assert.strictEqual(rangeForUpgrade("1.0.0", "1.0.1"), "1.0.1");
+    assert.strictEqual(rangeForUpgrade(">=1.0.0 <2", "2.0.0"), "^2.0.0");
+    assert.strictEqual(rangeForUpgrade("latest", "2.0.0"), undefined);
+    assert.strictEqual(rangeForUpgrade("workspace:*", "2.0.0"), undefined);
+  });
+
+  test("groups packages tied together by peer dependencies", () => {
+    assert.deepStrictEqual(
+      groupPeerUpgrades([
+        {
+          name: "react",
+          current: "17.0.2",
+          target: "18.3.1",
+          currentPeers: {},
+          targetPeers: {},
+        },
+        {
+          name: "react-dom",
+          current: "17.0.2",
+          target: "17.0.2",
+          currentPeers: { react: "17.0.2" },
+          targetPeers: { react: "17.0.2" },
+        },
+        {
+          name: "lodash",
+          current: "4.17.20",
+          target: "4.17.21",
+          currentPeers: {},
+          targetPeers: {},
+        },
+      ]),
+      [
+        {
+          packages: ["react", "react-dom"],
+          reasons: ["react-dom 17.0.2 needs react 17.0.2"],
+        },
+      ]
+    );
+
+    assert.deepStrictEqual(parseRepository("github:owner/name"), {
+      host: "github.com",
+      owner: "owner",
+      name: "name",
+      directory: undefined,
+      url: "https://github.com/owner/name",
+    });
+    assert.strictEqual(
+      parseRepository("git@gitlab.com:group/project.git")?.url,
+      "https://gitlab.com/group/project"
+    );
+    assert.strictEqual(parseRepository("https://example.com"), undefined);
+    assert.deepStrictEqual(
+      getReleaseLinks(
+        parseRepository("gitlab:group/project")!,
+        "1.0.0",
+        "2.0.0"
+      ),
+      {
+        repository: "https://gitlab.com/group/project",
+        releases: "https://gitlab.com/group/project/-/releases",
+        changelog: "https://gitlab.com/group/project/-/blob/HEAD/CHANGELOG.md",
+        compare: "https://gitlab.com/group/project/-/compare/v1.0.0...v2.0.0",
+      }
+    );
+  });
+
+  test("plans upgrades and writes the chosen ranges to package.json", async () => {
+    const manifestText = [
+      "{",
+      '  "name": "app",',
+      '  "dependencies": {',
+      '    "react": "^17.0.2",',
+      '    "react-dom": "^17.0.2",',
+      '    "lodash": "~4.17.20",',
+      '    "tslib": "^2.6.0",',
+      '    "local": "file:../local"',
+      "  },",
+      '  "peerDependencies": {',
+      '    "react": ">=17"',
+      "  }",
+      "}",
+    ].join("\n");
+    fs.writeFileSync(path.join(root, "package.json"), manifestText);
+    fs.writeFileSync(
+      path.join(root, "package-lock.json"),
+      JSON.stringify({
+        lockfileVersion: 3,
+        packages: {
+          "": {
+            dependencies: { react: "^17.0.2", "react-dom": "^17.0.2" },
+          },
+          "node_modules/react": { version: "17.0.2" },
+          "node_modules/react-dom": { version: "17.0.2" },
+        },
+      })
+    );
+
+    const plan = await planUpgrades(
+      readManifest(path.join(root, "package.json"))!,
+      {
+        client: createRegistryClient(
+          buildRegistryConfig({ registry: registry.url })
+        ),
+        lockfile: loadLockfile(root),
+      }
+    );
+    assert.deepStrictEqual(
+      plan.entries.map((entry) => [
+        entry.name,
+        entry.installed,
+        entry.current,
+        entry.options.map((option) => `${option.kind} ${option.version}`),
+      ]),
+      [
+        ["lodash", undefined, "4.17.20", ["patch 4.17.21"]],
+        ["react", "17.0.2", "17.0.2", ["major 18.3.1"]],
+        ["react-dom", "17.0.2", "17.0.2", ["major 18.3.1"]],
+      ]
+    );
+    assert.deepStrictEqual(plan.upToDate, ["tslib"]);
+    assert.deepStrictEqual(plan.skipped, [
+      { name: "local", reason: "file:../local is not a semver range" },
+    ]);
+    assert.deepStrictEqual(
+      plan.groups.map((group) => group.packages),
+      [["react", "react-dom"]]
+    );
+
+    // Only patches: react and react-dom stay where they are
+    assert.deepStrictEqual(Object.keys(selectUpgrades(plan.entries, "patch")), [
+      "lodash",
+    ]);
+    // Picking react alone brings react-dom along
+    const { targets, groups, added } = includePeerGroups(plan.entries, {
+      react: selectUpgrades(plan.entries, "major").react,
+    });
+    assert.deepStrictEqual(added, ["react-dom"]);
+    assert.deepStrictEqual(groups[0].reasons, [
+      "react-dom 17.0.2 needs react 17.0.2",
+      "react-dom 18.3.1 needs react ^18.3.1",
+    ]);
+
+    const replacements = planManifestUpgrades(
+      manifestText,
+      upgradedRanges(plan.entries, targets)
+    );
+    // The peer range is left alone
+    assert.deepStrictEqual(
+      replacements.map((replacement) => [
+        replacement.packageName,
+        replacement.range.start.line,
+        replacement.newText,
+      ]),
+      [
+        ["react", 3, '"^18.3.1"'],
+        ["react-dom", 4, '"^18.3.1"'],
+      ]
+    );
+
+    const report = formatUpgradeReport(plan, targets, groups);
+    assert.ok(
+      report.includes(
+        [
+          "react 17.0.2 → 18.3.1 (major)",
+          "  Releases: https://github.com/facebook/react/releases",
+          "  Changelog: https://github.com/facebook/react/blob/HEAD/packages/react/CHANGELOG.md",
+          "  Compare: https://github.com/facebook/react/compare/v17.0.2...v18.3.1",
+        ].join("\n")
+      )
+    );
+    assert.ok(report.includes("Upgrade together: react, react-dom"));
+    assert.ok(report.includes("local: file:../local is not a semver range"));
+  });
+});
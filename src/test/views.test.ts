@@ -0,0 +1,279 @@
+import * as assert from "assert";
+import { scanImports } from "../imports/scanner";
+import { isPathInside } from "../utils";
+import { escapeHtml, html, httpUrl, raw } from "../views/html";
+import {
+  buildPackageNodes,
+  describeImport,
+  getPackageStatus,
+} from "../views/packageNodes";
+import {
+  buildReportPackages,
+  defaultReportQuery,
+  listDirectories,
+  queryReport,
+} from "../views/report";
+
+suite("Package Tree", () => {
+  test("classifies packages by their most serious problem", () => {
+    assert.deepStrictEqual(
+      getPackageStatus({
+        version: "2.88.0",
+        latestVersion: "2.88.2",
+        deprecated: "request has been deprecated",
+        audit: {
+          advisories: [{ severity: "low" }, { severity: "moderate" }],
+          highestSeverity: "moderate",
+        },
+      }),
+      { status: "vulnerable", summary: "2 advisories (moderate)" }
+    );
+    assert.strictEqual(
+      getPackageStatus({ deprecated: "use got", audit: { advisories: [] } })
+        .status,
+      "deprecated"
+    );
+    assert.deepStrictEqual(
+      getPackageStatus({
+        version: "2.29.1",
+        latestVersion: "2.30.1",
+        alternatives: ["dayjs"],
+      }),
+      { status: "outdated", summary: "2.29.1 → 2.30.1" }
+    );
+    assert.deepStrictEqual(
+      getPackageStatus({
+        version: "2.30.1",
+        latestVersion: "2.30.1",
+        alternatives: ["dayjs", "date-fns"],
+      }),
+      { status: "alternatives", summary: "consider dayjs, date-fns" }
+    );
+    assert.strictEqual(
+      getPackageStatus({ error: "Request failed" }).status,
+      "unknown"
+    );
+    assert.deepStrictEqual(getPackageStatus({ version: "1.7.2" }), {
+      status: "ok",
+      summary: "1.7.2",
+    });
+  });
+
+  test("groups imports into packages, files and locations", () => {
+    const importRecords = {
+      "/project/src/b.ts": scanImports(
+        'import moment from "moment";\nimport axios from "axios";',
+        "/project/src/b.ts"
+      ),
+      "/project/src/a.ts": scanImports(
+        'import "moment/locale/de";\nconst fs = require("fs");\nimport moment from "moment";',
+        "/project/src/a.ts"
+      ),
+    };
+    const nodes = buildPackageNodes(importRecords, {
+      moment: { version: "2.30.1", alternatives: ["dayjs"] },
+      axios: { version: "1.7.2", latestVersion: "1.7.2" },
+    });
+
+    assert.deepStrictEqual(
+      nodes.map((node) => [node.packageName, node.status]),
+      [
+        ["moment", "alternatives"],
+        ["axios", "ok"],
+      ]
+    );
+    const [moment] = nodes;
+    assert.deepStrictEqual(
+      moment.files.map((file) => [file.filePath, file.locations.length]),
+      [
+        ["/project/src/a.ts", 2],
+        ["/project/src/b.ts", 1],
+      ]
+    );
+    assert.deepStrictEqual(
+      moment.files[0].locations.map(
+        (location) => location.record.range.start.line
+      ),
+      [0, 2]
+    );
+  });
+
+  test("describes import statements", () => {
+    const records = scanImports(
+      [
+        'import moment, { isMoment as check } from "moment";',
+        'import * as _ from "lodash";',
+        'import "reflect-metadata";',
+        'const { get } = require("lodash");',
+        'const dayjs = require("dayjs");',
+        'const chalk = await import("chalk");',
+        'export { default as axios } from "axios";',
+        'export * from "date-fns";',
+      ].join("\n"),
+      "/project/src/index.ts"
+    );
+    assert.deepStrictEqual(records.map(describeImport), [
+      "import moment, { isMoment as check }",
+      "import * as _",
+      "import (side effects)",
+      "{ get } = require()",
+      "dayjs = require()",
+      "import()",
+      "export { default as axios }",
+      "export *",
+    ]);
+  });
+});
+
+suite("Analysis Report", () => {
+  const packages = buildReportPackages(
+    {
+      "/project/index.ts": ["moment", "axios"],
+      "/project/src/date.ts": ["moment", "left-pad"],
+      "/project/src/api/client.ts": ["axios"],
+    },
+    {
+      moment: {
+        description: "Parse, validate, manipulate, and display dates",
+        version: "2.30.1",
+        license: "MIT",
+        alternatives: ["dayjs"],
+        weeklyDownloads: 20_000_000,
+        lastPublished: "2023-12-27T00:00:00.000Z",
+        signals: { unpackedSize: 4_300_000 },
+      },
+      axios: {
+        description: "Promise based HTTP client",
+        version: "1.7.2",
+        license: { type: "MIT" },
+        weeklyDownloads: 50_000_000,
+        lastPublished: "2024-05-21T00:00:00.000Z",
+        signals: { unpackedSize: 2_100_000 },
+      },
+      "left-pad": {
+        description: "String left pad",
+        version: "1.3.0",
+        license: "WTFPL",
+        deprecated: "use String.prototype.padStart()",
+      },
+    }
+  );
+  const names = (query: Partial<typeof defaultReportQuery>) =>
+    queryReport(packages, { ...defaultReportQuery, ...query })[0].packages;
+
+  test("collects usage, licence and status per package", () => {
+    const moment = packages.find((pkg) => pkg.name === "moment")!;
+    assert.strictEqual(moment.usage, 2);
+    assert.strictEqual(moment.status, "alternatives");
+    assert.strictEqual(moment.size, 4_300_000);
+    assert.strictEqual(
+      packages.find((pkg) => pkg.name === "axios")!.license,
+      "MIT"
+    );
+  });
+
+  test("searches and filters", () => {
+    assert.deepStrictEqual(names({ search: "HTTP" }), ["axios"]);
+    assert.deepStrictEqual(names({ statuses: ["deprecated"] }), ["left-pad"]);
+    assert.deepStrictEqual(names({ license: "MIT", sort: "downloads" }), [
+      "axios",
+      "moment",
+    ]);
+    assert.deepStrictEqual(names({ alternativesOnly: true }), ["moment"]);
+    assert.deepStrictEqual(names({ search: "nothing" }), []);
+  });
+
+  test("sorts with missing values last", () => {
+    // Ties fall back to the status order, flagged packages first
+    assert.deepStrictEqual(names({}), ["moment", "axios", "left-pad"]);
+    assert.deepStrictEqual(names({ sort: "lastPublished" }), [
+      "axios",
+      "moment",
+      "left-pad",
+    ]);
+    assert.deepStrictEqual(names({ sort: "size" }), [
+      "moment",
+      "axios",
+      "left-pad",
+    ]);
+  });
+
+  test("groups by directory in structure order", () => {
+    const structure = [
+      {
+        type: "directory",
+        path: "/project/src",
+        children: [
+          { type: "directory", path: "/project/src/api", children: [] },
+          { type: "file", path: "/project/src/date.ts" },
+        ],
+      },
+      { type: "file", path: "/project/index.ts" },
+    ];
+    assert.deepStrictEqual(listDirectories(structure), [
+      "/project/src",
+      "/project/src/api",
+    ]);
+    assert.deepStrictEqual(
+      queryReport(packages, { ...defaultReportQuery, groupByDirectory: true }, [
+        "/project",
+        ...listDirectories(structure),
+      ]),
+      [
+        { directory: "/project", packages: ["moment", "axios"] },
+        { directory: "/project/src", packages: ["moment", "left-pad"] },
+        { directory: "/project/src/api", packages: ["axios"] },
+      ]
+    );
+  });
+});
+
+suite("Webview HTML", () => {
+  test("escapes interpolated values", () => {
+    const description = '<img src=x onerror="alert(1)">';
+    const card = html`<p title="${description}">${description}</p>`;
+    assert.strictEqual(
+      card.markup,
+      '<p title="&lt;img src=x onerror=&quot;alert(1)&quot;&gt;">&lt;img src=x onerror=&quot;alert(1)&quot;&gt;</p>'
+    );
+    assert.strictEqual(escapeHtml("it's & done"), "it&#39;s &amp; done");
+  });
+
+  test("escapes objects that only look like markup", () => {
+    const forged = { markup: '<img src=x onerror="alert(1)">' };
+    assert.strictEqual(html`<p>${forged}</p>`.markup, "<p>[object Object]</p>");
+    assert.strictEqual(
+      html`<p>${raw("<b>ok</b>")}</p>`.markup,
+      "<p><b>ok</b></p>"
+    );
+  });
+
+  test("nests templates and skips empty values", () => {
+    const items = ["a<b", "c"].map((item) => html`<li>${item}</li>`);
+    // prettier-ignore
+    const list = html`<ul>${items}</ul>${undefined}${false}${null}${0}`;
+    assert.strictEqual(list.markup, "<ul><li>a&lt;b</li><li>c</li></ul>0");
+  });
+
+  test("only allows http(s) URLs", () => {
+    assert.strictEqual(
+      httpUrl("https://github.com/moment/moment#readme"),
+      "https://github.com/moment/moment#readme"
+    );
+    assert.strictEqual(httpUrl(" http://example.com"), "http://example.com/");
+    assert.strictEqual(httpUrl("javascript:alert(1)"), undefined);
+    assert.strictEqual(httpUrl("command:workbench.action.quit"), undefined);
+    assert.strictEqual(httpUrl("file:///etc/passwd"), undefined);
+    assert.strictEqual(httpUrl("git+https://github.com/x/y.git"), undefined);
+    assert.strictEqual(httpUrl("not a url"), undefined);
+    assert.strictEqual(httpUrl({ url: "https://example.com" }), undefined);
+  });
+
+  test("checks that paths stay inside a folder", () => {
+    assert.ok(isPathInside("/project/src/index.ts", "/project"));
+    assert.ok(isPathInside("/project/..config/x.ts", "/project"));
+    assert.ok(!isPathInside("/project/../etc/passwd", "/project"));
+    assert.ok(!isPathInside("/project-other/index.ts", "/project"));
+    assert.ok(!isPathInside("/etc/passwd", "/project"));
+  });
+});
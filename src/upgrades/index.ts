@@ -0,0 +1,5 @@
+export * from "./links";
+export * from "./manifest";
+export * from "./peers";
+export * from "./plan";
+export * from "./versions";
@@ -0,0 +1,46 @@
+import { RepositoryRef } from "../registry";
+
+// Where to read what changed between two versions
+export interface ReleaseLinks {
+  repository: string;
+  releases?: string;
+  changelog?: string;
+  // Diff between the two version tags, where the host supports it
+  compare?: string;
+}
+
+// Release notes, CHANGELOG and tag comparison URLs on the hosts we know.
+// Tags are assumed to be "v<version>", the npm version default.
+export function getReleaseLinks(
+  repository: RepositoryRef,
+  from?: string,
+  to?: string
+): ReleaseLinks {
+  const changelogPath = [repository.directory, "CHANGELOG.md"]
+    .filter(Boolean)
+    .join("/");
+  const { url } = repository;
+  switch (repository.host) {
+    case "github.com":
+      return {
+        repository: url,
+        releases: `${url}/releases`,
+        changelog: `${url}/blob/HEAD/${changelogPath}`,
+        compare: from && to ? `${url}/compare/v${from}...v${to}` : undefined,
+      };
+    case "gitlab.com":
+      return {
+        repository: url,
+        releases: `${url}/-/releases`,
+        changelog: `${url}/-/blob/HEAD/${changelogPath}`,
+        compare: from && to ? `${url}/-/compare/v${from}...v${to}` : undefined,
+      };
+    case "bitbucket.org":
+      return {
+        repository: url,
+        changelog: `${url}/src/HEAD/${changelogPath}`,
+      };
+    default:
+      return { repository: url };
+  }
+}
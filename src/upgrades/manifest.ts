@@ -0,0 +1,58 @@
+import * as ts from "typescript";
+import { TextReplacement } from "../codemods/types";
+import { dependencySections } from "../manifest/packageJson";
+
+export interface ManifestUpgrade extends TextReplacement {
+  packageName: string;
+}
+
+// Edits that set new version ranges in a package.json, keeping its
+// formatting. Every dependency section declaring a package is updated
+// except peerDependencies, whose ranges are a promise to consumers.
+export function planManifestUpgrades(
+  text: string,
+  ranges: Record<string, string>
+): ManifestUpgrade[] {
+  const sourceFile = ts.parseJsonText("package.json", text);
+  const root = sourceFile.statements[0]?.expression;
+  if (!root || !ts.isObjectLiteralExpression(root)) {
+    return [];
+  }
+  const position = (offset: number) => {
+    const { line, character } =
+      sourceFile.getLineAndCharacterOfPosition(offset);
+    return { line, character };
+  };
+
+  const replacements: ManifestUpgrade[] = [];
+  root.properties.forEach((section) => {
+    if (
+      !ts.isPropertyAssignment(section) ||
+      !ts.isStringLiteral(section.name) ||
+      section.name.text === "peerDependencies" ||
+      !dependencySections.includes(section.name.text as any) ||
+      !ts.isObjectLiteralExpression(section.initializer)
+    ) {
+      return;
+    }
+    section.initializer.properties.forEach((property) => {
+      if (
+        ts.isPropertyAssignment(property) &&
+        ts.isStringLiteral(property.name) &&
+        ts.isStringLiteral(property.initializer) &&
+        property.name.text in ranges &&
+        property.initializer.text !== ranges[property.name.text]
+      ) {
+        replacements.push({
+          range: {
+            start: position(property.initializer.getStart(sourceFile)),
+            end: position(property.initializer.getEnd()),
+          },
+          newText: JSON.stringify(ranges[property.name.text]),
+          packageName: property.name.text,
+        });
+      }
+    });
+  });
+  return replacements;
+}
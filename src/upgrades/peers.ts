@@ -0,0 +1,96 @@
+import * as semver from "semver";
+
+// A package's version before and after an upgrade, with the peer
+// dependencies each version declares
+export interface PeerUpgradeInput {
+  name: string;
+  current: string;
+  target: string;
+  currentPeers: Record<string, string>;
+  targetPeers: Record<string, string>;
+}
+
+// Packages that have to be upgraded together
+export interface UpgradeGroup {
+  packages: string[];
+  // Why, e.g. "react-dom 19.0.0 needs react ^19.0.0"
+  reasons: string[];
+}
+
+const satisfies = (version: string, range: string) =>
+  semver.satisfies(version, range, { includePrerelease: true });
+
+// Group upgrades that depend on each other through peer dependencies: a
+// target version that needs a newer peer, or a package whose peer range
+// doesn't accept another package's target. Packages that aren't being
+// upgraded keep their current version.
+export function groupPeerUpgrades(
+  packages: PeerUpgradeInput[],
+  upgraded: Set<string> = new Set(
+    packages.filter((pkg) => pkg.target !== pkg.current).map((pkg) => pkg.name)
+  )
+): UpgradeGroup[] {
+  const byName = new Map(packages.map((pkg) => [pkg.name, pkg]));
+  // Union-find over package names
+  const parent = new Map<string, string>();
+  const find = (name: string): string => {
+    const next = parent.get(name) ?? name;
+    return next === name ? name : find(next);
+  };
+  const links: { name: string; reason: string }[] = [];
+  const join = (a: string, b: string, reason: string) => {
+    const [rootA, rootB] = [find(a), find(b)];
+    if (rootA !== rootB) {
+      parent.set(rootB, rootA);
+    }
+    links.push({ name: a, reason });
+  };
+
+  packages
+    .filter((pkg) => upgraded.has(pkg.name))
+    .forEach((pkg) => {
+      // The new version needs a peer the project has at another version
+      Object.entries(pkg.targetPeers).forEach(([peerName, range]) => {
+        const peer = byName.get(peerName);
+        if (peer && !satisfies(peer.current, range)) {
+          join(
+            pkg.name,
+            peerName,
+            `${pkg.name} ${pkg.target} needs ${peerName} ${range}`
+          );
+        }
+      });
+      // Another package's current version doesn't accept the new version
+      packages
+        .filter((other) => other.name !== pkg.name)
+        .forEach((other) => {
+          const range = other.currentPeers[pkg.name];
+          if (range && !satisfies(pkg.target, range)) {
+            join(
+              pkg.name,
+              other.name,
+              `${other.name} ${other.current} needs ${pkg.name} ${range}`
+            );
+          }
+        });
+    });
+
+  const groups = new Map<string, string[]>();
+  packages.forEach((pkg) => {
+    const root = find(pkg.name);
+    groups.set(root, [...(groups.get(root) ?? []), pkg.name]);
+  });
+  return Array.from(groups.entries())
+    .filter(([, names]) => names.length > 1)
+    .map(([root, names]) => ({
+      packages: names.sort(),
+      reasons: Array.from(
+        new Set(
+          links
+            .filter((link) => find(link.name) === root)
+            .map((link) => link.reason)
+        )
+      ),
+    }))
+    .sort((a, b) => a.packages[0].localeCompare(b.packages[0]));
+}
@@ -0,0 +1,275 @@
+import * as semver from "semver";
+import { Lockfile, findInstalledId } from "../lockfile";
+import { DependencySection, PackageManifest } from "../manifest/packageJson";
+import { RegistryClient, RepositoryRef, parseRepository } from "../registry";
+import { errorHandler } from "../utils";
+import { getReleaseLinks } from "./links";
+import { UpgradeGroup, groupPeerUpgrades } from "./peers";
+import {
+  AvailableUpgrades,
+  UpgradeKind,
+  UpgradeOption,
+  findUpgrades,
+  rangeForUpgrade,
+  upgradeKindOrder,
+} from "./versions";
+
+// A declared dependency that has newer versions
+export interface UpgradeEntry extends AvailableUpgrades {
+  name: string;
+  section: DependencySection;
+  declared: string;
+  // From the lockfile; the lowest version the range allows otherwise
+  installed?: string;
+  repository?: RepositoryRef;
+  // Peer dependencies of the current version and of every option's version
+  peerDependencies: Record<string, Record<string, string>>;
+}
+
+export interface UpgradePlan {
+  manifestPath: string;
+  entries: UpgradeEntry[];
+  // Dependencies already on their newest version
+  upToDate: string[];
+  // Dependencies that couldn't be looked up, or don't use a semver range
+  skipped: { name: string; reason: string }[];
+  // Peer groups when everything moves to its newest version
+  groups: UpgradeGroup[];
+}
+
+export interface UpgradePlanOptions {
+  client: RegistryClient;
+  lockfile?: Lockfile;
+}
+
+// Sections whose ranges the project controls; peer ranges are for consumers
+const upgradableSections: DependencySection[] = [
+  "dependencies",
+  "devDependencies",
+  "optionalDependencies",
+];
+
+// Compare every declared dependency of a package.json with the installed
+// version and the registry, listing the patch, minor and major upgrades
+// each could take
+export async function planUpgrades(
+  manifest: PackageManifest,
+  options: UpgradePlanOptions
+): Promise<UpgradePlan> {
+  const plan: UpgradePlan = {
+    manifestPath: manifest.path,
+    entries: [],
+    upToDate: [],
+    skipped: [],
+    groups: [],
+  };
+  const declared = new Map<string, [DependencySection, string]>();
+  upgradableSections.forEach((section) =>
+    Object.entries(manifest[section]).forEach(([name, range]) => {
+      if (!declared.has(name)) {
+        declared.set(name, [section, range]);
+      }
+    })
+  );
+
+  await Promise.all(
+    Array.from(declared.entries()).map(async ([name, [section, range]]) => {
+      if (!rangeForUpgrade(range, "0.0.0")) {
+        plan.skipped.push({ name, reason: `${range} is not a semver range` });
+        return;
+      }
+      const lockedId = options.lockfile
+        ? findInstalledId(options.lockfile, name)
+        : undefined;
+      const installed = lockedId
+        ? options.lockfile!.packages[lockedId]?.version
+        : undefined;
+      const current = installed ?? semver.minVersion(range)?.version;
+      if (!current) {
+        plan.skipped.push({ name, reason: `${range} matches no version` });
+        return;
+      }
+
+      let packument: any;
+      try {
+        packument = (await options.client.getPackument(name)).data;
+      } catch (error) {
+        plan.skipped.push({ name, reason: errorHandler(error) });
+        return;
+      }
+      const upgrades = findUpgrades(packument, current, range);
+      if (upgrades.options.length === 0) {
+        plan.upToDate.push(name);
+        return;
+      }
+      const peersOf = (version: string) =>
+        packument?.versions?.[version]?.peerDependencies ?? {};
+      plan.entries.push({
+        ...upgrades,
+        name,
+        section,
+        declared: range,
+        installed,
+        repository: parseRepository(packument?.repository),
+        peerDependencies: Object.fromEntries(
+          [current, ...upgrades.options.map((option) => option.version)].map(
+            (version) => [version, peersOf(version)]
+          )
+        ),
+      });
+    })
+  );
+
+  plan.entries.sort((a, b) => a.name.localeCompare(b.name));
+  plan.upToDate.sort();
+  plan.skipped.sort((a, b) => a.name.localeCompare(b.name));
+  plan.groups = groupUpgrades(
+    plan.entries,
+    Object.fromEntries(
+      plan.entries.map((entry) => [
+        entry.name,
+        entry.options[entry.options.length - 1],
+      ])
+    )
+  );
+  return plan;
+}
+
+// The newest option of each entry up to the given kind. A prerelease in use
+// keeps to its channel when there is no stable release to move to.
+export function selectUpgrades(
+  entries: UpgradeEntry[],
+  upTo: Exclude<UpgradeKind, "prerelease">
+): Record<string, UpgradeOption> {
+  const allowed = upgradeKindOrder.slice(0, upgradeKindOrder.indexOf(upTo) + 1);
+  const selected: Record<string, UpgradeOption> = {};
+  entries.forEach((entry) => {
+    const option =
+      [...entry.options]
+        .reverse()
+        .find((candidate) => allowed.includes(candidate.kind)) ??
+      entry.options.find((candidate) => candidate.kind === "prerelease");
+    if (option) {
+      selected[entry.name] = option;
+    }
+  });
+  return selected;
+}
+
+// Peer groups among the entries for the chosen target versions
+export function groupUpgrades(
+  entries: UpgradeEntry[],
+  targets: Record<string, UpgradeOption>
+): UpgradeGroup[] {
+  return groupPeerUpgrades(
+    entries.map((entry) => {
+      const target = targets[entry.name]?.version ?? entry.current;
+      return {
+        name: entry.name,
+        current: entry.current,
+        target,
+        currentPeers: entry.peerDependencies[entry.current] ?? {},
+        targetPeers: entry.peerDependencies[target] ?? {},
+      };
+    }),
+    new Set(Object.keys(targets))
+  );
+}
+
+// Add the packages the chosen upgrades have to move with, at their newest
+// option, until the peer groups stop growing. Group members the plan has
+// no upgrade for can't be added and are left for the caller to report.
+export function includePeerGroups(
+  entries: UpgradeEntry[],
+  chosen: Record<string, UpgradeOption>
+): {
+  targets: Record<string, UpgradeOption>;
+  groups: UpgradeGroup[];
+  added: string[];
+} {
+  const targets = { ...chosen };
+  const added: string[] = [];
+  const byName = new Map(entries.map((entry) => [entry.name, entry]));
+  let groups = groupUpgrades(entries, targets);
+  for (;;) {
+    const missing = groups
+      .flatMap((group) => group.packages)
+      .filter((name) => !targets[name] && byName.get(name));
+    if (missing.length === 0) {
+      return { targets, groups, added };
+    }
+    missing.forEach((name) => {
+      const { options } = byName.get(name)!;
+      targets[name] = options[options.length - 1];
+      added.push(name);
+    });
+    groups = groupUpgrades(entries, targets);
+  }
+}
+
+// Plain-text summary of the chosen upgrades for the output channel
+export function formatUpgradeReport(
+  plan: UpgradePlan,
+  targets: Record<string, UpgradeOption>,
+  groups: UpgradeGroup[]
+): string {
+  const chosen = plan.entries.filter((entry) => targets[entry.name]);
+  const lines = [
+    `${plan.manifestPath}: ${chosen.length} of ${plan.entries.length} ${
+      plan.entries.length === 1 ? "upgrade" : "upgrades"
+    } chosen`,
+  ];
+  chosen.forEach((entry) => {
+    const target = targets[entry.name];
+    const links =
+      entry.repository &&
+      getReleaseLinks(entry.repository, entry.current, target.version);
+    lines.push(
+      "",
+      `${entry.name} ${entry.current} → ${target.version} (${target.kind}${
+        target.tag && target.tag !== "latest" ? `, ${target.tag}` : ""
+      })`,
+      ...[
+        ["Releases", links?.releases],
+        ["Changelog", links?.changelog],
+        ["Compare", links?.compare],
+      ]
+        .filter(([, url]) => url)
+        .map(([label, url]) => `  ${label}: ${url}`)
+    );
+  });
+  groups.forEach((group) => {
+    lines.push(
+      "",
+      `Upgrade together: ${group.packages.join(", ")}`,
+      ...group.reasons.map((reason) => `  ${reason}`),
+      ...group.packages
+        .filter((name) => !targets[name])
+        .map((name) => `  ${name} has no upgrade that fits; check it by hand`)
+    );
+  });
+  if (plan.skipped.length > 0) {
+    lines.push(
+      "",
+      "Skipped:",
+      ...plan.skipped.map(({ name, reason }) => `  ${name}: ${reason}`)
+    );
+  }
+  return lines.join("\n");
+}
+
+// New declared ranges for the chosen upgrades, keeping each range's style
+export function upgradedRanges(
+  entries: UpgradeEntry[],
+  targets: Record<string, UpgradeOption>
+): Record<string, string> {
+  const ranges: Record<string, string> = {};
+  entries.forEach((entry) => {
+    const target = targets[entry.name];
+    const range = target && rangeForUpgrade(entry.declared, target.version);
+    if (range) {
+      ranges[entry.name] = range;
+    }
+  });
+  return ranges;
+}
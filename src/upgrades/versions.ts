@@ -0,0 +1,134 @@
+import * as semver from "semver";
+
+export type UpgradeKind = "patch" | "minor" | "major" | "prerelease";
+
+export const upgradeKindOrder: UpgradeKind[] = [
+  "patch",
+  "minor",
+  "major",
+  "prerelease",
+];
+
+// One version a package can move to from the one in use
+export interface UpgradeOption {
+  kind: UpgradeKind;
+  version: string;
+  // Dist-tag pointing at the version, e.g. "next" for a prerelease
+  tag?: string;
+}
+
+// How far a package lags behind the registry
+export interface AvailableUpgrades {
+  current: string;
+  latest?: string;
+  // Highest version the declared range allows
+  wanted?: string;
+  // The highest version of each kind, patch first
+  options: UpgradeOption[];
+}
+
+// patch, minor or major, by the most significant part that changes.
+// Moving within or onto a prerelease counts as the release it leads to.
+export function classifyUpgrade(from: string, to: string): UpgradeKind {
+  const difference = semver.diff(from, to);
+  switch (difference) {
+    case "major":
+    case "premajor":
+      return "major";
+    case "minor":
+    case "preminor":
+      return "minor";
+    case "prerelease":
+      return semver.prerelease(to) ? "prerelease" : "patch";
+    default:
+      return "patch";
+  }
+}
+
+// Versions newer than `current` from a packument, by kind. Stable versions
+// above the `latest` dist-tag and deprecated versions are left out.
+// Prereleases are only offered to a prerelease in use, through the dist-tag
+// that publishes them (e.g. "next" or "beta").
+export function findUpgrades(
+  packument: any,
+  current: string,
+  declaredRange?: string
+): AvailableUpgrades {
+  const latest: string | undefined = packument?.["dist-tags"]?.latest;
+  const versions = Object.keys(packument?.versions ?? {}).filter(
+    (version) =>
+      semver.valid(version) && !packument.versions[version]?.deprecated
+  );
+  const result: AvailableUpgrades = {
+    current,
+    latest,
+    wanted:
+      declaredRange && semver.validRange(declaredRange)
+        ? (semver.maxSatisfying(versions, declaredRange) ?? undefined)
+        : undefined,
+    options: [],
+  };
+  if (!semver.valid(current)) {
+    return result;
+  }
+
+  const stable = versions.filter(
+    (version) =>
+      !semver.prerelease(version) &&
+      semver.gt(version, current) &&
+      (!latest || !semver.valid(latest) || semver.lte(version, latest))
+  );
+  (["patch", "minor", "major"] as const).forEach((kind) => {
+    const highest = semver.maxSatisfying(
+      stable.filter((version) => classifyUpgrade(current, version) === kind),
+      "*"
+    );
+    if (highest) {
+      result.options.push({
+        kind,
+        version: highest,
+        tag: highest === latest ? "latest" : undefined,
+      });
+    }
+  });
+
+  if (semver.prerelease(current)) {
+    Object.entries(packument?.["dist-tags"] ?? {})
+      .filter(
+        ([tag, version]) =>
+          tag !== "latest" &&
+          typeof version === "string" &&
+          semver.prerelease(version) &&
+          semver.gt(version, current)
+      )
+      .sort(([, a], [, b]) => semver.rcompare(a as string, b as string))
+      .slice(0, 1)
+      .forEach(([tag, version]) =>
+        result.options.push({
+          kind: "prerelease",
+          version: version as string,
+          tag,
+        })
+      );
+  }
+  return result;
+}
+
+// The declared range rewritten to allow `version`, keeping its ^ or ~
+// prefix. Undefined for ranges that aren't plain semver, such as tags,
+// URLs, workspace: and npm: aliases, which shouldn't be rewritten.
+export function rangeForUpgrade(
+  declared: string,
+  version: string
+): string | undefined {
+  const trimmed = declared.trim();
+  const match = /^([~^]|>=|=)?\s*v?(\d+(?:\.(?:\d+|[xX*]))*(?:-[\w.]+)?)$/.exec(
+    trimmed
+  );
+  if (match) {
+    return `${match[1] ?? ""}${version}`;
+  }
+  return semver.validRange(trimmed) && /\d/.test(trimmed)
+    ? `^${version}`
+    : undefined;
+}
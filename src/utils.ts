@@ -0,0 +1,27 @@
+import * as path from "path";
+
+// Helper function to extract error messages
+export const errorHandler = (error: unknown): string => {
+  if (error instanceof Error) {
+    return error.message;
+  }
+  return String(error);
+};
+
+// Human-readable byte size, e.g. "1.2 MB"
+export const formatBytes = (bytes: number): string => {
+  const units = ["B", "kB", "MB", "GB"];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+};
+
+// Whether a path is the folder itself or inside it, after resolving ".."
+export const isPathInside = (filePath: string, folder: string): boolean => {
+  const relative = path.relative(path.resolve(folder), path.resolve(filePath));
+  return relative.split(path.sep)[0] !== ".." && !path.isAbsolute(relative);
+};
@@ -0,0 +1,76 @@
+import * as crypto from "crypto";
+
+// Markup that is already safe to insert, produced by `html` or `raw`.
+// Only instances are trusted, so registry data shaped like `{ markup }`
+// is still escaped.
+export class SafeHtml {
+  readonly markup: string;
+
+  constructor(markup: string) {
+    this.markup = markup;
+  }
+}
+
+const isSafeHtml = (value: unknown): value is SafeHtml =>
+  value instanceof SafeHtml;
+
+// Escape text for use in element content and quoted attribute values
+export function escapeHtml(text: unknown): string {
+  return String(text)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Trust markup as is; only for static markup written in this codebase
+export function raw(markup: string): SafeHtml {
+  return new SafeHtml(markup);
+}
+
+// Template tag that escapes every interpolated value. Nested `html`
+// results are inserted as markup, arrays are concatenated, and undefined,
+// null and false render nothing.
+export function html(
+  strings: TemplateStringsArray,
+  ...values: unknown[]
+): SafeHtml {
+  const render = (value: unknown): string => {
+    if (value === undefined || value === null || value === false) {
+      return "";
+    }
+    if (Array.isArray(value)) {
+      return value.map(render).join("");
+    }
+    return isSafeHtml(value) ? value.markup : escapeHtml(value);
+  };
+  return raw(
+    strings.reduce(
+      (markup, text, i) =>
+        markup + text + (i < values.length ? render(values[i]) : ""),
+      ""
+    )
+  );
+}
+
+// The URL if it is an absolute http(s) URL, so registry data can't link
+// to javascript:, command: or file: URIs
+export function httpUrl(url: unknown): string | undefined {
+  if (typeof url !== "string") {
+    return undefined;
+  }
+  try {
+    const parsed = new URL(url.trim());
+    return parsed.protocol === "http:" || parsed.protocol === "https:"
+      ? parsed.href
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Nonce for the Content-Security-Policy of one page load
+export function createNonce(): string {
+  return crypto.randomBytes(16).toString("base64");
+}
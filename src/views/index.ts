@@ -0,0 +1,6 @@
+export * from "./packageNodes";
+export * from "./packageTree";
+export * from "./licenseNodes";
+export * from "./licenseTree";
+export * from "./report";
+export * from "./html";
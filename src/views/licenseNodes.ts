@@ -0,0 +1,66 @@
+import {
+  LicenseCategory,
+  LicenseInventory,
+  LicenseInventoryEntry,
+  licenseCategoryOrder,
+} from "../licenses";
+
+export interface LicensePackageNode {
+  kind: "license-package";
+  packageName: string;
+  entry: LicenseInventoryEntry;
+}
+
+export interface LicenseCategoryNode {
+  kind: "license-category";
+  category: LicenseCategory;
+  packages: LicensePackageNode[];
+}
+
+export type LicenseTreeNode = LicenseCategoryNode | LicensePackageNode;
+
+export const licenseCategoryLabels: Record<LicenseCategory, string> = {
+  permissive: "Permissive",
+  "weak-copyleft": "Weak copyleft",
+  "strong-copyleft": "Strong copyleft",
+  proprietary: "Proprietary",
+  unknown: "Unknown (needs review)",
+};
+
+// Group the inventory by licence category, most restrictive first, with
+// the packages that clash with the project licence at the top of each
+export function buildLicenseNodes(
+  inventory: LicenseInventory
+): LicenseCategoryNode[] {
+  return [...licenseCategoryOrder]
+    .reverse()
+    .map((category): LicenseCategoryNode => ({
+      kind: "license-category",
+      category,
+      packages: inventory.packages
+        .filter((entry) => entry.license.category === category)
+        .sort(
+          (a, b) =>
+            Number(!a.conflict) - Number(!b.conflict) ||
+            a.name.localeCompare(b.name)
+        )
+        .map((entry) => ({
+          kind: "license-package",
+          packageName: entry.name,
+          entry,
+        })),
+    }))
+    .filter((node) => node.packages.length > 0);
+}
+
+// One-line description of a package's licence, e.g.
+// "4.17.21 · MIT" or "1.0.2 · GPL-3.0-only · via request"
+export function describeLicenseEntry(entry: LicenseInventoryEntry): string {
+  return [
+    entry.version,
+    entry.license.declared,
+    ...(entry.direct || entry.requiredBy.length === 0
+      ? []
+      : [`via ${entry.requiredBy.join(", ")}`]),
+  ].join(" · ");
+}
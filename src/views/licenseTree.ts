@@ -0,0 +1,185 @@
+import * as vscode from "vscode";
+import { LicenseInventory } from "../licenses";
+import { errorHandler } from "../utils";
+import {
+  LicenseCategoryNode,
+  LicenseTreeNode,
+  buildLicenseNodes,
+  describeLicenseEntry,
+  licenseCategoryLabels,
+} from "./licenseNodes";
+
+export interface LicenseTreeOptions {
+  // Build the inventory for the last analysis; undefined when there is none
+  build(): Promise<LicenseInventory | undefined>;
+}
+
+export interface LicenseTree extends vscode.Disposable {
+  // The inventory shown, if it has been built
+  readonly inventory: LicenseInventory | undefined;
+  // Rebuild the inventory, now if the view is visible or else once it is
+  analysisChanged(): void;
+}
+
+export const licenseTreeViewId = "packagePilot.licenses";
+export const refreshLicensesCommand = "packagePilot.refreshLicenses";
+
+const categoryIcons: Record<LicenseCategoryNode["category"], vscode.ThemeIcon> =
+  {
+    permissive: new vscode.ThemeIcon(
+      "pass",
+      new vscode.ThemeColor("testing.iconPassed")
+    ),
+    "weak-copyleft": new vscode.ThemeIcon("law"),
+    "strong-copyleft": new vscode.ThemeIcon(
+      "law",
+      new vscode.ThemeColor("list.warningForeground")
+    ),
+    proprietary: new vscode.ThemeIcon(
+      "lock",
+      new vscode.ThemeColor("list.warningForeground")
+    ),
+    unknown: new vscode.ThemeIcon("question"),
+  };
+
+const conflictIcon = new vscode.ThemeIcon(
+  "error",
+  new vscode.ThemeColor("errorForeground")
+);
+
+// Activity Bar view listing the licences of the analysed packages and
+// their transitive dependencies, grouped by category
+export function createLicenseTree(options: LicenseTreeOptions): LicenseTree {
+  const changed = new vscode.EventEmitter<LicenseTreeNode | undefined>();
+  let inventory: LicenseInventory | undefined;
+  let nodes: LicenseCategoryNode[] = [];
+  let outdated = false;
+
+  const provider: vscode.TreeDataProvider<LicenseTreeNode> = {
+    onDidChangeTreeData: changed.event,
+
+    getChildren: (node) =>
+      node ? (node.kind === "license-category" ? node.packages : []) : nodes,
+
+    getTreeItem: (node) => {
+      if (node.kind === "license-category") {
+        const conflicts = node.packages.filter(
+          (child) => child.entry.conflict
+        ).length;
+        const item = new vscode.TreeItem(
+          licenseCategoryLabels[node.category],
+          conflicts > 0
+            ? vscode.TreeItemCollapsibleState.Expanded
+            : vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `license-category:${node.category}`;
+        item.description = `${node.packages.length}${
+          conflicts > 0 ? ` (${conflicts} conflicting)` : ""
+        }`;
+        item.iconPath = categoryIcons[node.category];
+        item.contextValue = "license-category";
+        return item;
+      }
+
+      const { entry } = node;
+      const item = new vscode.TreeItem(
+        entry.name,
+        vscode.TreeItemCollapsibleState.None
+      );
+      item.id = `license-package:${entry.name}@${entry.version}`;
+      item.description = describeLicenseEntry(entry);
+      item.iconPath = entry.conflict
+        ? conflictIcon
+        : categoryIcons[entry.license.category];
+      item.contextValue = "license-package";
+      item.tooltip = new vscode.MarkdownString(
+        [
+          `**${entry.name}** ${entry.version}`,
+          `Licence: ${entry.license.declared} (${licenseCategoryLabels[
+            entry.license.category
+          ].toLowerCase()})`,
+          entry.direct
+            ? "Imported by the project"
+            : `Installed for ${entry.requiredBy.join(", ")}`,
+          ...(entry.conflict ? [`$(error) ${entry.conflict}`] : []),
+        ].join("\n\n"),
+        true
+      );
+      return item;
+    },
+  };
+
+  const view = vscode.window.createTreeView(licenseTreeViewId, {
+    treeDataProvider: provider,
+    showCollapseAll: true,
+  });
+
+  const show = (newInventory: LicenseInventory) => {
+    inventory = newInventory;
+    nodes = buildLicenseNodes(newInventory);
+    const conflicts = newInventory.packages.filter(
+      (entry) => entry.conflict
+    ).length;
+    view.badge = conflicts
+      ? {
+          value: conflicts,
+          tooltip: `${conflicts} ${
+            conflicts === 1 ? "licence conflicts" : "licences conflict"
+          } with the project licence`,
+        }
+      : undefined;
+    view.description = `project ${newInventory.project.license.declared}, ${
+      newInventory.packages.length
+    } packages`;
+    changed.fire(undefined);
+  };
+
+  const refresh = async () => {
+    outdated = false;
+    await vscode.window.withProgress(
+      { location: { viewId: licenseTreeViewId } },
+      async () => {
+        const built = await options.build();
+        if (built) {
+          show(built);
+        }
+      }
+    );
+  };
+
+  const refreshWithErrors = async () => {
+    try {
+      await refresh();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Error building the licence inventory: ${errorHandler(error)}`
+      );
+    }
+  };
+
+  const disposables = [
+    changed,
+    view,
+    view.onDidChangeVisibility(({ visible }) => {
+      if (visible && outdated) {
+        refreshWithErrors();
+      }
+    }),
+    vscode.commands.registerCommand(refreshLicensesCommand, refreshWithErrors),
+  ];
+
+  return {
+    get inventory() {
+      return inventory;
+    },
+    analysisChanged: () => {
+      // Transitive lookups can be slow, so only build what is on screen
+      if (view.visible) {
+        refreshWithErrors();
+      } else {
+        outdated = true;
+      }
+    },
+    dispose: () => disposables.forEach((disposable) => disposable.dispose()),
+  };
+}
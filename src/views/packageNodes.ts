@@ -0,0 +1,190 @@
+import * as semver from "semver";
+import { ImportRecord } from "../imports/scanner";
+import { classifySpecifier } from "../imports/specifier";
+
+// Worst first; a package shows the first status that applies
+export type PackageStatus =
+  "vulnerable" | "deprecated" | "outdated" | "alternatives" | "unknown" | "ok";
+
+export const packageStatusOrder: PackageStatus[] = [
+  "vulnerable",
+  "deprecated",
+  "outdated",
+  "alternatives",
+  "unknown",
+  "ok",
+];
+
+export interface LocationNode {
+  kind: "location";
+  packageName: string;
+  filePath: string;
+  record: ImportRecord;
+}
+
+export interface FileNode {
+  kind: "file";
+  packageName: string;
+  filePath: string;
+  locations: LocationNode[];
+}
+
+export interface PackageNode {
+  kind: "package";
+  packageName: string;
+  status: PackageStatus;
+  // Short explanation of the status, e.g. "2 advisories (high)"
+  summary: string;
+  version?: string;
+  latestVersion?: string;
+  files: FileNode[];
+}
+
+export type PackageTreeNode = PackageNode | FileNode | LocationNode;
+
+// Classify analysed package data for the sidebar
+export function getPackageStatus(pkg: any): {
+  status: PackageStatus;
+  summary: string;
+} {
+  if (!pkg || pkg.error) {
+    return {
+      status: "unknown",
+      summary: pkg?.error
+        ? `metadata unavailable: ${pkg.error}`
+        : "not analysed",
+    };
+  }
+  const advisories: { severity: string }[] = pkg.audit?.advisories ?? [];
+  if (advisories.length > 0) {
+    return {
+      status: "vulnerable",
+      summary: `${advisories.length} ${
+        advisories.length === 1 ? "advisory" : "advisories"
+      } (${pkg.audit.highestSeverity ?? advisories[0].severity})`,
+    };
+  }
+  // A deprecated latest version means the package as a whole is abandoned
+  const deprecated = pkg.deprecated || pkg.deprecation?.latest?.message;
+  if (deprecated) {
+    return { status: "deprecated", summary: `deprecated: ${deprecated}` };
+  }
+  if (
+    semver.valid(pkg.version) &&
+    semver.valid(pkg.latestVersion) &&
+    semver.lt(pkg.version, pkg.latestVersion)
+  ) {
+    return {
+      status: "outdated",
+      summary: `${pkg.version} → ${pkg.latestVersion}`,
+    };
+  }
+  if (pkg.alternatives?.length) {
+    return {
+      status: "alternatives",
+      summary: `consider ${pkg.alternatives.join(", ")}`,
+    };
+  }
+  return { status: "ok", summary: pkg.version || "" };
+}
+
+// Group import records into packages → importing files → import locations
+export function buildPackageNodes(
+  importRecords: Record<string, ImportRecord[]>,
+  packageData: Record<string, any>
+): PackageNode[] {
+  const byPackage = new Map<string, Map<string, ImportRecord[]>>();
+  Object.entries(importRecords).forEach(([filePath, records]) =>
+    records.forEach((record) => {
+      const { packageName } = classifySpecifier(record.specifier);
+      if (!packageName) {
+        return;
+      }
+      const files = byPackage.get(packageName) ?? new Map();
+      files.set(filePath, [...(files.get(filePath) ?? []), record]);
+      byPackage.set(packageName, files);
+    })
+  );
+
+  return Array.from(byPackage.entries())
+    .map(([packageName, files]): PackageNode => {
+      const pkg = packageData[packageName];
+      return {
+        kind: "package",
+        packageName,
+        ...getPackageStatus(pkg),
+        version: pkg?.version || undefined,
+        latestVersion: pkg?.latestVersion || undefined,
+        files: Array.from(files.entries())
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([filePath, records]) => ({
+            kind: "file",
+            packageName,
+            filePath,
+            locations: records.map((record) => ({
+              kind: "location",
+              packageName,
+              filePath,
+              record,
+            })),
+          })),
+      };
+    })
+    .sort(
+      (a, b) =>
+        packageStatusOrder.indexOf(a.status) -
+          packageStatusOrder.indexOf(b.status) ||
+        a.packageName.localeCompare(b.packageName)
+    );
+}
+
+// One-line description of an import, e.g. `import { format }` or
+// `{ get } = require()`
+export function describeImport(record: ImportRecord): string {
+  const named = (name: { imported: string; local: string }) =>
+    name.imported === name.local
+      ? name.imported
+      : `${name.imported} as ${name.local}`;
+  const defaultName = record.names.find((name) => name.imported === "default");
+  const namespace = record.names.find((name) => name.imported === "*");
+  const members = record.names.filter(
+    (name) => name.imported !== "default" && name.imported !== "*"
+  );
+
+  switch (record.kind) {
+    case "require": {
+      const target = namespace
+        ? namespace.local
+        : members.length > 0
+          ? `{ ${members
+              .map((name) =>
+                name.imported === name.local
+                  ? name.local
+                  : `${name.imported}: ${name.local}`
+              )
+              .join(", ")} }`
+          : "";
+      return target ? `${target} = require()` : "require()";
+    }
+    case "dynamic":
+      return "import()";
+    case "re-export": {
+      if (namespace && record.names.length === 1) {
+        return namespace.local === "*"
+          ? "export *"
+          : `export * as ${namespace.local}`;
+      }
+      return `export { ${record.names.map(named).join(", ")} }`;
+    }
+    default: {
+      const parts = [
+        ...(defaultName ? [defaultName.local] : []),
+        ...(namespace ? [`* as ${namespace.local}`] : []),
+        ...(members.length > 0 ? [`{ ${members.map(named).join(", ")} }`] : []),
+      ];
+      return parts.length > 0
+        ? `import ${parts.join(", ")}`
+        : "import (side effects)";
+    }
+  }
+}
@@ -0,0 +1,249 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { ignorePackageCommand, toRange } from "../diagnostics";
+import { ImportRecord } from "../imports/scanner";
+import { errorHandler } from "../utils";
+import {
+  PackageNode,
+  PackageStatus,
+  PackageTreeNode,
+  buildPackageNodes,
+  describeImport,
+} from "./packageNodes";
+
+// What the last analysis covered, so refresh can run it again
+export type AnalysisScope =
+  { kind: "folder"; path: string } | { kind: "files"; files: string[] };
+
+export interface PackageTreeOptions {
+  // Analyse a scope again without opening the results panel
+  analyze(scope: AnalysisScope): Promise<
+    | {
+        importRecords: Record<string, ImportRecord[]>;
+        packageData: Record<string, any>;
+      }
+    | undefined
+  >;
+  // The packages among these that a migration codemod exists for
+  migratable(packageNames: string[], scope: AnalysisScope): string[];
+}
+
+export interface PackageTree extends vscode.Disposable {
+  update(
+    scope: AnalysisScope,
+    importRecords: Record<string, ImportRecord[]>,
+    packageData: Record<string, any>
+  ): void;
+}
+
+export const packageTreeViewId = "packagePilot.packages";
+export const refreshPackagesCommand = "packagePilot.refreshPackages";
+export const openNpmPageCommand = "packagePilot.openNpmPage";
+const ignoreFromTreeCommand = "packagePilot.ignorePackageFromTree";
+const migrateFromTreeCommand = "packagePilot.migratePackageFromTree";
+
+const statusIcons: Record<PackageStatus, vscode.ThemeIcon> = {
+  vulnerable: new vscode.ThemeIcon(
+    "shield",
+    new vscode.ThemeColor("errorForeground")
+  ),
+  deprecated: new vscode.ThemeIcon(
+    "warning",
+    new vscode.ThemeColor("list.warningForeground")
+  ),
+  outdated: new vscode.ThemeIcon(
+    "arrow-circle-up",
+    new vscode.ThemeColor("editorInfo.foreground")
+  ),
+  alternatives: new vscode.ThemeIcon(
+    "lightbulb",
+    new vscode.ThemeColor("editorLightBulb.foreground")
+  ),
+  unknown: new vscode.ThemeIcon("question"),
+  ok: new vscode.ThemeIcon("pass", new vscode.ThemeColor("testing.iconPassed")),
+};
+
+// Activity Bar view listing analysed packages → importing files → import
+// locations, with the commands its title bar and inline actions run
+export function createPackageTree(options: PackageTreeOptions): PackageTree {
+  const changed = new vscode.EventEmitter<PackageTreeNode | undefined>();
+  let scope: AnalysisScope | undefined;
+  let nodes: PackageNode[] = [];
+  let migratable = new Set<string>();
+
+  const provider: vscode.TreeDataProvider<PackageTreeNode> = {
+    onDidChangeTreeData: changed.event,
+
+    getChildren: (node) => {
+      if (!node) {
+        return nodes;
+      }
+      if (node.kind === "package") {
+        return node.files;
+      }
+      return node.kind === "file" ? node.locations : [];
+    },
+
+    getTreeItem: (node) => {
+      if (node.kind === "package") {
+        const item = new vscode.TreeItem(
+          node.packageName,
+          vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `package:${node.packageName}`;
+        item.description = node.summary;
+        item.iconPath = statusIcons[node.status];
+        item.contextValue = migratable.has(node.packageName)
+          ? "package-migratable"
+          : "package";
+        item.tooltip = new vscode.MarkdownString(
+          [
+            `**${node.packageName}**${node.version ? ` ${node.version}` : ""}`,
+            `Status: ${node.status}${node.summary ? ` (${node.summary})` : ""}`,
+            `Imported by ${node.files.length} ${
+              node.files.length === 1 ? "file" : "files"
+            }`,
+          ].join("\n\n")
+        );
+        return item;
+      }
+
+      if (node.kind === "file") {
+        const item = new vscode.TreeItem(
+          vscode.Uri.file(node.filePath),
+          vscode.TreeItemCollapsibleState.Collapsed
+        );
+        item.id = `file:${node.packageName}:${node.filePath}`;
+        item.description = vscode.workspace.asRelativePath(
+          path.dirname(node.filePath)
+        );
+        item.contextValue = "file";
+        return item;
+      }
+
+      const { record } = node;
+      const item = new vscode.TreeItem(
+        `Ln ${record.range.start.line + 1}`,
+        vscode.TreeItemCollapsibleState.None
+      );
+      item.description = describeImport(record);
+      item.tooltip = record.specifier;
+      item.iconPath = new vscode.ThemeIcon("symbol-reference");
+      item.contextValue = "location";
+      item.command = {
+        command: "vscode.open",
+        title: "Open Import",
+        arguments: [
+          vscode.Uri.file(node.filePath),
+          { selection: toRange(record.specifierRange) },
+        ],
+      };
+      return item;
+    },
+  };
+
+  const view = vscode.window.createTreeView(packageTreeViewId, {
+    treeDataProvider: provider,
+    showCollapseAll: true,
+  });
+
+  const update: PackageTree["update"] = (
+    newScope,
+    importRecords,
+    packageData
+  ) => {
+    scope = newScope;
+    nodes = buildPackageNodes(importRecords, packageData);
+    migratable = new Set(
+      options.migratable(
+        nodes.map((node) => node.packageName),
+        newScope
+      )
+    );
+    const flagged = nodes.filter(
+      (node) => node.status !== "ok" && node.status !== "unknown"
+    ).length;
+    view.badge = flagged
+      ? {
+          value: flagged,
+          tooltip: `${flagged} ${flagged === 1 ? "package needs" : "packages need"} attention`,
+        }
+      : undefined;
+    view.description =
+      scope.kind === "folder"
+        ? vscode.workspace.asRelativePath(scope.path)
+        : `${scope.files.length} ${scope.files.length === 1 ? "file" : "files"}`;
+    changed.fire(undefined);
+  };
+
+  // Without a previous run there is nothing to repeat, so analyse the project
+  const refresh = async () => {
+    if (!scope) {
+      await vscode.commands.executeCommand("packagePilot.analyzeProject");
+      return;
+    }
+    const current = scope;
+    await vscode.window.withProgress(
+      { location: { viewId: packageTreeViewId } },
+      async () => {
+        const result = await options.analyze(current);
+        if (result) {
+          update(current, result.importRecords, result.packageData);
+        }
+      }
+    );
+  };
+
+  const withErrors =
+    <T extends unknown[]>(
+      action: string,
+      run: (...args: T) => Thenable<unknown>
+    ) =>
+    async (...args: T) => {
+      try {
+        await run(...args);
+      } catch (error) {
+        vscode.window.showErrorMessage(
+          `Error ${action}: ${errorHandler(error)}`
+        );
+      }
+    };
+
+  const disposables = [
+    changed,
+    view,
+    vscode.commands.registerCommand(
+      refreshPackagesCommand,
+      withErrors("refreshing packages", refresh)
+    ),
+    vscode.commands.registerCommand(
+      openNpmPageCommand,
+      withErrors("opening npm page", (node: PackageNode) =>
+        vscode.env.openExternal(
+          vscode.Uri.parse(`https://www.npmjs.com/package/${node.packageName}`)
+        )
+      )
+    ),
+    vscode.commands.registerCommand(
+      ignoreFromTreeCommand,
+      withErrors("ignoring package", (node: PackageNode) =>
+        vscode.commands.executeCommand(ignorePackageCommand, node.packageName)
+      )
+    ),
+    vscode.commands.registerCommand(
+      migrateFromTreeCommand,
+      withErrors("migrating package", (node: PackageNode) =>
+        vscode.commands.executeCommand(
+          "packagePilot.migratePackage",
+          scope?.kind === "folder" ? vscode.Uri.file(scope.path) : undefined,
+          node.packageName
+        )
+      )
+    ),
+  ];
+
+  return {
+    update,
+    dispose: () => disposables.forEach((disposable) => disposable.dispose()),
+  };
+}
@@ -0,0 +1,196 @@
+import * as path from "path";
+import {
+  PackageStatus,
+  getPackageStatus,
+  packageStatusOrder,
+} from "./packageNodes";
+
+// What the report knows about a package for searching, filtering and sorting
+export interface ReportPackage {
+  name: string;
+  description: string;
+  status: PackageStatus;
+  summary: string;
+  license: string;
+  hasAlternatives: boolean;
+  weeklyDownloads?: number;
+  lastPublished?: string;
+  // Install size of the analysed version and its dependencies in bytes,
+  // or its own unpacked size when the tree wasn't measured
+  size?: number;
+  // Maintenance health score, 0-100
+  health?: number;
+  // Number of files importing the package
+  usage: number;
+  files: string[];
+}
+
+export type ReportSort =
+  | "usage"
+  | "downloads"
+  | "lastPublished"
+  | "size"
+  | "health";
+
+// Filter state of the report webview, persisted with its getState/setState
+export interface ReportQuery {
+  search: string;
+  // Empty shows every status
+  statuses: PackageStatus[];
+  // Empty shows every licence
+  license: string;
+  alternativesOnly: boolean;
+  sort: ReportSort;
+  groupByDirectory: boolean;
+}
+
+export const defaultReportQuery: ReportQuery = {
+  search: "",
+  statuses: [],
+  license: "",
+  alternativesOnly: false,
+  sort: "usage",
+  groupByDirectory: false,
+};
+
+// Packages in display order, under a directory when grouping
+export interface ReportGroup {
+  directory?: string;
+  packages: string[];
+}
+
+// Licence as a display string; old packuments use { type } objects
+export function licenseOf(pkg: any): string {
+  const license = pkg?.license?.type ?? pkg?.license;
+  return typeof license === "string" && license ? license : "Unknown";
+}
+
+// Collect the report entries from an analysis and its package data
+export function buildReportPackages(
+  packageImports: Record<string, string[]>,
+  packageData: Record<string, any>
+): ReportPackage[] {
+  const files: Record<string, string[]> = {};
+  Object.entries(packageImports).forEach(([filePath, packageNames]) =>
+    packageNames.forEach((packageName) =>
+      (files[packageName] ||= []).push(filePath)
+    )
+  );
+
+  return Object.entries(files).map(([name, packageFiles]) => {
+    const pkg = packageData[name];
+    return {
+      name,
+      description: pkg?.description || "",
+      ...getPackageStatus(pkg),
+      license: licenseOf(pkg),
+      hasAlternatives: (pkg?.alternatives?.length ?? 0) > 0,
+      weeklyDownloads:
+        typeof pkg?.weeklyDownloads === "number"
+          ? pkg.weeklyDownloads
+          : undefined,
+      lastPublished: pkg?.lastPublished || undefined,
+      size: pkg?.size?.install?.totalSize ?? pkg?.signals?.unpackedSize,
+      health: pkg?.health?.score,
+      usage: packageFiles.length,
+      files: packageFiles,
+    };
+  });
+}
+
+// Directories of a ProjectAnalysis structure, parents before children
+export function listDirectories(
+  structure: { type: string; path: string; children?: any[] }[]
+): string[] {
+  return structure.flatMap((entry) =>
+    entry.type === "directory"
+      ? [entry.path, ...listDirectories(entry.children || [])]
+      : []
+  );
+}
+
+const matchesQuery = (pkg: ReportPackage, query: ReportQuery) => {
+  const search = query.search.trim().toLowerCase();
+  return (
+    (!search ||
+      [pkg.name, pkg.description, pkg.summary].some((text) =>
+        text.toLowerCase().includes(search)
+      )) &&
+    (query.statuses.length === 0 || query.statuses.includes(pkg.status)) &&
+    (!query.license || pkg.license === query.license) &&
+    (!query.alternativesOnly || pkg.hasAlternatives)
+  );
+};
+
+// Largest, newest or healthiest first; packages missing the value go last
+const sortValue = (pkg: ReportPackage, sort: ReportSort) => {
+  switch (sort) {
+    case "downloads":
+      return pkg.weeklyDownloads;
+    case "lastPublished":
+      return pkg.lastPublished ? Date.parse(pkg.lastPublished) : undefined;
+    case "size":
+      return pkg.size;
+    case "health":
+      return pkg.health;
+    default:
+      return pkg.usage;
+  }
+};
+
+// Filter and sort the packages, optionally grouped by the directories of
+// the files importing them. Directories follow the order of `directories`
+// (the analysed structure); others, e.g. for single files, come after.
+export function queryReport(
+  packages: ReportPackage[],
+  query: ReportQuery,
+  directories: string[] = []
+): ReportGroup[] {
+  const sorted = packages
+    .filter((pkg) => matchesQuery(pkg, query))
+    .sort((a, b) => {
+      const valueA = sortValue(a, query.sort);
+      const valueB = sortValue(b, query.sort);
+      if (valueA !== valueB) {
+        if (valueA === undefined || Number.isNaN(valueA)) {
+          return 1;
+        }
+        if (valueB === undefined || Number.isNaN(valueB)) {
+          return -1;
+        }
+        return valueB - valueA;
+      }
+      return (
+        packageStatusOrder.indexOf(a.status) -
+          packageStatusOrder.indexOf(b.status) || a.name.localeCompare(b.name)
+      );
+    });
+
+  if (!query.groupByDirectory) {
+    return [{ packages: sorted.map((pkg) => pkg.name) }];
+  }
+
+  const groups = new Map<string, string[]>(
+    directories.map((directory) => [directory, []])
+  );
+  sorted.forEach((pkg) => {
+    const packageDirectories = new Set(
+      pkg.files.map((filePath) => path.dirname(filePath))
+    );
+    packageDirectories.forEach((directory) => {
+      const group = groups.get(directory) ?? [];
+      group.push(pkg.name);
+      groups.set(directory, group);
+    });
+  });
+
+  const known = new Set(directories);
+  return Array.from(groups.entries())
+    .filter(([, names]) => names.length > 0)
+    .sort(
+      ([a], [b]) =>
+        Number(!known.has(a)) - Number(!known.has(b)) ||
+        (known.has(a) ? 0 : a.localeCompare(b))
+    )
+    .map(([directory, names]) => ({ directory, packages: names }));
+}